@@ -1,6 +1,7 @@
-import { ChromaClient, Collection } from 'chromadb';
+import { ChromaClient, Collection, IncludeEnum } from 'chromadb';
 import { EmbeddingFactory, EmbeddingProvider } from '../embedding/index.js';
 import { Logger } from '../utils/Logger.js';
+import { SearchFilters, SearchFilterTranslator } from './SearchFilters.js';
 
 // ChromaDB Integration Class
 export class ChromaDBClient {
@@ -177,26 +178,24 @@ export class ChromaDBClient {
    * Search for similar memories using semantic search
    * Required by the MemoryPipelineBase interface
    */
-  async searchSimilar(query: string, limit: number = 5, categories?: string[]): Promise<{ results: any[]; error?: string }> {
+  async searchSimilar(query: string, limit: number = 5, categories?: string[], filters?: SearchFilters): Promise<{ results: any[]; error?: string }> {
     if (!this.collection) {
       return { results: [], error: 'ChromaDB not initialized' };
     }
 
     try {
-      Logger.debug('ChromaDB searchSimilar called', { query, limit, categories });
-
-      // Build filter for categories if provided
-      let filter: any = undefined;
-      if (categories && categories.length > 0) {
-        filter = {
-          "category": { "$in": categories }
-        };
-      }
+      Logger.debug('ChromaDB searchSimilar called', { query, limit, categories, filters });
 
-      // Perform semantic search using ChromaDB's query method
+      // Concept documents carry the memory category as source_category
+      const searchFilters = SearchFilterTranslator.withCategories(filters, categories);
+      const filter = SearchFilterTranslator.toChromaWhere(searchFilters);
+      const checkConcepts = SearchFilterTranslator.needsConceptCheck(searchFilters);
+
+      // Perform semantic search using ChromaDB's query method; keyword and date
+      // filters are checked afterwards, so more candidates are fetched for them
       const searchResults = await this.collection.query({
         queryTexts: [query],
-        nResults: limit,
+        nResults: checkConcepts ? limit * 3 : limit,
         where: filter
       });
 
@@ -213,22 +212,33 @@ export class ChromaDBClient {
           id: ids[i],
           content: documents[i],
           source_memory_id: metadata.source_memory_id || null,
+          source_topic: metadata.source_topic || null,
+          source_category: metadata.source_category || null,
+          source_date: metadata.source_date || null,
           concept_title: metadata.concept_title || null,
+          memory_type: metadata.memory_type || null,
+          mood: metadata.mood || null,
+          confidence: typeof metadata.confidence === 'number' ? metadata.confidence : null,
+          keywords: metadata.keywords || null,
           category: metadata.category || null,
           timestamp: metadata.timestamp || null,
-          distance: distances[i] || null,
-          similarity_score: distances[i] ? (1 - distances[i]) : null,
+          distance: distances[i] ?? null,
+          similarity_score: typeof distances[i] === 'number' ? (1 - distances[i]!) : null,
           source: 'chromadb'
         });
       }
 
+      const filtered = checkConcepts
+        ? results.filter(result => SearchFilterTranslator.matchesConcept(result, searchFilters)).slice(0, limit)
+        : results;
+
       Logger.debug('ChromaDB searchSimilar completed', { 
         query, 
-        resultCount: results.length,
-        hasFilter: !!filter 
+        resultCount: filtered.length,
+        hasFilter: !!filter || checkConcepts
       });
 
-      return { results };
+      return { results: filtered };
 
     } catch (error) {
       Logger.error('ChromaDB searchSimilar failed', { query, error });
@@ -236,6 +246,186 @@ export class ChromaDBClient {
     }
   }
 
+  /**
+   * List the source memory of every concept document
+   * Used by the consistency checker to find concepts without a memory
+   */
+  async getConceptSources(pageSize: number = 500): Promise<{ sources: Array<{ id: string; source_memory_id: number | null; memory_type: string }>; error?: string }> {
+    if (!this.collection) {
+      return { sources: [], error: 'ChromaDB not initialized' };
+    }
+
+    try {
+      const sources: Array<{ id: string; source_memory_id: number | null; memory_type: string }> = [];
+      
+      for (let offset = 0; ; offset += pageSize) {
+        const page = await this.collection.get({
+          limit: pageSize,
+          offset,
+          include: [IncludeEnum.metadatas]
+        });
+        
+        page.ids.forEach((id, index) => {
+          const metadata: any = page.metadatas?.[index] || {};
+          const sourceId = metadata.source_memory_id ?? metadata.memory_id;
+          sources.push({
+            id,
+            source_memory_id: sourceId !== undefined && sourceId !== null && sourceId !== '' ? Number(sourceId) : null,
+            memory_type: metadata.memory_type || metadata.category || ''
+          });
+        });
+        
+        if (page.ids.length < pageSize) break;
+      }
+
+      Logger.debug('ChromaDB concept sources listed', { count: sources.length });
+      return { sources };
+    } catch (error) {
+      Logger.error('ChromaDB concept source listing failed', { error: String(error) });
+      return { sources: [], error: String(error) };
+    }
+  }
+
+  async deleteConcepts(ids: string[]): Promise<{ success: boolean; deleted: number; error?: string }> {
+    if (!this.collection) {
+      return { success: false, deleted: 0, error: 'ChromaDB not initialized' };
+    }
+    
+    if (ids.length === 0) {
+      return { success: true, deleted: 0 };
+    }
+
+    try {
+      await this.collection.delete({ ids });
+      Logger.success('ChromaDB concepts deleted', { count: ids.length });
+      return { success: true, deleted: ids.length };
+    } catch (error) {
+      Logger.error('ChromaDB concept deletion failed', { count: ids.length, error: String(error) });
+      return { success: false, deleted: 0, error: String(error) };
+    }
+  }
+
+  /**
+   * Delete all concept documents extracted from one memory
+   * Used when a memory is deleted or its content is re-analyzed
+   */
+  async deleteConceptsByMemoryId(memoryId: number): Promise<{ success: boolean; deleted: number; error?: string }> {
+    if (!this.collection) {
+      return { success: false, deleted: 0, error: 'ChromaDB not initialized' };
+    }
+
+    try {
+      const existing = await this.collection.get({ where: { source_memory_id: memoryId }, include: [] });
+      return await this.deleteConcepts(existing.ids);
+    } catch (error) {
+      Logger.error('ChromaDB concept lookup for deletion failed', { memoryId, error: String(error) });
+      return { success: false, deleted: 0, error: String(error) };
+    }
+  }
+
+  /**
+   * Update the source metadata (topic, category) of a memory's concept documents
+   * Concept texts and embeddings stay untouched
+   */
+  async updateConceptSource(memoryId: number, source: { topic?: string; category?: string }): Promise<{ success: boolean; updated: number; error?: string }> {
+    if (!this.collection) {
+      return { success: false, updated: 0, error: 'ChromaDB not initialized' };
+    }
+
+    const metadata: Record<string, string> = {};
+    if (source.topic !== undefined) metadata.source_topic = source.topic;
+    if (source.category !== undefined) metadata.source_category = source.category;
+    
+    if (Object.keys(metadata).length === 0) {
+      return { success: true, updated: 0 };
+    }
+
+    try {
+      const existing = await this.collection.get({ where: { source_memory_id: memoryId }, include: [] });
+      if (existing.ids.length === 0) {
+        return { success: true, updated: 0 };
+      }
+      
+      await this.collection.update({
+        ids: existing.ids,
+        metadatas: existing.ids.map(() => metadata)
+      });
+      
+      Logger.success('ChromaDB concept source updated', { memoryId, count: existing.ids.length });
+      return { success: true, updated: existing.ids.length };
+    } catch (error) {
+      Logger.error('ChromaDB concept source update failed', { memoryId, error: String(error) });
+      return { success: false, updated: 0, error: String(error) };
+    }
+  }
+
+  /**
+   * Find memories whose concepts are close to the concepts of the given memory
+   * Similarity is the cosine similarity of the concept embeddings; per related
+   * memory the best matching concept pair counts
+   */
+  async findSimilarMemories(memoryId: number, limit: number = 10): Promise<{ matches: Array<{ memory_id: number; similarity: number; concept_title: string; source_topic: string }>; error?: string }> {
+    if (!this.collection) {
+      return { matches: [], error: 'ChromaDB not initialized' };
+    }
+
+    try {
+      const own = await this.collection.get({
+        where: { source_memory_id: memoryId },
+        include: [IncludeEnum.embeddings]
+      });
+      const ownEmbeddings = (own.embeddings || []).filter(embedding => Array.isArray(embedding) && embedding.length > 0);
+      if (ownEmbeddings.length === 0) {
+        return { matches: [] };
+      }
+
+      const result = await this.collection.query({
+        queryEmbeddings: ownEmbeddings,
+        nResults: limit * 3,
+        where: { source_memory_id: { $ne: memoryId } },
+        include: [IncludeEnum.embeddings, IncludeEnum.metadatas]
+      });
+
+      const best = new Map<number, { memory_id: number; similarity: number; concept_title: string; source_topic: string }>();
+      ownEmbeddings.forEach((ownEmbedding, queryIndex) => {
+        (result.ids[queryIndex] || []).forEach((_, resultIndex) => {
+          const metadata: any = result.metadatas?.[queryIndex]?.[resultIndex] || {};
+          const embedding = result.embeddings?.[queryIndex]?.[resultIndex];
+          const relatedId = Number(metadata.source_memory_id);
+          if (!embedding || isNaN(relatedId)) return;
+
+          const similarity = ChromaDBClient.cosineSimilarity(ownEmbedding, embedding);
+          const current = best.get(relatedId);
+          if (!current || similarity > current.similarity) {
+            best.set(relatedId, { memory_id: relatedId, similarity, concept_title: metadata.concept_title || '', source_topic: metadata.source_topic || '' });
+          }
+        });
+      });
+
+      const matches = Array.from(best.values())
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, limit);
+
+      Logger.debug('ChromaDB similar memories found', { memoryId, count: matches.length });
+      return { matches };
+    } catch (error) {
+      Logger.error('ChromaDB similar memory search failed', { memoryId, error: String(error) });
+      return { matches: [], error: String(error) };
+    }
+  }
+
+  private static cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+  }
+
   async getCollectionInfo(): Promise<any> {
     if (!this.collection) {
       return { initialized: false };
@@ -4,6 +4,10 @@ import { Logger } from '../utils/Logger.js';
 // Load environment variables
 dotenv.config();
 
+// PostgreSQL text search configurations; 'auto' detects the language per memory
+export type TextSearchConfig = 'german' | 'english' | 'simple' | 'auto';
+export const TEXT_SEARCH_CONFIGS: TextSearchConfig[] = ['german', 'english', 'simple', 'auto'];
+
 export interface DatabaseConfig {
   type: 'sqlite' | 'postgresql';
   // SQLite specific
@@ -17,6 +21,7 @@ export interface DatabaseConfig {
   max?: number;
   idleTimeoutMillis?: number;
   connectionTimeoutMillis?: number;
+  textSearchConfig?: TextSearchConfig;
 }
 
 export class DatabaseConfigManager {
@@ -45,6 +50,7 @@ export class DatabaseConfigManager {
         max: parseInt(process.env.POSTGRES_MAX_CONNECTIONS || '20', 10),
         idleTimeoutMillis: parseInt(process.env.POSTGRES_IDLE_TIMEOUT_MILLIS || '30000', 10),
         connectionTimeoutMillis: parseInt(process.env.POSTGRES_CONNECTION_TIMEOUT_MILLIS || '5000', 10), // Increased timeout
+        textSearchConfig: (process.env.POSTGRES_TEXT_SEARCH_CONFIG || 'german').trim().toLowerCase() as TextSearchConfig,
       };
     }
     
@@ -72,6 +78,9 @@ export class DatabaseConfigManager {
       if (!config.host || !config.port || !config.database || !config.user || !config.password) {
         throw new Error('PostgreSQL configuration is incomplete. Missing required fields.');
       }
+      if (config.textSearchConfig && !TEXT_SEARCH_CONFIGS.includes(config.textSearchConfig)) {
+        throw new Error(`Unsupported POSTGRES_TEXT_SEARCH_CONFIG: ${config.textSearchConfig}. Use one of: ${TEXT_SEARCH_CONFIGS.join(', ')}`);
+      }
     } else if (config.type === 'sqlite') {
       if (!config.sqliteDbPath) {
         throw new Error('SQLite configuration is incomplete. Missing database path.');
@@ -92,6 +101,7 @@ export class DatabaseConfigManager {
         maxConnections: config.max,
         idleTimeout: config.idleTimeoutMillis,
         connectionTimeout: config.connectionTimeoutMillis,
+        textSearchConfig: config.textSearchConfig,
       });
     } else {
       Logger.info('Database Configuration', {
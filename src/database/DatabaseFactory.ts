@@ -3,14 +3,18 @@ import { SQLiteDatabaseRefactored } from './SQLiteDatabaseRefactored.js';
 import { PostgreSQLDatabaseRefactored } from './PostgreSQLDatabaseRefactored.js';
 import { Logger } from '../utils/Logger.js';
 import { ContainerManager } from '../utils/ContainerManager.js';
+import { MemoryPipelinePhase } from './MemorySavePipeline.js';
+import { SearchFilters } from './SearchFilters.js';
+import { FusionSettings } from './SearchFusion.js';
+import { KeysetPosition } from './SearchCursor.js';
 
 // Unified interface for both database types
 export interface IMemoryDatabase {
   // Core CRUD operations
-  getMemoriesByCategory(category: string, limit?: number): Promise<any[]>;
+  getMemoriesByCategory(category: string, limit?: number, after?: KeysetPosition): Promise<any[]>;
   saveNewMemory(category: string, topic: string, content: string): Promise<any>;
   getAllMemories?(limit?: number): Promise<any[]>;
-  searchMemoriesBasic(searchTerm: string, categories?: string[]): Promise<any[]>; // Updated from searchMemories
+  searchMemoriesBasic(searchTerm: string, categories?: string[], filters?: SearchFilters): Promise<any[]>; // Updated from searchMemories
   getMemoryById(id: number): Promise<any | null>;
   updateMemoryAdvanced?(id: number, updates?: { category?: string; topic?: string; content?: string }, topic?: string, content?: string, category?: string): Promise<boolean | any>; // Made optional
   updateMemory?(id: number, updates: { topic?: string; content?: string; category?: string }): Promise<{ changedRows: number }>;
@@ -19,7 +23,7 @@ export interface IMemoryDatabase {
   
   // Extended SQLite-compatible methods
   listCategories?(): Promise<Array<{category: string, count: number}>>;
-  getRecentMemories?(limit: number): Promise<any[]>;
+  getRecentMemories?(limit: number, after?: KeysetPosition): Promise<any[]>;
   saveNewMemoryAdvanced?(category: string, topic: string, content: string): Promise<any>;
   searchMemoriesAdvanced?(query: string, categories?: string[]): Promise<any>;
   moveMemory?(id: number, newCategory: string): Promise<any>;
@@ -29,20 +33,56 @@ export interface IMemoryDatabase {
   updateJobProgress?(jobId: string, current: number, status?: string): Promise<void>;
   updateJobStatus?(jobId: string, status: string, errorMessage?: string): Promise<void>;
   getJobStatus?(jobId: string): Promise<any | null>;
-  saveAnalysisResult?(jobId: string, memoryId: number, result: any): Promise<void>;
+  getJobsByStatus?(statuses: string[]): Promise<any[]>;
+  saveAnalysisResult?(jobId: string, memoryId: number, result: any, status?: string): Promise<void>;
   getAnalysisResults?(jobId: string): Promise<any[]>;
+  markAnalysisResultsPending?(jobId: string, memoryIds: number[]): Promise<number>;
+  
+  // Pending write outbox methods
+  createPendingWrite?(memoryId: number, target: string, payload: any): Promise<number>;
+  getPendingWrites?(statuses?: string[], limit?: number): Promise<any[]>;
+  recordPendingWriteAttempt?(id: number, status: string, errorMessage?: string): Promise<void>;
+  cancelPendingWrites?(memoryId: number): Promise<number>;
+  
+  // Consistency methods
+  recordRoutedMemory?(memoryId: number, memoryType: string, topic: string): Promise<void>;
+  deleteRoutedMemory?(memoryId: number): Promise<boolean>;
+  getRoutedMemoryIds?(): Promise<number[]>;
+  getAllMemoryIds?(): Promise<number[]>;
+  
+  // Recall tracking and consolidation methods
+  recordMemoryAccess?(memoryIds: number[], event?: { tool: string; query?: string }): Promise<void>;
+  getMemoryAccessStats?(memoryIds: number[]): Promise<Map<number, { access_count: number; last_accessed_at: string | null }>>;
+  getConsolidationCandidates?(): Promise<Array<{ id: number; category: string; topic: string; created_at: string; access_count: number; last_accessed_at: string | null; access_tracked_since: string | null }>>;
+  
+  // Conversation session methods
+  createSession?(id: string, title?: string): Promise<void>;
+  getSession?(id: string): Promise<any | null>;
+  completeSession?(id: string, summaryMemoryId: number | null): Promise<boolean>;
+  recordSessionMemories?(sessionId: string, memoryIds: number[], action: 'saved' | 'recalled'): Promise<void>;
+  getSessionMemories?(sessionId: string): Promise<Array<{ memory_id: number; action: string }>>;
+  beginSession?(title?: string): Promise<any>;
+  endSession?(sessionId: string): Promise<any>;
   
   // Short memory methods
   addToShortMemory?(memory: any): Promise<void>;
-  getShortMemories?(limit?: number): Promise<any[]>;
-  getShortMemoryCount?(): Promise<number>;
-  clearShortMemory?(): Promise<void>;
+  getShortMemories?(limit?: number, sessionId?: string): Promise<any[]>;
+  getShortMemoryCount?(sessionId?: string): Promise<number>;
+  getShortMemoryById?(id: number): Promise<any | null>;
+  deleteShortMemory?(id: number): Promise<boolean>;
+  promoteShortMemory?(shortMemoryId: number, category?: string): Promise<any>;
+  clearShortMemory?(sessionId?: string): Promise<void>;
   
   // Graph statistics and advanced features
   getGraphStatistics?(): Promise<any>;
-  searchMemoriesIntelligent?(query: string, categories?: string[], enableReranking?: boolean, rerankStrategy?: 'hybrid' | 'llm' | 'text'): Promise<any>;
-  searchMemoriesWithGraph?(query: string, categories?: string[], includeRelated?: boolean, maxRelationshipDepth?: number): Promise<any>;
+  searchMemoriesIntelligent?(query: string, categories?: string[], enableReranking?: boolean, rerankStrategy?: 'hybrid' | 'llm' | 'text', fusion?: Partial<FusionSettings>, filters?: SearchFilters, explain?: boolean): Promise<any>;
+  searchMemoriesWithGraph?(query: string, categories?: string[], includeRelated?: boolean, maxRelationshipDepth?: number, filters?: SearchFilters, explain?: boolean): Promise<any>;
   saveMemoryWithGraph?(category: string, topic: string, content: string, forceRelationships?: any[]): Promise<any>;
+  addPipelinePhase?(phase: MemoryPipelinePhase, position?: { before?: string; after?: string }): void;
+  deleteMemoryCascade?(id: number): Promise<any>;
+  updateMemoryCascade?(id: number, updates: { topic?: string; content?: string; category?: string }): Promise<any>;
+  mergeMemories?(targetId: number, duplicateIds: number[], mergedContent?: string): Promise<any>;
+  resolveContradiction?(memoryId: number, conflictingMemoryId: number, resolution: 'keep' | 'supersede' | 'merge', mergedContent?: string): Promise<any>;
   searchMemoriesWithReranking?(query: string, categories?: string[], rerankStrategy?: string): Promise<any>;
   searchMemoriesIntelligentWithReranking?(query: string, categories?: string[]): Promise<any>;
   searchConceptsOnly?(query: string, categories?: string[], limit?: number): Promise<any>;
@@ -175,6 +215,7 @@ export class DatabaseFactory {
           max: config.max,
           idleTimeoutMillis: config.idleTimeoutMillis,
           connectionTimeoutMillis: config.connectionTimeoutMillis,
+          textSearchConfig: config.textSearchConfig,
         });
         
         // Verify the database is healthy
@@ -365,6 +406,7 @@ export class DatabaseFactory {
         max: config.max,
         idleTimeoutMillis: config.idleTimeoutMillis,
         connectionTimeoutMillis: config.connectionTimeoutMillis,
+        textSearchConfig: config.textSearchConfig,
       });
       
       // Test PostgreSQL connection
@@ -1,26 +1,47 @@
+import { v4 as uuidv4 } from 'uuid';
 import { Logger } from '../utils/Logger.js';
+import { MemorySavePipeline, MemoryPipelineContext, MemoryPipelinePhase, ContradictionFlag, DuplicateFlag, toStorableMemory } from './MemorySavePipeline.js';
+import { ShortMemoryManager, ShortMemoryEntry } from './ShortMemoryManager.js';
+import { SearchFusion, FusionSettings, SearchSource, SourceRank } from './SearchFusion.js';
+import { SearchFilters, SearchFilterTranslator, SearchStore } from './SearchFilters.js';
+import { KeysetPosition } from './SearchCursor.js';
+import { TemporalQueryParser, TemporalRange } from '../utils/TemporalQueryParser.js';
 
 // Forward declarations
 interface SemanticAnalyzer {
   extractAndAnalyzeConcepts(memory: any): Promise<any>;
   evaluateSignificance(memory: any, memoryType: string): Promise<any>;
+  scoreRelevance?(query: string, candidates: any[]): Promise<{ scores?: Array<{ id: number; relevance: number; justification: string }>; error?: string }>;
+  classifyRelationships?(memory: any, candidates: any[]): Promise<{ relationships?: any[]; error?: string }>;
+  summarizeSession?(session: { title?: string; started_at?: string }, memories: any[]): Promise<{ summary?: { topic: string; content: string }; error?: string }>;
 }
 
 interface ChromaDBClient {
   storeConcepts(memory: any, concepts: any[]): Promise<{ success: boolean; stored: number; errors: string[] }>;
-  searchSimilar(query: string, limit?: number, categories?: string[]): Promise<{ results: any[]; error?: string }>;
+  searchSimilar(query: string, limit?: number, categories?: string[], filters?: SearchFilters): Promise<{ results: any[]; error?: string }>;
+  findSimilarMemories(memoryId: number, limit?: number): Promise<{ matches: Array<{ memory_id: number; similarity: number; concept_title: string; source_topic: string }>; error?: string }>;
+  deleteConceptsByMemoryId(memoryId: number): Promise<{ success: boolean; deleted: number; error?: string }>;
+  updateConceptSource(memoryId: number, source: { topic?: string; category?: string }): Promise<{ success: boolean; updated: number; error?: string }>;
 }
 
 interface Neo4jClient {
   // Neo4j memory node and relationship management
   createMemoryNodeWithConcepts(memory: any, concepts: any[]): Promise<{ success: boolean; nodeId: string; error?: string }>;
-  createRelationships(memoryNodeId: string, relatedMemories: any[]): Promise<{ success: boolean; relationshipsCreated: number; errors?: string[] }>;
-  findRelatedMemories(memory: any, concepts: any[]): Promise<{ relatedMemories: any[]; error?: string }>;
+  createRelationships(memoryNodeId: string | number, relationships: Array<{ targetId: string | number; relationshipType: string; properties?: Record<string, any> }>): Promise<{ success: boolean; relationshipsCreated: number; outcomes?: Array<{ targetId: string | number; relationshipType: string; created: boolean; error?: string }>; errors?: string[] }>;
+  findMemoriesSharingConcepts(memoryId: string | number, minShared?: number, limit?: number): Promise<Array<{ memory_id: number; shared_concepts: string[]; score: number }>>;
+  findPreviousMemory(memoryId: string | number): Promise<{ memory_id: number; created_at: string } | null>;
   
   // Graph search methods
-  searchMemoriesBySemanticConcepts(concepts: string[], limit?: number): Promise<{ memories: any[]; error?: string }>;
-  findMemoriesInConceptCluster(nodeId: string, maxDepth?: number): Promise<{ memories: any[]; relationships: any[]; error?: string }>;
-  getMemoryWithRelationships(memoryId: number, relationshipDepth?: number, relationshipTypes?: string[]): Promise<{ memory: any; relationships: any[]; error?: string }>;
+  searchMemoriesBySemanticConcepts(concepts: string[], limit?: number, minSimilarity?: number, filters?: SearchFilters): Promise<{ memories: any[]; error?: string }>;
+  findMemoriesInConceptCluster(memoryId: string | number, maxDistance?: number, limit?: number): Promise<{ memories: any[]; relationships: any[]; error?: string }>;
+  getMemoryWithRelationships(memoryId: string | number, relationshipDepth?: number, relationshipTypes?: string[]): Promise<{ memory: any | null; relationships: any[]; error?: string }>;
+  getMemoriesByIds(ids: Array<string | number>): Promise<any[]>;
+  createRelationship(fromId: string | number, toId: string | number, relationshipType: string, properties?: Record<string, any>): Promise<void>;
+  updateMemoryNode(id: string | number, updates: { topic?: string; content?: string; category?: string }): Promise<boolean>;
+  replaceMemoryConcepts(memoryId: string | number, concepts: any[]): Promise<number>;
+  resolveContradiction(memoryId: string | number, otherMemoryId: string | number, resolution: string): Promise<number>;
+  repointRelationships(fromId: string | number, toId: string | number): Promise<number>;
+  deleteMemory(id: string | number): Promise<void>;
 }
 
 // Advanced Memory Pipeline Result Interface
@@ -35,9 +56,96 @@ export interface AdvancedMemoryResult {
   stored_in_short_memory?: boolean;
   analyzed_category?: string;
   significance_reason?: string;
+  pending_writes?: string[];
+  duplicates?: DuplicateFlag[];
+  contradictions?: ContradictionFlag[];
+  extras?: Record<string, any>;
   error?: string;
 }
 
+export interface ShortMemoryPromotionResult {
+  short_memory_id: number;
+  success: boolean;
+  memory?: AdvancedMemoryResult;
+  error?: string;
+}
+
+export interface GraphContextResult {
+  success: boolean;
+  memory: any | null;
+  direct_relationships: any[];
+  extended_relationships: any[];
+  relationship_summary: {
+    total_connections: number;
+    relationship_types: Record<string, number>;
+  };
+  error?: string;
+}
+
+// Cascade Result Interfaces
+export interface CascadeDeleteResult {
+  success: boolean;
+  memory_id: number;
+  found: boolean;
+  deleted_from_sql: boolean;
+  concepts_deleted: number;
+  deleted_from_neo4j: boolean;
+  pending_writes_cancelled: number;
+  errors: string[];
+}
+
+export interface MergeMemoriesResult {
+  success: boolean;
+  target_id: number;
+  merged_ids: number[];
+  reindexed: boolean;
+  relationships_repointed: number;
+  errors: string[];
+}
+
+export type ContradictionResolution = 'keep' | 'supersede' | 'merge';
+
+export interface ContradictionResolutionResult {
+  success: boolean;
+  resolution: ContradictionResolution;
+  kept_memory_id: number;
+  removed_memory_id?: number;
+  merged: boolean;
+  edges_resolved: number;
+  errors: string[];
+}
+
+export interface SessionRecord {
+  id: string;
+  title: string | null;
+  started_at: string;
+  ended_at: string | null;
+  summary_memory_id: number | null;
+}
+
+export interface EndSessionResult {
+  success: boolean;
+  session_id: string;
+  memories_touched: number;
+  summary_memory_id?: number;
+  summary_topic?: string;
+  relationships_created: number;
+  errors: string[];
+}
+
+export interface CascadeUpdateResult {
+  success: boolean;
+  memory_id: number;
+  found: boolean;
+  changed_rows: number;
+  reindexed: boolean;
+  concepts_deleted: number;
+  concepts_stored: number;
+  updated_in_neo4j: boolean;
+  pending_writes: string[];
+  errors: string[];
+}
+
 // Search Result Interfaces
 export interface IntelligentSearchResult {
   results: any[];
@@ -45,6 +153,9 @@ export interface IntelligentSearchResult {
     sql: { count: number; source: string };
     chroma: { count: number; source: string };
   };
+  fusion?: FusionSettings;
+  filters?: SearchFilters;
+  temporal?: TemporalRange;
   reranked: boolean;
   rerank_strategy?: string;
   total_found: number;
@@ -58,6 +169,8 @@ export interface GraphSearchResult {
     chroma: { count: number; source: string };
     neo4j: { count: number; source: string };
   };
+  filters?: SearchFilters;
+  temporal?: TemporalRange;
   relationships: any[];
   graph_context: {
     related_memories: number;
@@ -68,6 +181,24 @@ export interface GraphSearchResult {
   execution_time?: number;
 }
 
+// One signal of a reranking score; the components of a result add up to its score
+export interface ScoreComponent {
+  signal: string;
+  value: number;
+  detail?: string;
+}
+
+// Explain mode: how a search result got its position
+export interface SearchExplanation {
+  position: number;                                                   // final 1-based position
+  source_ranks: Partial<Record<SearchSource | 'neo4j', SourceRank>>;  // rank and raw score per search source
+  fusion_score: number | null;                                        // score of the SQL + vector rank fusion
+  vector_distance: number | null;                                     // ChromaDB distance of the best concept hit
+  matched_terms: string[];                                            // query terms found in topic or content
+  days_since_use: number | null;                                      // since the last recall, otherwise since creation
+  rerank: { strategy: string; score: number; components: ScoreComponent[] } | null;
+}
+
 /**
  * Base class for Memory Pipeline implementations
  * Provides common advanced memory processing logic that can be shared
@@ -78,17 +209,43 @@ export abstract class MemoryPipelineBase {
   public chromaClient: ChromaDBClient | null = null;
   public neo4jClient: Neo4jClient | null = null;
 
+  // Shared save pipeline, extended per instance via addPipelinePhase
+  protected savePipeline: MemorySavePipeline = new MemorySavePipeline();
+  
+  // Rank fusion of SQL and ChromaDB results in the intelligent search
+  protected searchFusion: SearchFusion = new SearchFusion();
+  
+  // Short-term memory store, created by the backend for its database
+  protected shortMemoryManager: ShortMemoryManager | null = null;
+
+  // LLM reranking bounds: candidates scored in total, per prompt, and content chars per candidate
+  private static readonly LLM_RERANK_MAX_CANDIDATES = 24;
+  private static readonly LLM_RERANK_BATCH_SIZE = 8;
+  private static readonly LLM_RERANK_CONTENT_CHARS = 600;
+  
+  // Recall frequency bonus saturates at this many recorded accesses
+  private static readonly ACCESS_BONUS_SATURATION = 16;
+
   // Abstract methods that must be implemented by subclasses
   abstract saveNewMemory(category: string, topic: string, content: string): Promise<any>;
   abstract getMemoryById(id: number): Promise<any | null>;
   abstract deleteMemory(id: number): Promise<boolean | any>;
-  abstract addToShortMemory(memory: any): Promise<void>;
   abstract updateMemory(id: number, updates: { topic?: string; content?: string; category?: string }): Promise<{ changedRows: number }>;
   abstract moveMemory?(id: number, newCategory: string): Promise<any>;
+  abstract createPendingWrite?(memoryId: number, target: string, payload: any): Promise<number>;
+  abstract recordRoutedMemory?(memoryId: number, memoryType: string, topic: string): Promise<void>;
+  abstract deleteRoutedMemory?(memoryId: number): Promise<boolean>;
+  abstract cancelPendingWrites?(memoryId: number): Promise<number>;
+  abstract getMemoryAccessStats?(memoryIds: number[]): Promise<Map<number, { access_count: number; last_accessed_at: string | null }>>;
+  abstract createSession?(id: string, title?: string): Promise<void>;
+  abstract getSession?(id: string): Promise<SessionRecord | null>;
+  abstract completeSession?(id: string, summaryMemoryId: number | null): Promise<boolean>;
+  abstract recordSessionMemories?(sessionId: string, memoryIds: number[], action: 'saved' | 'recalled'): Promise<void>;
+  abstract getSessionMemories?(sessionId: string): Promise<Array<{ memory_id: number; action: string }>>;
   
   // Abstract search methods that must be implemented by subclasses
-  abstract searchMemoriesBasic(query: string, categories?: string[]): Promise<any[]>;
-  abstract getMemoriesByCategory(category: string, limit?: number): Promise<any[]>;
+  abstract searchMemoriesBasic(query: string, categories?: string[], filters?: SearchFilters): Promise<any[]>;
+  abstract getMemoriesByCategory(category: string, limit?: number, after?: KeysetPosition): Promise<any[]>;
 
   // Validation helper
   protected validateCategory(category: string): void {
@@ -111,505 +268,613 @@ export abstract class MemoryPipelineBase {
     Logger.debug('Category validation passed', { category });
   }
 
+  /**
+   * Short-term memory, shared by all backends through the ShortMemoryManager
+   * Entries evicted by the FIFO limit or their TTL are queued for the save pipeline
+   */
+  async addToShortMemory(memory: any): Promise<void> {
+    const evicted = await this.requireShortMemory().add(memory);
+    await this.queueEvictedShortMemories(evicted);
+  }
+
+  async getShortMemories(limit?: number, sessionId?: string): Promise<ShortMemoryEntry[]> {
+    return this.requireShortMemory().list(limit, sessionId ?? null);
+  }
+
+  async getShortMemoryCount(sessionId?: string): Promise<number> {
+    return this.requireShortMemory().count(sessionId ?? null);
+  }
+
+  async getShortMemoryById(id: number): Promise<ShortMemoryEntry | null> {
+    return this.requireShortMemory().get(id);
+  }
+
+  async deleteShortMemory(id: number): Promise<boolean> {
+    return this.requireShortMemory().delete(id);
+  }
+
+  async clearShortMemory(sessionId?: string): Promise<void> {
+    await this.requireShortMemory().clear(sessionId);
+  }
+
+  private requireShortMemory(): ShortMemoryManager {
+    if (!this.shortMemoryManager) {
+      throw new Error('Short memory store not initialized');
+    }
+    return this.shortMemoryManager;
+  }
+
+  /**
+   * Register an additional save pipeline phase
+   * Without a position the phase runs after routing
+   */
+  addPipelinePhase(phase: MemoryPipelinePhase, position?: { before?: string; after?: string }): void {
+    this.savePipeline.addPhase(phase, position);
+  }
+
   /**
    * Core Advanced Memory Pipeline
-   * This is the sophisticated 6-phase pipeline that should be consistent
-   * across all database implementations
+   * Runs the shared MemorySavePipeline (classify, store vectors, store graph,
+   * evaluate significance, route) so every backend saves memories the same way
    */
   protected async executeAdvancedMemoryPipeline(
     category: string, 
     topic: string, 
-    content: string
+    content: string,
+    forceRelationships: any[] = []
   ): Promise<AdvancedMemoryResult> {
     Logger.separator('Advanced Memory Pipeline (Base)');
     Logger.info('Starting advanced memory save', { 
       category, 
       topic, 
-      contentLength: content.length 
+      contentLength: content.length,
+      phases: this.savePipeline.getPhaseNames()
     });
 
+    const context = MemorySavePipeline.createContext(category, topic, content, forceRelationships);
+
     try {
-      // Phase 0: Category normalization for LLM analysis
-      const VALID_CATEGORIES = [
-        'faktenwissen', 'prozedurales_wissen', 'erlebnisse', 
-        'bewusstsein', 'humor', 'zusammenarbeit', 
-        'forgotten_memories', 'kernerinnerungen', 'short_memory'
-      ];
-      
-      const normalizedCategory = VALID_CATEGORIES.includes(category) ? category : 'undefined';
-      
-      if (normalizedCategory === 'undefined') {
-        Logger.info('Category normalized for LLM analysis', { 
-          originalCategory: category, 
-          normalizedCategory: 'undefined',
-          reason: 'Will be determined by LLM analysis'
-        });
-      }
+      await this.savePipeline.execute(context, this);
 
-      // Phase 1: Temporary SQL storage (to get ID)
-      Logger.info('Phase 1: Saving to SQL for ID generation...', { 
-        category: normalizedCategory 
+      Logger.success('Advanced memory pipeline completed', {
+        memoryId: context.memoryId,
+        memoryType: context.memoryType,
+        keepInSQL: context.keepInSQL,
+        stored_in_chroma: context.stored_in_chroma,
+        conceptsStored: context.concepts_stored,
+        stored_in_neo4j: context.stored_in_neo4j,
+        stored_in_short_memory: context.stored_in_short_memory,
+        halted: context.halted
       });
-      const memoryResult = await this.saveNewMemory(normalizedCategory, topic, content);
-      const memoryId = memoryResult.id;
 
-      // Get the saved memory for analysis
-      const savedMemory = await this.getMemoryById(memoryId);
-      if (!savedMemory) {
-        throw new Error(`Failed to retrieve saved memory with ID ${memoryId}`);
-      }
-
-      // Phase 2: LLM-based Semantic Analysis
-      Logger.info('Phase 2: Starting semantic analysis...', { memoryId });
-      if (!this.analyzer) {
-        throw new Error('SemanticAnalyzer not available for advanced pipeline');
-      }
+      return this.toAdvancedMemoryResult(context);
 
-      const analysisResult = await this.analyzer.extractAndAnalyzeConcepts(savedMemory);
-      
-      // Debug: Log analysis result immediately
-      Logger.debug('Semantic analysis completed', {
-        memoryId,
-        hasError: !!analysisResult.error,
-        hasSemanticConcepts: !!analysisResult.semantic_concepts,
-        semanticConceptsLength: analysisResult.semantic_concepts?.length || 0,
-        analysisResultKeys: Object.keys(analysisResult || {})
+    } catch (error) {
+      Logger.error('Advanced memory pipeline failed', { 
+        category, 
+        topic, 
+        memoryId: context.memoryId,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined
       });
-      
-      if (analysisResult.error) {
-        Logger.error('Semantic analysis failed - keeping memory in SQL as fallback', { 
-          memoryId, 
-          error: analysisResult.error 
-        });
-        return { 
-          memory_id: memoryId, // Return actual memory ID, not 0
-          stored_in_chroma: false,
-          stored_in_neo4j: false,
-          relationships_created: 0,
-          stored_in_sqlite: true, // Memory is kept in SQL
-          analyzed_category: category, // Use original category as fallback
-          significance_reason: `Semantic analysis failed: ${analysisResult.error} - kept in SQL as fallback`,
-          error: `Semantic analysis failed: ${analysisResult.error}` 
-        };
-      }
+      return {
+        ...this.toAdvancedMemoryResult(context),
+        success: false,
+        error: `Pipeline failed: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
 
-      // Phase 3: ChromaDB Storage with Granular Concept Separation
-      Logger.info('Phase 3: ChromaDB storage with granular concepts...', { memoryId });
-      let stored_in_chroma = false;
-      let totalConceptsStored = 0;
-      
-      // Debug: Check ChromaDB and concepts availability
-      Logger.debug('ChromaDB availability check', {
-        memoryId,
-        hasChromaClient: !!this.chromaClient,
-        hasSemanticConcepts: !!analysisResult.semantic_concepts,
-        semanticConceptsLength: analysisResult.semantic_concepts?.length || 0,
-        semanticConceptsType: typeof analysisResult.semantic_concepts,
-        analysisResultKeys: Object.keys(analysisResult || {})
-      });
-      
-      if (this.chromaClient && analysisResult.semantic_concepts) {
-        try {
-          Logger.info('Creating separate ChromaDB entries for each concept', { 
-            memoryId, 
-            conceptCount: analysisResult.semantic_concepts.length 
-          });
+  private toAdvancedMemoryResult(context: MemoryPipelineContext): AdvancedMemoryResult {
+    return {
+      success: !context.error,
+      memory_id: context.memoryId,
+      stored_in_sqlite: context.memoryId > 0 && context.keepInSQL,
+      stored_in_lancedb: context.stored_in_chroma, // Compatibility mapping
+      stored_in_chroma: context.stored_in_chroma,
+      stored_in_neo4j: context.stored_in_neo4j,
+      stored_in_short_memory: context.stored_in_short_memory,
+      relationships_created: context.relationships_created,
+      analyzed_category: context.memoryType || context.normalizedCategory,
+      significance_reason: context.significanceReason,
+      pending_writes: context.pendingWrites.map(write => write.target),
+      duplicates: context.extras.duplicates || [],
+      contradictions: context.extras.contradictions || [],
+      extras: context.extras,
+      error: context.error
+    };
+  }
 
-          const storagePromises = analysisResult.semantic_concepts.map(async (concept: any, index: number) => {
-            // Create separate ChromaDB entry for each concept with its summary
-            const conceptEntry = {
-              id: `${savedMemory.id}_concept_${index + 1}`,
-              concept_description: concept.concept_description || concept.extracted_summaries?.[0] || concept.content,
-              concept_title: concept.concept_title || `Concept ${index + 1}`,
-              metadata: {
-                // Source memory metadata
-                source_memory_id: savedMemory.id,
-                source_category: savedMemory.category,
-                source_topic: savedMemory.topic,
-                source_date: savedMemory.date?.toString() || '',
-                source_created_at: savedMemory.created_at?.toString() || '',
-                
-                // Concept-specific metadata
-                concept_title: concept.concept_title || `Concept ${index + 1}`,
-                concept_index: index + 1,
-                concept_memory_type: concept.memory_type,
-                concept_confidence: concept.confidence,
-                concept_mood: concept.mood || '',
-                concept_keywords: concept.keywords?.join(', ') || '',
-                
-                // Enhanced search metadata
-                is_granular_concept: true,
-                concept_summary: concept.extracted_summaries?.[0] || concept.concept_description
-              }
-            };
-
-            Logger.debug(`Storing concept ${index + 1}/${analysisResult.semantic_concepts.length}`, {
-              memoryId,
-              conceptTitle: conceptEntry.concept_title,
-              contentLength: conceptEntry.concept_description?.length || 0,
-              hasContent: !!conceptEntry.concept_description,
-              conceptDescription: concept.concept_description?.substring(0, 50) + '...',
-              extractedSummaries: concept.extracted_summaries?.length || 0
-            });
-
-            return this.chromaClient!.storeConcepts(savedMemory, [conceptEntry]);
-          });
+  /**
+   * Standardized saveMemoryWithGraph implementation
+   * All backends share this entry point into the save pipeline
+   */
+  async saveMemoryWithGraph(
+    category: string, 
+    topic: string, 
+    content: string, 
+    forceRelationships?: any[]
+  ): Promise<AdvancedMemoryResult> {
+    return this.executeAdvancedMemoryPipeline(category, topic, content, forceRelationships || []);
+  }
 
-          // Execute all concept storage operations
-          const storageResults = await Promise.allSettled(storagePromises);
-          
-          // Analyze results
-          let successfulStores = 0;
-          let errors: string[] = [];
-          
-          storageResults.forEach((result, index) => {
-            if (result.status === 'fulfilled' && result.value.success) {
-              successfulStores += result.value.stored;
-              Logger.debug(`Concept ${index + 1} stored successfully`, { 
-                memoryId, 
-                storedCount: result.value.stored 
-              });
-            } else {
-              const error = result.status === 'rejected' 
-                ? result.reason 
-                : result.value.errors?.join(', ') || 'Unknown error';
-              errors.push(`Concept ${index + 1}: ${error}`);
-              Logger.warn(`Concept ${index + 1} storage failed`, { memoryId, error });
-            }
-          });
+  /**
+   * Delete a memory from every store
+   * Also covers memories the save pipeline routed out of SQL, which only live
+   * in ChromaDB/Neo4j. Store failures are reported, not thrown, so leftovers can
+   * be cleaned up later via the consistency checker
+   */
+  async deleteMemoryCascade(id: number): Promise<CascadeDeleteResult> {
+    Logger.separator('Cascade Memory Delete');
+    Logger.info('Deleting memory from all stores', { memoryId: id });
+
+    const result: CascadeDeleteResult = {
+      success: true,
+      memory_id: id,
+      found: false,
+      deleted_from_sql: false,
+      concepts_deleted: 0,
+      deleted_from_neo4j: false,
+      pending_writes_cancelled: 0,
+      errors: []
+    };
 
-          stored_in_chroma = successfulStores > 0;
-          totalConceptsStored = successfulStores;
-          
-          if (errors.length > 0) {
-            Logger.warn('Some ChromaDB concept storage failed', { 
-              memoryId, 
-              successfulStores,
-              failedStores: errors.length,
-              errors: errors.slice(0, 3) // Log first 3 errors
-            });
-          } else {
-            Logger.success('All ChromaDB concepts stored successfully', { 
-              memoryId, 
-              totalConcepts: analysisResult.semantic_concepts.length,
-              storedConcepts: successfulStores
-            });
-          }
-        } catch (error) {
-          Logger.error('ChromaDB granular concept storage error', { memoryId, error });
-        }
-      } else {
-        Logger.warn('ChromaDB storage skipped', { 
-          chromaClientAvailable: !!this.chromaClient, 
-          conceptsAvailable: !!analysisResult.semantic_concepts 
-        });
-      }
+    const existing = await this.getMemoryById(id);
+    if (existing) {
+      result.deleted_from_sql = !!(await this.deleteMemory(id));
+    }
 
-      // Phase 4: Memory Type Detection and Category Update
-      const memoryType = analysisResult.semantic_concepts?.[0]?.memory_type;
-      if (!memoryType) {
-        Logger.error('Could not determine memory type from analysis - keeping memory in SQL with original category', { memoryId });
-        return {
-          memory_id: memoryId, // Return actual memory ID, not 0
-          stored_in_chroma,
-          stored_in_neo4j: false,
-          relationships_created: 0,
-          stored_in_sqlite: true, // Memory is kept in SQL
-          analyzed_category: normalizedCategory, // Use normalized category as fallback
-          significance_reason: 'Could not determine memory type from analysis - kept in SQL with normalized category',
-          error: 'Could not determine memory type from analysis'
-        };
-      }
+    const wasRouted = this.deleteRoutedMemory ? await this.deleteRoutedMemory(id) : false;
+    if (this.cancelPendingWrites) {
+      result.pending_writes_cancelled = await this.cancelPendingWrites(id);
+    }
 
-      // Phase 4.1: Update category in SQL database based on LLM analysis
-      if (normalizedCategory === 'undefined' && memoryType) {
-        Logger.info('Checking if memory category should be updated in SQL', { 
-          memoryId, 
-          originalCategory: category,
-          normalizedCategory: 'undefined',
-          llmDeterminedType: memoryType 
-        });
-        
-        // FIXED: Don't update SQL category for semantic memory types
-        if (['faktenwissen', 'prozedurales_wissen'].includes(memoryType)) {
-          Logger.info('Skipping SQL category update for semantic memory type', {
-            memoryId,
-            memoryType,
-            reason: 'faktenwissen/prozedurales_wissen will be moved to ChromaDB/Neo4j and removed from SQL'
-          });
-          // Don't update the SQL category - it will be deleted anyway
-        } else {
-          try {
-            // Update the memory with the LLM-determined category
-            const updateResult = await this.updateMemory(memoryId, { category: memoryType });
-            if (updateResult.changedRows > 0) {
-              Logger.success('Memory category updated successfully', { 
-                memoryId, 
-                newCategory: memoryType 
-              });
-            } else {
-              Logger.warn('Memory category update had no effect', { memoryId });
-            }
-          } catch (updateError) {
-            Logger.error('Failed to update memory category', { 
-              memoryId, 
-              newCategory: memoryType,
-              error: updateError 
-            });
-          }
-        }
+    if (this.chromaClient) {
+      const chromaResult = await this.chromaClient.deleteConceptsByMemoryId(id);
+      result.concepts_deleted = chromaResult.deleted;
+      if (chromaResult.error) result.errors.push(`ChromaDB: ${chromaResult.error}`);
+    }
+
+    if (this.neo4jClient) {
+      try {
+        await this.neo4jClient.deleteMemory(id);
+        result.deleted_from_neo4j = true;
+      } catch (error) {
+        result.errors.push(`Neo4j: ${error instanceof Error ? error.message : String(error)}`);
       }
+    }
 
-      // Phase 4.2: Routing Decision
-      let shouldKeepInSQL = false;
-      let significanceReason = '';
+    result.found = result.deleted_from_sql || wasRouted || result.concepts_deleted > 0;
+    result.success = result.errors.length === 0;
 
-      Logger.info('Memory type routing decision', { 
-        memoryId, 
-        memoryType, 
-        originalCategory: category,
-        finalCategory: memoryType,
-        isFactualOrProcedural: ['faktenwissen', 'prozedurales_wissen'].includes(memoryType)
-      });
+    Logger.info('Cascade delete finished', result);
+    return result;
+  }
 
-      if (['faktenwissen', 'prozedurales_wissen'].includes(memoryType)) {
-        // These types are NEVER stored in SQL
-        shouldKeepInSQL = false;
-        significanceReason = `${memoryType} is never stored in SQL - only in ChromaDB`;
-        Logger.info('Memory type routing: SQL exclusion', { 
-          memoryId, 
-          memoryType, 
-          shouldKeepInSQL,
-          reason: significanceReason
-        });
+  /**
+   * Update a memory in SQL and propagate the change to ChromaDB/Neo4j
+   * Content changes re-run concept extraction and replace the stored concepts;
+   * topic/category changes only update the source metadata. Failed concept
+   * stores go to the pending write outbox like in the save pipeline
+   */
+  async updateMemoryCascade(id: number, updates: { topic?: string; content?: string; category?: string }): Promise<CascadeUpdateResult> {
+    Logger.separator('Cascade Memory Update');
+    Logger.info('Updating memory in all stores', { memoryId: id, fields: Object.keys(updates).filter(key => (updates as any)[key] !== undefined) });
+
+    const result: CascadeUpdateResult = {
+      success: true,
+      memory_id: id,
+      found: false,
+      changed_rows: 0,
+      reindexed: false,
+      concepts_deleted: 0,
+      concepts_stored: 0,
+      updated_in_neo4j: false,
+      pending_writes: [],
+      errors: []
+    };
+
+    const sqlMemory = await this.getMemoryById(id);
+    // Memories routed out of SQL only live in ChromaDB/Neo4j and are updated there
+    const existing = sqlMemory || await this.getGraphMemory(id);
+    if (!existing) return result;
+    result.found = true;
+
+    const contentChanged = updates.content !== undefined && updates.content !== existing.content;
+    let updated: any;
+
+    if (sqlMemory) {
+      const { changedRows } = await this.updateMemory(id, updates);
+      result.changed_rows = changedRows;
+      if (changedRows === 0) return result;
+      updated = await this.getMemoryById(id) || { ...existing, ...updates };
+    } else {
+      updated = { ...existing };
+      for (const [key, value] of Object.entries(updates)) {
+        if (value !== undefined) updated[key] = value;
+      }
+    }
+
+    // Re-extract concepts before touching ChromaDB, so a failed analysis keeps the old concepts
+    let concepts: any[] | null = null;
+    if (contentChanged && (this.chromaClient || this.neo4jClient)) {
+      if (!this.analyzer) {
+        result.errors.push('Concepts not re-extracted: SemanticAnalyzer not available');
       } else {
-        // Phase 5: Significance Evaluation for other types
-        const significanceResult = await this.analyzer.evaluateSignificance(savedMemory, memoryType);
-        if (significanceResult.error) {
-          // If significance evaluation fails, keep the memory in SQL as a safety measure
-          Logger.warn('Significance evaluation failed - defaulting to keep in SQL', {
-            memoryId,
-            memoryType,
-            error: significanceResult.error
-          });
-          shouldKeepInSQL = true;
-          significanceReason = `Significance evaluation failed: ${significanceResult.error} - defaulted to keep in SQL`;
+        const analysis = await this.analyzer.extractAndAnalyzeConcepts(updated);
+        if (analysis.error) {
+          result.errors.push(`Concept extraction: ${analysis.error}`);
         } else {
-          shouldKeepInSQL = significanceResult.significant!;
-          significanceReason = significanceResult.reason!;
+          concepts = analysis.semantic_concepts || [];
         }
-        
-        Logger.info('Memory type routing: Significance evaluation', { 
-          memoryId, 
-          memoryType, 
-          shouldKeepInSQL,
-          significant: shouldKeepInSQL,
-          reason: significanceReason
-        });
       }
+    }
 
-      // Phase 6: SQL Management based on significance and external DB availability
-      Logger.info('SQL management decision', { 
-        memoryId, 
-        shouldKeepInSQL, 
-        stored_in_chroma,
-        stored_in_chroma_value: stored_in_chroma,
-        chromaDBAvailable: !!this.chromaClient,
-        memoryType,
-        isFactualOrProcedural: ['faktenwissen', 'prozedurales_wissen'].includes(memoryType),
-        willDelete: !shouldKeepInSQL 
-      });
-
-      // Fallback logic: Keep in SQL if external DBs failed and this is valuable content
-      let actuallyKeepInSQL = shouldKeepInSQL;
-
-      Logger.debug('Fallback logic evaluation', {
-        memoryId,
-        shouldKeepInSQL,
-        stored_in_chroma,
-        memoryType,
-        condition1: !shouldKeepInSQL,
-        condition2: !stored_in_chroma,
-        condition3: ['faktenwissen', 'prozedurales_wissen'].includes(memoryType),
-        allConditionsMet: !shouldKeepInSQL && !stored_in_chroma && ['faktenwissen', 'prozedurales_wissen'].includes(memoryType)
-      });
-      
-      // FIXED: faktenwissen & prozedurales_wissen should NEVER be stored in SQL
-      // Even as fallback - they belong only in semantic storage (ChromaDB/Neo4j)
-      if (!shouldKeepInSQL && !stored_in_chroma && ['faktenwissen', 'prozedurales_wissen'].includes(memoryType)) {
-        Logger.warn('ChromaDB storage failed for semantic memory type - will NOT fallback to SQL', { 
-          memoryId, 
-          memoryType,
-          chromaStored: stored_in_chroma,
-          reason: 'faktenwissen/prozedurales_wissen never belongs in SQL - not even as fallback'
+    if (this.chromaClient) {
+      if (concepts && concepts.length > 0) {
+        const deleteResult = await this.chromaClient.deleteConceptsByMemoryId(id);
+        result.concepts_deleted = deleteResult.deleted;
+        if (deleteResult.error) result.errors.push(`ChromaDB: ${deleteResult.error}`);
+
+        const storable = toStorableMemory(updated);
+        const storeResult = await this.chromaClient.storeConcepts(storable, concepts);
+        result.concepts_stored = storeResult.stored;
+        result.reindexed = storeResult.success && storeResult.stored > 0;
+
+        if (!result.reindexed) {
+          result.errors.push(`ChromaDB: ${storeResult.errors?.join(', ') || 'no concepts stored'}`);
+          if (this.createPendingWrite) {
+            await this.createPendingWrite(id, 'chroma', { memory: storable, concepts });
+            result.pending_writes.push('chroma');
+          }
+        }
+      } else if (updates.topic !== undefined || updates.category !== undefined) {
+        const sourceResult = await this.chromaClient.updateConceptSource(id, {
+          topic: updates.topic,
+          category: updates.category
         });
-        // Keep actuallyKeepInSQL = false - do not store in SQL
+        if (sourceResult.error) result.errors.push(`ChromaDB: ${sourceResult.error}`);
       }
+    }
 
-      const finalMemoryId = actuallyKeepInSQL ? memoryId : 0;
-      
-      if (!actuallyKeepInSQL) {
-        // Remove from SQL only if successfully stored elsewhere
-        Logger.warn('Removing memory from SQL (not significant or stored elsewhere)', { 
-          memoryId, 
-          memoryType, 
-          reason: significanceReason 
+    if (this.neo4jClient) {
+      try {
+        result.updated_in_neo4j = await this.neo4jClient.updateMemoryNode(id, {
+          topic: updates.topic,
+          content: updates.content,
+          category: updates.category
         });
-        await this.deleteMemory(memoryId);
-        Logger.success('Memory removed from SQL successfully', { memoryId });
-      } else {
-        if (memoryType !== normalizedCategory) {
-          // Category was already updated in Phase 4.1, just log
-          Logger.info('Memory kept in SQL with updated category', { 
-            memoryId, 
-            finalCategory: memoryType,
-            wasNormalized: normalizedCategory === 'undefined'
-          });
+        if (result.updated_in_neo4j && concepts && concepts.length > 0) {
+          await this.neo4jClient.replaceMemoryConcepts(id, concepts);
         }
-        Logger.info('Memory kept in SQL', { 
-          memoryId, 
-          memoryType, 
-          originalCategory: category,
-          finalCategory: memoryType,
-          keptAsSignificant: shouldKeepInSQL,
-          keptAsFallback: !shouldKeepInSQL && actuallyKeepInSQL,
-          reason: shouldKeepInSQL ? significanceReason : 'Fallback for failed external storage'
-        });
+      } catch (error) {
+        result.errors.push(`Neo4j: ${error instanceof Error ? error.message : String(error)}`);
       }
+    }
 
-      // Phase 7: Short Memory Management
-      let stored_in_short_memory = false;
-      if (!shouldKeepInSQL) {
-        // FIXED: Add ALL memory types to short memory when not kept in SQL
-        // faktenwissen & prozedurales_wissen should be in short memory for session continuity
-        Logger.info('Adding to short memory (not kept in SQL)', { 
-          memoryId, 
-          memoryType, 
-          willAddToShortMemory: true 
-        });
-        await this.addToShortMemory({
-          topic: topic,
-          content: content,
-          date: new Date().toISOString().split('T')[0]
-        });
-        stored_in_short_memory = true;
-        Logger.success('Memory added to short memory for session continuity', { memoryId, memoryType });
+    result.success = result.errors.length === 0;
+
+    Logger.info('Cascade update finished', result);
+    return result;
+  }
+
+  /**
+   * Merge duplicate memories into a target memory
+   * The combined content is re-indexed on the target, graph relationships of
+   * the duplicates are moved to it and the duplicates are deleted from all stores
+   */
+  async mergeMemories(targetId: number, duplicateIds: number[], mergedContent?: string): Promise<MergeMemoriesResult> {
+    Logger.separator('Merge Memories');
+    Logger.info('Merging memories', { targetId, duplicateIds, hasMergedContent: !!mergedContent });
+
+    const result: MergeMemoriesResult = {
+      success: false,
+      target_id: targetId,
+      merged_ids: [],
+      reindexed: false,
+      relationships_repointed: 0,
+      errors: []
+    };
+
+    const ids = [...new Set(duplicateIds)].filter(id => id !== targetId);
+    if (ids.length === 0) {
+      throw new Error('At least one duplicate ID different from the target is required');
+    }
+
+    const target = await this.getMemoryById(targetId) || await this.getGraphMemory(targetId);
+    if (!target) {
+      throw new Error(`Memory ${targetId} not found`);
+    }
+
+    const duplicates: any[] = [];
+    for (const id of ids) {
+      const duplicate = await this.getMemoryById(id) || await this.getGraphMemory(id);
+      if (!duplicate) {
+        throw new Error(`Memory ${id} not found`);
       }
+      duplicates.push(duplicate);
+    }
 
-      // Phase 8: Neo4j Integration (if available)
-      let stored_in_neo4j = false;
-      let relationships_created = 0;
-      
-      if (this.neo4jClient) {
-        try {
-          Logger.info('Phase 8: Creating Neo4j memory node and relationships...', { memoryId });
-          
-          // Create memory node in Neo4j
-          const nodeResult = await this.neo4jClient.createMemoryNodeWithConcepts(savedMemory, analysisResult.semantic_concepts);
-          
-          if (nodeResult.success) {
-            stored_in_neo4j = true;
-            Logger.success('Neo4j memory node created', { 
-              memoryId, 
-              nodeId: nodeResult.nodeId 
-            });
-            
-            // Find and create relationships to related memories
-            const relatedResult = await this.neo4jClient.findRelatedMemories(savedMemory, analysisResult.semantic_concepts);
-            
-            if (relatedResult.relatedMemories && relatedResult.relatedMemories.length > 0) {
-              const relationshipResult = await this.neo4jClient.createRelationships(
-                nodeResult.nodeId, 
-                relatedResult.relatedMemories
-              );
-              
-              if (relationshipResult.success) {
-                relationships_created = relationshipResult.relationshipsCreated;
-                Logger.success('Neo4j relationships created', { 
-                  memoryId, 
-                  relationshipsCreated: relationships_created 
-                });
-              } else {
-                Logger.warn('Neo4j relationship creation partially failed', { 
-                  memoryId, 
-                  errors: relationshipResult.errors 
-                });
-              }
-            } else {
-              Logger.info('No related memories found for relationship creation', { memoryId });
-            }
-          } else {
-            Logger.error('Neo4j memory node creation failed', { 
-              memoryId, 
-              error: nodeResult.error 
-            });
+    // Without explicit content, paragraphs not already contained in the target are appended
+    let content = mergedContent?.trim() || target.content || '';
+    if (!mergedContent?.trim()) {
+      for (const duplicate of duplicates) {
+        for (const paragraph of String(duplicate.content || '').split(/\n\s*\n/)) {
+          const extra = paragraph.trim();
+          if (extra && !content.includes(extra)) {
+            content += `\n\n${extra}`;
           }
+        }
+      }
+    }
+
+    if (this.neo4jClient) {
+      for (const id of ids) {
+        try {
+          result.relationships_repointed += await this.neo4jClient.repointRelationships(id, targetId);
         } catch (error) {
-          Logger.error('Neo4j integration error', { memoryId, error });
+          result.errors.push(`Neo4j memory ${id}: ${error instanceof Error ? error.message : String(error)}`);
         }
-      } else {
-        Logger.warn('Neo4j integration skipped - client not available');
       }
+    }
 
-      Logger.success('Advanced memory pipeline completed', {
-        memoryId: finalMemoryId,
-        memoryType,
-        shouldKeepInSQL,
-        stored_in_chroma,
-        totalConceptsStored,
-        stored_in_neo4j,
-        stored_in_short_memory
-      });
+    if (content !== target.content) {
+      const updateResult = await this.updateMemoryCascade(targetId, { content });
+      result.reindexed = updateResult.reindexed;
+      result.errors.push(...updateResult.errors);
+    }
+
+    for (const id of ids) {
+      const deleteResult = await this.deleteMemoryCascade(id);
+      if (deleteResult.found) result.merged_ids.push(id);
+      result.errors.push(...deleteResult.errors);
+    }
 
+    result.success = result.errors.length === 0;
+    Logger.info('Memories merged', result);
+    return result;
+  }
+
+  /**
+   * Resolve a contradiction flagged by the contradiction check
+   * keep: both memories stay, the CONTRADICTS edge is marked resolved
+   * supersede: memoryId wins, the conflicting memory is deleted from all stores
+   * merge: memoryId gets the merged content, the conflicting memory is deleted
+   */
+  async resolveContradiction(
+    memoryId: number,
+    conflictingMemoryId: number,
+    resolution: ContradictionResolution,
+    mergedContent?: string
+  ): Promise<ContradictionResolutionResult> {
+    Logger.info('Resolving contradiction', { memoryId, conflictingMemoryId, resolution });
+
+    const result: ContradictionResolutionResult = {
+      success: false,
+      resolution,
+      kept_memory_id: memoryId,
+      merged: false,
+      edges_resolved: 0,
+      errors: []
+    };
+
+    if (resolution === 'supersede') {
+      const kept = await this.getMemoryById(memoryId) || await this.getGraphMemory(memoryId);
+      if (!kept) {
+        throw new Error(`Memory ${memoryId} not found`);
+      }
+    }
+
+    if (resolution === 'merge') {
+      if (!mergedContent?.trim()) {
+        throw new Error('Merged content is required for resolution "merge"');
+      }
+
+      const updateResult = await this.updateMemoryCascade(memoryId, { content: mergedContent.trim() });
+      if (!updateResult.found) {
+        throw new Error(`Memory ${memoryId} not found`);
+      }
+      result.merged = true;
+      result.errors.push(...updateResult.errors);
+    }
+
+    if (resolution === 'keep') {
+      if (!this.neo4jClient) {
+        throw new Error('Neo4j client not available');
+      }
+      result.edges_resolved = await this.neo4jClient.resolveContradiction(memoryId, conflictingMemoryId, resolution);
+      if (result.edges_resolved === 0) {
+        throw new Error(`No contradiction between memories ${memoryId} and ${conflictingMemoryId}`);
+      }
+    } else {
+      // The CONTRADICTS edge is removed together with the conflicting memory node
+      const deleteResult = await this.deleteMemoryCascade(conflictingMemoryId);
+      if (!deleteResult.found) {
+        throw new Error(`Memory ${conflictingMemoryId} not found`);
+      }
+      result.removed_memory_id = conflictingMemoryId;
+      result.errors.push(...deleteResult.errors);
+    }
+
+    result.success = result.errors.length === 0;
+    Logger.info('Contradiction resolved', result);
+    return result;
+  }
+
+  /**
+   * Promote a short memory into long-term storage through the save pipeline
+   * The short memory is removed once the pipeline has saved it
+   */
+  async promoteShortMemory(shortMemoryId: number, category: string = 'undefined'): Promise<ShortMemoryPromotionResult> {
+    const entry = await this.getShortMemoryById(shortMemoryId);
+    if (!entry) {
+      return { short_memory_id: shortMemoryId, success: false, error: `Short memory ${shortMemoryId} not found` };
+    }
+    if (entry.source_memory_id) {
       return {
-        success: true,
-        memory_id: finalMemoryId,
-        stored_in_sqlite: shouldKeepInSQL,
-        stored_in_lancedb: stored_in_chroma, // Compatibility mapping
-        stored_in_chroma: stored_in_chroma,
-        stored_in_neo4j: stored_in_neo4j,
-        stored_in_short_memory: stored_in_short_memory,
-        relationships_created: relationships_created,
-        analyzed_category: memoryType,
-        significance_reason: significanceReason
+        short_memory_id: shortMemoryId,
+        success: false,
+        error: `Short memory ${shortMemoryId} is a copy of memory ${entry.source_memory_id}, which is already stored`
       };
+    }
+    
+    const memory = await this.executeAdvancedMemoryPipeline(category, entry.topic, entry.content);
+    if (!memory.memory_id) {
+      return { short_memory_id: shortMemoryId, success: false, memory, error: memory.error };
+    }
+    
+    await this.deleteShortMemory(shortMemoryId);
+    Logger.success('Short memory promoted', { shortMemoryId, memoryId: memory.memory_id, category: memory.analyzed_category });
+    return { short_memory_id: shortMemoryId, success: true, memory };
+  }
 
-    } catch (error) {
-      Logger.error('Advanced memory pipeline failed', { 
-        category, 
-        topic, 
-        error: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack : undefined
+  /**
+   * Queue short memories pushed out of the FIFO for the save pipeline instead of dropping them
+   * The PendingWriteProcessor saves them from the outbox, outside the save that evicted them.
+   * Copies of routed memories (source_memory_id) are already stored and simply dropped
+   */
+  protected async queueEvictedShortMemories(entries: ShortMemoryEntry[]): Promise<number> {
+    const candidates = entries.filter(entry => !entry.source_memory_id);
+    if (candidates.length === 0) return 0;
+    
+    if (process.env.SHORT_MEMORY_PROMOTE_EVICTED === 'false') {
+      Logger.info('Evicted short memories dropped - promotion disabled', { count: candidates.length });
+      return 0;
+    }
+    
+    if (!this.createPendingWrite) {
+      Logger.warn('Evicted short memories dropped - database has no outbox', { count: candidates.length });
+      return 0;
+    }
+    
+    // The entries have no memory ID yet, the outbox row is keyed by 0
+    for (const entry of candidates) {
+      await this.createPendingWrite(0, 'short_memory', {
+        memory: { topic: entry.topic, content: entry.content, date: entry.date, short_memory_id: entry.id },
+        category: 'undefined'
       });
-      return {
-        memory_id: 0,
-        stored_in_chroma: false,
-        stored_in_neo4j: false,
-        relationships_created: 0,
-        error: `Pipeline failed: ${error instanceof Error ? error.message : String(error)}`
-      };
     }
+    
+    Logger.info('Evicted short memories queued for the save pipeline', { count: candidates.length });
+    return candidates.length;
   }
 
   /**
-   * Standardized saveMemoryWithGraph implementation
-   * Subclasses can override this if they need custom behavior
+   * Start a conversation session; saved and recalled memories are grouped under its ID
    */
-  async saveMemoryWithGraph(
-    category: string, 
-    topic: string, 
-    content: string, 
-    forceRelationships?: any[]
-  ): Promise<AdvancedMemoryResult> {
-    const result = await this.executeAdvancedMemoryPipeline(category, topic, content);
+  async beginSession(title?: string): Promise<SessionRecord> {
+    if (!this.createSession || !this.getSession) {
+      throw new Error('Database does not support sessions');
+    }
+    
+    const id = uuidv4();
+    await this.createSession(id, title?.trim() || undefined);
+    Logger.info('Session started', { sessionId: id, title });
+    return (await this.getSession(id))!;
+  }
 
-    // Transform result to match expected format with consistent naming
-    return {
-      memory_id: result.memory_id || 0,
-      stored_in_chroma: result.stored_in_chroma || false,
-      stored_in_neo4j: result.stored_in_neo4j || false,
-      relationships_created: result.relationships_created || 0
+  /**
+   * End a conversation session
+   * The LLM summarizes all memories touched in the session into an erlebnisse memory,
+   * which is linked to each of them with a SUMMARIZES edge in the graph
+   */
+  async endSession(sessionId: string): Promise<EndSessionResult> {
+    if (!this.getSession || !this.getSessionMemories || !this.completeSession) {
+      throw new Error('Database does not support sessions');
+    }
+    
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    if (session.ended_at) {
+      throw new Error(`Session ${sessionId} already ended`);
+    }
+    
+    Logger.separator('End Session');
+    
+    const result: EndSessionResult = {
+      success: false,
+      session_id: sessionId,
+      memories_touched: 0,
+      relationships_created: 0,
+      errors: []
     };
+    
+    // A memory saved and recalled in the same session is summarized once, as saved
+    const actions = new Map<number, string>();
+    for (const entry of await this.getSessionMemories(sessionId)) {
+      if (!actions.has(entry.memory_id) || entry.action === 'saved') {
+        actions.set(entry.memory_id, entry.action);
+      }
+    }
+    
+    const memories: any[] = [];
+    for (const [id, action] of actions) {
+      const memory = await this.getMemoryById(id) || await this.getGraphMemory(id);
+      if (memory) memories.push({ ...memory, id, action });
+    }
+    result.memories_touched = memories.length;
+    
+    if (memories.length === 0) {
+      await this.completeSession(sessionId, null);
+      result.success = true;
+      Logger.info('Session ended without memories', { sessionId });
+      return result;
+    }
+    
+    if (!this.analyzer?.summarizeSession) {
+      throw new Error('SemanticAnalyzer not available');
+    }
+    
+    const { summary, error } = await this.analyzer.summarizeSession(
+      { title: session.title || undefined, started_at: session.started_at },
+      memories
+    );
+    if (!summary) {
+      throw new Error(`Session summary failed: ${error}`);
+    }
+    
+    // The summary takes the regular save path: classification, ChromaDB, graph node and routing
+    const saved = await this.executeAdvancedMemoryPipeline('erlebnisse', summary.topic, summary.content);
+    if (!saved.memory_id) {
+      throw new Error(`Failed to save session summary: ${saved.error}`);
+    }
+    const summaryId = saved.memory_id;
+    result.summary_memory_id = summaryId;
+    result.summary_topic = summary.topic;
+    if (saved.error) result.errors.push(`Save pipeline: ${saved.error}`);
+    
+    if (!this.neo4jClient) {
+      result.errors.push('Summary not linked: Neo4j client not available');
+    } else if (!saved.stored_in_neo4j) {
+      result.errors.push('Summary not linked: memory node not created in Neo4j');
+    } else {
+      try {
+        const linkResult = await this.neo4jClient.createRelationships(summaryId, memories.map(memory => ({
+          targetId: memory.id,
+          relationshipType: 'SUMMARIZES',
+          properties: { session_id: sessionId, action: memory.action }
+        })));
+        result.relationships_created = linkResult.relationshipsCreated || 0;
+        result.errors.push(...(linkResult.errors || []));
+      } catch (error) {
+        result.errors.push(`Neo4j: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    
+    await this.completeSession(sessionId, summaryId);
+    
+    result.success = result.errors.length === 0;
+    Logger.info('Session ended', result);
+    return result;
+  }
+
+  // Memories routed out of SQL are only found as graph nodes
+  private async getGraphMemory(id: number): Promise<any | null> {
+    if (!this.neo4jClient) return null;
+    const [memory] = await this.neo4jClient.getMemoriesByIds([id]);
+    return memory || null;
   }
 
   /**
@@ -620,17 +885,26 @@ export abstract class MemoryPipelineBase {
     query: string,
     categories?: string[],
     enableReranking: boolean = true,
-    rerankStrategy: 'hybrid' | 'llm' | 'text' = 'hybrid'
+    rerankStrategy: 'hybrid' | 'llm' | 'text' = 'hybrid',
+    fusion: Partial<FusionSettings> = {},
+    filters: SearchFilters = {},
+    explain: boolean = false
   ): Promise<IntelligentSearchResult> {
     Logger.separator('Intelligent Search Pipeline (Base)');
     Logger.info('Starting intelligent search', { 
       query, 
       categories, 
       enableReranking, 
-      rerankStrategy 
+      rerankStrategy,
+      fusion,
+      filters,
+      explain
     });
 
     const startTime = Date.now();
+    const temporalQuery = this.applyTemporalQuery(query, SearchFilterTranslator.withCategories(filters, categories));
+    const searchFilters = temporalQuery.filters;
+    const searchQuery = temporalQuery.query;
     let sqlResults: any[] = [];
     let chromaResults: any[] = [];
     let totalFound = 0;
@@ -638,19 +912,26 @@ export abstract class MemoryPipelineBase {
     try {
       // Phase 1: SQL Search
       Logger.info('Phase 1: SQL database search...');
-      try {
-        sqlResults = await this.searchMemoriesBasic(query, categories);
-        Logger.info('SQL search completed', { resultsCount: sqlResults.length });
-      } catch (error) {
-        Logger.warn('SQL search failed, continuing with ChromaDB only', { error });
-        sqlResults = [];
+      if (this.isSearchedStore(searchFilters, 'sql')) {
+        try {
+          sqlResults = await this.searchMemoriesBasic(searchQuery, undefined, searchFilters);
+          Logger.info('SQL search completed', { resultsCount: sqlResults.length });
+        } catch (error) {
+          Logger.warn('SQL search failed, continuing with ChromaDB only', { error });
+          sqlResults = [];
+        }
       }
 
       // Phase 2: ChromaDB Semantic Search
       Logger.info('Phase 2: ChromaDB semantic search...');
-      if (this.chromaClient) {
+      if (!this.isSearchedStore(searchFilters, 'chroma')) {
+        // Skipped, isSearchedStore logs the reason
+      } else if (!searchQuery.trim()) {
+        // A query like "last week" is only a date range, which the SQL search lists
+        Logger.info('No search terms besides the time expression, skipping semantic search');
+      } else if (this.chromaClient) {
         try {
-          const chromaResponse = await this.chromaClient.searchSimilar(query, 20, categories);
+          const chromaResponse = await this.chromaClient.searchSimilar(searchQuery, this.vectorCandidateLimit(), undefined, searchFilters);
           if (chromaResponse.results) {
             chromaResults = chromaResponse.results;
             Logger.info('ChromaDB search completed', { resultsCount: chromaResults.length });
@@ -665,15 +946,20 @@ export abstract class MemoryPipelineBase {
         Logger.warn('ChromaDB client not available, skipping semantic search');
       }
 
-      // Phase 3: Merge and Deduplicate Results
-      Logger.info('Phase 3: Merging and deduplicating results...');
-      const mergedResults = this.mergeSearchResults(sqlResults, chromaResults);
+      // Phase 3: Rank fusion (every result keeps its rank and score per source)
+      Logger.info('Phase 3: Fusing ranked results...');
+      const fused = this.searchFusion.fuse({
+        sql: sqlResults.map(result => ({ ...result, id: Number(result.id) })),
+        chroma: chromaResults.map(result => this.toSearchResult(result))
+      }, fusion);
+      const mergedResults = fused.results;
       totalFound = mergedResults.length;
 
-      Logger.info('Results merged', { 
+      Logger.info('Results fused', { 
         sqlCount: sqlResults.length,
         chromaCount: chromaResults.length,
-        mergedCount: totalFound
+        mergedCount: totalFound,
+        method: fused.settings.method
       });
 
       // Phase 4: Optional Reranking
@@ -683,7 +969,8 @@ export abstract class MemoryPipelineBase {
       if (enableReranking && totalFound > 0) {
         Logger.info('Phase 4: Applying reranking...', { strategy: rerankStrategy });
         try {
-          finalResults = await this.rerankResults(query, mergedResults, rerankStrategy);
+          await this.attachAccessStats(mergedResults);
+          finalResults = await this.rerankResults(searchQuery || query, mergedResults, rerankStrategy);
           reranked = true;
           Logger.success('Reranking completed', { 
             originalCount: mergedResults.length,
@@ -695,6 +982,10 @@ export abstract class MemoryPipelineBase {
         }
       }
 
+      if (explain) {
+        finalResults = this.explainResults(searchQuery || query, finalResults, reranked ? rerankStrategy : null);
+      }
+
       const executionTime = Date.now() - startTime;
       
       Logger.success('Intelligent search completed', {
@@ -706,9 +997,12 @@ export abstract class MemoryPipelineBase {
       return {
         results: finalResults,
         sources: {
-          sql: { count: sqlResults.length, source: 'SQL Database' },
-          chroma: { count: chromaResults.length, source: 'ChromaDB Vector Search' }
+          sql: { count: sqlResults.length, source: this.sourceLabel('SQL Database', searchFilters, 'sql') },
+          chroma: { count: chromaResults.length, source: this.sourceLabel('ChromaDB Vector Search', searchFilters, 'chroma') }
         },
+        fusion: fused.settings,
+        filters: SearchFilterTranslator.isEmpty(searchFilters) ? undefined : searchFilters,
+        temporal: temporalQuery.temporal,
         reranked,
         rerank_strategy: reranked ? rerankStrategy : undefined,
         total_found: totalFound,
@@ -731,48 +1025,99 @@ export abstract class MemoryPipelineBase {
     }
   }
 
+  // Vector hits per search; more candidates let result pages reach deeper (SQL returns up to 50)
+  private vectorCandidateLimit(): number {
+    const limit = parseInt(process.env.SEARCH_VECTOR_CANDIDATES || '', 10);
+    return limit > 0 ? limit : 20;
+  }
+
   /**
-   * Helper method to merge and deduplicate search results from different sources
+   * A time expression in the query becomes a date range filter unless the caller set dates;
+   * the rest of the query are the search terms
    */
-  private mergeSearchResults(sqlResults: any[], chromaResults: any[]): any[] {
-    const mergedMap = new Map<number, any>();
+  private applyTemporalQuery(query: string, filters: SearchFilters): { query: string; filters: SearchFilters; temporal?: TemporalRange } {
+    if (filters.dateFrom || filters.dateTo) return { query, filters };
     
-    // Add SQL results first
-    sqlResults.forEach(result => {
-      if (result.id) {
-        result.source = 'sql';
-        mergedMap.set(result.id, result);
-      }
+    const parsed = TemporalQueryParser.parse(query);
+    if (!parsed.range) return { query, filters };
+    
+    Logger.info('Time expression found in query', { ...parsed.range, remainingQuery: parsed.query });
+    return {
+      query: parsed.query,
+      filters: { ...filters, dateFrom: parsed.range.from, dateTo: parsed.range.to },
+      temporal: parsed.range
+    };
+  }
+
+  /**
+   * Whether a store takes part in a filtered search; stores that cannot evaluate a filter are skipped
+   */
+  private isSearchedStore(filters: SearchFilters, store: SearchStore): boolean {
+    if (SearchFilterTranslator.appliesTo(filters, store)) return true;
+    
+    const unsupported = SearchFilterTranslator.unsupportedFilters(filters, store);
+    Logger.info('Store skipped by search filters', {
+      store,
+      reason: unsupported.length > 0 ? `unsupported filters: ${unsupported.join(', ')}` : 'not in sources'
     });
+    return false;
+  }
+
+  private sourceLabel(label: string, filters: SearchFilters, store: SearchStore): string {
+    return SearchFilterTranslator.appliesTo(filters, store) ? label : `${label} (skipped by filters)`;
+  }
+
+  /**
+   * Add Neo4j hits to the fused search results without changing their source labels
+   * Hits only found in the graph are labelled 'neo4j', every graph hit is marked in_graph
+   */
+  private mergeGraphResults(results: any[], graphMemories: any[]): any[] {
+    const merged = new Map<number, any>(results.map(result => [Number(result.id), { ...result }]));
     
-    // Add ChromaDB results, avoiding duplicates
-    chromaResults.forEach(result => {
-      if (result.source_memory_id) {
-        const memoryId = parseInt(result.source_memory_id);
-        if (!mergedMap.has(memoryId)) {
-          // Convert ChromaDB result to standard format
-          const standardResult = {
-            id: memoryId,
-            category: result.source_category,
-            topic: result.source_topic,
-            content: result.content,
-            date: result.source_date,
-            created_at: result.source_created_at,
-            source: 'chroma',
-            concept_title: result.concept_title,
-            similarity: result.similarity || 0
-          };
-          mergedMap.set(memoryId, standardResult);
-        } else {
-          // Mark as found in both sources
-          const existing = mergedMap.get(memoryId);
-          existing.source = 'both';
-          existing.similarity = result.similarity || 0;
-        }
+    graphMemories.forEach(memory => {
+      const id = Number(memory.id);
+      if (!id) return;
+      
+      const existing = merged.get(id);
+      if (existing) {
+        existing.in_graph = true;
+      } else {
+        merged.set(id, {
+          ...this.toSearchResult({
+            source_memory_id: id,
+            source_category: memory.category,
+            source_topic: memory.topic,
+            source_date: memory.date,
+            source_created_at: memory.created_at,
+            content: memory.content,
+            similarity: memory.metadata?.similarity_score
+          }),
+          source: 'neo4j',
+          in_graph: true
+        });
       }
     });
     
-    return Array.from(mergedMap.values());
+    return Array.from(merged.values());
+  }
+
+  /**
+   * Convert a ChromaDB concept hit into the standard memory result format
+   * searchSimilar reports similarity_score, graph hits are mapped to similarity
+   */
+  private toSearchResult(result: any): any {
+    return {
+      id: parseInt(result.source_memory_id),
+      category: result.source_category,
+      topic: result.source_topic,
+      content: result.content,
+      date: result.source_date,
+      created_at: result.source_created_at,
+      source: 'chroma',
+      concept_title: result.concept_title,
+      similarity: result.similarity ?? result.similarity_score ?? 0,
+      distance: result.distance ?? null
+    };
   }
 
   /**
@@ -811,36 +1156,163 @@ export abstract class MemoryPipelineBase {
     const queryTerms = queryLower.split(/\s+/).filter(term => term.length > 2);
     
     return results.map(result => {
-      let score = 0;
+      const components: ScoreComponent[] = [];
       const contentLower = (result.content || '').toLowerCase();
       const topicLower = (result.topic || '').toLowerCase();
       
       // Topic match bonus
-      queryTerms.forEach(term => {
-        if (topicLower.includes(term)) score += 3;
-        if (contentLower.includes(term)) score += 1;
-      });
+      const topicTerms = queryTerms.filter(term => topicLower.includes(term));
+      const contentTerms = queryTerms.filter(term => contentLower.includes(term));
+      if (topicTerms.length > 0) components.push({ signal: 'topic_match', value: topicTerms.length * 3, detail: topicTerms.join(', ') });
+      if (contentTerms.length > 0) components.push({ signal: 'content_match', value: contentTerms.length, detail: contentTerms.join(', ') });
       
       // ChromaDB similarity bonus
       if (result.similarity) {
-        score += result.similarity * 2;
+        components.push({ signal: 'vector_similarity', value: result.similarity * 2, detail: `similarity ${Number(result.similarity).toFixed(3)}` });
       }
       
       // Source bonus (both sources = higher relevance)
-      if (result.source === 'both') score += 1;
+      if (result.source === 'both') components.push({ signal: 'both_sources', value: 1 });
       
-      return { ...result, rerank_score: score };
+      const score = components.reduce((sum, component) => sum + component.value, 0);
+      return { ...result, rerank_score: score, score_components: components };
     }).sort((a, b) => b.rerank_score - a.rerank_score);
   }
 
   /**
    * LLM-based relevance reranking
+   * Text similarity preselects the candidates, the LLM scores them in small batches.
+   * Candidates without a usable LLM score keep their text score and rank after the scored ones.
    */
   private async rerankWithLLM(query: string, results: any[]): Promise<any[]> {
-    // This would use the SemanticAnalyzer to evaluate relevance
-    // For now, fallback to text similarity
-    Logger.debug('LLM reranking not yet implemented, using text similarity');
-    return this.rerankByTextSimilarity(query, results);
+    const textRanked = this.rerankByTextSimilarity(query, results);
+    const candidates = textRanked.slice(0, MemoryPipelineBase.LLM_RERANK_MAX_CANDIDATES);
+    const remainder = textRanked.slice(MemoryPipelineBase.LLM_RERANK_MAX_CANDIDATES);
+    
+    if (!this.analyzer?.scoreRelevance) {
+      Logger.warn('Analyzer does not support relevance scoring, using text similarity');
+      return textRanked;
+    }
+    
+    const scored: any[] = [];
+    const fallback: any[] = [];
+    const batchSize = MemoryPipelineBase.LLM_RERANK_BATCH_SIZE;
+    
+    for (let start = 0; start < candidates.length; start += batchSize) {
+      const batch = candidates.slice(start, start + batchSize);
+      const response = await this.analyzer.scoreRelevance(query, batch.map(result => ({
+        id: result.id,
+        topic: result.topic,
+        category: result.category,
+        content: (result.content || '').substring(0, MemoryPipelineBase.LLM_RERANK_CONTENT_CHARS)
+      })));
+      
+      if (response.error) {
+        Logger.warn('LLM relevance scoring failed for batch, keeping text similarity', { 
+          batchStart: start, 
+          batchSize: batch.length, 
+          error: response.error 
+        });
+      }
+      
+      const scoresById = new Map((response.scores || []).map(score => [score.id, score]));
+      
+      batch.forEach(result => {
+        const score = scoresById.get(result.id);
+        if (score) {
+          scored.push({
+            ...result,
+            text_score: result.rerank_score,
+            rerank_score: score.relevance,
+            relevance_score: score.relevance,
+            llm_relevance: score.relevance,
+            relevance_justification: score.justification,
+            score_components: [{ signal: 'llm_relevance', value: score.relevance, detail: score.justification }]
+          });
+        } else {
+          // LLM relevance and text scores are on different scales, so they are never compared
+          fallback.push({ ...result, text_score: result.rerank_score, rerank_fallback: true });
+        }
+      });
+    }
+    
+    Logger.debug('LLM reranking completed', {
+      candidates: candidates.length,
+      llmScored: scored.length,
+      fallback: fallback.length
+    });
+    
+    const reranked = scored.sort((a, b) => 
+      b.rerank_score - a.rerank_score || b.text_score - a.text_score
+    );
+    
+    // Fallback candidates are still in text order
+    return [...reranked, ...fallback, ...remainder.map(result => ({ ...result, rerank_fallback: true }))];
+  }
+
+  /**
+   * Attach recorded access counts to search results (memories routed out of SQL included)
+   */
+  private async attachAccessStats(results: any[]): Promise<void> {
+    if (!this.getMemoryAccessStats || results.length === 0) return;
+    
+    try {
+      const stats = await this.getMemoryAccessStats(results.map(result => Number(result.id)).filter(id => id > 0));
+      results.forEach(result => {
+        const entry = stats.get(Number(result.id));
+        result.access_count = entry?.access_count ?? 0;
+        result.last_accessed_at = entry?.last_accessed_at ?? null;
+      });
+    } catch (error) {
+      Logger.warn('Failed to load access stats for reranking', { error });
+    }
+  }
+
+  /**
+   * Recall frequency signal: 0 for never recalled memories, up to RERANK_ACCESS_WEIGHT
+   */
+  private accessBonus(result: any): number {
+    const weight = parseFloat(process.env.RERANK_ACCESS_WEIGHT || '0.5');
+    if (!(weight > 0) || !result.access_count) return 0;
+    
+    const saturation = Math.log2(1 + MemoryPipelineBase.ACCESS_BONUS_SATURATION);
+    return weight * Math.min(1, Math.log2(1 + result.access_count) / saturation);
+  }
+
+  // Days since the last recall, otherwise since creation; null without timestamps
+  private daysSinceUse(result: any): number | null {
+    const lastUsed = result.last_accessed_at || result.created_at;
+    if (!lastUsed) return null;
+    
+    const days = (Date.now() - new Date(lastUsed).getTime()) / (1000 * 60 * 60 * 24);
+    return isNaN(days) ? null : days;
+  }
+
+  /**
+   * Explain mode: attach to every result its source ranks, vector distance, matched
+   * query terms, recency and the reranking score broken down into its signals
+   */
+  private explainResults(query: string, results: any[], rerankStrategy: string | null): any[] {
+    const queryTerms = query.toLowerCase().split(/\s+/).filter(term => term.length > 2);
+    const scoreField = rerankStrategy === 'hybrid' ? 'hybrid_score' : rerankStrategy === 'graph' ? 'graph_score' : 'rerank_score';
+    
+    return results.map((result, index) => {
+      const text = `${result.topic || ''}\n${result.content || ''}`.toLowerCase();
+      const daysSinceUse = this.daysSinceUse(result);
+      
+      const explanation: SearchExplanation = {
+        position: index + 1,
+        source_ranks: result.source_ranks || {},
+        fusion_score: typeof result.fusion_score === 'number' ? result.fusion_score : null,
+        vector_distance: typeof result.distance === 'number' ? result.distance : null,
+        matched_terms: queryTerms.filter(term => text.includes(term)),
+        days_since_use: daysSinceUse === null ? null : Math.floor(daysSinceUse),
+        rerank: rerankStrategy
+          ? { strategy: rerankStrategy, score: Number(result[scoreField]) || 0, components: result.score_components || [] }
+          : null
+      };
+      return { ...result, explanation };
+    });
   }
 
   /**
@@ -852,17 +1324,25 @@ export abstract class MemoryPipelineBase {
     // Apply additional hybrid scoring
     return textRanked.map((result, index) => {
       let hybridScore = result.rerank_score;
+      const components: ScoreComponent[] = [...result.score_components];
       
-      // Recency bonus
-      if (result.created_at) {
-        const daysSinceCreation = (Date.now() - new Date(result.created_at).getTime()) / (1000 * 60 * 60 * 24);
-        if (daysSinceCreation < 30) hybridScore += 0.5;
+      // Recency bonus (created or last recalled within 30 days)
+      const daysSinceUse = this.daysSinceUse(result);
+      if (daysSinceUse !== null && daysSinceUse < 30) {
+        hybridScore += 0.5;
+        components.push({ signal: 'recency', value: 0.5, detail: `${Math.floor(daysSinceUse)} days since last use` });
       }
       
+      // Recall frequency bonus
+      const accessBonus = this.accessBonus(result);
+      hybridScore += accessBonus;
+      if (accessBonus > 0) components.push({ signal: 'access_frequency', value: accessBonus, detail: `${result.access_count} recalls` });
+      
       // Position penalty (later results get slight penalty)
       hybridScore -= index * 0.1;
+      if (index > 0) components.push({ signal: 'position', value: -index * 0.1, detail: `text rank ${index + 1}` });
       
-      return { ...result, hybrid_score: hybridScore };
+      return { ...result, hybrid_score: hybridScore, score_components: components };
     }).sort((a, b) => b.hybrid_score - a.hybrid_score);
   }
 
@@ -874,17 +1354,24 @@ export abstract class MemoryPipelineBase {
     query: string,
     categories?: string[],
     includeRelated: boolean = true,
-    maxRelationshipDepth: number = 2
+    maxRelationshipDepth: number = 2,
+    filters: SearchFilters = {},
+    explain: boolean = false
   ): Promise<GraphSearchResult> {
     Logger.separator('Graph-Enhanced Search Pipeline (Base)');
     Logger.info('Starting graph search', { 
       query, 
       categories, 
       includeRelated, 
-      maxRelationshipDepth 
+      maxRelationshipDepth,
+      filters,
+      explain
     });
 
     const startTime = Date.now();
+    const temporalQuery = this.applyTemporalQuery(query, SearchFilterTranslator.withCategories(filters, categories));
+    const searchFilters = temporalQuery.filters;
+    const searchQuery = temporalQuery.query;
     let sqlResults: any[] = [];
     let chromaResults: any[] = [];
     let neo4jResults: any[] = [];
@@ -895,10 +1382,12 @@ export abstract class MemoryPipelineBase {
       // Phase 1: Basic Search (SQL + ChromaDB)
       Logger.info('Phase 1: Basic multi-source search...');
       const intelligentResult = await this.searchMemoriesIntelligent(
-        query, 
-        categories, 
+        searchQuery, 
+        undefined, 
         false, // Disable reranking here, we'll do it later with graph context
-        'text'
+        'text',
+        {},
+        searchFilters
       );
       
       sqlResults = intelligentResult.results.filter(r => r.source === 'sql' || r.source === 'both');
@@ -911,12 +1400,14 @@ export abstract class MemoryPipelineBase {
 
       // Phase 2: Neo4j Graph Search
       Logger.info('Phase 2: Neo4j graph search...');
-      if (this.neo4jClient) {
+      if (!this.isSearchedStore(searchFilters, 'neo4j')) {
+        // Skipped, isSearchedStore logs the reason
+      } else if (this.neo4jClient) {
         try {
           // Extract concepts from query for semantic search
-          const queryTerms = query.toLowerCase().split(/\s+/).filter(term => term.length > 2);
+          const queryTerms = searchQuery.toLowerCase().split(/\s+/).filter(term => term.length > 2);
           
-          const neo4jResponse = await this.neo4jClient.searchMemoriesBySemanticConcepts(queryTerms, 10);
+          const neo4jResponse = await this.neo4jClient.searchMemoriesBySemanticConcepts(queryTerms, 10, undefined, searchFilters);
           if (neo4jResponse.memories) {
             neo4jResults = neo4jResponse.memories;
             Logger.info('Neo4j search completed', { resultsCount: neo4jResults.length });
@@ -933,10 +1424,7 @@ export abstract class MemoryPipelineBase {
 
       // Phase 3: Merge All Sources
       Logger.info('Phase 3: Merging multi-source results...');
-      const primaryResults = this.mergeSearchResults(
-        intelligentResult.results, 
-        neo4jResults.map(result => ({ ...result, source: 'neo4j' }))
-      );
+      const primaryResults = this.mergeGraphResults(intelligentResult.results, neo4jResults);
 
       // Phase 4: Find Related Memories (if enabled)
       if (includeRelated && this.neo4jClient && primaryResults.length > 0) {
@@ -948,7 +1436,7 @@ export abstract class MemoryPipelineBase {
               return await this.neo4jClient!.getMemoryWithRelationships(
                 result.id, 
                 maxRelationshipDepth,
-                ['RELATED_TO', 'SIMILAR_TO', 'CONCEPT_SHARED']
+                ['SIMILAR_TO', 'SHARES_CONCEPT', 'FOLLOWS', 'CAUSES', 'REFINES', 'EXAMPLE_OF', 'REFLECTS_ON']
               );
             }
             return null;
@@ -970,8 +1458,6 @@ export abstract class MemoryPipelineBase {
             }
           });
 
-          // Merge related memories with primary results
-          const finalResults = this.mergeSearchResults(primaryResults, allRelatedMemories);
           relationships = allRelationships;
           relatedMemoriesCount = allRelatedMemories.length;
 
@@ -987,7 +1473,20 @@ export abstract class MemoryPipelineBase {
 
       // Phase 5: Graph-Context Reranking
       Logger.info('Phase 5: Applying graph-context reranking...');
-      const finalResults = this.rerankWithGraphContext(query, primaryResults, relationships);
+      await this.attachAccessStats(primaryResults);
+      let finalResults = this.rerankWithGraphContext(searchQuery || query, primaryResults, relationships);
+      
+      if (explain) {
+        // Graph hits keep their position in the Neo4j result next to the SQL and vector ranks
+        const neo4jRanks = new Map<number, SourceRank>();
+        neo4jResults.forEach(result => {
+          if (!neo4jRanks.has(result.id)) neo4jRanks.set(result.id, { rank: neo4jRanks.size + 1, score: result.metadata?.similarity_score ?? null });
+        });
+        finalResults = this.explainResults(searchQuery || query, finalResults.map(result => neo4jRanks.has(result.id)
+          ? { ...result, source_ranks: { ...result.source_ranks, neo4j: neo4jRanks.get(result.id) } }
+          : result
+        ), 'graph');
+      }
 
       const executionTime = Date.now() - startTime;
       const totalFound = finalResults.length;
@@ -1002,10 +1501,12 @@ export abstract class MemoryPipelineBase {
       return {
         results: finalResults,
         sources: {
-          sql: { count: sqlResults.length, source: 'SQL Database' },
-          chroma: { count: chromaResults.length, source: 'ChromaDB Vector Search' },
-          neo4j: { count: neo4jResults.length, source: 'Neo4j Graph Search' }
+          sql: { count: sqlResults.length, source: this.sourceLabel('SQL Database', searchFilters, 'sql') },
+          chroma: { count: chromaResults.length, source: this.sourceLabel('ChromaDB Vector Search', searchFilters, 'chroma') },
+          neo4j: { count: neo4jResults.length, source: this.sourceLabel('Neo4j Graph Search', searchFilters, 'neo4j') }
         },
+        filters: SearchFilterTranslator.isEmpty(searchFilters) ? undefined : searchFilters,
+        temporal: temporalQuery.temporal,
         relationships,
         graph_context: {
           related_memories: relatedMemoriesCount,
@@ -1040,6 +1541,45 @@ export abstract class MemoryPipelineBase {
     }
   }
 
+  /**
+   * Graph context of a single memory
+   * Direct relationships touch the memory itself, extended ones are reached
+   * through other memories up to relationshipDepth hops away
+   */
+  async getMemoryGraphContext(memoryId: number, relationshipDepth: number = 2, relationshipTypes?: string[]): Promise<GraphContextResult> {
+    const result: GraphContextResult = {
+      success: false,
+      memory: null,
+      direct_relationships: [],
+      extended_relationships: [],
+      relationship_summary: { total_connections: 0, relationship_types: {} }
+    };
+    
+    if (!this.neo4jClient) {
+      result.error = 'Neo4j client not available';
+      return result;
+    }
+    
+    const graphResult = await this.neo4jClient.getMemoryWithRelationships(memoryId, relationshipDepth, relationshipTypes || []);
+    if (graphResult.error || !graphResult.memory) {
+      result.error = graphResult.error || 'Memory not found in graph';
+      return result;
+    }
+    
+    // SQL holds the current state; routed memories only exist in the graph
+    result.memory = (await this.getMemoryById(memoryId)) || graphResult.memory;
+    result.direct_relationships = graphResult.relationships.filter(rel => rel.distance === 1);
+    result.extended_relationships = graphResult.relationships.filter(rel => rel.distance > 1);
+    result.relationship_summary.total_connections = graphResult.relationships.length;
+    
+    for (const rel of graphResult.relationships) {
+      result.relationship_summary.relationship_types[rel.type] = (result.relationship_summary.relationship_types[rel.type] || 0) + 1;
+    }
+    
+    result.success = true;
+    return result;
+  }
+
   /**
    * Rerank results with graph context
    */
@@ -1050,6 +1590,7 @@ export abstract class MemoryPipelineBase {
     // Apply graph-based scoring
     return textRanked.map(result => {
       let graphScore = result.rerank_score || 0;
+      const components: ScoreComponent[] = [...result.score_components];
       
       // Relationship bonus
       const memoryRelationships = relationships.filter(rel => 
@@ -1058,20 +1599,35 @@ export abstract class MemoryPipelineBase {
       
       if (memoryRelationships.length > 0) {
         graphScore += memoryRelationships.length * 0.5; // Bonus for being connected
+        components.push({ signal: 'graph_relationships', value: memoryRelationships.length * 0.5, detail: `${memoryRelationships.length} relationships` });
         
         // Bonus for strong relationships
-        memoryRelationships.forEach(rel => {
-          if (rel.similarity && rel.similarity > 0.8) {
-            graphScore += 1;
-          }
-        });
+        const strong = memoryRelationships.filter(rel => rel.similarity && rel.similarity > 0.8).length;
+        graphScore += strong;
+        if (strong > 0) components.push({ signal: 'strong_relationships', value: strong, detail: 'similarity > 0.8' });
       }
       
-      // Source diversity bonus
-      if (result.source === 'both') graphScore += 0.5;
-      if (result.source === 'neo4j') graphScore += 0.3; // Graph-native results get slight bonus
+      // Recall frequency bonus
+      const accessBonus = this.accessBonus(result);
+      graphScore += accessBonus;
+      if (accessBonus > 0) components.push({ signal: 'access_frequency', value: accessBonus, detail: `${result.access_count} recalls` });
+      
+      // Source diversity bonus for hits found by more than one store
+      const foundIn = [
+        ...(result.source === 'sql' || result.source === 'both' ? ['SQL'] : []),
+        ...(result.source === 'chroma' || result.source === 'both' ? ['vector'] : []),
+        ...(result.in_graph && result.source !== 'neo4j' ? ['graph'] : [])
+      ];
+      if (foundIn.length > 1) {
+        graphScore += 0.5;
+        components.push({ signal: 'source_diversity', value: 0.5, detail: `${foundIn.join(' + ')} hit` });
+      }
+      if (result.source === 'neo4j') {
+        graphScore += 0.3; // Graph-native results get slight bonus
+        components.push({ signal: 'graph_native', value: 0.3, detail: 'only found in the graph' });
+      }
       
-      return { ...result, graph_score: graphScore };
+      return { ...result, graph_score: graphScore, score_components: components };
     }).sort((a, b) => b.graph_score - a.graph_score);
   }
 }
@@ -0,0 +1,746 @@
+import { Logger } from '../utils/Logger.js';
+import { RelationshipBuilder } from './RelationshipBuilder.js';
+
+// Memory types that live in ChromaDB/Neo4j only and are never kept in SQL
+export const SEMANTIC_MEMORY_TYPES = ['faktenwissen', 'prozedurales_wissen'];
+
+const VALID_CATEGORIES = [
+  'faktenwissen', 'prozedurales_wissen', 'erlebnisse',
+  'bewusstsein', 'humor', 'zusammenarbeit',
+  'forgotten_memories', 'kernerinnerungen', 'short_memory'
+];
+
+// Everything the phases need from the database backend
+export interface MemoryPipelineHost {
+  analyzer: any;
+  chromaClient: any;
+  neo4jClient: any;
+  saveNewMemory(category: string, topic: string, content: string): Promise<any>;
+  getMemoryById(id: number): Promise<any | null>;
+  updateMemory(id: number, updates: { topic?: string; content?: string; category?: string }): Promise<{ changedRows: number }>;
+  deleteMemory(id: number): Promise<boolean | any>;
+  addToShortMemory(memory: any): Promise<void>;
+  createPendingWrite?(memoryId: number, target: string, payload: any): Promise<number>;
+  recordRoutedMemory?(memoryId: number, memoryType: string, topic: string): Promise<void>;
+}
+
+// A store write that failed during the save and is retried by the PendingWriteProcessor
+export interface PendingWrite {
+  target: 'chroma' | 'neo4j';
+  payload: {
+    memory: any;
+    concepts: any[];
+    // Routing removes the memory from SQL only after this write has succeeded
+    remove_from_sql?: boolean;
+  };
+}
+
+// State passed from phase to phase while a single memory is saved
+export interface MemoryPipelineContext {
+  // Input
+  category: string;
+  topic: string;
+  content: string;
+  forceRelationships: any[];
+  
+  // Classification
+  normalizedCategory: string;
+  memoryId: number;
+  savedMemory: any;
+  analysis: any;
+  memoryType?: string;
+  
+  // Storage outcome
+  stored_in_chroma: boolean;
+  concepts_stored: number;
+  stored_in_neo4j: boolean;
+  relationships_created: number;
+  stored_in_short_memory: boolean;
+  
+  // Significance and routing
+  keepInSQL: boolean;
+  significanceReason: string;
+  sqlDeleteDeferred: boolean;
+  
+  // Failed store writes, persisted to the outbox by the last phase
+  pendingWrites: PendingWrite[];
+  
+  // A halted pipeline skips all remaining phases and keeps the memory in SQL
+  halted: boolean;
+  error?: string;
+  
+  // Free-form results of additional phases
+  extras: Record<string, any>;
+}
+
+// An existing memory the new one probably duplicates, reported in the save result
+export interface DuplicateFlag {
+  memory_id: number;
+  topic: string;
+  similarity: number;
+  topic_overlap: number;
+}
+
+// An existing memory the new fact conflicts with, reported in the save result
+export interface ContradictionFlag {
+  memory_id: number;
+  topic: string;
+  confidence: number;
+  explanation: string;
+  // Whether a CONTRADICTS edge was created in Neo4j
+  linked: boolean;
+}
+
+export interface MemoryPipelinePhase {
+  name: string;
+  run(context: MemoryPipelineContext, host: MemoryPipelineHost): Promise<void>;
+}
+
+/**
+ * Phase 1: SQL storage for the ID, LLM analysis and category update
+ */
+export class ClassifyPhase implements MemoryPipelinePhase {
+  name = 'classify';
+  
+  async run(context: MemoryPipelineContext, host: MemoryPipelineHost): Promise<void> {
+    context.normalizedCategory = VALID_CATEGORIES.includes(context.category) ? context.category : 'undefined';
+    
+    if (context.normalizedCategory === 'undefined') {
+      Logger.info('Category normalized for LLM analysis', {
+        originalCategory: context.category,
+        reason: 'Will be determined by LLM analysis'
+      });
+    }
+    
+    const memoryResult = await host.saveNewMemory(context.normalizedCategory, context.topic, context.content);
+    context.memoryId = memoryResult.id;
+    
+    context.savedMemory = await host.getMemoryById(context.memoryId);
+    if (!context.savedMemory) {
+      throw new Error(`Failed to retrieve saved memory with ID ${context.memoryId}`);
+    }
+    
+    if (!host.analyzer) {
+      throw new Error('SemanticAnalyzer not available for advanced pipeline');
+    }
+    
+    context.analysis = await host.analyzer.extractAndAnalyzeConcepts(context.savedMemory);
+    if (context.analysis.error) {
+      Logger.error('Semantic analysis failed - keeping memory in SQL as fallback', {
+        memoryId: context.memoryId,
+        error: context.analysis.error
+      });
+      context.significanceReason = `Semantic analysis failed: ${context.analysis.error} - kept in SQL as fallback`;
+      context.error = `Semantic analysis failed: ${context.analysis.error}`;
+      context.halted = true;
+      return;
+    }
+    
+    context.memoryType = context.analysis.semantic_concepts?.[0]?.memory_type;
+    if (!context.memoryType) {
+      Logger.error('Could not determine memory type from analysis - keeping memory in SQL', { memoryId: context.memoryId });
+      context.significanceReason = 'Could not determine memory type from analysis - kept in SQL with normalized category';
+      context.error = 'Could not determine memory type from analysis';
+      context.halted = true;
+      return;
+    }
+    
+    Logger.info('Memory classified', {
+      memoryId: context.memoryId,
+      memoryType: context.memoryType,
+      conceptCount: context.analysis.semantic_concepts.length
+    });
+    
+    // Semantic types are removed from SQL during routing, so their category is left alone
+    if (context.memoryType !== context.savedMemory.category && !SEMANTIC_MEMORY_TYPES.includes(context.memoryType)) {
+      try {
+        const updateResult = await host.updateMemory(context.memoryId, { category: context.memoryType });
+        if (updateResult.changedRows > 0) {
+          Logger.success('Memory category updated successfully', { memoryId: context.memoryId, newCategory: context.memoryType });
+        } else {
+          Logger.warn('Memory category update had no effect', { memoryId: context.memoryId });
+        }
+      } catch (updateError) {
+        Logger.error('Failed to update memory category', {
+          memoryId: context.memoryId,
+          newCategory: context.memoryType,
+          error: String(updateError)
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Phase 2: One ChromaDB entry per extracted concept
+ */
+export class VectorStoragePhase implements MemoryPipelinePhase {
+  name = 'store_vectors';
+  
+  async run(context: MemoryPipelineContext, host: MemoryPipelineHost): Promise<void> {
+    const concepts = context.analysis?.semantic_concepts || [];
+    
+    if (!host.chromaClient || concepts.length === 0) {
+      Logger.warn('ChromaDB storage skipped', {
+        chromaClientAvailable: !!host.chromaClient,
+        conceptCount: concepts.length
+      });
+      return;
+    }
+    
+    const memory = storableFromContext(context);
+    
+    try {
+      const result = await host.chromaClient.storeConcepts(memory, concepts);
+      context.stored_in_chroma = result.success && result.stored > 0;
+      context.concepts_stored = result.stored;
+      
+      if (result.errors?.length > 0) {
+        Logger.warn('Some ChromaDB concept storage failed', {
+          memoryId: context.memoryId,
+          stored: result.stored,
+          errors: result.errors.slice(0, 3)
+        });
+      } else {
+        Logger.success('ChromaDB concepts stored', { memoryId: context.memoryId, stored: result.stored });
+      }
+    } catch (error) {
+      Logger.error('ChromaDB concept storage error', { memoryId: context.memoryId, error: String(error) });
+    }
+    
+    if (!context.stored_in_chroma) {
+      context.pendingWrites.push({ target: 'chroma', payload: { memory, concepts } });
+    }
+  }
+}
+
+/**
+ * Phase 3: Neo4j memory node, relationships to related memories and forced relationships
+ */
+export class GraphStoragePhase implements MemoryPipelinePhase {
+  name = 'store_graph';
+  
+  async run(context: MemoryPipelineContext, host: MemoryPipelineHost): Promise<void> {
+    if (!host.neo4jClient) {
+      Logger.warn('Neo4j integration skipped - client not available');
+      return;
+    }
+    
+    const memory = storableFromContext(context);
+    const concepts = context.analysis?.semantic_concepts || [];
+    
+    try {
+      const nodeResult = await host.neo4jClient.createMemoryNodeWithConcepts(memory, concepts);
+      if (!nodeResult.success) {
+        Logger.error('Neo4j memory node creation failed', { memoryId: context.memoryId, error: nodeResult.error });
+        context.pendingWrites.push({ target: 'neo4j', payload: { memory, concepts } });
+        return;
+      }
+      
+      context.stored_in_neo4j = true;
+      
+      // Vectors are stored in the previous phase, so embedding similarity is available here
+      const relationshipResult = await new RelationshipBuilder(host.chromaClient, host.neo4jClient).build(memory);
+      context.relationships_created += relationshipResult.relationshipsCreated;
+      context.extras.relationships_by_type = relationshipResult.byType;
+      
+      if (!relationshipResult.success) {
+        Logger.warn('Neo4j relationship creation partially failed', {
+          memoryId: context.memoryId,
+          errors: relationshipResult.errors
+        });
+      }
+      
+      for (const relationship of context.forceRelationships) {
+        // The relationship type is interpolated into Cypher, so only plain identifiers are accepted
+        const relationshipType = String(relationship.relationshipType || 'RELATED_TO').toUpperCase();
+        if (!/^[A-Z_][A-Z0-9_]*$/.test(relationshipType)) {
+          Logger.warn('Forced relationship skipped - invalid type', { memoryId: context.memoryId, relationshipType });
+          continue;
+        }
+        
+        try {
+          await host.neo4jClient.createRelationship(
+            context.memoryId,
+            Number(relationship.targetMemoryId),
+            relationshipType,
+            { ...(relationship.properties || {}), created_at: new Date().toISOString(), forced: true }
+          );
+          context.relationships_created++;
+        } catch (error) {
+          Logger.warn('Forced relationship creation failed', {
+            memoryId: context.memoryId,
+            targetMemoryId: relationship.targetMemoryId,
+            error: String(error)
+          });
+        }
+      }
+      
+      Logger.success('Neo4j graph storage completed', {
+        memoryId: context.memoryId,
+        relationshipsCreated: context.relationships_created
+      });
+    } catch (error) {
+      Logger.error('Neo4j integration error', { memoryId: context.memoryId, error: String(error) });
+      if (!context.stored_in_neo4j) {
+        context.pendingWrites.push({ target: 'neo4j', payload: { memory, concepts } });
+      }
+    }
+  }
+}
+
+/**
+ * Phase 4: Flag near-duplicates of the new memory
+ * A duplicate needs both a close concept embedding and overlapping topic words,
+ * so related memories about the same subject are not reported
+ */
+export class DuplicateCheckPhase implements MemoryPipelinePhase {
+  name = 'check_duplicates';
+  private similarityThreshold: number;
+  private topicOverlapThreshold: number;
+  
+  constructor(options: { similarityThreshold?: number; topicOverlapThreshold?: number } = {}) {
+    const similarity = parseFloat(process.env.DUPLICATE_SIMILARITY_THRESHOLD || '');
+    const topicOverlap = parseFloat(process.env.DUPLICATE_TOPIC_OVERLAP || '');
+    this.similarityThreshold = options.similarityThreshold ?? (isNaN(similarity) ? 0.92 : similarity);
+    this.topicOverlapThreshold = options.topicOverlapThreshold ?? (isNaN(topicOverlap) ? 0.5 : topicOverlap);
+  }
+  
+  async run(context: MemoryPipelineContext, host: MemoryPipelineHost): Promise<void> {
+    if (!context.stored_in_chroma || !host.chromaClient?.findSimilarMemories) return;
+    
+    const { matches, error } = await host.chromaClient.findSimilarMemories(context.memoryId, 5);
+    if (error) {
+      Logger.warn('Duplicate check skipped - ChromaDB search failed', { memoryId: context.memoryId, error });
+      return;
+    }
+    
+    const duplicates: DuplicateFlag[] = (matches || [])
+      .map((match: any) => ({
+        memory_id: match.memory_id,
+        topic: match.source_topic || '',
+        similarity: Math.round(match.similarity * 1000) / 1000,
+        topic_overlap: Math.round(DuplicateCheckPhase.topicOverlap(context.topic, match.source_topic || '') * 1000) / 1000
+      }))
+      .filter((entry: DuplicateFlag) => entry.similarity >= this.similarityThreshold && entry.topic_overlap >= this.topicOverlapThreshold);
+    
+    context.extras.duplicates = duplicates;
+    if (duplicates.length > 0) {
+      Logger.warn('Possible duplicates detected', { memoryId: context.memoryId, duplicateOf: duplicates.map(entry => entry.memory_id) });
+    }
+  }
+  
+  // Jaccard index of the topic words, ignoring case and punctuation
+  static topicOverlap(a: string, b: string): number {
+    const words = (text: string) => new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 1));
+    const wordsA = words(a);
+    const wordsB = words(b);
+    if (wordsA.size === 0 || wordsB.size === 0) return 0;
+    
+    const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+    return shared / (wordsA.size + wordsB.size - shared);
+  }
+}
+
+/**
+ * Phase 5: Check new facts against semantically close existing knowledge
+ * Conflicts are flagged in the save result and linked with a CONTRADICTS edge;
+ * they are resolved later via resolve_contradiction
+ */
+export class ContradictionCheckPhase implements MemoryPipelinePhase {
+  name = 'check_contradictions';
+  private maxCandidates: number;
+  private minConfidence: number;
+  
+  constructor(options: { maxCandidates?: number; minConfidence?: number } = {}) {
+    const maxCandidates = parseInt(process.env.CONTRADICTION_MAX_CANDIDATES || '', 10);
+    const minConfidence = parseFloat(process.env.CONTRADICTION_MIN_CONFIDENCE || '');
+    this.maxCandidates = options.maxCandidates ?? (isNaN(maxCandidates) ? 5 : maxCandidates);
+    this.minConfidence = options.minConfidence ?? (isNaN(minConfidence) ? 0.7 : minConfidence);
+  }
+  
+  async run(context: MemoryPipelineContext, host: MemoryPipelineHost): Promise<void> {
+    if (context.memoryType !== 'faktenwissen' || this.maxCandidates <= 0) return;
+    
+    if (!host.analyzer?.detectContradictions || !host.chromaClient?.searchSimilar) {
+      Logger.debug('Contradiction check skipped - analyzer or ChromaDB not available', { memoryId: context.memoryId });
+      return;
+    }
+    
+    try {
+      // Concepts of the new memory are already stored, so more hits than candidates are requested
+      const search = await host.chromaClient.searchSimilar(`${context.topic}\n${context.content}`, this.maxCandidates * 3);
+      if (search.error) {
+        Logger.warn('Contradiction check skipped - ChromaDB search failed', { memoryId: context.memoryId, error: search.error });
+        return;
+      }
+      
+      // Group concept hits by their source memory, keeping the order of relevance
+      const candidates = new Map<number, { id: number; topic: string; content: string }>();
+      for (const hit of search.results) {
+        const sourceId = Number(hit.source_memory_id);
+        if (!sourceId || sourceId === context.memoryId) continue;
+        
+        const candidate = candidates.get(sourceId);
+        if (candidate) {
+          candidate.content += `\n${hit.content}`;
+        } else if (candidates.size < this.maxCandidates) {
+          candidates.set(sourceId, { id: sourceId, topic: hit.source_topic || hit.concept_title || '', content: hit.content });
+        }
+      }
+      if (candidates.size === 0) return;
+      
+      const result = await host.analyzer.detectContradictions(storableFromContext(context), [...candidates.values()]);
+      if (result.error) {
+        Logger.warn('Contradiction check failed', { memoryId: context.memoryId, error: result.error });
+        return;
+      }
+      
+      const contradictions: ContradictionFlag[] = [];
+      for (const contradiction of result.contradictions || []) {
+        if (contradiction.confidence < this.minConfidence) continue;
+        
+        let linked = false;
+        if (context.stored_in_neo4j) {
+          try {
+            await host.neo4jClient.createRelationship(context.memoryId, contradiction.id, 'CONTRADICTS', {
+              confidence: contradiction.confidence,
+              explanation: contradiction.explanation,
+              status: 'open',
+              created_at: new Date().toISOString()
+            });
+            linked = true;
+            context.relationships_created++;
+          } catch (error) {
+            Logger.warn('CONTRADICTS relationship creation failed', { memoryId: context.memoryId, targetId: contradiction.id, error: String(error) });
+          }
+        }
+        
+        contradictions.push({
+          memory_id: contradiction.id,
+          topic: candidates.get(contradiction.id)?.topic || '',
+          confidence: contradiction.confidence,
+          explanation: contradiction.explanation,
+          linked
+        });
+      }
+      
+      context.extras.contradictions = contradictions;
+      if (contradictions.length > 0) {
+        Logger.warn('Contradictions detected', { memoryId: context.memoryId, conflictsWith: contradictions.map(entry => entry.memory_id) });
+      }
+    } catch (error) {
+      // The check is advisory; the memory itself is already stored
+      Logger.warn('Contradiction check failed', { memoryId: context.memoryId, error: String(error) });
+    }
+  }
+}
+
+/**
+ * Optional phase: LLM-inferred relationships (CAUSES, REFINES, CONTRADICTS,
+ * EXAMPLE_OF, REFLECTS_ON) between the new memory and its most similar memories.
+ * Not part of the default pipeline; register it after 'store_graph'.
+ */
+export class RelationInferencePhase implements MemoryPipelinePhase {
+  name = 'infer_relationships';
+  private topK: number;
+  private minConfidence: number;
+  
+  constructor(options: { topK?: number; minConfidence?: number } = {}) {
+    this.topK = options.topK ?? 5;
+    this.minConfidence = options.minConfidence ?? 0.6;
+  }
+  
+  static optionsFromEnv(): { topK: number; minConfidence: number } {
+    const topK = parseInt(process.env.LLM_RELATION_TOP_K || '', 10);
+    const minConfidence = parseFloat(process.env.LLM_RELATION_MIN_CONFIDENCE || '');
+    return {
+      topK: isNaN(topK) ? 5 : topK,
+      minConfidence: isNaN(minConfidence) ? 0.6 : minConfidence
+    };
+  }
+  
+  async run(context: MemoryPipelineContext, host: MemoryPipelineHost): Promise<void> {
+    if (!context.stored_in_neo4j || !host.analyzer?.classifyRelationships || this.topK <= 0) {
+      return;
+    }
+    
+    try {
+      // Candidates are the nearest memories by concept embedding, or by shared concepts without ChromaDB
+      const candidateIds: number[] = host.chromaClient?.findSimilarMemories
+        ? ((await host.chromaClient.findSimilarMemories(context.memoryId, this.topK)).matches || []).map((match: any) => match.memory_id)
+        : (await host.neo4jClient.findMemoriesSharingConcepts(context.memoryId, 1, this.topK)).map((entry: any) => entry.memory_id);
+      
+      // Graph nodes also cover memories that were routed out of SQL
+      const candidates = await host.neo4jClient.getMemoriesByIds(candidateIds);
+      if (candidates.length === 0) return;
+      
+      const memory = storableFromContext(context);
+      const result = await host.analyzer.classifyRelationships(memory, candidates);
+      if (result.error) {
+        Logger.warn('Relationship inference skipped - classification failed', { memoryId: context.memoryId, error: result.error });
+        return;
+      }
+      
+      const inferred: any[] = [];
+      for (const relationship of result.relationships || []) {
+        if (relationship.confidence < this.minConfidence) continue;
+        
+        const [fromId, toId] = relationship.outgoing
+          ? [context.memoryId, relationship.id]
+          : [relationship.id, context.memoryId];
+        
+        try {
+          await host.neo4jClient.createRelationship(fromId, toId, relationship.relationship_type, {
+            confidence: relationship.confidence,
+            justification: relationship.justification,
+            inferred_by: 'llm',
+            created_at: new Date().toISOString()
+          });
+          inferred.push({ from: fromId, to: toId, type: relationship.relationship_type, confidence: relationship.confidence });
+        } catch (error) {
+          Logger.warn('Inferred relationship creation failed', { memoryId: context.memoryId, targetId: relationship.id, error: String(error) });
+        }
+      }
+      
+      context.relationships_created += inferred.length;
+      context.extras.inferred_relationships = inferred;
+      Logger.success('Relationships inferred', { memoryId: context.memoryId, candidates: candidates.length, created: inferred.length });
+    } catch (error) {
+      // Inference is an enrichment; the memory itself is already stored
+      Logger.warn('Relationship inference failed', { memoryId: context.memoryId, error: String(error) });
+    }
+  }
+}
+
+/**
+ * Phase 6: Decide whether the memory is significant enough to stay in SQL
+ */
+export class SignificancePhase implements MemoryPipelinePhase {
+  name = 'evaluate_significance';
+  
+  async run(context: MemoryPipelineContext, host: MemoryPipelineHost): Promise<void> {
+    const memoryType = context.memoryType!;
+    
+    if (SEMANTIC_MEMORY_TYPES.includes(memoryType)) {
+      context.keepInSQL = false;
+      context.significanceReason = `${memoryType} is never stored in SQL - only in ChromaDB`;
+      return;
+    }
+    
+    const significanceResult = await host.analyzer.evaluateSignificance(context.savedMemory, memoryType);
+    if (significanceResult.error) {
+      Logger.warn('Significance evaluation failed - defaulting to keep in SQL', {
+        memoryId: context.memoryId,
+        memoryType,
+        error: significanceResult.error
+      });
+      context.keepInSQL = true;
+      context.significanceReason = `Significance evaluation failed: ${significanceResult.error} - defaulted to keep in SQL`;
+    } else {
+      context.keepInSQL = !!significanceResult.significant;
+      context.significanceReason = significanceResult.reason || '';
+    }
+    
+    Logger.info('Significance evaluated', {
+      memoryId: context.memoryId,
+      memoryType,
+      keepInSQL: context.keepInSQL,
+      reason: context.significanceReason
+    });
+  }
+}
+
+/**
+ * Phase 7: Remove non-significant memories from SQL and keep them in short memory
+ * A memory is only removed from SQL once its concepts are stored in ChromaDB,
+ * otherwise the removal is deferred until the pending ChromaDB write succeeds.
+ */
+export class RoutingPhase implements MemoryPipelinePhase {
+  name = 'route';
+  
+  async run(context: MemoryPipelineContext, host: MemoryPipelineHost): Promise<void> {
+    if (context.keepInSQL) {
+      Logger.info('Memory kept in SQL', {
+        memoryId: context.memoryId,
+        memoryType: context.memoryType,
+        reason: context.significanceReason
+      });
+      return;
+    }
+    
+    if (!context.stored_in_chroma) {
+      const chromaWrite = context.pendingWrites.find(write => write.target === 'chroma');
+      if (chromaWrite) {
+        chromaWrite.payload.remove_from_sql = true;
+      }
+      
+      context.keepInSQL = true;
+      context.sqlDeleteDeferred = !!chromaWrite;
+      context.significanceReason += chromaWrite
+        ? ' - kept in SQL until the pending ChromaDB write succeeds'
+        : ' - kept in SQL because ChromaDB is not available';
+      
+      Logger.warn('SQL removal skipped - memory is not stored in ChromaDB', {
+        memoryId: context.memoryId,
+        memoryType: context.memoryType,
+        deferred: context.sqlDeleteDeferred
+      });
+      return;
+    }
+    
+    Logger.info('Removing memory from SQL', {
+      memoryId: context.memoryId,
+      memoryType: context.memoryType,
+      storedInChroma: context.stored_in_chroma,
+      reason: context.significanceReason
+    });
+    await host.deleteMemory(context.memoryId);
+    await host.recordRoutedMemory?.(context.memoryId, context.memoryType!, context.topic);
+    
+    // Removed memories stay available for the current session
+    await host.addToShortMemory({
+      topic: context.topic,
+      content: context.content,
+      date: new Date().toISOString().split('T')[0],
+      source_memory_id: context.memoryId
+    });
+    context.stored_in_short_memory = true;
+    Logger.success('Memory moved to short memory', { memoryId: context.memoryId, memoryType: context.memoryType });
+  }
+}
+
+/**
+ * Phase 8: Persist failed store writes to the pending_writes outbox
+ */
+export class PendingWritePhase implements MemoryPipelinePhase {
+  name = 'record_pending_writes';
+  
+  async run(context: MemoryPipelineContext, host: MemoryPipelineHost): Promise<void> {
+    if (context.pendingWrites.length === 0) return;
+    
+    if (!host.createPendingWrite) {
+      Logger.warn('Pending writes not recorded - database has no outbox', {
+        memoryId: context.memoryId,
+        targets: context.pendingWrites.map(write => write.target)
+      });
+      return;
+    }
+    
+    for (const write of context.pendingWrites) {
+      await host.createPendingWrite(context.memoryId, write.target, write.payload);
+    }
+    
+    Logger.warn('Pending writes recorded for retry', {
+      memoryId: context.memoryId,
+      targets: context.pendingWrites.map(write => write.target),
+      sqlDeleteDeferred: context.sqlDeleteDeferred
+    });
+  }
+}
+
+/**
+ * Pluggable memory save pipeline
+ * Runs its phases in order on a shared context. Every backend and the
+ * save_memory_full tool go through this pipeline, so a memory is treated
+ * the same regardless of the database type.
+ */
+export class MemorySavePipeline {
+  private phases: MemoryPipelinePhase[];
+  
+  constructor(phases: MemoryPipelinePhase[] = MemorySavePipeline.createDefaultPhases()) {
+    this.phases = [...phases];
+  }
+  
+  static createDefaultPhases(): MemoryPipelinePhase[] {
+    return [
+      new ClassifyPhase(),
+      new VectorStoragePhase(),
+      new GraphStoragePhase(),
+      new DuplicateCheckPhase(),
+      new ContradictionCheckPhase(),
+      new SignificancePhase(),
+      new RoutingPhase(),
+      new PendingWritePhase()
+    ];
+  }
+  
+  static createContext(category: string, topic: string, content: string, forceRelationships: any[] = []): MemoryPipelineContext {
+    return {
+      category,
+      topic,
+      content,
+      forceRelationships,
+      normalizedCategory: category,
+      memoryId: 0,
+      savedMemory: null,
+      analysis: null,
+      stored_in_chroma: false,
+      concepts_stored: 0,
+      stored_in_neo4j: false,
+      relationships_created: 0,
+      stored_in_short_memory: false,
+      keepInSQL: true,
+      significanceReason: '',
+      sqlDeleteDeferred: false,
+      pendingWrites: [],
+      halted: false,
+      extras: {}
+    };
+  }
+  
+  getPhaseNames(): string[] {
+    return this.phases.map(phase => phase.name);
+  }
+  
+  // Insert a phase relative to an existing one, or append it
+  addPhase(phase: MemoryPipelinePhase, position: { before?: string; after?: string } = {}): void {
+    const anchor = position.before || position.after;
+    const index = anchor ? this.phases.findIndex(existing => existing.name === anchor) : -1;
+    
+    if (anchor && index === -1) {
+      throw new Error(`Pipeline phase '${anchor}' not found`);
+    }
+    
+    if (index === -1) {
+      this.phases.push(phase);
+    } else {
+      this.phases.splice(position.before ? index : index + 1, 0, phase);
+    }
+    
+    Logger.debug('Pipeline phase added', { phase: phase.name, phases: this.getPhaseNames() });
+  }
+  
+  async execute(context: MemoryPipelineContext, host: MemoryPipelineHost): Promise<MemoryPipelineContext> {
+    for (const phase of this.phases) {
+      if (context.halted) {
+        Logger.info('Pipeline halted - skipping remaining phases', { memoryId: context.memoryId, nextPhase: phase.name });
+        break;
+      }
+      
+      Logger.info(`Pipeline phase: ${phase.name}`, { memoryId: context.memoryId });
+      await phase.run(context, host);
+    }
+    
+    return context;
+  }
+}
+
+// Primitive-only copy of a memory for ChromaDB metadata and Neo4j properties
+export function toStorableMemory(memory: any, category?: string): any {
+  return {
+    id: memory.id,
+    category: category || memory.category || '',
+    topic: memory.topic || '',
+    content: memory.content || '',
+    date: memory.date instanceof Date ? memory.date.toISOString().split('T')[0] : String(memory.date || ''),
+    created_at: memory.created_at instanceof Date ? memory.created_at.toISOString() : String(memory.created_at || '')
+  };
+}
+
+function storableFromContext(context: MemoryPipelineContext): any {
+  return toStorableMemory(
+    { topic: context.topic, content: context.content, ...context.savedMemory, id: context.memoryId },
+    context.memoryType || context.savedMemory?.category || context.normalizedCategory
+  );
+}
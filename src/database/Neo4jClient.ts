@@ -1,5 +1,6 @@
 import neo4j, { Driver, Session, Result, Node, Relationship } from 'neo4j-driver';
 import { Logger } from '../utils/Logger.js';
+import { SearchFilters, SearchFilterTranslator } from './SearchFilters.js';
 
 export interface Neo4jConfig {
   uri: string;
@@ -44,6 +45,14 @@ export interface GraphSearchResult {
   score?: number;
 }
 
+// Result of one requested edge in createRelationships
+export interface RelationshipOutcome {
+  targetId: string | number;
+  relationshipType: string;
+  created: boolean;
+  error?: string;
+}
+
 export class Neo4jClient {
   private driver: Driver;
   private database: string;
@@ -181,8 +190,8 @@ export class Neo4jClient {
   }
 
   async createRelationship(
-    fromId: string,
-    toId: string,
+    fromId: string | number,
+    toId: string | number,
     relationshipType: string,
     properties: Record<string, any> = {}
   ): Promise<void> {
@@ -193,16 +202,22 @@ export class Neo4jClient {
       propertiesCount: Object.keys(properties).length 
     });
     
+    // The relationship type is interpolated into Cypher, so only plain identifiers are accepted
+    if (!/^[A-Z_][A-Z0-9_]*$/.test(relationshipType)) {
+      throw new Error(`Invalid relationship type: ${relationshipType}`);
+    }
+    
     const query = `
       MATCH (from:Memory {id: $fromId})
       MATCH (to:Memory {id: $toId})
-      CREATE (from)-[r:${relationshipType} $properties]->(to)
+      MERGE (from)-[r:${relationshipType}]->(to)
+      SET r += $properties
       RETURN r
     `;
 
     await this.runQuery(query, {
-      fromId,
-      toId,
+      fromId: Number(fromId),
+      toId: Number(toId),
       properties
     });
     
@@ -366,7 +381,8 @@ export class Neo4jClient {
       'CREATE INDEX memory_id_index IF NOT EXISTS FOR (m:Memory) ON (m.id)',
       'CREATE INDEX memory_type_index IF NOT EXISTS FOR (m:Memory) ON (m.type)',
       'CREATE INDEX memory_timestamp_index IF NOT EXISTS FOR (m:Memory) ON (m.timestamp)',
-      'CREATE FULLTEXT INDEX memory_content_index IF NOT EXISTS FOR (m:Memory) ON (m.content)'
+      'CREATE FULLTEXT INDEX memory_content_index IF NOT EXISTS FOR (m:Memory) ON (m.content)',
+      'CREATE CONSTRAINT concept_normalized_title_unique IF NOT EXISTS FOR (c:Concept) REQUIRE c.normalized_title IS UNIQUE'
     ];
 
     let successCount = 0;
@@ -385,18 +401,187 @@ export class Neo4jClient {
     });
   }
 
-  async deleteMemory(id: string): Promise<void> {
+  async getMemoryNodeSources(): Promise<Array<{ id: number; category: string | null }>> {
+    Logger.debug('Neo4j: Listing all memory node IDs');
+    
+    const result = await this.runQuery('MATCH (m:Memory) RETURN m.id AS id, m.category AS category');
+    return result.records
+      .map(record => {
+        const id = record.get('id');
+        return {
+          id: neo4j.isInt(id) ? id.toNumber() : Number(id),
+          category: record.get('category') ?? null
+        };
+      })
+      .filter(node => !isNaN(node.id));
+  }
+
+  async deleteMemory(id: string | number): Promise<void> {
     Logger.warn('Neo4j: Deleting memory node', { memoryId: id });
     
+    // Concepts only this memory mentioned are removed with it
     const query = `
       MATCH (m:Memory {id: $id})
+      OPTIONAL MATCH (m)-[:MENTIONS]->(c:Concept)
+      WITH m, collect(c) AS concepts
       DETACH DELETE m
+      WITH concepts
+      UNWIND concepts AS c
+      WITH c WHERE NOT (c)<-[:MENTIONS]-()
+      DELETE c
     `;
 
     await this.runQuery(query, { id });
     Logger.success('Neo4j: Memory node deleted successfully', { memoryId: id });
   }
 
+  async updateMemoryNode(
+    id: string | number,
+    updates: { topic?: string; content?: string; category?: string }
+  ): Promise<boolean> {
+    Logger.info('Neo4j: Updating memory node', { memoryId: id, fields: Object.keys(updates) });
+    
+    // Only set properties that were actually changed
+    const parameters: Record<string, any> = { id };
+    const assignments: string[] = [];
+    
+    for (const [key, value] of Object.entries(updates)) {
+      if (value !== undefined) {
+        parameters[key] = value;
+        assignments.push(`m.${key} = $${key}`);
+      }
+    }
+    
+    if (assignments.length === 0) return false;
+    
+    const query = `
+      MATCH (m:Memory {id: $id})
+      SET ${assignments.join(', ')}
+      RETURN count(m) AS updated
+    `;
+
+    const result = await this.runQuery(query, parameters);
+    const updated = result.records[0]?.get('updated');
+    const count = neo4j.isInt(updated) ? updated.toNumber() : Number(updated || 0);
+    
+    Logger.success('Neo4j: Memory node updated', { memoryId: id, updated: count });
+    return count > 0;
+  }
+
+  /**
+   * Link a memory to its concepts as (:Memory)-[:MENTIONS]->(:Concept)
+   * Concepts are merged by normalized title, so memories that mention the same
+   * concept share one node; keywords of all mentions are accumulated
+   */
+  async linkConcepts(memoryId: string | number, concepts: any[]): Promise<number> {
+    const conceptParams = this.toConceptParams(concepts);
+    if (conceptParams.length === 0) return 0;
+    
+    const query = `
+      MATCH (m:Memory {id: $memoryId})
+      UNWIND $concepts AS concept
+      MERGE (c:Concept {normalized_title: concept.normalized_title})
+        ON CREATE SET c.title = concept.title, c.keywords = concept.keywords, c.created_at = $now
+        ON MATCH SET c.keywords = coalesce(c.keywords, []) + [keyword IN concept.keywords WHERE NOT keyword IN coalesce(c.keywords, [])]
+      MERGE (m)-[r:MENTIONS]->(c)
+      SET r.confidence = concept.confidence
+      RETURN count(r) AS linked
+    `;
+
+    const result = await this.runQuery(query, {
+      memoryId: Number(memoryId),
+      concepts: conceptParams,
+      now: new Date().toISOString()
+    });
+    const linked = result.records[0]?.get('linked');
+    const count = neo4j.isInt(linked) ? linked.toNumber() : Number(linked || 0);
+    
+    Logger.debug('Neo4j: Concepts linked to memory', { memoryId, linked: count });
+    return count;
+  }
+
+  /**
+   * Replace the MENTIONS edges of a memory after its concepts were re-extracted
+   */
+  async replaceMemoryConcepts(memoryId: string | number, concepts: any[]): Promise<number> {
+    const unlinkQuery = `
+      MATCH (m:Memory {id: $memoryId})-[r:MENTIONS]->(c:Concept)
+      DELETE r
+      WITH c WHERE NOT (c)<-[:MENTIONS]-()
+      DELETE c
+    `;
+
+    await this.runQuery(unlinkQuery, { memoryId: Number(memoryId) });
+    return this.linkConcepts(memoryId, concepts);
+  }
+
+  /**
+   * Convert the legacy comma-joined m.concepts property into Concept nodes
+   * Titles are normalized like new saves, so both end up on the same Concept node
+   * Safe to run repeatedly: converted memories no longer have the property
+   */
+  async migrateConceptProperties(): Promise<number> {
+    const legacyResult = await this.runQuery(`
+      MATCH (m:Memory)
+      WHERE m.concepts IS NOT NULL
+      RETURN m.id AS id, m.concepts AS concepts
+    `);
+    if (legacyResult.records.length === 0) return 0;
+    
+    const memories = legacyResult.records.map(record => {
+      const id = record.get('id');
+      return {
+        id: neo4j.isInt(id) ? id.toNumber() : id,
+        concepts: this.toConceptParams(String(record.get('concepts') || '').split(',').map(title => ({ title })))
+      };
+    });
+    
+    const query = `
+      UNWIND $memories AS entry
+      MATCH (m:Memory {id: entry.id})
+      WHERE m.concepts IS NOT NULL
+      FOREACH (concept IN entry.concepts |
+        MERGE (c:Concept {normalized_title: concept.normalized_title})
+          ON CREATE SET c.title = concept.title, c.keywords = [], c.created_at = $now
+        MERGE (m)-[:MENTIONS]->(c)
+      )
+      REMOVE m.concepts
+      RETURN count(m) AS migrated
+    `;
+
+    const result = await this.runQuery(query, { memories, now: new Date().toISOString() });
+    const migrated = result.records[0]?.get('migrated');
+    const count = neo4j.isInt(migrated) ? migrated.toNumber() : Number(migrated || 0);
+    
+    if (count > 0) {
+      Logger.info('Neo4j: Migrated concept properties to Concept nodes', { memories: count });
+    }
+    return count;
+  }
+
+  private toConceptParams(concepts: any[]): Array<{ title: string; normalized_title: string; keywords: string[]; confidence: number }> {
+    const byTitle = new Map<string, { title: string; normalized_title: string; keywords: string[]; confidence: number }>();
+    
+    for (const concept of concepts || []) {
+      const title = String(concept?.concept_title || concept?.title || '').trim();
+      const normalizedTitle = Neo4jClient.normalizeConceptTitle(title);
+      if (!normalizedTitle || byTitle.has(normalizedTitle)) continue;
+      
+      byTitle.set(normalizedTitle, {
+        title,
+        normalized_title: normalizedTitle,
+        keywords: Array.isArray(concept.keywords) ? concept.keywords.map((keyword: any) => String(keyword)) : [],
+        confidence: typeof concept.confidence === 'number' ? concept.confidence : 1.0
+      });
+    }
+    
+    return Array.from(byTitle.values());
+  }
+
+  static normalizeConceptTitle(title: string): string {
+    return (title || '').toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+
   async getMemoryStatistics(): Promise<{
     totalMemories: number;
     totalRelationships: number;
@@ -453,129 +638,6 @@ export class Neo4jClient {
     };
   }
 
-  async findRelatedMemories(
-    memory: any,
-    concepts: any[] = []
-  ): Promise<{ relatedMemories: any[]; error?: string }> {
-    try {
-      Logger.info('Neo4j: Finding related memories using concepts', { 
-        memoryId: memory.id, 
-        memoryTopic: memory.topic,
-        conceptCount: concepts.length 
-      });
-
-      const relatedMemories: any[] = [];
-      const processedIds = new Set<string>();
-
-      // 1. Suche nach ähnlichen Kategorien und Topics
-      if (memory.category || memory.topic) {
-        const categoryTopicQuery = `
-          MATCH (m:Memory)
-          WHERE m.id <> $memoryId
-            AND (m.category = $category OR m.topic = $topic OR m.content CONTAINS $topic)
-          RETURN m
-          ORDER BY m.created_at DESC
-          LIMIT 10
-        `;
-
-        const categoryResult = await this.runQuery(categoryTopicQuery, {
-          memoryId: memory.id.toString(),
-          category: memory.category || '',
-          topic: memory.topic || ''
-        });
-
-        categoryResult.records.forEach(record => {
-          const memoryNode = record.get('m') as Node;
-          const relatedMemory = this.nodeToMemory(memoryNode);
-          if (!processedIds.has(relatedMemory.id.toString())) {
-            relatedMemories.push(relatedMemory);
-            processedIds.add(relatedMemory.id.toString());
-          }
-        });
-      }
-
-      // 2. Konzept-basierte Suche
-      if (concepts && concepts.length > 0) {
-        for (const concept of concepts) {
-          const conceptQuery = `
-            MATCH (m:Memory)
-            WHERE m.id <> $memoryId
-              AND (m.content CONTAINS $concept OR m.topic CONTAINS $concept)
-            RETURN m
-            ORDER BY m.created_at DESC
-            LIMIT 5
-          `;
-
-          const conceptResult = await this.runQuery(conceptQuery, {
-            memoryId: memory.id.toString(),
-            concept: concept.toString()
-          });
-
-          conceptResult.records.forEach(record => {
-            const memoryNode = record.get('m') as Node;
-            const relatedMemory = this.nodeToMemory(memoryNode);
-            if (!processedIds.has(relatedMemory.id.toString())) {
-              relatedMemories.push(relatedMemory);
-              processedIds.add(relatedMemory.id.toString());
-            }
-          });
-        }
-      }
-
-      // 3. Bereits existierende Graph-Beziehungen nutzen
-      const existingRelationsQuery = `
-        MATCH (start:Memory {id: $memoryId})
-        MATCH (start)-[r*1..2]-(related:Memory)
-        WHERE related.id <> $memoryId
-        RETURN DISTINCT related
-        ORDER BY related.created_at DESC
-        LIMIT 10
-      `;
-
-      try {
-        const existingResult = await this.runQuery(existingRelationsQuery, {
-          memoryId: memory.id.toString()
-        });
-
-        existingResult.records.forEach(record => {
-          const memoryNode = record.get('related') as Node;
-          const relatedMemory = this.nodeToMemory(memoryNode);
-          if (!processedIds.has(relatedMemory.id.toString())) {
-            relatedMemories.push(relatedMemory);
-            processedIds.add(relatedMemory.id.toString());
-          }
-        });
-      } catch (error) {
-        Logger.warn('Neo4j: Existing relations query failed (node may not exist yet)', { 
-          memoryId: memory.id, 
-          error: error.message 
-        });
-      }
-
-      Logger.success('Neo4j: Related memories found', { 
-        memoryId: memory.id, 
-        foundCount: relatedMemories.length,
-        conceptCount: concepts.length
-      });
-
-      return {
-        relatedMemories: relatedMemories.slice(0, 15), // Limitiere auf 15 verwandte Memories
-        error: undefined
-      };
-
-    } catch (error) {
-      Logger.error('Neo4j: Failed to find related memories', { 
-        memoryId: memory.id, 
-        error: error.message 
-      });
-      
-      return {
-        relatedMemories: [],
-        error: `Failed to find related memories: ${error.message}`
-      };
-    }
-  }
-
   async createMemoryNodeWithConcepts(
     memory: any,
     concepts: any[] = []
@@ -589,27 +651,12 @@ export class Neo4jClient {
       // Verwende die existierende createMemoryNode-Methode
       await this.createMemoryNode(memory);
 
-      // Füge Konzepte als Eigenschaften hinzu, falls vorhanden
+      // Konzepte als eigene Concept-Knoten verknüpfen
       if (concepts && concepts.length > 0) {
-        const conceptTitles = concepts
-          .map(concept => concept.concept_title || concept.title || 'Unnamed Concept')
-          .filter(title => title && title.trim())
-          .join(', ');
-          
-        const updateQuery = `
-          MATCH (m:Memory {id: $memoryId})
-          SET m.concepts = $concepts
-          RETURN m
-        `;
-
-        await this.runQuery(updateQuery, {
-          memoryId: memory.id.toString(),
-          concepts: conceptTitles
-        });
-
-        Logger.debug('Neo4j: Concepts added to memory node', { 
+        const linked = await this.linkConcepts(memory.id, concepts);
+        Logger.debug('Neo4j: Concepts linked to memory node', { 
           memoryId: memory.id, 
-          concepts: conceptTitles 
+          linked 
         });
       }
 
@@ -637,169 +684,361 @@ export class Neo4jClient {
     }
   }
 
+  /**
+   * Create typed relationships from one memory to related memories
+   * Each entry carries its relationship type and the properties (scores) that
+   * justify it; MERGE keeps repeated runs from duplicating edges. The outcomes
+   * list every requested edge in order, so callers can tell which ones exist
+   */
   async createRelationships(
-    memoryNodeId: string,
-    relatedMemories: any[]
-  ): Promise<{ success: boolean; relationshipsCreated: number; errors?: string[] }> {
-    try {
-      Logger.info('Neo4j: Creating relationships', { 
-        memoryNodeId, 
-        relatedMemoriesCount: relatedMemories.length 
-      });
+    memoryNodeId: string | number,
+    relationships: Array<{ targetId: string | number; relationshipType: string; properties?: Record<string, any> }>
+  ): Promise<{ success: boolean; relationshipsCreated: number; outcomes: RelationshipOutcome[]; errors?: string[] }> {
+    Logger.info('Neo4j: Creating relationships', { 
+      memoryNodeId, 
+      relationshipCount: relationships.length 
+    });
 
-      let relationshipsCreated = 0;
-      const errors: string[] = [];
-
-      for (const relatedMemory of relatedMemories) {
-        try {
-          // Bestimme Relationship-Typ basierend auf Ähnlichkeit
-          let relationshipType = 'RELATED_TO';
-          
-          if (relatedMemory.category && relatedMemory.category === relatedMemory.category) {
-            relationshipType = 'SAME_CATEGORY';
-          } else if (relatedMemory.topic && relatedMemory.topic === relatedMemory.topic) {
-            relationshipType = 'SAME_TOPIC';
-          }
+    let relationshipsCreated = 0;
+    const errors: string[] = [];
+    const outcomes: RelationshipOutcome[] = [];
+
+    for (const relationship of relationships) {
+      const outcome: RelationshipOutcome = { targetId: relationship.targetId, relationshipType: relationship.relationshipType, created: false };
+      outcomes.push(outcome);
+
+      // The relationship type is interpolated into Cypher, so only plain identifiers are accepted
+      if (!/^[A-Z_][A-Z0-9_]*$/.test(relationship.relationshipType)) {
+        outcome.error = `Invalid relationship type: ${relationship.relationshipType}`;
+        errors.push(outcome.error);
+        continue;
+      }
+
+      try {
+        const query = `
+          MATCH (from:Memory {id: $fromId})
+          MATCH (to:Memory {id: $toId})
+          MERGE (from)-[r:${relationship.relationshipType}]->(to)
+          SET r += $properties
+          RETURN r
+        `;
 
-          // Erstelle bidirektionale Beziehung
-          await this.createRelationship(
-            memoryNodeId,
-            relatedMemory.id.toString(),
-            relationshipType,
-            {
-              created_at: new Date().toISOString(),
-              similarity_score: 0.7 // Placeholder für echte Ähnlichkeitsberechnung
-            }
-          );
+        const result = await this.runQuery(query, {
+          fromId: Number(memoryNodeId),
+          toId: Number(relationship.targetId),
+          properties: { ...(relationship.properties || {}), created_at: new Date().toISOString() }
+        });
 
+        if (result.records.length > 0) {
           relationshipsCreated++;
+          outcome.created = true;
           Logger.debug('Neo4j: Relationship created', { 
             from: memoryNodeId, 
-            to: relatedMemory.id, 
-            type: relationshipType 
-          });
-
-        } catch (error) {
-          const errorMsg = `Failed to create relationship to ${relatedMemory.id}: ${error.message}`;
-          errors.push(errorMsg);
-          Logger.warn('Neo4j: Relationship creation failed', { 
-            from: memoryNodeId, 
-            to: relatedMemory.id, 
-            error: error.message 
+            to: relationship.targetId, 
+            type: relationship.relationshipType 
           });
         }
+
+      } catch (error) {
+        const errorMsg = `Failed to create ${relationship.relationshipType} to ${relationship.targetId}: ${error.message}`;
+        outcome.error = errorMsg;
+        errors.push(errorMsg);
+        Logger.warn('Neo4j: Relationship creation failed', { 
+          from: memoryNodeId, 
+          to: relationship.targetId, 
+          error: error.message 
+        });
       }
+    }
 
-      Logger.success('Neo4j: Relationships creation completed', { 
-        memoryNodeId, 
-        relationshipsCreated, 
-        errorCount: errors.length 
-      });
+    Logger.success('Neo4j: Relationships creation completed', { 
+      memoryNodeId, 
+      relationshipsCreated, 
+      errorCount: errors.length 
+    });
+
+    return {
+      success: errors.length === 0,
+      relationshipsCreated,
+      outcomes,
+      errors: errors.length > 0 ? errors : undefined
+    };
+  }
+
+  /**
+   * Memories sharing at least minShared Concept nodes with the given memory
+   * The score is the Jaccard index of both concept sets
+   */
+  async findMemoriesSharingConcepts(
+    memoryId: string | number,
+    minShared: number = 1,
+    limit: number = 20
+  ): Promise<Array<{ memory_id: number; shared_concepts: string[]; score: number }>> {
+    const query = `
+      MATCH (m:Memory {id: $memoryId})-[:MENTIONS]->(c:Concept)<-[:MENTIONS]-(other:Memory)
+      WHERE other <> m
+      WITH m, other, collect(DISTINCT c.title) AS shared
+      WHERE size(shared) >= $minShared
+      MATCH (m)-[:MENTIONS]->(own:Concept)
+      WITH other, shared, count(DISTINCT own) AS ownCount
+      MATCH (other)-[:MENTIONS]->(theirs:Concept)
+      WITH other, shared, ownCount, count(DISTINCT theirs) AS otherCount
+      RETURN other.id AS memory_id, shared, toFloat(size(shared)) / (ownCount + otherCount - size(shared)) AS score
+      ORDER BY score DESC
+      LIMIT $limit
+    `;
 
+    const result = await this.runQuery(query, {
+      memoryId: Number(memoryId),
+      minShared: neo4j.int(Math.max(1, Math.floor(minShared))),
+      limit: neo4j.int(Math.max(1, Math.floor(limit)))
+    });
+
+    return result.records.map(record => {
+      const id = record.get('memory_id');
       return {
-        success: relationshipsCreated > 0 || relatedMemories.length === 0,
-        relationshipsCreated,
-        errors: errors.length > 0 ? errors : undefined
+        memory_id: neo4j.isInt(id) ? id.toNumber() : Number(id),
+        shared_concepts: record.get('shared') as string[],
+        score: Number(record.get('score'))
       };
+    });
+  }
 
-    } catch (error) {
-      Logger.error('Neo4j: Failed to create relationships', { 
-        memoryNodeId, 
-        error: error.message 
+  /**
+   * The memory created directly before the given one, if any
+   */
+  async findPreviousMemory(memoryId: string | number): Promise<{ memory_id: number; created_at: string } | null> {
+    const query = `
+      MATCH (m:Memory {id: $memoryId})
+      MATCH (previous:Memory)
+      WHERE previous <> m AND previous.created_at < m.created_at
+      RETURN previous.id AS memory_id, previous.created_at AS created_at
+      ORDER BY previous.created_at DESC
+      LIMIT 1
+    `;
+
+    const result = await this.runQuery(query, { memoryId: Number(memoryId) });
+    const record = result.records[0];
+    if (!record) return null;
+
+    const id = record.get('memory_id');
+    return {
+      memory_id: neo4j.isInt(id) ? id.toNumber() : Number(id),
+      created_at: String(record.get('created_at'))
+    };
+  }
+
+  /**
+   * Memory nodes for the given ids, in no particular order
+   */
+  async getMemoriesByIds(ids: Array<string | number>): Promise<GraphMemory[]> {
+    if (ids.length === 0) return [];
+
+    const result = await this.runQuery(
+      'MATCH (m:Memory) WHERE m.id IN $ids RETURN m',
+      { ids: ids.map(id => Number(id)) }
+    );
+
+    return result.records.map(record => this.nodeToMemory(record.get('m') as Node));
+  }
+
+  /**
+   * A memory node with the memory-to-memory relationships around it
+   * Paths run through Memory nodes only, so MENTIONS edges to concepts are not
+   * followed; each relationship is reported once with its shortest distance
+   */
+  async getMemoryWithRelationships(
+    memoryId: string | number,
+    relationshipDepth: number = 1,
+    relationshipTypes: string[] = []
+  ): Promise<{ memory: GraphMemory | null; relationships: any[]; error?: string }> {
+    try {
+      // Variable length bounds cannot be parameters, so the depth is clamped and inlined
+      const maxHops = Math.min(3, Math.max(1, Math.floor(relationshipDepth)));
+      const typeFilter = relationshipTypes.length > 0 ? 'AND all(rel IN relationships(path) WHERE type(rel) IN $types)' : '';
+
+      const query = `
+        MATCH (m:Memory {id: $memoryId})
+        OPTIONAL MATCH path = (m)-[*1..${maxHops}]-(other:Memory)
+        WHERE other <> m AND all(node IN nodes(path) WHERE node:Memory) ${typeFilter}
+        WITH m, path, last(relationships(path)) AS rel
+        WITH m, rel, min(length(path)) AS distance
+        RETURN m, collect(CASE WHEN rel IS NULL THEN NULL ELSE {
+          type: type(rel),
+          start_node_id: startNode(rel).id,
+          end_node_id: endNode(rel).id,
+          start_topic: startNode(rel).topic,
+          end_topic: endNode(rel).topic,
+          properties: properties(rel),
+          distance: distance
+        } END) AS relationships
+      `;
+
+      const result = await this.runQuery(query, {
+        memoryId: Number(memoryId),
+        types: relationshipTypes.map(type => type.toUpperCase())
       });
-      
-      return {
-        success: false,
-        relationshipsCreated: 0,
-        errors: [`Failed to create relationships: ${error.message}`]
-      };
+
+      const record = result.records[0];
+      if (!record) {
+        return { memory: null, relationships: [] };
+      }
+
+      const toNumber = (value: any) => neo4j.isInt(value) ? value.toNumber() : Number(value);
+      const relationships = (record.get('relationships') as any[]).map(rel => ({
+        ...rel,
+        start_node_id: toNumber(rel.start_node_id),
+        end_node_id: toNumber(rel.end_node_id),
+        distance: toNumber(rel.distance),
+        // Graph reranking looks for a similarity on each relationship
+        similarity: rel.properties.similarity_score ?? rel.properties.confidence ?? rel.properties.score
+      })).sort((a, b) => a.distance - b.distance);
+
+      return { memory: this.nodeToMemory(record.get('m') as Node), relationships };
+    } catch (error) {
+      Logger.error('Neo4j: Failed to load memory relationships', { memoryId, error: String(error) });
+      return { memory: null, relationships: [], error: String(error) };
+    }
+  }
+
+  /**
+   * Number of memory-to-memory relationships per memory id, without the excluded types
+   * Memories without a node or without relationships are omitted
+   */
+  async getConnectionCounts(memoryIds: Array<string | number>, excludeTypes: string[] = []): Promise<Map<number, number>> {
+    const counts = new Map<number, number>();
+    if (memoryIds.length === 0) return counts;
+
+    const result = await this.runQuery(`
+      MATCH (m:Memory)-[r]-(:Memory)
+      WHERE m.id IN $ids AND NOT type(r) IN $excludeTypes
+      RETURN m.id AS memory_id, count(r) AS connections
+    `, { ids: memoryIds.map(id => Number(id)), excludeTypes });
+
+    for (const record of result.records) {
+      const id = record.get('memory_id');
+      const connections = record.get('connections');
+      counts.set(
+        neo4j.isInt(id) ? id.toNumber() : Number(id),
+        neo4j.isInt(connections) ? connections.toNumber() : Number(connections)
+      );
+    }
+    return counts;
+  }
+
+  /**
+   * Move the memory-to-memory relationships of one memory onto another
+   * Used when merging duplicates; relationships between the two memories are
+   * dropped and the original node keeps its edges until it is deleted
+   */
+  async repointRelationships(fromId: string | number, toId: string | number): Promise<number> {
+    const query = `
+      MATCH (m:Memory {id: $fromId})-[r]-(other:Memory)
+      WHERE other.id <> $toId
+      RETURN type(r) AS type, startNode(r) = m AS outgoing, other.id AS other_id, properties(r) AS properties
+    `;
+
+    const result = await this.runQuery(query, { fromId: Number(fromId), toId: Number(toId) });
+
+    let repointed = 0;
+    for (const record of result.records) {
+      const otherId = record.get('other_id');
+      const otherNumber = neo4j.isInt(otherId) ? otherId.toNumber() : Number(otherId);
+      const properties = { ...record.get('properties'), merged_from: Number(fromId) };
+
+      // Relationship types cannot be parameters, so each edge is recreated individually
+      if (record.get('outgoing')) {
+        await this.createRelationship(toId, otherNumber, record.get('type'), properties);
+      } else {
+        await this.createRelationship(otherNumber, toId, record.get('type'), properties);
+      }
+      repointed++;
     }
+
+    Logger.info('Neo4j: Relationships repointed', { fromId, toId, repointed });
+    return repointed;
+  }
+
+  /**
+   * Mark the CONTRADICTS edges between two memories as resolved
+   * Returns the number of edges updated, in either direction
+   */
+  async resolveContradiction(memoryId: string | number, otherMemoryId: string | number, resolution: string): Promise<number> {
+    const query = `
+      MATCH (a:Memory {id: $memoryId})-[r:CONTRADICTS]-(b:Memory {id: $otherMemoryId})
+      SET r.status = 'resolved', r.resolution = $resolution, r.resolved_at = $resolvedAt
+      RETURN count(r) AS updated
+    `;
+
+    const result = await this.runQuery(query, {
+      memoryId: Number(memoryId),
+      otherMemoryId: Number(otherMemoryId),
+      resolution,
+      resolvedAt: new Date().toISOString()
+    });
+
+    const updated = result.records[0]?.get('updated');
+    return neo4j.isInt(updated) ? updated.toNumber() : Number(updated || 0);
   }
 
+  /**
+   * Find memories that mention concepts matching the given terms
+   * Exact title matches score 1.0, partial title or keyword matches 0.7,
+   * weighted by the confidence of the MENTIONS edge and summed per memory
+   */
   async searchMemoriesBySemanticConcepts(
     concepts: string[],
     limit: number = 10,
-    minSimilarity: number = 0.6
-  ): Promise<GraphMemory[]> {
+    minSimilarity: number = 0.6,
+    filters: SearchFilters = {}
+  ): Promise<{ memories: GraphMemory[]; error?: string }> {
     try {
       Logger.info('Neo4j: Searching memories by semantic concepts', { 
         conceptCount: concepts.length, 
         limit, 
-        minSimilarity 
+        minSimilarity,
+        filters
       });
 
-      const memories: GraphMemory[] = [];
-      const processedIds = new Set<string>();
-
-      // Für jedes Konzept eine separate Suche durchführen
-      for (const concept of concepts) {
-        const conceptQueries = [
-          // Exakte Übereinstimmung in Konzepten
-          `
-            MATCH (m:Memory)
-            WHERE m.concepts CONTAINS $concept
-            RETURN m, 1.0 as similarity
-            ORDER BY m.created_at DESC
-            LIMIT $limit
-          `,
-          // Ähnlichkeit in Content
-          `
-            MATCH (m:Memory)
-            WHERE m.content CONTAINS $concept
-            RETURN m, 0.8 as similarity
-            ORDER BY m.created_at DESC
-            LIMIT $limit
-          `,
-          // Ähnlichkeit in Topic
-          `
-            MATCH (m:Memory)
-            WHERE m.topic CONTAINS $concept
-            RETURN m, 0.7 as similarity
-            ORDER BY m.created_at DESC
-            LIMIT $limit
-          `
-        ];
-
-        for (const query of conceptQueries) {
-          try {
-            const result = await this.runQuery(query, { 
-              concept: concept.toLowerCase(), 
-              limit: Math.max(1, Math.floor(limit / concepts.length)) 
-            });
-
-            result.records.forEach(record => {
-              const memoryNode = record.get('m') as Node;
-              const similarity = record.get('similarity') as number;
-              
-              if (similarity >= minSimilarity) {
-                const memory = this.nodeToMemory(memoryNode);
-                if (!processedIds.has(memory.id.toString())) {
-                  memories.push({
-                    ...memory,
-                    metadata: {
-                      ...memory.metadata,
-                      similarity_score: similarity,
-                      matched_concept: concept
-                    }
-                  });
-                  processedIds.add(memory.id.toString());
-                }
-              }
-            });
-          } catch (error) {
-            Logger.warn('Neo4j: Concept search query failed', { 
-              concept, 
-              error: error.message 
-            });
-          }
-        }
+      const terms = Array.from(new Set(concepts.map(concept => Neo4jClient.normalizeConceptTitle(concept)).filter(Boolean)));
+      if (terms.length === 0) {
+        return { memories: [] };
       }
 
-      // Sortiere nach Ähnlichkeit
-      memories.sort((a, b) => {
-        const scoreA = a.metadata?.similarity_score || 0;
-        const scoreB = b.metadata?.similarity_score || 0;
-        return scoreB - scoreA;
+      const filter = SearchFilterTranslator.toCypher(filters, 'm');
+      const query = `
+        UNWIND $terms AS term
+        MATCH (c:Concept)
+        WHERE c.normalized_title = term
+           OR c.normalized_title CONTAINS term
+           OR any(keyword IN coalesce(c.keywords, []) WHERE toLower(keyword) = term)
+        WITH c, max(CASE WHEN c.normalized_title = term THEN 1.0 ELSE 0.7 END) AS match_score
+        WHERE match_score >= $minSimilarity
+        MATCH (m:Memory)-[r:MENTIONS]->(c)
+        ${filter.predicates.length > 0 ? `WHERE ${filter.predicates.join(' AND ')}` : ''}
+        WITH m, sum(match_score * coalesce(r.confidence, 1.0)) AS score, collect(DISTINCT c.title) AS matched_concepts
+        RETURN m, score, matched_concepts
+        ORDER BY score DESC, m.created_at DESC
+        LIMIT $limit
+      `;
+
+      const result = await this.runQuery(query, {
+        ...filter.params,
+        terms,
+        minSimilarity,
+        limit: neo4j.int(Math.max(1, Math.floor(limit)))
+      });
+
+      const memories = result.records.map(record => {
+        const memory = this.nodeToMemory(record.get('m') as Node);
+        return {
+          ...memory,
+          metadata: {
+            ...memory.metadata,
+            similarity_score: record.get('score'),
+            matched_concepts: record.get('matched_concepts')
+          }
+        };
       });
 
       Logger.success('Neo4j: Semantic concept search completed', { 
@@ -807,29 +1046,36 @@ export class Neo4jClient {
         foundCount: memories.length 
       });
 
-      return memories.slice(0, limit);
+      return { memories };
 
     } catch (error) {
       Logger.error('Neo4j: Semantic concept search failed', { 
         concepts, 
         error: error.message 
       });
-      return [];
+      return { memories: [], error: error.message };
     }
   }
 
+  /**
+   * Find memories connected to a memory through shared concepts
+   * Distance 1 means both memories mention a common concept, distance 2 adds
+   * one more memory-concept hop, and so on up to maxDistance
+   */
   async findMemoriesInConceptCluster(
-    centralMemoryId: string,
-    maxDistance: number = 3,
+    centralMemoryId: string | number,
+    maxDistance: number = 2,
     limit: number = 20
   ): Promise<{
-    cluster: GraphMemory[];
+    memories: GraphMemory[];
     relationships: Array<{
-      from: string;
-      to: string;
+      from: number;
+      to: number;
       type: string;
+      concepts: string[];
       distance: number;
     }>;
+    error?: string;
   }> {
     try {
       Logger.info('Neo4j: Finding concept cluster', { 
@@ -838,65 +1084,64 @@ export class Neo4jClient {
         limit 
       });
 
+      // Each memory-to-memory hop is two MENTIONS edges (memory -> concept <- memory)
+      const maxHops = Math.max(1, Math.min(Math.floor(maxDistance), 3)) * 2;
       const clusterQuery = `
         MATCH (center:Memory {id: $centralMemoryId})
-        MATCH path = (center)-[*1..${maxDistance}]-(related:Memory)
-        WHERE related.id <> $centralMemoryId
-        WITH related, length(path) as distance, path
-        ORDER BY distance ASC, related.created_at DESC
+        MATCH path = (center)-[:MENTIONS*2..${maxHops}]-(related:Memory)
+        WHERE related <> center
+        WITH center, related, min(length(path)) / 2 AS distance
+        OPTIONAL MATCH (center)-[:MENTIONS]->(shared:Concept)<-[:MENTIONS]-(related)
+        WITH related, distance, collect(shared.title) AS sharedConcepts
+        RETURN related, distance, sharedConcepts
+        ORDER BY distance ASC, size(sharedConcepts) DESC, related.created_at DESC
         LIMIT $limit
-        RETURN DISTINCT related, distance, 
-               [rel in relationships(path) | {type: type(rel), from: startNode(rel).id, to: endNode(rel).id}] as pathRelationships
       `;
 
       const result = await this.runQuery(clusterQuery, {
-        centralMemoryId,
-        limit
+        centralMemoryId: Number(centralMemoryId),
+        limit: neo4j.int(Math.max(1, Math.floor(limit)))
       });
 
-      const cluster: GraphMemory[] = [];
+      const memories: GraphMemory[] = [];
       const relationships: Array<{
-        from: string;
-        to: string;
+        from: number;
+        to: number;
         type: string;
+        concepts: string[];
         distance: number;
       }> = [];
 
       result.records.forEach(record => {
-        const memoryNode = record.get('related') as Node;
-        const distance = record.get('distance') as number;
-        const pathRelationships = record.get('pathRelationships') as any[];
+        const memory = this.nodeToMemory(record.get('related') as Node);
+        const rawDistance = record.get('distance');
+        const distance = neo4j.isInt(rawDistance) ? rawDistance.toNumber() : Number(rawDistance);
+        const sharedConcepts = record.get('sharedConcepts') as string[];
 
-        const memory = this.nodeToMemory(memoryNode);
-        cluster.push({
+        memories.push({
           ...memory,
           metadata: {
             ...memory.metadata,
-            cluster_distance: distance
+            cluster_distance: distance,
+            shared_concepts: sharedConcepts
           }
         });
 
-        // Füge Beziehungen hinzu
-        pathRelationships.forEach(rel => {
-          relationships.push({
-            from: rel.from,
-            to: rel.to,
-            type: rel.type,
-            distance
-          });
+        relationships.push({
+          from: Number(centralMemoryId),
+          to: Number(memory.id),
+          type: 'SHARES_CONCEPT',
+          concepts: sharedConcepts,
+          distance
         });
       });
 
       Logger.success('Neo4j: Concept cluster found', { 
         centralMemoryId, 
-        clusterSize: cluster.length, 
-        relationshipCount: relationships.length 
+        clusterSize: memories.length 
       });
 
-      return {
-        cluster,
-        relationships
-      };
+      return { memories, relationships };
 
     } catch (error) {
       Logger.error('Neo4j: Concept cluster search failed', { 
@@ -904,10 +1149,7 @@ export class Neo4jClient {
         error: error.message 
       });
       
-      return {
-        cluster: [],
-        relationships: []
-      };
+      return { memories: [], relationships: [], error: error.message };
     }
   }
 
@@ -6,10 +6,15 @@
  */
 
 import { Pool, PoolClient } from 'pg';
-import { MemoryPipelineBase, AdvancedMemoryResult } from './MemoryPipelineBase.js';
-import { MemoryIntegrationHelper } from './MemoryIntegrationHelper.js';
+import { v4 as uuidv4 } from 'uuid';
+import { MemoryPipelineBase } from './MemoryPipelineBase.js';
+import { ShortMemoryManager } from './ShortMemoryManager.js';
+import { SearchFilters, SearchFilterTranslator } from './SearchFilters.js';
+import { KeysetPosition } from './SearchCursor.js';
 import { Logger } from '../utils/Logger.js';
 import { PostgreSQLPoolManager } from './PostgreSQLPoolManager.js';
+import { TextSearchConfig, TEXT_SEARCH_CONFIGS } from './DatabaseConfig.js';
+import { LanguageDetector } from '../utils/LanguageDetector.js';
 
 export interface PostgreSQLConfig {
   host: string;
@@ -21,11 +26,13 @@ export interface PostgreSQLConfig {
   idleTimeoutMillis?: number;
   connectionTimeoutMillis?: number;
   ssl?: boolean | object;
+  textSearchConfig?: TextSearchConfig;
 }
 
 export class PostgreSQLDatabaseRefactored extends MemoryPipelineBase {
   private pool: Pool;
   private config: PostgreSQLConfig;
+  private textSearchConfig: TextSearchConfig;
 
   constructor(config: PostgreSQLConfig) {
     super(); // Call base class constructor
@@ -38,6 +45,9 @@ export class PostgreSQLDatabaseRefactored extends MemoryPipelineBase {
     });
     
     this.config = config;
+    this.textSearchConfig = TEXT_SEARCH_CONFIGS.includes(config.textSearchConfig as TextSearchConfig)
+      ? config.textSearchConfig as TextSearchConfig
+      : 'german';
     
     // Use singleton pool manager
     this.pool = PostgreSQLPoolManager.getPool({
@@ -60,6 +70,7 @@ export class PostgreSQLDatabaseRefactored extends MemoryPipelineBase {
       Logger.debug('New PostgreSQL client connected');
     });
     
+    this.shortMemoryManager = ShortMemoryManager.forPostgreSQL(() => this.getPoolConnection());
     this.initializeSchema();
     
     Logger.success('PostgreSQLDatabaseRefactored constructed successfully');
@@ -84,35 +95,191 @@ export class PostgreSQLDatabaseRefactored extends MemoryPipelineBase {
         )
       `;
       
-      // Short memories table for FIFO queue
-      const createShortMemoriesTable = `
-        CREATE TABLE IF NOT EXISTS short_memories (
-          id SERIAL PRIMARY KEY,
-          topic TEXT NOT NULL,
-          content TEXT NOT NULL,
-          date DATE NOT NULL,
-          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-        )
-      `;
-      
       // Performance indexes
       const createIndexes = [
         `CREATE INDEX IF NOT EXISTS idx_memories_category ON memories(category)`,
         `CREATE INDEX IF NOT EXISTS idx_memories_date ON memories(date)`,
         `CREATE INDEX IF NOT EXISTS idx_memories_created_at ON memories(created_at)`,
-        `CREATE INDEX IF NOT EXISTS idx_memories_content_gin ON memories USING gin(to_tsvector('english', content))`,
-        `CREATE INDEX IF NOT EXISTS idx_memories_topic_gin ON memories USING gin(to_tsvector('english', topic))`,
-        `CREATE INDEX IF NOT EXISTS idx_short_memories_created_at ON short_memories(created_at)`
+        `CREATE INDEX IF NOT EXISTS idx_memories_search_vector ON memories USING gin(search_vector)`
+      ];
+      
+      // Full-text search: per-memory text search configuration and a stored tsvector
+      // (topic weighted A, content B) replacing the old english-only expression indexes
+      const defaultSearchLanguage = this.textSearchConfig === 'auto' ? 'simple' : this.textSearchConfig;
+      const migrateFullTextSearch = [
+        `ALTER TABLE memories ADD COLUMN IF NOT EXISTS search_language regconfig NOT NULL DEFAULT '${defaultSearchLanguage}'`,
+        `ALTER TABLE memories ALTER COLUMN search_language SET DEFAULT '${defaultSearchLanguage}'`,
+        `ALTER TABLE memories ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+          setweight(to_tsvector(search_language, coalesce(topic, '')), 'A') ||
+          setweight(to_tsvector(search_language, coalesce(content, '')), 'B')
+        ) STORED`,
+        `DROP INDEX IF EXISTS idx_memories_content_gin`,
+        `DROP INDEX IF EXISTS idx_memories_topic_gin`
+      ];
+      
+      // Applied migrations whose date later code needs (e.g. the start of access tracking)
+      const createSchemaMigrationsTable = `
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          name VARCHAR(64) PRIMARY KEY,
+          applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        )
+      `;
+      
+      // Recall tracking for the MemoryConsolidator; existing memories start unrecalled and
+      // consolidation decays them from the recorded start of tracking
+      const migrateMemoryAccess = [
+        `ALTER TABLE memories ADD COLUMN IF NOT EXISTS access_count INTEGER NOT NULL DEFAULT 0`,
+        `ALTER TABLE memories ADD COLUMN IF NOT EXISTS last_accessed_at TIMESTAMP WITH TIME ZONE`,
+        `INSERT INTO schema_migrations (name) VALUES ('memory_access_tracking') ON CONFLICT (name) DO NOTHING`
+      ];
+      
+      // Analysis job tables (batch analysis via JobProcessor)
+      const createAnalysisJobsTable = `
+        CREATE TABLE IF NOT EXISTS analysis_jobs (
+          id VARCHAR(36) PRIMARY KEY,
+          status VARCHAR(32) NOT NULL DEFAULT 'pending',
+          job_type VARCHAR(64) NOT NULL,
+          memory_ids TEXT NOT NULL,
+          progress_current INTEGER NOT NULL DEFAULT 0,
+          progress_total INTEGER NOT NULL DEFAULT 0,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          started_at TIMESTAMP WITH TIME ZONE,
+          completed_at TIMESTAMP WITH TIME ZONE,
+          error_message TEXT
+        )
+      `;
+      
+      const createAnalysisResultsTable = `
+        CREATE TABLE IF NOT EXISTS analysis_results (
+          id SERIAL PRIMARY KEY,
+          job_id VARCHAR(36) NOT NULL REFERENCES analysis_jobs(id) ON DELETE CASCADE,
+          memory_id INTEGER NOT NULL,
+          memory_type VARCHAR(64),
+          confidence REAL,
+          mood VARCHAR(32),
+          keywords TEXT,
+          extracted_concepts TEXT,
+          metadata TEXT,
+          status VARCHAR(32) NOT NULL DEFAULT 'ok',
+          error_message TEXT,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(job_id, memory_id)
+        )
+      `;
+      
+      // Per-item status columns for analysis_results tables created before they existed
+      const migrateAnalysisResultsTable = [
+        `ALTER TABLE analysis_results ADD COLUMN IF NOT EXISTS status VARCHAR(32) NOT NULL DEFAULT 'ok'`,
+        `ALTER TABLE analysis_results ADD COLUMN IF NOT EXISTS error_message TEXT`
       ];
       
+      const createJobIndexes = [
+        `CREATE INDEX IF NOT EXISTS idx_analysis_jobs_status ON analysis_jobs(status)`,
+        `CREATE INDEX IF NOT EXISTS idx_analysis_results_job_id ON analysis_results(job_id)`
+      ];
+      
+      // Outbox for ChromaDB/Neo4j writes that failed during a memory save
+      const createPendingWritesTable = `
+        CREATE TABLE IF NOT EXISTS pending_writes (
+          id SERIAL PRIMARY KEY,
+          memory_id INTEGER NOT NULL,
+          target VARCHAR(32) NOT NULL,
+          payload TEXT NOT NULL,
+          status VARCHAR(32) NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP WITH TIME ZONE
+        )
+      `;
+      
+      const createPendingWriteIndexes = [
+        `CREATE INDEX IF NOT EXISTS idx_pending_writes_status ON pending_writes(status)`,
+        `CREATE INDEX IF NOT EXISTS idx_pending_writes_memory_id ON pending_writes(memory_id)`
+      ];
+      
+      // Memories the save pipeline removed from SQL on purpose (they live in ChromaDB/Neo4j only)
+      const createRoutedMemoriesTable = `
+        CREATE TABLE IF NOT EXISTS routed_memories (
+          memory_id INTEGER PRIMARY KEY,
+          memory_type VARCHAR(64) NOT NULL,
+          topic VARCHAR(255),
+          routed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        )
+      `;
+      
+      // One row per memory shown by a recall or search tool (also for memories routed out of SQL)
+      const createMemoryAccessEventsTable = `
+        CREATE TABLE IF NOT EXISTS memory_access_events (
+          id SERIAL PRIMARY KEY,
+          memory_id INTEGER NOT NULL,
+          tool VARCHAR(64) NOT NULL,
+          query TEXT,
+          accessed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        )
+      `;
+      
+      // Conversation sessions and the memories saved or recalled during them
+      const createSessionsTable = `
+        CREATE TABLE IF NOT EXISTS sessions (
+          id VARCHAR(64) PRIMARY KEY,
+          title TEXT,
+          started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          ended_at TIMESTAMP WITH TIME ZONE,
+          summary_memory_id INTEGER
+        )
+      `;
+      
+      const createSessionMemoriesTable = `
+        CREATE TABLE IF NOT EXISTS session_memories (
+          session_id VARCHAR(64) NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+          memory_id INTEGER NOT NULL,
+          action VARCHAR(16) NOT NULL,
+          recorded_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (session_id, memory_id, action)
+        )
+      `;
+      
       // Execute schema creation
       await client.query(createMemoriesTable);
-      await client.query(createShortMemoriesTable);
+      
+      const hadSearchLanguage = await this.hasColumn(client, 'memories', 'search_language');
+      for (const migration of migrateFullTextSearch) {
+        await client.query(migration);
+      }
+      await this.alignSearchLanguages(client, hadSearchLanguage);
+      await client.query(createSchemaMigrationsTable);
+      for (const migration of migrateMemoryAccess) {
+        await client.query(migration);
+      }
+      await client.query(createAnalysisJobsTable);
+      await client.query(createAnalysisResultsTable);
+      
+      for (const migration of migrateAnalysisResultsTable) {
+        await client.query(migration);
+      }
+      
+      for (const index of createJobIndexes) {
+        await client.query(index);
+      }
+      
+      await client.query(createPendingWritesTable);
+      for (const index of createPendingWriteIndexes) {
+        await client.query(index);
+      }
+      
+      await client.query(createRoutedMemoriesTable);
+      await client.query(createMemoryAccessEventsTable);
+      await client.query(`CREATE INDEX IF NOT EXISTS idx_memory_access_events_memory_id ON memory_access_events(memory_id)`);
+      await client.query(createSessionsTable);
+      await client.query(createSessionMemoriesTable);
       
       for (const index of createIndexes) {
         await client.query(index);
       }
       
+      await this.shortMemoryManager!.initialize();
+      
       Logger.success('PostgreSQL schema initialized with full-text search indexes');
       
     } catch (error) {
@@ -123,6 +290,45 @@ export class PostgreSQLDatabaseRefactored extends MemoryPipelineBase {
     }
   }
 
+  private async hasColumn(client: PoolClient, table: string, column: string): Promise<boolean> {
+    const result = await client.query(
+      `SELECT 1 FROM information_schema.columns WHERE table_name = $1 AND column_name = $2`,
+      [table, column]
+    );
+    return result.rows.length > 0;
+  }
+
+  // A fixed configuration applies to all memories, so existing rows follow config changes.
+  // In auto mode only rows from before the migration are detected; later rows are detected on write.
+  private async alignSearchLanguages(client: PoolClient, hadSearchLanguage: boolean): Promise<void> {
+    if (this.textSearchConfig !== 'auto') {
+      const result = await client.query(
+        `UPDATE memories SET search_language = $1::regconfig WHERE search_language <> $1::regconfig`,
+        [this.textSearchConfig]
+      );
+      if (result.rowCount) {
+        Logger.info('Migrated memories: text search configuration updated', { config: this.textSearchConfig, memories: result.rowCount });
+      }
+      return;
+    }
+    
+    if (hadSearchLanguage) return;
+    
+    const rows = (await client.query(`SELECT id, topic, content FROM memories`)).rows;
+    for (const row of rows) {
+      await client.query(
+        `UPDATE memories SET search_language = $1::regconfig WHERE id = $2`,
+        [this.resolveSearchLanguage(row.topic, row.content), row.id]
+      );
+    }
+    Logger.info('Migrated memories: detected text search languages', { memories: rows.length });
+  }
+
+  private resolveSearchLanguage(topic: string, content: string): string {
+    if (this.textSearchConfig !== 'auto') return this.textSearchConfig;
+    return LanguageDetector.detect(`${topic || ''} ${content || ''}`);
+  }
+
   // Helper method to ensure we have a valid pool connection
   private ensureValidPool(): void {
     // Check if the current pool is ended/closed
@@ -160,8 +366,8 @@ export class PostgreSQLDatabaseRefactored extends MemoryPipelineBase {
     Logger.debug('Saving new memory to PostgreSQL', { category, topic, contentLength: content.length });
     
     const query = `
-      INSERT INTO memories (category, topic, content, date, created_at) 
-      VALUES ($1, $2, $3, $4, $5) 
+      INSERT INTO memories (category, topic, content, date, created_at, search_language) 
+      VALUES ($1, $2, $3, $4, $5, $6::regconfig) 
       RETURNING id
     `;
     
@@ -172,7 +378,8 @@ export class PostgreSQLDatabaseRefactored extends MemoryPipelineBase {
         topic, 
         content, 
         new Date().toISOString().split('T')[0],
-        new Date().toISOString()
+        new Date().toISOString(),
+        this.resolveSearchLanguage(topic, content)
       ]);
       
       const id = result.rows[0].id;
@@ -238,46 +445,6 @@ export class PostgreSQLDatabaseRefactored extends MemoryPipelineBase {
     }
   }
 
-  async addToShortMemory(memory: any): Promise<void> {
-    Logger.debug('Adding memory to PostgreSQL short memory table', { topic: memory.topic });
-    
-    const client = await this.pool.connect();
-    try {
-      // Insert the memory
-      const insertQuery = `
-        INSERT INTO short_memories (topic, content, date, created_at)
-        VALUES ($1, $2, $3, $4)
-      `;
-      
-      await client.query(insertQuery, [
-        memory.topic,
-        memory.content,
-        memory.date,
-        new Date().toISOString()
-      ]);
-      
-      // Maintain FIFO limit (keep only last 10)
-      const cleanupQuery = `
-        DELETE FROM short_memories 
-        WHERE id NOT IN (
-          SELECT id FROM short_memories 
-          ORDER BY created_at DESC 
-          LIMIT 10
-        )
-      `;
-      
-      await client.query(cleanupQuery);
-      
-      Logger.debug('Memory added to PostgreSQL short memory successfully', { topic: memory.topic });
-      
-    } catch (error) {
-      Logger.error('Error adding memory to PostgreSQL short memory', { topic: memory.topic, error });
-      throw error;
-    } finally {
-      client.release();
-    }
-  }
-
   async moveMemory(id: number, newCategory: string): Promise<any> {
     Logger.info('Moving memory to new category in PostgreSQL', { id, newCategory });
     
@@ -308,28 +475,33 @@ export class PostgreSQLDatabaseRefactored extends MemoryPipelineBase {
 
   // Implementation of abstract search methods from MemoryPipelineBase
 
-  async searchMemoriesBasic(query: string, categories?: string[]): Promise<any[]> {
-    Logger.debug('PostgreSQL basic search', { query, categories });
+  async searchMemoriesBasic(query: string, categories?: string[], filters?: SearchFilters): Promise<any[]> {
+    Logger.debug('PostgreSQL basic search', { query, categories, filters, textSearchConfig: this.textSearchConfig });
+    
+    const searchFilters = SearchFilterTranslator.withCategories(filters, categories);
+    
+    // In auto mode each memory is matched with the query parsed in its own language
+    const tsQuery = this.textSearchConfig === 'auto'
+      ? `websearch_to_tsquery(search_language, $1)`
+      : `websearch_to_tsquery('${this.textSearchConfig}'::regconfig, $1)`;
     
     let sql = `
       SELECT id, category, topic, content, date, created_at, updated_at,
-             ts_rank(to_tsvector('english', content || ' ' || topic), plainto_tsquery('english', $1)) as rank
+             ts_rank_cd(search_vector, ${tsQuery}, 32) AS rank,
+             ts_headline(search_language, content, ${tsQuery},
+               'StartSel=**, StopSel=**, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "') AS snippet
       FROM memories 
-      WHERE (
-        to_tsvector('english', content || ' ' || topic) @@ plainto_tsquery('english', $1)
-        OR content ILIKE $2 
-        OR topic ILIKE $3
-      )
+      WHERE search_vector @@ ${tsQuery}
     `;
     
-    const params: any[] = [query, `%${query}%`, `%${query}%`];
-    let paramIndex = 4;
+    const params: any[] = [query];
+    let paramIndex = 2;
     
-    if (categories && categories.length > 0) {
-      const placeholders = categories.map(() => `$${paramIndex++}`).join(', ');
-      sql += ` AND category IN (${placeholders})`;
-      params.push(...categories);
-    }
+    // Both queries take the search term as $1, so the filter placeholders are shared
+    const where = SearchFilterTranslator.toSql(searchFilters, { dialect: 'postgresql', placeholder: () => `$${paramIndex++}` });
+    const filterSql = where.clauses.map(clause => ` AND ${clause}`).join('');
+    sql += filterSql;
+    params.push(...where.params);
     
     sql += ` ORDER BY rank DESC, created_at DESC LIMIT 50`;
     
@@ -337,10 +509,25 @@ export class PostgreSQLDatabaseRefactored extends MemoryPipelineBase {
     try {
       const result = await client.query(sql, params);
       
+      // Word fragments and stopword-only queries yield no lexemes; keep substring matches for them
+      if (result.rows.length === 0) {
+        const fallbackSql = `
+          SELECT id, category, topic, content, date, created_at, updated_at, 0 AS rank
+          FROM memories
+          WHERE (content ILIKE $1 OR topic ILIKE $1)${filterSql}
+          ORDER BY created_at DESC LIMIT 50
+        `;
+        const fallbackParams: any[] = [`%${query}%`, ...where.params];
+        
+        const fallback = await client.query(fallbackSql, fallbackParams);
+        Logger.debug('PostgreSQL full-text search empty, used ILIKE fallback', { query, resultCount: fallback.rows.length });
+        return fallback.rows;
+      }
+      
       Logger.debug('PostgreSQL basic search completed', { 
         query, 
         resultCount: result.rows.length,
-        categoriesFilter: categories?.length || 0
+        filters: where.clauses.length
       });
       
       return result.rows;
@@ -353,22 +540,22 @@ export class PostgreSQLDatabaseRefactored extends MemoryPipelineBase {
     }
   }
 
-  async getMemoriesByCategory(category: string, limit: number = 20): Promise<any[]> {
-    Logger.debug('PostgreSQL category search', { category, limit });
+  async getMemoriesByCategory(category: string, limit: number = 20, after?: KeysetPosition): Promise<any[]> {
+    Logger.debug('PostgreSQL category search', { category, limit, after });
     
     this.validateCategory(category);
     
     const query = `
       SELECT id, category, topic, content, date, created_at, updated_at
       FROM memories 
-      WHERE category = $1 
-      ORDER BY created_at DESC 
+      WHERE category = $1 ${after ? `AND ${this.keysetCondition(3)}` : ''}
+      ORDER BY created_at DESC, id DESC 
       LIMIT $2
     `;
     
     const client = await this.pool.connect();
     try {
-      const result = await client.query(query, [category, limit]);
+      const result = await client.query(query, [category, limit, ...(after ? [after.id, after.created_at] : [])]);
       
       Logger.debug('PostgreSQL category search completed', { 
         category, 
@@ -480,19 +667,20 @@ export class PostgreSQLDatabaseRefactored extends MemoryPipelineBase {
     }
   }
 
-  async getRecentMemories(limit: number = 10): Promise<any[]> {
-    Logger.debug('Getting recent memories from PostgreSQL', { limit });
+  async getRecentMemories(limit: number = 10, after?: KeysetPosition): Promise<any[]> {
+    Logger.debug('Getting recent memories from PostgreSQL', { limit, after });
     
     const query = `
       SELECT id, category, topic, content, date, created_at, updated_at
       FROM memories 
-      ORDER BY created_at DESC 
+      ${after ? `WHERE ${this.keysetCondition(2)}` : ''}
+      ORDER BY created_at DESC, id DESC 
       LIMIT $1
     `;
     
     const client = await this.pool.connect();
     try {
-      const result = await client.query(query, [limit]);
+      const result = await client.query(query, [limit, ...(after ? [after.id, after.created_at] : [])]);
       Logger.debug('Recent memories retrieved from PostgreSQL', { resultCount: result.rows.length });
       return result.rows;
     } finally {
@@ -500,180 +688,524 @@ export class PostgreSQLDatabaseRefactored extends MemoryPipelineBase {
     }
   }
 
-  // Override saveMemoryWithGraph to use direct ChromaDB/Neo4j integration
-  async saveMemoryWithGraph(
-    category: string, 
-    topic: string, 
-    content: string, 
-    forceRelationships?: any[]
-  ): Promise<AdvancedMemoryResult> {
-    Logger.info('PostgreSQL: Using advanced memory pipeline with direct integration', { category, topic });
-    
-    try {
-      // Phase 1: Save to SQL for ID generation
-      Logger.info('Phase 1: Saving to SQL for ID generation...');
-      const savedMemory = await this.saveNewMemory(category, topic, content);
-      const memoryId = savedMemory.id;
-      
-      // Phase 2: Semantic Analysis
-      Logger.info('Phase 2: Starting semantic analysis...');
-      let semanticConcepts: any[] = [];
-      let memoryType = category;
-      
-      if (this.analyzer) {
-        try {
-          const analysisResult = await this.analyzer.extractAndAnalyzeConcepts({
-            category,
-            topic,
-            content
-          });
-          
-          if (analysisResult.semantic_concepts) {
-            semanticConcepts = analysisResult.semantic_concepts;
-            // Use LLM-determined category if available
-            if (semanticConcepts.length > 0 && semanticConcepts[0].memory_type) {
-              memoryType = semanticConcepts[0].memory_type;
-              
-              // Update memory with LLM-determined category
-              await this.updateMemory(memoryId, { category: memoryType });
-              Logger.info('Memory category updated', { memoryId, newCategory: memoryType });
-            }
-          }
-        } catch (analysisError) {
-          Logger.error('Semantic analysis failed', { error: String(analysisError) });
-        }
-      }
+  // Rows after a cursor position in created_at DESC, id DESC order; takes the anchor id and
+  // created_at as $n and $n+1. The anchor row's own timestamp keeps its microseconds
+  private keysetCondition(firstParam: number): string {
+    const id = `$${firstParam}`;
+    return `(created_at, id) < (COALESCE((SELECT created_at FROM memories WHERE id = ${id}), $${firstParam + 1}::timestamptz), ${id})`;
+  }
+
+  // Analysis job persistence (used by JobProcessor and the batch analysis tools)
+
+  async createAnalysisJob(jobTypeOrMemoryIds: string | number[], memoryIdsOrJobType?: number[] | string): Promise<string> {
+    // Both argument orders are in use: (memoryIds, jobType) and (jobType, memoryIds)
+    const memoryIds = (Array.isArray(jobTypeOrMemoryIds) ? jobTypeOrMemoryIds : memoryIdsOrJobType) as number[];
+    const jobType = (typeof jobTypeOrMemoryIds === 'string' ? jobTypeOrMemoryIds : memoryIdsOrJobType) as string || 'batch';
+    
+    if (!Array.isArray(memoryIds)) {
+      throw new Error('memoryIds must be an array');
+    }
+    
+    const jobId = uuidv4();
+    Logger.info('Creating analysis job in PostgreSQL', { jobId, jobType, memoryCount: memoryIds.length });
+    
+    const query = `
+      INSERT INTO analysis_jobs (id, status, job_type, memory_ids, progress_current, progress_total, created_at)
+      VALUES ($1, 'pending', $2, $3, 0, $4, $5)
+    `;
+    
+    const client = await this.getPoolConnection();
+    try {
+      await client.query(query, [
+        jobId,
+        jobType,
+        JSON.stringify(memoryIds),
+        memoryIds.length,
+        new Date().toISOString()
+      ]);
       
-      // Phase 3: ChromaDB Integration
-      Logger.info('Phase 3: ChromaDB storage with granular concepts...');
-      let chromaStored = false;
-      
-      if (this.chromaClient && semanticConcepts.length > 0) {
-        try {
-          const chromaResult = await MemoryIntegrationHelper.storeConceptsInChromaDB(
-            this.chromaClient, 
-            savedMemory, 
-            semanticConcepts
-          );
-          chromaStored = chromaResult.success;
-          
-          if (chromaResult.errors.length > 0) {
-            Logger.warn('Some ChromaDB concept storage failed', {
-              memoryId,
-              errors: chromaResult.errors
-            });
-          }
-        } catch (chromaError) {
-          Logger.error('ChromaDB storage failed', { memoryId, error: String(chromaError) });
-        }
-      }
+      Logger.success('Analysis job created in PostgreSQL', { jobId });
+      return jobId;
+    } catch (error) {
+      Logger.error('Failed to create analysis job in PostgreSQL', { jobType, error });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateJobStatus(jobId: string, status: string, errorMessage?: string): Promise<void> {
+    Logger.debug('Updating analysis job status in PostgreSQL', { jobId, status });
+    
+    const query = `
+      UPDATE analysis_jobs
+      SET status = $1::text,
+          started_at = CASE WHEN $1::text = 'running' AND started_at IS NULL THEN NOW() ELSE started_at END,
+          completed_at = CASE
+            WHEN $1::text IN ('completed', 'failed', 'cancelled') THEN NOW()
+            WHEN $1::text IN ('pending', 'running') THEN NULL
+            ELSE completed_at
+          END,
+          error_message = $2
+      WHERE id = $3
+    `;
+    
+    const client = await this.getPoolConnection();
+    try {
+      const result = await client.query(query, [status, errorMessage ?? null, jobId]);
       
-      // Phase 4: Neo4j Integration
-      Logger.info('Phase 4: Initializing Neo4j...');
-      let neo4jStored = false;
-      
-      if (this.neo4jClient) {
-        try {
-          const neo4jResult = await MemoryIntegrationHelper.storeMemoryInNeo4j(
-            this.neo4jClient,
-            savedMemory
-          );
-          neo4jStored = neo4jResult.success;
-          
-          if (!neo4jResult.success) {
-            Logger.warn('Neo4j storage failed', { memoryId, error: neo4jResult.error });
-          }
-        } catch (neo4jError) {
-          Logger.error('Neo4j storage failed', { memoryId, error: String(neo4jError) });
-        }
+      if ((result.rowCount ?? 0) === 0) {
+        Logger.warn('Analysis job not found for status update in PostgreSQL', { jobId, status });
       }
-      
-      const result: AdvancedMemoryResult = {
-        memory_id: memoryId,
-        stored_in_chroma: chromaStored,
-        stored_in_neo4j: neo4jStored,
-        stored_in_short_memory: false,
-        relationships_created: 0,
-        significance_reason: `${memoryType} processed with ${semanticConcepts.length} concepts`
-      };
-      
-      Logger.success('PostgreSQL: Advanced pipeline completed', result);
-      
-      return {
-        memory_id: result.memory_id || 0,
-        stored_in_chroma: result.stored_in_chroma || false,
-        stored_in_neo4j: result.stored_in_neo4j || false,
-        relationships_created: 0,
-        success: true,
-        stored_in_sqlite: false,
-        analyzed_category: memoryType,
-        significance_reason: result.significance_reason
-      };
-      
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateJobProgress(jobId: string, current: number, status?: string): Promise<void> {
+    Logger.debug('Updating analysis job progress in PostgreSQL', { jobId, current, status });
+    
+    const query = `
+      UPDATE analysis_jobs
+      SET progress_current = $1, status = COALESCE($2, status)
+      WHERE id = $3
+    `;
+    
+    const client = await this.getPoolConnection();
+    try {
+      await client.query(query, [current, status ?? null, jobId]);
+    } finally {
+      client.release();
+    }
+  }
+
+  async getJobStatus(jobId: string): Promise<any | null> {
+    Logger.debug('Retrieving analysis job from PostgreSQL', { jobId });
+    
+    const client = await this.getPoolConnection();
+    try {
+      const result = await client.query(`SELECT * FROM analysis_jobs WHERE id = $1`, [jobId]);
+      return result.rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getJobsByStatus(statuses: string[]): Promise<any[]> {
+    Logger.debug('Retrieving analysis jobs by status from PostgreSQL', { statuses });
+    
+    if (statuses.length === 0) return [];
+    
+    const client = await this.getPoolConnection();
+    try {
+      const result = await client.query(
+        `SELECT * FROM analysis_jobs WHERE status = ANY($1::text[]) ORDER BY created_at ASC`,
+        [statuses]
+      );
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async saveAnalysisResult(jobId: string, memoryId: number, result: any, status: string = 'ok'): Promise<void> {
+    Logger.debug('Saving analysis result to PostgreSQL', { jobId, memoryId, status, memoryType: result.memory_type });
+    
+    // Re-running an item (e.g. after a retry) replaces the previous result
+    const query = `
+      INSERT INTO analysis_results (
+        job_id, memory_id, memory_type, confidence, mood, keywords, extracted_concepts, metadata,
+        status, error_message, created_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      ON CONFLICT (job_id, memory_id) DO UPDATE SET
+        memory_type = EXCLUDED.memory_type,
+        confidence = EXCLUDED.confidence,
+        mood = EXCLUDED.mood,
+        keywords = EXCLUDED.keywords,
+        extracted_concepts = EXCLUDED.extracted_concepts,
+        metadata = EXCLUDED.metadata,
+        status = EXCLUDED.status,
+        error_message = EXCLUDED.error_message,
+        created_at = EXCLUDED.created_at
+    `;
+    
+    const client = await this.getPoolConnection();
+    try {
+      await client.query(query, [
+        jobId,
+        memoryId,
+        result.memory_type ?? null,
+        result.confidence ?? null,
+        result.mood ?? null,
+        JSON.stringify(result.keywords || []),
+        JSON.stringify(result.extracted_concepts || []),
+        JSON.stringify({
+          mood: result.mood ?? null,
+          keywords: result.keywords || [],
+          extracted_summaries: result.extracted_summaries || []
+        }),
+        status,
+        result.error ?? null,
+        new Date().toISOString()
+      ]);
     } catch (error) {
-      Logger.error('Advanced memory pipeline failed', { error: String(error) });
+      Logger.error('Failed to save analysis result to PostgreSQL', { jobId, memoryId, error });
       throw error;
+    } finally {
+      client.release();
     }
   }
 
-  // Transaction support for complex operations
-  async executeTransaction<T>(operation: (client: PoolClient) => Promise<T>): Promise<T> {
-    Logger.debug('Executing PostgreSQL transaction');
+  async getAnalysisResults(jobId: string): Promise<any[]> {
+    Logger.debug('Retrieving analysis results from PostgreSQL', { jobId });
     
-    const client = await this.pool.connect();
+    const query = `
+      SELECT r.*, m.topic, m.category
+      FROM analysis_results r
+      LEFT JOIN memories m ON m.id = r.memory_id
+      WHERE r.job_id = $1
+      ORDER BY r.id ASC
+    `;
     
+    const client = await this.getPoolConnection();
+    try {
+      const result = await client.query(query, [jobId]);
+      
+      return result.rows.map(row => ({
+        ...row,
+        keywords: this.parseJsonColumn(row.keywords, []),
+        extracted_concepts: this.parseJsonColumn(row.extracted_concepts, []),
+        metadata: this.parseJsonColumn(row.metadata, {})
+      }));
+    } finally {
+      client.release();
+    }
+  }
+
+  // Reset results to 'pending' so the next run of the job analyzes these memories again
+  async markAnalysisResultsPending(jobId: string, memoryIds: number[]): Promise<number> {
+    Logger.debug('Marking analysis results pending in PostgreSQL', { jobId, memoryIds });
+    
+    if (memoryIds.length === 0) return 0;
+    
+    const query = `
+      UPDATE analysis_results
+      SET status = 'pending', error_message = NULL
+      WHERE job_id = $1 AND memory_id = ANY($2::int[])
+    `;
+    
+    const client = await this.getPoolConnection();
+    try {
+      const result = await client.query(query, [jobId, memoryIds]);
+      return result.rowCount ?? 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Pending write outbox (used by the save pipeline and PendingWriteProcessor)
+
+  async createPendingWrite(memoryId: number, target: string, payload: any): Promise<number> {
+    Logger.info('Recording pending write in PostgreSQL', { memoryId, target });
+    
+    const query = `
+      INSERT INTO pending_writes (memory_id, target, payload, status, attempts, created_at)
+      VALUES ($1, $2, $3, 'pending', 0, $4)
+      RETURNING id
+    `;
+    
+    const client = await this.getPoolConnection();
+    try {
+      const result = await client.query(query, [memoryId, target, JSON.stringify(payload), new Date().toISOString()]);
+      return result.rows[0].id;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getPendingWrites(statuses: string[] = ['pending'], limit: number = 100): Promise<any[]> {
+    Logger.debug('Retrieving pending writes from PostgreSQL', { statuses, limit });
+    
+    if (statuses.length === 0) return [];
+    
+    const query = `
+      SELECT * FROM pending_writes
+      WHERE status = ANY($1::text[])
+      ORDER BY created_at ASC, id ASC
+      LIMIT $2
+    `;
+    
+    const client = await this.getPoolConnection();
+    try {
+      const result = await client.query(query, [statuses, limit]);
+      return result.rows.map(row => ({ ...row, payload: this.parseJsonColumn(row.payload, {}) }));
+    } finally {
+      client.release();
+    }
+  }
+
+  async recordPendingWriteAttempt(id: number, status: string, errorMessage?: string): Promise<void> {
+    Logger.debug('Recording pending write attempt in PostgreSQL', { id, status });
+    
+    const query = `
+      UPDATE pending_writes
+      SET status = $1, attempts = attempts + 1, last_error = $2, updated_at = $3
+      WHERE id = $4
+    `;
+    
+    const client = await this.getPoolConnection();
+    try {
+      await client.query(query, [status, errorMessage ?? null, new Date().toISOString(), id]);
+    } finally {
+      client.release();
+    }
+  }
+
+  // Writes of a deleted memory must not be retried, otherwise they recreate its concepts or node
+  async cancelPendingWrites(memoryId: number): Promise<number> {
+    Logger.debug('Cancelling pending writes in PostgreSQL', { memoryId });
+    
+    const query = `
+      UPDATE pending_writes
+      SET status = 'cancelled', updated_at = $1
+      WHERE memory_id = $2 AND status IN ('pending', 'failed')
+    `;
+    
+    const client = await this.getPoolConnection();
+    try {
+      const result = await client.query(query, [new Date().toISOString(), memoryId]);
+      return result.rowCount || 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Registry of memories routed out of SQL (used by the consistency checker)
+
+  async recordRoutedMemory(memoryId: number, memoryType: string, topic: string): Promise<void> {
+    Logger.debug('Recording routed memory in PostgreSQL', { memoryId, memoryType });
+    
+    const query = `
+      INSERT INTO routed_memories (memory_id, memory_type, topic, routed_at)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (memory_id) DO UPDATE SET
+        memory_type = EXCLUDED.memory_type,
+        topic = EXCLUDED.topic,
+        routed_at = EXCLUDED.routed_at
+    `;
+    
+    const client = await this.getPoolConnection();
+    try {
+      await client.query(query, [memoryId, memoryType, topic, new Date().toISOString()]);
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteRoutedMemory(memoryId: number): Promise<boolean> {
+    const client = await this.getPoolConnection();
+    try {
+      const result = await client.query(`DELETE FROM routed_memories WHERE memory_id = $1`, [memoryId]);
+      return (result.rowCount || 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getRoutedMemoryIds(): Promise<number[]> {
+    const client = await this.getPoolConnection();
+    try {
+      const result = await client.query(`SELECT memory_id FROM routed_memories`);
+      return result.rows.map(row => row.memory_id);
+    } finally {
+      client.release();
+    }
+  }
+
+  async getAllMemoryIds(): Promise<number[]> {
+    const client = await this.getPoolConnection();
+    try {
+      const result = await client.query(`SELECT id FROM memories ORDER BY id ASC`);
+      return result.rows.map(row => row.id);
+    } finally {
+      client.release();
+    }
+  }
+
+  // Recall tracking and consolidation (used by the recall tools and MemoryConsolidator)
+
+  async recordMemoryAccess(memoryIds: number[], event: { tool: string; query?: string } = { tool: 'unknown' }): Promise<void> {
+    if (memoryIds.length === 0) return;
+    
+    const client = await this.getPoolConnection();
     try {
       await client.query('BEGIN');
-      const result = await operation(client);
+      await client.query(
+        `UPDATE memories SET access_count = access_count + 1, last_accessed_at = NOW() WHERE id = ANY($1::int[])`,
+        [memoryIds]
+      );
+      await client.query(
+        `INSERT INTO memory_access_events (memory_id, tool, query, accessed_at)
+         SELECT memory_id, $2, $3, NOW() FROM UNNEST($1::int[]) AS memory_id`,
+        [memoryIds, event.tool, event.query ?? null]
+      );
       await client.query('COMMIT');
-      
-      Logger.debug('PostgreSQL transaction completed successfully');
-      return result;
-      
     } catch (error) {
       await client.query('ROLLBACK');
-      Logger.error('PostgreSQL transaction failed and rolled back', { error });
       throw error;
     } finally {
       client.release();
     }
   }
 
-  // Backup and maintenance methods
-  async getShortMemories(limit: number = 10): Promise<any[]> {
-    Logger.debug('Getting short memories from PostgreSQL', { limit });
+  // Aggregated from the event log so memories routed out of SQL are covered as well
+  async getMemoryAccessStats(memoryIds: number[]): Promise<Map<number, { access_count: number; last_accessed_at: string | null }>> {
+    const stats = new Map<number, { access_count: number; last_accessed_at: string | null }>();
+    if (memoryIds.length === 0) return stats;
     
-    const query = `
-      SELECT id, topic, content, date, created_at
-      FROM short_memories 
-      ORDER BY created_at DESC 
-      LIMIT $1
-    `;
+    const client = await this.getPoolConnection();
+    try {
+      const result = await client.query(
+        `SELECT memory_id, COUNT(*)::int AS access_count, MAX(accessed_at) AS last_accessed_at
+         FROM memory_access_events WHERE memory_id = ANY($1::int[])
+         GROUP BY memory_id`,
+        [memoryIds]
+      );
+      result.rows.forEach(row => stats.set(row.memory_id, {
+        access_count: row.access_count,
+        last_accessed_at: row.last_accessed_at instanceof Date ? row.last_accessed_at.toISOString() : row.last_accessed_at
+      }));
+      return stats;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getConsolidationCandidates(): Promise<Array<{ id: number; category: string; topic: string; created_at: string; access_count: number; last_accessed_at: string | null; access_tracked_since: string | null }>> {
+    const client = await this.getPoolConnection();
+    try {
+      const result = await client.query(
+        `SELECT id, category, topic, created_at, access_count, last_accessed_at,
+           (SELECT applied_at FROM schema_migrations WHERE name = 'memory_access_tracking') AS access_tracked_since
+         FROM memories ORDER BY id ASC`
+      );
+      return result.rows.map(row => ({
+        ...row,
+        created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
+        last_accessed_at: row.last_accessed_at instanceof Date ? row.last_accessed_at.toISOString() : row.last_accessed_at,
+        access_tracked_since: row.access_tracked_since instanceof Date ? row.access_tracked_since.toISOString() : row.access_tracked_since
+      }));
+    } finally {
+      client.release();
+    }
+  }
+
+  // Conversation sessions (used by begin_session / end_session)
+
+  async createSession(id: string, title?: string): Promise<void> {
+    const client = await this.getPoolConnection();
+    try {
+      await client.query(`INSERT INTO sessions (id, title, started_at) VALUES ($1, $2, NOW())`, [id, title ?? null]);
+    } finally {
+      client.release();
+    }
+  }
+
+  async getSession(id: string): Promise<{ id: string; title: string | null; started_at: string; ended_at: string | null; summary_memory_id: number | null } | null> {
+    const client = await this.getPoolConnection();
+    try {
+      const result = await client.query(
+        `SELECT id, title, started_at, ended_at, summary_memory_id FROM sessions WHERE id = $1`,
+        [id]
+      );
+      const row = result.rows[0];
+      if (!row) return null;
+      return {
+        ...row,
+        started_at: row.started_at instanceof Date ? row.started_at.toISOString() : row.started_at,
+        ended_at: row.ended_at instanceof Date ? row.ended_at.toISOString() : row.ended_at
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  async completeSession(id: string, summaryMemoryId: number | null): Promise<boolean> {
+    const client = await this.getPoolConnection();
+    try {
+      const result = await client.query(
+        `UPDATE sessions SET ended_at = NOW(), summary_memory_id = $2 WHERE id = $1 AND ended_at IS NULL`,
+        [id, summaryMemoryId]
+      );
+      return (result.rowCount || 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async recordSessionMemories(sessionId: string, memoryIds: number[], action: 'saved' | 'recalled'): Promise<void> {
+    if (memoryIds.length === 0) return;
     
-    const client = await this.pool.connect();
+    const client = await this.getPoolConnection();
     try {
-      const result = await client.query(query, [limit]);
-      Logger.debug('Short memories retrieved from PostgreSQL', { resultCount: result.rows.length });
+      await client.query(
+        `INSERT INTO session_memories (session_id, memory_id, action, recorded_at)
+         SELECT $1, memory_id, $3, NOW() FROM UNNEST($2::int[]) AS memory_id
+         ON CONFLICT DO NOTHING`,
+        [sessionId, memoryIds, action]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async getSessionMemories(sessionId: string): Promise<Array<{ memory_id: number; action: string }>> {
+    const client = await this.getPoolConnection();
+    try {
+      const result = await client.query(
+        `SELECT memory_id, action FROM session_memories WHERE session_id = $1 ORDER BY recorded_at ASC, memory_id ASC`,
+        [sessionId]
+      );
       return result.rows;
     } finally {
       client.release();
     }
   }
 
-  async clearShortMemory(): Promise<void> {
-    Logger.info('Clearing short memory in PostgreSQL');
-    
-    const query = `DELETE FROM short_memories`;
+  private parseJsonColumn<T>(value: string | null, fallback: T): T {
+    if (!value) return fallback;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return fallback;
+    }
+  }
+
+  // Transaction support for complex operations
+  async executeTransaction<T>(operation: (client: PoolClient) => Promise<T>): Promise<T> {
+    Logger.debug('Executing PostgreSQL transaction');
     
     const client = await this.pool.connect();
+    
     try {
-      const result = await client.query(query);
-      Logger.success('Short memory cleared from PostgreSQL', { deletedCount: result.rowCount });
+      await client.query('BEGIN');
+      const result = await operation(client);
+      await client.query('COMMIT');
+      
+      Logger.debug('PostgreSQL transaction completed successfully');
+      return result;
+      
+    } catch (error) {
+      await client.query('ROLLBACK');
+      Logger.error('PostgreSQL transaction failed and rolled back', { error });
+      throw error;
     } finally {
       client.release();
     }
   }
 
+  // Backup and maintenance methods
   async optimize(): Promise<void> {
     Logger.info('Optimizing PostgreSQL database');
     
@@ -763,6 +1295,12 @@ export class PostgreSQLDatabaseRefactored extends MemoryPipelineBase {
     if (updates.content !== undefined) {
       updateFields.push(`content = $${paramIndex++}`);
       values.push(updates.content);
+      
+      // search_vector is regenerated from the new content, so its language follows it
+      if (this.textSearchConfig === 'auto') {
+        updateFields.push(`search_language = $${paramIndex++}::regconfig`);
+        values.push(this.resolveSearchLanguage(updates.topic || '', updates.content));
+      }
     }
     
     if (updates.category !== undefined) {
@@ -0,0 +1,162 @@
+import { Logger } from '../utils/Logger.js';
+
+export type GraphRelationshipType = 'SIMILAR_TO' | 'SHARES_CONCEPT' | 'FOLLOWS';
+
+// Relationship types the builder creates on every save
+export const AUTOMATIC_RELATIONSHIP_TYPES: GraphRelationshipType[] = ['SIMILAR_TO', 'SHARES_CONCEPT', 'FOLLOWS'];
+
+export interface RelationshipThresholds {
+  similarity: number;          // minimum cosine similarity of concept embeddings for SIMILAR_TO
+  maxSimilar: number;          // maximum SIMILAR_TO edges per memory
+  minSharedConcepts: number;   // minimum shared Concept nodes for SHARES_CONCEPT
+  followsWindowHours: number;  // maximum gap to the previous memory for FOLLOWS, 0 disables it
+}
+
+export interface RelationshipCandidate {
+  targetId: number;
+  relationshipType: GraphRelationshipType;
+  properties: Record<string, any>;
+}
+
+export interface RelationshipBuildResult {
+  success: boolean;
+  relationshipsCreated: number;
+  byType: Record<GraphRelationshipType, number>;
+  errors: string[];
+}
+
+// Relationship Builder
+// Derives typed graph edges for a stored memory from three signals: concept
+// embedding similarity (ChromaDB), shared Concept nodes and temporal proximity
+// (Neo4j). Each edge stores the score that produced it.
+export class RelationshipBuilder {
+  private chromaClient: any;
+  private neo4jClient: any;
+  private thresholds: RelationshipThresholds;
+  
+  constructor(chromaClient: any, neo4jClient: any, thresholds: Partial<RelationshipThresholds> = {}) {
+    this.chromaClient = chromaClient;
+    this.neo4jClient = neo4jClient;
+    this.thresholds = { ...RelationshipBuilder.thresholdsFromEnv(), ...thresholds };
+  }
+  
+  static thresholdsFromEnv(): RelationshipThresholds {
+    const parse = (value: string | undefined, fallback: number) => {
+      const parsed = parseFloat(value || '');
+      return isNaN(parsed) ? fallback : parsed;
+    };
+    
+    return {
+      similarity: parse(process.env.RELATIONSHIP_SIMILARITY_THRESHOLD, 0.75),
+      maxSimilar: parse(process.env.RELATIONSHIP_MAX_SIMILAR, 5),
+      minSharedConcepts: parse(process.env.RELATIONSHIP_MIN_SHARED_CONCEPTS, 1),
+      followsWindowHours: parse(process.env.RELATIONSHIP_FOLLOWS_WINDOW_HOURS, 24)
+    };
+  }
+  
+  getThresholds(): RelationshipThresholds {
+    return { ...this.thresholds };
+  }
+  
+  async findCandidates(memory: { id: number; created_at?: string }): Promise<{ candidates: RelationshipCandidate[]; errors: string[] }> {
+    const candidates: RelationshipCandidate[] = [];
+    const errors: string[] = [];
+    
+    // SIMILAR_TO: cosine similarity of the concept embeddings
+    if (this.chromaClient?.findSimilarMemories && this.thresholds.maxSimilar > 0) {
+      const { matches, error } = await this.chromaClient.findSimilarMemories(memory.id, this.thresholds.maxSimilar);
+      if (error) errors.push(`ChromaDB: ${error}`);
+      
+      for (const match of matches || []) {
+        if (match.similarity < this.thresholds.similarity) continue;
+        candidates.push({
+          targetId: match.memory_id,
+          relationshipType: 'SIMILAR_TO',
+          properties: { similarity_score: round(match.similarity), matched_concept: match.concept_title }
+        });
+      }
+    }
+    
+    if (!this.neo4jClient) {
+      return { candidates, errors };
+    }
+    
+    // SHARES_CONCEPT: common Concept nodes, scored by Jaccard index
+    try {
+      const sharing = await this.neo4jClient.findMemoriesSharingConcepts(memory.id, this.thresholds.minSharedConcepts);
+      for (const entry of sharing) {
+        candidates.push({
+          targetId: entry.memory_id,
+          relationshipType: 'SHARES_CONCEPT',
+          properties: { score: round(entry.score), shared_concepts: entry.shared_concepts, shared_count: entry.shared_concepts.length }
+        });
+      }
+    } catch (error) {
+      errors.push(`Neo4j shared concepts: ${String(error)}`);
+    }
+    
+    // FOLLOWS: the previous memory, if it was created within the time window
+    if (this.thresholds.followsWindowHours > 0 && memory.created_at) {
+      try {
+        const previous = await this.neo4jClient.findPreviousMemory(memory.id);
+        const gapHours = previous
+          ? (new Date(memory.created_at).getTime() - new Date(previous.created_at).getTime()) / 3600000
+          : NaN;
+        
+        if (previous && gapHours >= 0 && gapHours <= this.thresholds.followsWindowHours) {
+          candidates.push({
+            targetId: previous.memory_id,
+            relationshipType: 'FOLLOWS',
+            properties: { gap_hours: round(gapHours), score: round(1 - gapHours / this.thresholds.followsWindowHours) }
+          });
+        }
+      } catch (error) {
+        errors.push(`Neo4j previous memory: ${String(error)}`);
+      }
+    }
+    
+    return { candidates, errors };
+  }
+  
+  async build(memory: { id: number; created_at?: string }): Promise<RelationshipBuildResult> {
+    const result: RelationshipBuildResult = {
+      success: true,
+      relationshipsCreated: 0,
+      byType: { SIMILAR_TO: 0, SHARES_CONCEPT: 0, FOLLOWS: 0 },
+      errors: []
+    };
+    
+    if (!this.neo4jClient) {
+      return result;
+    }
+    
+    const { candidates, errors } = await this.findCandidates(memory);
+    result.errors.push(...errors);
+    
+    if (candidates.length > 0) {
+      const createResult = await this.neo4jClient.createRelationships(memory.id, candidates);
+      result.relationshipsCreated = createResult.relationshipsCreated || 0;
+      result.errors.push(...(createResult.errors || []));
+      
+      // Count only the edges that exist, a partial failure still creates the others
+      (createResult.outcomes || []).forEach((outcome: { relationshipType: GraphRelationshipType; created: boolean }) => {
+        if (outcome.created) result.byType[outcome.relationshipType]++;
+      });
+    }
+    
+    result.success = result.errors.length === 0;
+    
+    Logger.info('Graph relationships built', {
+      memoryId: memory.id,
+      created: result.relationshipsCreated,
+      byType: result.byType,
+      errors: result.errors.length
+    });
+    
+    return result;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
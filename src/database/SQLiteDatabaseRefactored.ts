@@ -6,13 +6,15 @@
  */
 
 import Database from 'better-sqlite3';
-import { MemoryPipelineBase, AdvancedMemoryResult } from './MemoryPipelineBase.js';
+import { v4 as uuidv4 } from 'uuid';
+import { MemoryPipelineBase } from './MemoryPipelineBase.js';
 import { ShortMemoryManager } from './ShortMemoryManager.js';
+import { SearchFilters, SearchFilterTranslator } from './SearchFilters.js';
+import { KeysetPosition } from './SearchCursor.js';
 import { Logger } from '../utils/Logger.js';
 
 export class SQLiteDatabaseRefactored extends MemoryPipelineBase {
   private db: Database.Database;
-  private shortMemoryManager: ShortMemoryManager | null = null;
 
   constructor(dbPath: string) {
     super(); // Call base class constructor
@@ -26,6 +28,7 @@ export class SQLiteDatabaseRefactored extends MemoryPipelineBase {
     this.db.pragma('temp_store = MEMORY');
     
     this.initializeSchema();
+    this.shortMemoryManager = ShortMemoryManager.forSQLite(this.db);
     
     Logger.success('SQLiteDatabaseRefactored constructed successfully');
   }
@@ -50,18 +53,216 @@ export class SQLiteDatabaseRefactored extends MemoryPipelineBase {
     const createIndexes = [
       `CREATE INDEX IF NOT EXISTS idx_memories_category ON memories(category)`,
       `CREATE INDEX IF NOT EXISTS idx_memories_date ON memories(date)`,
-      `CREATE INDEX IF NOT EXISTS idx_memories_created_at ON memories(created_at)`,
-      `CREATE INDEX IF NOT EXISTS idx_memories_content_fts ON memories(content)`,
-      `CREATE INDEX IF NOT EXISTS idx_memories_topic_fts ON memories(topic)`
+      `CREATE INDEX IF NOT EXISTS idx_memories_created_at ON memories(created_at)`
     ];
     
+    // Full-text index over topic and content, kept in sync with memories by triggers
+    const createFullTextTable = `
+      CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(
+        topic,
+        content,
+        content='memories',
+        content_rowid='id',
+        tokenize='unicode61 remove_diacritics 2'
+      )
+    `;
+    
+    const createFullTextTriggers = [
+      `CREATE TRIGGER IF NOT EXISTS memories_fts_insert AFTER INSERT ON memories BEGIN
+        INSERT INTO memories_fts(rowid, topic, content) VALUES (new.id, new.topic, new.content);
+      END`,
+      `CREATE TRIGGER IF NOT EXISTS memories_fts_delete AFTER DELETE ON memories BEGIN
+        INSERT INTO memories_fts(memories_fts, rowid, topic, content) VALUES ('delete', old.id, old.topic, old.content);
+      END`,
+      `CREATE TRIGGER IF NOT EXISTS memories_fts_update AFTER UPDATE OF topic, content ON memories BEGIN
+        INSERT INTO memories_fts(memories_fts, rowid, topic, content) VALUES ('delete', old.id, old.topic, old.content);
+        INSERT INTO memories_fts(rowid, topic, content) VALUES (new.id, new.topic, new.content);
+      END`
+    ];
+    
+    // Analysis job tables (batch analysis via JobProcessor)
+    const createAnalysisJobsTable = `
+      CREATE TABLE IF NOT EXISTS analysis_jobs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL DEFAULT 'pending',
+        job_type TEXT NOT NULL,
+        memory_ids TEXT NOT NULL,
+        progress_current INTEGER NOT NULL DEFAULT 0,
+        progress_total INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        started_at TEXT,
+        completed_at TEXT,
+        error_message TEXT
+      )
+    `;
+    
+    const createAnalysisResultsTable = `
+      CREATE TABLE IF NOT EXISTS analysis_results (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        job_id TEXT NOT NULL REFERENCES analysis_jobs(id) ON DELETE CASCADE,
+        memory_id INTEGER NOT NULL,
+        memory_type TEXT,
+        confidence REAL,
+        mood TEXT,
+        keywords TEXT,
+        extracted_concepts TEXT,
+        metadata TEXT,
+        status TEXT NOT NULL DEFAULT 'ok',
+        error_message TEXT,
+        created_at TEXT NOT NULL,
+        UNIQUE(job_id, memory_id)
+      )
+    `;
+    
+    const createJobIndexes = [
+      `CREATE INDEX IF NOT EXISTS idx_analysis_jobs_status ON analysis_jobs(status)`,
+      `CREATE INDEX IF NOT EXISTS idx_analysis_results_job_id ON analysis_results(job_id)`
+    ];
+    
+    // Outbox for ChromaDB/Neo4j writes that failed during a memory save
+    const createPendingWritesTable = `
+      CREATE TABLE IF NOT EXISTS pending_writes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        memory_id INTEGER NOT NULL,
+        target TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT
+      )
+    `;
+    
+    const createPendingWriteIndexes = [
+      `CREATE INDEX IF NOT EXISTS idx_pending_writes_status ON pending_writes(status)`,
+      `CREATE INDEX IF NOT EXISTS idx_pending_writes_memory_id ON pending_writes(memory_id)`
+    ];
+    
+    // Memories the save pipeline removed from SQL on purpose (they live in ChromaDB/Neo4j only)
+    const createRoutedMemoriesTable = `
+      CREATE TABLE IF NOT EXISTS routed_memories (
+        memory_id INTEGER PRIMARY KEY,
+        memory_type TEXT NOT NULL,
+        topic TEXT,
+        routed_at TEXT NOT NULL
+      )
+    `;
+    
+    // Applied migrations whose date later code needs (e.g. the start of access tracking)
+    const createSchemaMigrationsTable = `
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        name TEXT PRIMARY KEY,
+        applied_at TEXT NOT NULL
+      )
+    `;
+    
+    // One row per memory shown by a recall or search tool (also for memories routed out of SQL)
+    const createMemoryAccessEventsTable = `
+      CREATE TABLE IF NOT EXISTS memory_access_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        memory_id INTEGER NOT NULL,
+        tool TEXT NOT NULL,
+        query TEXT,
+        accessed_at TEXT NOT NULL
+      )
+    `;
+    
+    // Conversation sessions and the memories saved or recalled during them
+    const createSessionsTable = `
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        title TEXT,
+        started_at TEXT NOT NULL,
+        ended_at TEXT,
+        summary_memory_id INTEGER
+      )
+    `;
+    
+    const createSessionMemoriesTable = `
+      CREATE TABLE IF NOT EXISTS session_memories (
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        memory_id INTEGER NOT NULL,
+        action TEXT NOT NULL,
+        recorded_at TEXT NOT NULL,
+        PRIMARY KEY (session_id, memory_id, action)
+      )
+    `;
+    
     // Execute schema creation
     this.db.exec(createMemoriesTable);
+    this.db.exec(createSchemaMigrationsTable);
+    this.migrateMemoryAccessColumns();
     createIndexes.forEach(index => this.db.exec(index));
+    this.migrateFullTextSearch(createFullTextTable, createFullTextTriggers);
+    this.db.exec(createAnalysisJobsTable);
+    this.db.exec(createAnalysisResultsTable);
+    this.migrateAnalysisResultsTable();
+    createJobIndexes.forEach(index => this.db.exec(index));
+    this.db.exec(createPendingWritesTable);
+    createPendingWriteIndexes.forEach(index => this.db.exec(index));
+    this.db.exec(createRoutedMemoriesTable);
+    this.db.exec(createMemoryAccessEventsTable);
+    this.db.exec(`CREATE INDEX IF NOT EXISTS idx_memory_access_events_memory_id ON memory_access_events(memory_id)`);
+    this.db.exec(createSessionsTable);
+    this.db.exec(createSessionMemoriesTable);
     
     Logger.success('SQLite schema initialized with performance indexes');
   }
 
+  // Create the FTS5 index and fill it from existing rows; replaces the old B-tree "fts" indexes
+  private migrateFullTextSearch(createFullTextTable: string, createFullTextTriggers: string[]): void {
+    const ftsExists = !!this.db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'memories_fts'`).get();
+    
+    this.db.exec(createFullTextTable);
+    createFullTextTriggers.forEach(trigger => this.db.exec(trigger));
+    this.db.exec(`DROP INDEX IF EXISTS idx_memories_content_fts`);
+    this.db.exec(`DROP INDEX IF EXISTS idx_memories_topic_fts`);
+    
+    if (!ftsExists) {
+      this.db.exec(`INSERT INTO memories_fts(memories_fts) VALUES ('rebuild')`);
+      const { count } = this.db.prepare(`SELECT COUNT(*) AS count FROM memories`).get() as { count: number };
+      Logger.info('Migrated memories: built full-text index', { indexedMemories: count });
+    }
+  }
+
+  // Recall tracking for the MemoryConsolidator; existing memories start unrecalled
+  private migrateMemoryAccessColumns(): void {
+    const columns = (this.db.prepare(`PRAGMA table_info(memories)`).all() as { name: string }[])
+      .map(column => column.name);
+    
+    if (!columns.includes('access_count')) {
+      this.db.exec(`ALTER TABLE memories ADD COLUMN access_count INTEGER NOT NULL DEFAULT 0`);
+      Logger.info('Migrated memories: added access_count column');
+    }
+    
+    if (!columns.includes('last_accessed_at')) {
+      this.db.exec(`ALTER TABLE memories ADD COLUMN last_accessed_at TEXT`);
+      Logger.info('Migrated memories: added last_accessed_at column');
+    }
+    
+    // Memories created before this have no recall history; consolidation decays them from here
+    this.db.prepare(`
+      INSERT OR IGNORE INTO schema_migrations (name, applied_at) VALUES ('memory_access_tracking', ?)
+    `).run(new Date().toISOString());
+  }
+
+  // Add per-item status columns to analysis_results tables created before they existed
+  private migrateAnalysisResultsTable(): void {
+    const columns = (this.db.prepare(`PRAGMA table_info(analysis_results)`).all() as { name: string }[])
+      .map(column => column.name);
+    
+    if (!columns.includes('status')) {
+      this.db.exec(`ALTER TABLE analysis_results ADD COLUMN status TEXT NOT NULL DEFAULT 'ok'`);
+      Logger.info('Migrated analysis_results: added status column');
+    }
+    
+    if (!columns.includes('error_message')) {
+      this.db.exec(`ALTER TABLE analysis_results ADD COLUMN error_message TEXT`);
+      Logger.info('Migrated analysis_results: added error_message column');
+    }
+  }
+
   // Implementation of abstract methods from MemoryPipelineBase
 
   async saveNewMemory(category: string, topic: string, content: string): Promise<any> {
@@ -120,58 +321,6 @@ export class SQLiteDatabaseRefactored extends MemoryPipelineBase {
     return success;
   }
 
-  async addToShortMemory(memory: any): Promise<void> {
-    // For now, implement short memory directly in the main database
-    // TODO: Adapt ShortMemoryManager to work with better-sqlite3
-    Logger.debug('Adding memory to SQLite short memory table', { topic: memory.topic });
-    
-    try {
-      // Create short_memories table if it doesn't exist
-      const createTableQuery = `
-        CREATE TABLE IF NOT EXISTS short_memories (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          topic TEXT NOT NULL,
-          content TEXT NOT NULL,
-          date TEXT NOT NULL,
-          created_at TEXT NOT NULL
-        )
-      `;
-      
-      this.db.exec(createTableQuery);
-      
-      // Insert the memory
-      const insertQuery = `
-        INSERT INTO short_memories (topic, content, date, created_at)
-        VALUES (?, ?, ?, ?)
-      `;
-      
-      const stmt = this.db.prepare(insertQuery);
-      stmt.run(
-        memory.topic,
-        memory.content,
-        memory.date,
-        new Date().toISOString()
-      );
-      
-      // Maintain FIFO limit (keep only last 10)
-      const cleanupQuery = `
-        DELETE FROM short_memories 
-        WHERE id NOT IN (
-          SELECT id FROM short_memories 
-          ORDER BY created_at DESC 
-          LIMIT 10
-        )
-      `;
-      
-      this.db.exec(cleanupQuery);
-      
-      Logger.debug('Memory added to SQLite short memory successfully', { topic: memory.topic });
-    } catch (error) {
-      Logger.error('Error adding memory to SQLite short memory', { topic: memory.topic, error });
-      throw error;
-    }
-  }
-
   async moveMemory(id: number, newCategory: string): Promise<any> {
     Logger.info('Moving memory to new category in SQLite', { id, newCategory });
     
@@ -193,52 +342,107 @@ export class SQLiteDatabaseRefactored extends MemoryPipelineBase {
 
   // Implementation of abstract search methods from MemoryPipelineBase
 
-  async searchMemoriesBasic(query: string, categories?: string[]): Promise<any[]> {
-    Logger.debug('SQLite basic search', { query, categories });
+  async searchMemoriesBasic(query: string, categories?: string[], filters?: SearchFilters): Promise<any[]> {
+    Logger.debug('SQLite basic search', { query, categories, filters });
+    
+    const searchFilters = SearchFilterTranslator.withCategories(filters, categories);
+    const ftsQuery = this.buildFullTextQuery(query);
+    if (!ftsQuery) {
+      return this.searchMemoriesLike(query, searchFilters);
+    }
     
+    // bm25() is lower for better matches; topic hits weigh twice as much as content hits
     let sql = `
-      SELECT id, category, topic, content, date, created_at, updated_at
-      FROM memories 
-      WHERE (content LIKE ? OR topic LIKE ?)
+      SELECT m.id, m.category, m.topic, m.content, m.date, m.created_at, m.updated_at,
+        bm25(memories_fts, 2.0, 1.0) AS rank,
+        snippet(memories_fts, 1, '**', '**', '…', 16) AS snippet
+      FROM memories_fts
+      JOIN memories m ON m.id = memories_fts.rowid
+      WHERE memories_fts MATCH ?
     `;
     
-    const params: any[] = [`%${query}%`, `%${query}%`];
+    const params: any[] = [ftsQuery];
     
-    if (categories && categories.length > 0) {
-      const placeholders = categories.map(() => '?').join(', ');
-      sql += ` AND category IN (${placeholders})`;
-      params.push(...categories);
-    }
+    const where = SearchFilterTranslator.toSql(searchFilters, { dialect: 'sqlite', placeholder: () => '?', column: name => `m.${name}` });
+    where.clauses.forEach(clause => { sql += ` AND ${clause}`; });
+    params.push(...where.params);
     
-    sql += ` ORDER BY created_at DESC LIMIT 50`;
+    sql += ` ORDER BY rank LIMIT 50`;
     
-    const stmt = this.db.prepare(sql);
-    const results = stmt.all(...params);
+    let results: any[];
+    try {
+      results = this.db.prepare(sql).all(...params);
+    } catch (error) {
+      Logger.warn('SQLite full-text search failed, falling back to LIKE', { query, ftsQuery, error: String(error) });
+      return this.searchMemoriesLike(query, searchFilters);
+    }
     
     Logger.debug('SQLite basic search completed', { 
       query, 
+      ftsQuery,
       resultCount: results.length,
-      categoriesFilter: categories?.length || 0
+      filters: where.clauses.length
     });
     
     return results;
   }
 
-  async getMemoriesByCategory(category: string, limit: number = 20): Promise<any[]> {
-    Logger.debug('SQLite category search', { category, limit });
+  // Translate user input into an FTS5 query: "quoted text" is a phrase, word* a prefix,
+  // everything else is quoted so FTS5 operators and punctuation cannot break the query
+  private buildFullTextQuery(query: string): string {
+    const terms: string[] = [];
+    const tokenPattern = /"([^"]*)"|(\S+)/g;
+    let match: RegExpExecArray | null;
+    
+    while ((match = tokenPattern.exec(query)) !== null) {
+      if (match[1] !== undefined) {
+        const phrase = match[1].trim();
+        if (phrase) terms.push(`"${phrase}"`);
+        continue;
+      }
+      
+      const isPrefix = match[2].endsWith('*');
+      const word = match[2].replace(/["*]/g, '');
+      if (word) terms.push(`"${word}"${isPrefix ? '*' : ''}`);
+    }
+    
+    return terms.join(' ');
+  }
+
+  private searchMemoriesLike(query: string, filters: SearchFilters): any[] {
+    let sql = `
+      SELECT id, category, topic, content, date, created_at, updated_at
+      FROM memories 
+      WHERE (content LIKE ? OR topic LIKE ?)
+    `;
+    
+    const params: any[] = [`%${query}%`, `%${query}%`];
+    
+    const where = SearchFilterTranslator.toSql(filters, { dialect: 'sqlite', placeholder: () => '?' });
+    where.clauses.forEach(clause => { sql += ` AND ${clause}`; });
+    params.push(...where.params);
+    
+    sql += ` ORDER BY created_at DESC LIMIT 50`;
+    
+    return this.db.prepare(sql).all(...params);
+  }
+
+  async getMemoriesByCategory(category: string, limit: number = 20, after?: KeysetPosition): Promise<any[]> {
+    Logger.debug('SQLite category search', { category, limit, after });
     
     this.validateCategory(category);
     
+    const keyset = this.keysetCondition(after);
     const query = `
       SELECT id, category, topic, content, date, created_at, updated_at
       FROM memories 
-      WHERE category = ? 
-      ORDER BY created_at DESC 
+      WHERE category = ? ${keyset.sql ? `AND ${keyset.sql}` : ''}
+      ORDER BY created_at DESC, id DESC 
       LIMIT ?
     `;
     
     const stmt = this.db.prepare(query);
-    const results = stmt.all(category, limit);
+    const results = stmt.all(category, ...keyset.params, limit);
     
     Logger.debug('SQLite category search completed', { 
       category, 
@@ -326,52 +530,377 @@ export class SQLiteDatabaseRefactored extends MemoryPipelineBase {
     return categories;
   }
 
-  async getRecentMemories(limit: number = 10): Promise<any[]> {
-    Logger.debug('Getting recent memories from SQLite', { limit });
+  async getRecentMemories(limit: number = 10, after?: KeysetPosition): Promise<any[]> {
+    Logger.debug('Getting recent memories from SQLite', { limit, after });
     
+    const keyset = this.keysetCondition(after);
     const query = `
       SELECT id, category, topic, content, date, created_at, updated_at
       FROM memories 
-      ORDER BY created_at DESC 
+      ${keyset.sql ? `WHERE ${keyset.sql}` : ''}
+      ORDER BY created_at DESC, id DESC 
       LIMIT ?
     `;
     
     const stmt = this.db.prepare(query);
-    const results = stmt.all(limit);
+    const results = stmt.all(...keyset.params, limit);
     
     Logger.debug('Recent memories retrieved from SQLite', { resultCount: results.length });
     return results;
   }
 
-  // Override saveMemoryWithGraph to use the base class pipeline
-  async saveMemoryWithGraph(
-    category: string, 
-    topic: string, 
-    content: string, 
-    forceRelationships?: any[]
-  ): Promise<AdvancedMemoryResult> {
-    // This now uses the sophisticated pipeline from MemoryPipelineBase!
-    Logger.info('SQLite: Using advanced memory pipeline', { category, topic });
+  // Rows after a cursor position in created_at DESC, id DESC order; the anchor row's own
+  // created_at is used while it exists, the cursor's copy after it was deleted
+  private keysetCondition(after?: KeysetPosition): { sql: string; params: any[] } {
+    if (!after) return { sql: '', params: [] };
+    return {
+      sql: `(created_at, id) < (COALESCE((SELECT created_at FROM memories WHERE id = ?), ?), ?)`,
+      params: [after.id, after.created_at, after.id]
+    };
+  }
+
+  // Analysis job persistence (used by JobProcessor and the batch analysis tools)
+
+  async createAnalysisJob(jobTypeOrMemoryIds: string | number[], memoryIdsOrJobType?: number[] | string): Promise<string> {
+    // Both argument orders are in use: (memoryIds, jobType) and (jobType, memoryIds)
+    const memoryIds = (Array.isArray(jobTypeOrMemoryIds) ? jobTypeOrMemoryIds : memoryIdsOrJobType) as number[];
+    const jobType = (typeof jobTypeOrMemoryIds === 'string' ? jobTypeOrMemoryIds : memoryIdsOrJobType) as string || 'batch';
     
-    const result = await this.executeAdvancedMemoryPipeline(category, topic, content);
+    if (!Array.isArray(memoryIds)) {
+      throw new Error('memoryIds must be an array');
+    }
     
-    Logger.success('SQLite: Advanced pipeline completed', {
-      memory_id: result.memory_id,
-      stored_in_chroma: result.stored_in_chroma,
-      stored_in_neo4j: result.stored_in_neo4j,
-      significance_reason: result.significance_reason
-    });
+    const jobId = uuidv4();
+    Logger.info('Creating analysis job in SQLite', { jobId, jobType, memoryCount: memoryIds.length });
     
-    return {
-      memory_id: result.memory_id || 0,
-      stored_in_chroma: result.stored_in_chroma || false,
-      stored_in_neo4j: result.stored_in_neo4j || false,
-      relationships_created: result.relationships_created || 0,
-      success: result.success,
-      stored_in_sqlite: result.stored_in_sqlite,
-      analyzed_category: result.analyzed_category,
-      significance_reason: result.significance_reason
-    };
+    const query = `
+      INSERT INTO analysis_jobs (id, status, job_type, memory_ids, progress_current, progress_total, created_at)
+      VALUES (?, 'pending', ?, ?, 0, ?, ?)
+    `;
+    
+    this.db.prepare(query).run(
+      jobId,
+      jobType,
+      JSON.stringify(memoryIds),
+      memoryIds.length,
+      new Date().toISOString()
+    );
+    
+    Logger.success('Analysis job created in SQLite', { jobId });
+    return jobId;
+  }
+
+  async updateJobStatus(jobId: string, status: string, errorMessage?: string): Promise<void> {
+    Logger.debug('Updating analysis job status in SQLite', { jobId, status });
+    
+    const now = new Date().toISOString();
+    const query = `
+      UPDATE analysis_jobs
+      SET status = ?,
+          started_at = CASE WHEN ? = 'running' AND started_at IS NULL THEN ? ELSE started_at END,
+          completed_at = CASE
+            WHEN ? IN ('completed', 'failed', 'cancelled') THEN ?
+            WHEN ? IN ('pending', 'running') THEN NULL
+            ELSE completed_at
+          END,
+          error_message = ?
+      WHERE id = ?
+    `;
+    
+    const result = this.db.prepare(query).run(status, status, now, status, now, status, errorMessage ?? null, jobId);
+    
+    if (result.changes === 0) {
+      Logger.warn('Analysis job not found for status update in SQLite', { jobId, status });
+    }
+  }
+
+  async updateJobProgress(jobId: string, current: number, status?: string): Promise<void> {
+    Logger.debug('Updating analysis job progress in SQLite', { jobId, current, status });
+    
+    if (status) {
+      this.db.prepare(`UPDATE analysis_jobs SET progress_current = ?, status = ? WHERE id = ?`).run(current, status, jobId);
+    } else {
+      this.db.prepare(`UPDATE analysis_jobs SET progress_current = ? WHERE id = ?`).run(current, jobId);
+    }
+  }
+
+  async getJobStatus(jobId: string): Promise<any | null> {
+    Logger.debug('Retrieving analysis job from SQLite', { jobId });
+    
+    const query = `SELECT * FROM analysis_jobs WHERE id = ?`;
+    const result = this.db.prepare(query).get(jobId);
+    
+    return result || null;
+  }
+
+  async getJobsByStatus(statuses: string[]): Promise<any[]> {
+    Logger.debug('Retrieving analysis jobs by status from SQLite', { statuses });
+    
+    if (statuses.length === 0) return [];
+    
+    const placeholders = statuses.map(() => '?').join(', ');
+    const query = `SELECT * FROM analysis_jobs WHERE status IN (${placeholders}) ORDER BY created_at ASC`;
+    
+    return this.db.prepare(query).all(...statuses);
+  }
+
+  async saveAnalysisResult(jobId: string, memoryId: number, result: any, status: string = 'ok'): Promise<void> {
+    Logger.debug('Saving analysis result to SQLite', { jobId, memoryId, status, memoryType: result.memory_type });
+    
+    // Re-running an item (e.g. after a retry) replaces the previous result
+    const query = `
+      INSERT INTO analysis_results (
+        job_id, memory_id, memory_type, confidence, mood, keywords, extracted_concepts, metadata,
+        status, error_message, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(job_id, memory_id) DO UPDATE SET
+        memory_type = excluded.memory_type,
+        confidence = excluded.confidence,
+        mood = excluded.mood,
+        keywords = excluded.keywords,
+        extracted_concepts = excluded.extracted_concepts,
+        metadata = excluded.metadata,
+        status = excluded.status,
+        error_message = excluded.error_message,
+        created_at = excluded.created_at
+    `;
+    
+    this.db.prepare(query).run(
+      jobId,
+      memoryId,
+      result.memory_type ?? null,
+      result.confidence ?? null,
+      result.mood ?? null,
+      JSON.stringify(result.keywords || []),
+      JSON.stringify(result.extracted_concepts || []),
+      JSON.stringify({
+        mood: result.mood ?? null,
+        keywords: result.keywords || [],
+        extracted_summaries: result.extracted_summaries || []
+      }),
+      status,
+      result.error ?? null,
+      new Date().toISOString()
+    );
+  }
+
+  async getAnalysisResults(jobId: string): Promise<any[]> {
+    Logger.debug('Retrieving analysis results from SQLite', { jobId });
+    
+    const query = `
+      SELECT r.*, m.topic, m.category
+      FROM analysis_results r
+      LEFT JOIN memories m ON m.id = r.memory_id
+      WHERE r.job_id = ?
+      ORDER BY r.id ASC
+    `;
+    
+    const rows = this.db.prepare(query).all(jobId) as any[];
+    
+    return rows.map(row => ({
+      ...row,
+      keywords: this.parseJsonColumn(row.keywords, []),
+      extracted_concepts: this.parseJsonColumn(row.extracted_concepts, []),
+      metadata: this.parseJsonColumn(row.metadata, {})
+    }));
+  }
+
+  // Reset results to 'pending' so the next run of the job analyzes these memories again
+  async markAnalysisResultsPending(jobId: string, memoryIds: number[]): Promise<number> {
+    Logger.debug('Marking analysis results pending in SQLite', { jobId, memoryIds });
+    
+    if (memoryIds.length === 0) return 0;
+    
+    const placeholders = memoryIds.map(() => '?').join(', ');
+    const query = `
+      UPDATE analysis_results
+      SET status = 'pending', error_message = NULL
+      WHERE job_id = ? AND memory_id IN (${placeholders})
+    `;
+    
+    return this.db.prepare(query).run(jobId, ...memoryIds).changes;
+  }
+
+  // Pending write outbox (used by the save pipeline and PendingWriteProcessor)
+
+  async createPendingWrite(memoryId: number, target: string, payload: any): Promise<number> {
+    Logger.info('Recording pending write in SQLite', { memoryId, target });
+    
+    const query = `
+      INSERT INTO pending_writes (memory_id, target, payload, status, attempts, created_at)
+      VALUES (?, ?, ?, 'pending', 0, ?)
+    `;
+    
+    const result = this.db.prepare(query).run(memoryId, target, JSON.stringify(payload), new Date().toISOString());
+    return Number(result.lastInsertRowid);
+  }
+
+  async getPendingWrites(statuses: string[] = ['pending'], limit: number = 100): Promise<any[]> {
+    Logger.debug('Retrieving pending writes from SQLite', { statuses, limit });
+    
+    if (statuses.length === 0) return [];
+    
+    const placeholders = statuses.map(() => '?').join(', ');
+    const query = `
+      SELECT * FROM pending_writes
+      WHERE status IN (${placeholders})
+      ORDER BY created_at ASC, id ASC
+      LIMIT ?
+    `;
+    
+    const rows = this.db.prepare(query).all(...statuses, limit) as any[];
+    return rows.map(row => ({ ...row, payload: this.parseJsonColumn(row.payload, {}) }));
+  }
+
+  async recordPendingWriteAttempt(id: number, status: string, errorMessage?: string): Promise<void> {
+    Logger.debug('Recording pending write attempt in SQLite', { id, status });
+    
+    const query = `
+      UPDATE pending_writes
+      SET status = ?, attempts = attempts + 1, last_error = ?, updated_at = ?
+      WHERE id = ?
+    `;
+    
+    this.db.prepare(query).run(status, errorMessage ?? null, new Date().toISOString(), id);
+  }
+
+  // Writes of a deleted memory must not be retried, otherwise they recreate its concepts or node
+  async cancelPendingWrites(memoryId: number): Promise<number> {
+    Logger.debug('Cancelling pending writes in SQLite', { memoryId });
+    
+    const query = `
+      UPDATE pending_writes
+      SET status = 'cancelled', updated_at = ?
+      WHERE memory_id = ? AND status IN ('pending', 'failed')
+    `;
+    
+    const result = this.db.prepare(query).run(new Date().toISOString(), memoryId);
+    return result.changes;
+  }
+
+  // Registry of memories routed out of SQL (used by the consistency checker)
+
+  async recordRoutedMemory(memoryId: number, memoryType: string, topic: string): Promise<void> {
+    Logger.debug('Recording routed memory in SQLite', { memoryId, memoryType });
+    
+    const query = `
+      INSERT INTO routed_memories (memory_id, memory_type, topic, routed_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(memory_id) DO UPDATE SET
+        memory_type = excluded.memory_type,
+        topic = excluded.topic,
+        routed_at = excluded.routed_at
+    `;
+    
+    this.db.prepare(query).run(memoryId, memoryType, topic, new Date().toISOString());
+  }
+
+  async deleteRoutedMemory(memoryId: number): Promise<boolean> {
+    const result = this.db.prepare(`DELETE FROM routed_memories WHERE memory_id = ?`).run(memoryId);
+    return result.changes > 0;
+  }
+
+  async getRoutedMemoryIds(): Promise<number[]> {
+    const rows = this.db.prepare(`SELECT memory_id FROM routed_memories`).all() as { memory_id: number }[];
+    return rows.map(row => row.memory_id);
+  }
+
+  async getAllMemoryIds(): Promise<number[]> {
+    const rows = this.db.prepare(`SELECT id FROM memories ORDER BY id ASC`).all() as { id: number }[];
+    return rows.map(row => row.id);
+  }
+
+  // Recall tracking and consolidation (used by the recall tools and MemoryConsolidator)
+
+  async recordMemoryAccess(memoryIds: number[], event: { tool: string; query?: string } = { tool: 'unknown' }): Promise<void> {
+    if (memoryIds.length === 0) return;
+    
+    const accessedAt = new Date().toISOString();
+    const placeholders = memoryIds.map(() => '?').join(', ');
+    const updateCounters = this.db.prepare(`
+      UPDATE memories SET access_count = access_count + 1, last_accessed_at = ?
+      WHERE id IN (${placeholders})
+    `);
+    const insertEvent = this.db.prepare(`
+      INSERT INTO memory_access_events (memory_id, tool, query, accessed_at) VALUES (?, ?, ?, ?)
+    `);
+    
+    this.db.transaction(() => {
+      updateCounters.run(accessedAt, ...memoryIds);
+      memoryIds.forEach(id => insertEvent.run(id, event.tool, event.query ?? null, accessedAt));
+    })();
+  }
+
+  // Aggregated from the event log so memories routed out of SQL are covered as well
+  async getMemoryAccessStats(memoryIds: number[]): Promise<Map<number, { access_count: number; last_accessed_at: string | null }>> {
+    const stats = new Map<number, { access_count: number; last_accessed_at: string | null }>();
+    if (memoryIds.length === 0) return stats;
+    
+    const placeholders = memoryIds.map(() => '?').join(', ');
+    const rows = this.db.prepare(`
+      SELECT memory_id, COUNT(*) AS access_count, MAX(accessed_at) AS last_accessed_at
+      FROM memory_access_events WHERE memory_id IN (${placeholders})
+      GROUP BY memory_id
+    `).all(...memoryIds) as Array<{ memory_id: number; access_count: number; last_accessed_at: string | null }>;
+    
+    rows.forEach(row => stats.set(row.memory_id, { access_count: row.access_count, last_accessed_at: row.last_accessed_at }));
+    return stats;
+  }
+
+  async getConsolidationCandidates(): Promise<Array<{ id: number; category: string; topic: string; created_at: string; access_count: number; last_accessed_at: string | null; access_tracked_since: string | null }>> {
+    return this.db.prepare(`
+      SELECT id, category, topic, created_at, access_count, last_accessed_at,
+        (SELECT applied_at FROM schema_migrations WHERE name = 'memory_access_tracking') AS access_tracked_since
+      FROM memories ORDER BY id ASC
+    `).all() as any[];
+  }
+
+  // Conversation sessions (used by begin_session / end_session)
+
+  async createSession(id: string, title?: string): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO sessions (id, title, started_at) VALUES (?, ?, ?)
+    `).run(id, title ?? null, new Date().toISOString());
+  }
+
+  async getSession(id: string): Promise<{ id: string; title: string | null; started_at: string; ended_at: string | null; summary_memory_id: number | null } | null> {
+    return (this.db.prepare(`
+      SELECT id, title, started_at, ended_at, summary_memory_id FROM sessions WHERE id = ?
+    `).get(id) as any) || null;
+  }
+
+  async completeSession(id: string, summaryMemoryId: number | null): Promise<boolean> {
+    const result = this.db.prepare(`
+      UPDATE sessions SET ended_at = ?, summary_memory_id = ? WHERE id = ? AND ended_at IS NULL
+    `).run(new Date().toISOString(), summaryMemoryId, id);
+    return result.changes > 0;
+  }
+
+  async recordSessionMemories(sessionId: string, memoryIds: number[], action: 'saved' | 'recalled'): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO session_memories (session_id, memory_id, action, recorded_at) VALUES (?, ?, ?, ?)
+    `);
+    const recordedAt = new Date().toISOString();
+    
+    this.db.transaction(() => {
+      memoryIds.forEach(memoryId => insert.run(sessionId, memoryId, action, recordedAt));
+    })();
+  }
+
+  async getSessionMemories(sessionId: string): Promise<Array<{ memory_id: number; action: string }>> {
+    return this.db.prepare(`
+      SELECT memory_id, action FROM session_memories WHERE session_id = ? ORDER BY recorded_at ASC, memory_id ASC
+    `).all(sessionId) as any[];
+  }
+
+  private parseJsonColumn<T>(value: string | null, fallback: T): T {
+    if (!value) return fallback;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return fallback;
+    }
   }
 
   // Transaction support for complex operations
@@ -423,10 +952,6 @@ export class SQLiteDatabaseRefactored extends MemoryPipelineBase {
     Logger.info('Closing SQLite database connection');
     
     try {
-      if (this.shortMemoryManager) {
-        await this.shortMemoryManager.clearShortMemory();
-      }
-      
       this.db.close();
       Logger.success('SQLite database connection closed successfully');
     } catch (error) {
@@ -0,0 +1,174 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../utils/Logger.js';
+
+export type ListingKind = 'category' | 'recent';
+
+// Last row of a listing page; the next page starts after it in created_at DESC, id DESC order
+export interface KeysetPosition {
+  id: number;
+  created_at: string;
+}
+
+export interface SearchPage {
+  results: any[];
+  offset: number;               // 0-based position of the first result in the ranked list
+  total: number;                // length of the ranked list
+  next_cursor: string | null;
+}
+
+export interface SearchCursorSettings {
+  ttlMinutes: number;      // lifetime of a search snapshot after its last use
+  maxSnapshots: number;    // snapshots kept at once, the least recently used one is dropped
+}
+
+interface SearchSnapshot {
+  tool: string;
+  result: any;              // the complete search result, results in final order
+  pageSize: number;
+  expiresAt: number;
+}
+
+type CursorPayload =
+  | { kind: ListingKind; scope: string | null; after: KeysetPosition }
+  | { kind: 'search'; snapshot: string; offset: number; pageSize: number };
+
+// Search Cursor Store
+// Opaque cursors for the paged tools. Listings page by keyset on created_at/id, so
+// memories saved in between never shift a page. Searches page through a snapshot of
+// the final ranked list (SQL, ChromaDB and graph hits after fusion and reranking),
+// so later pages neither query the stores again nor re-run the reranking.
+export class SearchCursorStore {
+  private settings: SearchCursorSettings;
+  private snapshots = new Map<string, SearchSnapshot>();
+  
+  constructor(settings: Partial<SearchCursorSettings> = {}) {
+    this.settings = { ...SearchCursorStore.settingsFromEnv(), ...settings };
+  }
+  
+  static settingsFromEnv(): SearchCursorSettings {
+    const parse = (value: string | undefined, fallback: number) => {
+      const parsed = parseInt(value || '', 10);
+      return parsed > 0 ? parsed : fallback;
+    };
+    
+    return {
+      ttlMinutes: parse(process.env.SEARCH_CURSOR_TTL_MINUTES, 30),
+      maxSnapshots: parse(process.env.SEARCH_CURSOR_MAX_SNAPSHOTS, 20)
+    };
+  }
+  
+  /**
+   * Cursor for the listing page after the given rows; null when the page was the last one.
+   * Load limit + 1 rows so a full page tells whether more follow
+   */
+  static listingCursor(kind: ListingKind, rows: any[], limit: number, scope: string | null = null): string | null {
+    if (rows.length <= limit || limit <= 0) return null;
+    
+    const last = rows[limit - 1];
+    const createdAt = last.created_at instanceof Date ? last.created_at.toISOString() : String(last.created_at);
+    return SearchCursorStore.encode({ kind, scope, after: { id: Number(last.id), created_at: createdAt } });
+  }
+  
+  /**
+   * Keyset position of a listing cursor; throws when the cursor belongs to another listing
+   */
+  static listingPosition(cursor: string, kind: ListingKind, scope: string | null = null): KeysetPosition {
+    const payload = SearchCursorStore.decode(cursor);
+    if (payload.kind === 'search' || payload.kind !== kind || payload.scope !== scope) {
+      throw new Error(`Cursor does not belong to this ${kind === 'category' ? `category listing (${scope})` : 'listing'}`);
+    }
+    return payload.after;
+  }
+  
+  /**
+   * Stores the ranked results of a search and returns the first page
+   */
+  snapshot(tool: string, result: any, pageSize: number): SearchPage {
+    this.removeExpired();
+    
+    const id = uuidv4();
+    this.snapshots.set(id, { tool, result, pageSize, expiresAt: this.expiry() });
+    
+    // Map order is insertion order; touched snapshots are re-inserted in page()
+    while (this.snapshots.size > this.settings.maxSnapshots) {
+      const oldest = this.snapshots.keys().next().value as string;
+      this.snapshots.delete(oldest);
+      Logger.debug('Search snapshot dropped', { snapshot: oldest, maxSnapshots: this.settings.maxSnapshots });
+    }
+    
+    return this.slice(id, result.results || [], 0, pageSize);
+  }
+  
+  /**
+   * Page a search cursor points to, with the search result it was cut from.
+   * A limit overrides the page size of the first page
+   */
+  page(cursor: string, tool: string, limit?: number): { page: SearchPage; result: any } {
+    this.removeExpired();
+    
+    const payload = SearchCursorStore.decode(cursor);
+    if (payload.kind !== 'search') throw new Error('Cursor does not belong to a search');
+    
+    const snapshot = this.snapshots.get(payload.snapshot);
+    if (!snapshot) throw new Error('Cursor expired, please run the search again');
+    if (snapshot.tool !== tool) throw new Error(`Cursor belongs to ${snapshot.tool}`);
+    
+    snapshot.expiresAt = this.expiry();
+    this.snapshots.delete(payload.snapshot);
+    this.snapshots.set(payload.snapshot, snapshot);
+    
+    const pageSize = limit && limit > 0 ? limit : payload.pageSize;
+    return {
+      page: this.slice(payload.snapshot, snapshot.result.results || [], payload.offset, pageSize),
+      result: snapshot.result
+    };
+  }
+  
+  getConfig(): SearchCursorSettings {
+    return { ...this.settings };
+  }
+  
+  private slice(id: string, results: any[], offset: number, pageSize: number): SearchPage {
+    const end = offset + pageSize;
+    return {
+      results: results.slice(offset, end),
+      offset,
+      total: results.length,
+      next_cursor: end < results.length
+        ? SearchCursorStore.encode({ kind: 'search', snapshot: id, offset: end, pageSize })
+        : null
+    };
+  }
+  
+  private expiry(): number {
+    return Date.now() + this.settings.ttlMinutes * 60000;
+  }
+  
+  private removeExpired(): void {
+    const now = Date.now();
+    for (const [id, snapshot] of this.snapshots) {
+      if (snapshot.expiresAt <= now) this.snapshots.delete(id);
+    }
+  }
+  
+  private static encode(payload: CursorPayload): string {
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+  }
+  
+  private static decode(cursor: string): CursorPayload {
+    let payload: any;
+    try {
+      payload = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Invalid cursor');
+    }
+    
+    const validListing = (payload?.kind === 'category' || payload?.kind === 'recent')
+      && Number.isInteger(payload.after?.id) && typeof payload.after?.created_at === 'string';
+    const validSearch = payload?.kind === 'search' && typeof payload.snapshot === 'string'
+      && Number.isInteger(payload.offset) && payload.offset >= 0 && Number.isInteger(payload.pageSize) && payload.pageSize > 0;
+    if (!validListing && !validSearch) throw new Error('Invalid cursor');
+    
+    return payload as CursorPayload;
+  }
+}
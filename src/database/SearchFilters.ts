@@ -0,0 +1,250 @@
+export type SearchStore = 'sql' | 'chroma' | 'neo4j';
+
+export interface SearchFilters {
+  categories?: string[];      // memory category (SQL column, source_category in ChromaDB, node property in Neo4j)
+  memoryTypes?: string[];     // analyzed memory type; stored as the category in SQL and Neo4j
+  moods?: string[];           // concept mood, only known to ChromaDB
+  keywords?: string[];        // any of the keywords in topic, content or concept keywords
+  dateFrom?: string;          // YYYY-MM-DD, inclusive
+  dateTo?: string;            // YYYY-MM-DD, inclusive
+  minConfidence?: number;     // minimum concept confidence (0..1)
+  sources?: SearchStore[];    // stores to search, default all
+}
+
+export const SEARCH_STORES: SearchStore[] = ['sql', 'chroma', 'neo4j'];
+
+// Filters each store can evaluate; a store that cannot evaluate a requested filter is skipped
+const SUPPORTED_FILTERS: Record<SearchStore, Array<keyof SearchFilters>> = {
+  sql: ['categories', 'memoryTypes', 'keywords', 'dateFrom', 'dateTo'],
+  chroma: ['categories', 'memoryTypes', 'moods', 'keywords', 'dateFrom', 'dateTo', 'minConfidence'],
+  neo4j: ['categories', 'memoryTypes', 'keywords', 'dateFrom', 'dateTo', 'minConfidence']
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Search Filter Translator
+// One filter model for all search tools, translated to SQL WHERE clauses,
+// ChromaDB where filters (plus a result check for what ChromaDB metadata
+// filters cannot express) and Cypher predicates.
+export class SearchFilterTranslator {
+  /**
+   * Validate the filters argument of a search tool; throws on malformed values
+   */
+  static parse(input: any): SearchFilters {
+    if (input === undefined || input === null) return {};
+    if (typeof input !== 'object' || Array.isArray(input)) {
+      throw new Error('filters must be an object');
+    }
+    
+    const list = (key: string): string[] | undefined => {
+      const value = input[key];
+      if (value === undefined || value === null) return undefined;
+      const values = (Array.isArray(value) ? value : [value]).map(entry => String(entry).trim()).filter(Boolean);
+      return values.length > 0 ? values : undefined;
+    };
+    const date = (key: string): string | undefined => {
+      const value = input[key];
+      if (value === undefined || value === null || value === '') return undefined;
+      if (typeof value !== 'string' || !DATE_PATTERN.test(value) || isNaN(Date.parse(value))) {
+        throw new Error(`${key} must be a date in the format YYYY-MM-DD`);
+      }
+      return value;
+    };
+    
+    const filters: SearchFilters = {
+      categories: list('categories'),
+      memoryTypes: list('memoryTypes'),
+      moods: list('moods'),
+      keywords: list('keywords')?.map(keyword => keyword.toLowerCase()),
+      dateFrom: date('dateFrom'),
+      dateTo: date('dateTo')
+    };
+    
+    if (input.minConfidence !== undefined && input.minConfidence !== null) {
+      const minConfidence = Number(input.minConfidence);
+      if (isNaN(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+        throw new Error('minConfidence must be a number between 0 and 1');
+      }
+      filters.minConfidence = minConfidence;
+    }
+    
+    const sources = list('sources');
+    if (sources) {
+      const invalid = sources.filter(source => !SEARCH_STORES.includes(source as SearchStore));
+      if (invalid.length > 0) {
+        throw new Error(`Unknown sources: ${invalid.join(', ')} (allowed: ${SEARCH_STORES.join(', ')})`);
+      }
+      filters.sources = sources as SearchStore[];
+    }
+    
+    if (filters.dateFrom && filters.dateTo && filters.dateFrom > filters.dateTo) {
+      throw new Error('dateFrom must not be after dateTo');
+    }
+    
+    return SearchFilterTranslator.compact(filters);
+  }
+  
+  // The categories parameter the search methods already take is one more category filter
+  static withCategories(filters: SearchFilters = {}, categories?: string[]): SearchFilters {
+    if (!categories || categories.length === 0) return SearchFilterTranslator.compact(filters);
+    return SearchFilterTranslator.compact({ ...filters, categories: [...new Set([...(filters.categories || []), ...categories])] });
+  }
+  
+  static isEmpty(filters: SearchFilters = {}): boolean {
+    return Object.keys(SearchFilterTranslator.compact(filters)).length === 0;
+  }
+  
+  /**
+   * Requested filters the store cannot evaluate
+   */
+  static unsupportedFilters(filters: SearchFilters, store: SearchStore): string[] {
+    return (Object.keys(SearchFilterTranslator.compact(filters)) as Array<keyof SearchFilters>)
+      .filter(key => key !== 'sources' && !SUPPORTED_FILTERS[store].includes(key));
+  }
+  
+  /**
+   * Whether a store is searched: selected by the sources filter and able to evaluate every other filter
+   */
+  static appliesTo(filters: SearchFilters, store: SearchStore): boolean {
+    if (filters.sources && !filters.sources.includes(store)) return false;
+    return SearchFilterTranslator.unsupportedFilters(filters, store).length === 0;
+  }
+  
+  /**
+   * WHERE conditions on the memories table, joined with AND by the caller.
+   * placeholder() returns the next parameter placeholder ('?' or '$n')
+   */
+  static toSql(
+    filters: SearchFilters,
+    options: { dialect: 'sqlite' | 'postgresql'; placeholder: () => string; column?: (name: string) => string }
+  ): { clauses: string[]; params: any[] } {
+    const column = options.column || ((name: string) => name);
+    const like = options.dialect === 'postgresql' ? 'ILIKE' : 'LIKE';
+    const clauses: string[] = [];
+    const params: any[] = [];
+    
+    const inList = (values: string[]) => {
+      clauses.push(`${column('category')} IN (${values.map(() => options.placeholder()).join(', ')})`);
+      params.push(...values);
+    };
+    
+    if (filters.categories) inList(filters.categories);
+    if (filters.memoryTypes) inList(filters.memoryTypes);
+    
+    if (filters.keywords) {
+      const matches = filters.keywords.map(keyword => {
+        params.push(`%${keyword}%`, `%${keyword}%`);
+        return `${column('topic')} ${like} ${options.placeholder()} OR ${column('content')} ${like} ${options.placeholder()}`;
+      });
+      clauses.push(`(${matches.join(' OR ')})`);
+    }
+    
+    if (filters.dateFrom) {
+      clauses.push(`${column('date')} >= ${options.placeholder()}`);
+      params.push(filters.dateFrom);
+    }
+    if (filters.dateTo) {
+      clauses.push(`${column('date')} <= ${options.placeholder()}`);
+      params.push(filters.dateTo);
+    }
+    
+    return { clauses, params };
+  }
+  
+  /**
+   * ChromaDB metadata filter for the concept documents; undefined without applicable filters.
+   * Keywords and dates are compared on strings, which ChromaDB cannot do - see matchesConcept()
+   */
+  static toChromaWhere(filters: SearchFilters): Record<string, any> | undefined {
+    const conditions: Record<string, any>[] = [];
+    
+    if (filters.categories) conditions.push({ source_category: { $in: filters.categories } });
+    if (filters.memoryTypes) conditions.push({ memory_type: { $in: filters.memoryTypes } });
+    if (filters.moods) conditions.push({ mood: { $in: filters.moods } });
+    if (filters.minConfidence !== undefined) conditions.push({ confidence: { $gte: filters.minConfidence } });
+    
+    if (conditions.length === 0) return undefined;
+    return conditions.length === 1 ? conditions[0] : { $and: conditions };
+  }
+  
+  // Filters checked on ChromaDB results after the query
+  static needsConceptCheck(filters: SearchFilters): boolean {
+    return !!(filters.keywords || filters.dateFrom || filters.dateTo);
+  }
+  
+  /**
+   * Keyword and date check for a ChromaDB concept hit (metadata fields as returned by searchSimilar)
+   */
+  static matchesConcept(concept: any, filters: SearchFilters): boolean {
+    if (!SearchFilterTranslator.inDateRange(concept.source_date, filters)) return false;
+    if (!filters.keywords) return true;
+    
+    let keywords: string[] = [];
+    try {
+      keywords = Array.isArray(concept.keywords) ? concept.keywords : JSON.parse(concept.keywords || '[]');
+    } catch {
+      keywords = [];
+    }
+    
+    const text = [concept.source_topic, concept.concept_title, concept.content, ...keywords]
+      .filter(Boolean)
+      .join('\n')
+      .toLowerCase();
+    return filters.keywords.some(keyword => text.includes(keyword));
+  }
+  
+  /**
+   * Cypher predicates on a Memory node, joined with AND by the caller.
+   * Parameters are prefixed with "filter" so they cannot clash with the query's own
+   */
+  static toCypher(filters: SearchFilters, alias: string = 'm'): { predicates: string[]; params: Record<string, any> } {
+    const predicates: string[] = [];
+    const params: Record<string, any> = {};
+    
+    if (filters.categories) {
+      predicates.push(`${alias}.category IN $filterCategories`);
+      params.filterCategories = filters.categories;
+    }
+    if (filters.memoryTypes) {
+      predicates.push(`${alias}.category IN $filterMemoryTypes`);
+      params.filterMemoryTypes = filters.memoryTypes;
+    }
+    if (filters.keywords) {
+      predicates.push(`any(keyword IN $filterKeywords WHERE
+        toLower(coalesce(${alias}.topic, '')) CONTAINS keyword
+        OR toLower(coalesce(${alias}.content, '')) CONTAINS keyword
+        OR any(concept IN [(${alias})-[:MENTIONS]->(filterConcept:Concept) | filterConcept]
+          WHERE any(conceptKeyword IN coalesce(concept.keywords, []) WHERE toLower(conceptKeyword) CONTAINS keyword)))`);
+      params.filterKeywords = filters.keywords;
+    }
+    if (filters.dateFrom) {
+      predicates.push(`${alias}.date >= $filterDateFrom`);
+      params.filterDateFrom = filters.dateFrom;
+    }
+    if (filters.dateTo) {
+      predicates.push(`${alias}.date <= $filterDateTo`);
+      params.filterDateTo = filters.dateTo;
+    }
+    if (filters.minConfidence !== undefined) {
+      predicates.push(`any(mention IN [(${alias})-[filterMention:MENTIONS]->(:Concept) | filterMention]
+        WHERE coalesce(mention.confidence, 1.0) >= $filterMinConfidence)`);
+      params.filterMinConfidence = filters.minConfidence;
+    }
+    
+    return { predicates, params };
+  }
+  
+  // Undefined entries would show up as active filters
+  private static compact(filters: SearchFilters): SearchFilters {
+    return Object.fromEntries(
+      Object.entries(filters).filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+    ) as SearchFilters;
+  }
+  
+  private static inDateRange(date: any, filters: SearchFilters): boolean {
+    if (!filters.dateFrom && !filters.dateTo) return true;
+    const day = date instanceof Date ? date.toISOString().split('T')[0] : String(date || '').substring(0, 10);
+    if (!DATE_PATTERN.test(day)) return false;
+    return (!filters.dateFrom || day >= filters.dateFrom) && (!filters.dateTo || day <= filters.dateTo);
+  }
+}
@@ -0,0 +1,148 @@
+import { Logger } from '../utils/Logger.js';
+
+export type FusionMethod = 'rrf' | 'score';
+export type SearchSource = 'sql' | 'chroma';
+
+export interface FusionSettings {
+  method: FusionMethod;                     // rrf: reciprocal rank fusion, score: weighted sum of normalized scores
+  rrfK: number;                             // RRF damping constant, a result at rank r contributes weight / (rrfK + r)
+  weights: Record<SearchSource, number>;    // per-source weight for both methods
+}
+
+export interface SourceRank {
+  rank: number;            // 1-based position among the distinct memories of the source
+  score: number | null;    // raw score reported by the source (bm25 / ts_rank / cosine similarity)
+}
+
+export interface FusedResult {
+  id: number;
+  source: SearchSource | 'both';
+  source_ranks: Partial<Record<SearchSource, SourceRank>>;
+  fusion_score: number;
+  [key: string]: any;
+}
+
+// Raw score field per source; null when the source did not report one
+const SCORE_FIELDS: Record<SearchSource, string> = {
+  sql: 'rank',
+  chroma: 'similarity'
+};
+
+// Search Fusion
+// Merges the ranked result lists of the SQL full-text search and the ChromaDB
+// vector search into one list. Every result keeps the rank and score it had in
+// each source; the fusion score decides the order.
+export class SearchFusion {
+  private settings: FusionSettings;
+  
+  constructor(settings: Partial<FusionSettings> = {}) {
+    this.settings = SearchFusion.mergeSettings(SearchFusion.settingsFromEnv(), settings);
+  }
+  
+  static settingsFromEnv(): FusionSettings {
+    const parse = (value: string | undefined, fallback: number) => {
+      const parsed = parseFloat(value || '');
+      return isNaN(parsed) ? fallback : parsed;
+    };
+    
+    return {
+      method: process.env.SEARCH_FUSION_METHOD === 'score' ? 'score' : 'rrf',
+      rrfK: Math.max(1, parse(process.env.SEARCH_FUSION_RRF_K, 60)),
+      weights: {
+        sql: Math.max(0, parse(process.env.SEARCH_FUSION_WEIGHT_SQL, 1)),
+        chroma: Math.max(0, parse(process.env.SEARCH_FUSION_WEIGHT_CHROMA, 1))
+      }
+    };
+  }
+  
+  private static mergeSettings(base: FusionSettings, overrides: Partial<FusionSettings> = {}): FusionSettings {
+    return {
+      method: overrides.method === 'score' || overrides.method === 'rrf' ? overrides.method : base.method,
+      rrfK: overrides.rrfK && overrides.rrfK > 0 ? overrides.rrfK : base.rrfK,
+      weights: { ...base.weights, ...overrides.weights }
+    };
+  }
+  
+  getSettings(): FusionSettings {
+    return { ...this.settings, weights: { ...this.settings.weights } };
+  }
+  
+  /**
+   * Fuse result lists ordered best first; results need a numeric id.
+   * Per-call overrides replace the configured method, k or single weights.
+   */
+  fuse(lists: Partial<Record<SearchSource, any[]>>, overrides: Partial<FusionSettings> = {}): { results: FusedResult[]; settings: FusionSettings } {
+    const settings = SearchFusion.mergeSettings(this.settings, overrides);
+    const fused = new Map<number, FusedResult>();
+    
+    for (const source of Object.keys(SCORE_FIELDS) as SearchSource[]) {
+      const ranked = this.distinctById(lists[source] || []);
+      const normalized = this.normalizedScores(ranked, SCORE_FIELDS[source]);
+      const weight = settings.weights[source] ?? 1;
+      
+      ranked.forEach((result, index) => {
+        const rank = index + 1;
+        const contribution = settings.method === 'rrf'
+          ? weight / (settings.rrfK + rank)
+          : weight * normalized[index];
+        
+        const existing = fused.get(result.id);
+        if (existing) {
+          // The first source keeps the memory fields, later sources add their own
+          fused.set(result.id, { ...result, ...existing, source: 'both', fusion_score: existing.fusion_score + contribution });
+        } else {
+          fused.set(result.id, { ...result, source, source_ranks: {}, fusion_score: contribution });
+        }
+        fused.get(result.id)!.source_ranks[source] = { rank, score: this.rawScore(result, SCORE_FIELDS[source]) };
+      });
+    }
+    
+    // Map order breaks ties, so SQL hits stay ahead of vector hits with the same score
+    const results = Array.from(fused.values()).sort((a, b) => b.fusion_score - a.fusion_score);
+    
+    Logger.debug('Search results fused', {
+      method: settings.method,
+      weights: settings.weights,
+      counts: Object.fromEntries(Object.entries(lists).map(([source, list]) => [source, list?.length || 0])),
+      fused: results.length
+    });
+    
+    return { results, settings };
+  }
+  
+  // A source may return several hits per memory (e.g. one per concept); the best one counts
+  private distinctById(results: any[]): any[] {
+    const seen = new Set<number>();
+    return results.filter(result => {
+      if (!Number.isInteger(result?.id) || result.id <= 0 || seen.has(result.id)) return false;
+      seen.add(result.id);
+      return true;
+    });
+  }
+  
+  // Min-max normalization to 0..1 with the best ranked result on top; bm25 is lower-is-better,
+  // ts_rank and similarity higher-is-better, so the direction is taken from the list order
+  private normalizedScores(ranked: any[], field: string): number[] {
+    const scores = ranked.map(result => this.rawScore(result, field));
+    const known = scores.filter((score): score is number => score !== null);
+    const positional = (index: number) => ranked.length > 1 ? 1 - index / (ranked.length - 1) : 1;
+    
+    const min = Math.min(...known);
+    const max = Math.max(...known);
+    
+    // Missing or constant scores (e.g. the LIKE fallback) carry no signal beyond the order
+    if (known.length < ranked.length || known.length === 0 || max === min) {
+      return ranked.map((_, index) => positional(index));
+    }
+    
+    const descending = known[0] >= known[known.length - 1];
+    return known.map(score => descending ? (score - min) / (max - min) : (max - score) / (max - min));
+  }
+  
+  private rawScore(result: any, field: string): number | null {
+    const value = result?.[field];
+    if (value === null || value === undefined || value === '') return null;
+    const score = Number(value);
+    return isNaN(score) ? null : score;
+  }
+}
@@ -1,239 +1,270 @@
-import { Database } from 'sqlite3';
+import type Database from 'better-sqlite3';
+import type { PoolClient } from 'pg';
 import { Logger } from '../utils/Logger.js';
 
-// FIFO Queue Manager für Short Memory (Kurzzeitgedächtnis)
+export interface ShortMemoryEntry {
+  id: number;
+  session_id: string | null;
+  topic: string;
+  content: string;
+  date: string;
+  created_at: string;
+  expires_at: string | null;
+  source_memory_id: number | null;
+}
+
+export interface ShortMemorySettings {
+  maxShortMemories: number;  // FIFO size per session (entries without session share one FIFO)
+  ttlHours: number;          // lifetime of an entry, 0 keeps entries until they are pushed out
+}
+
+// Minimal SQL access the store needs; '?' placeholders, rows returned for SELECT and RETURNING
+export interface ShortMemorySqlExecutor {
+  dialect: 'sqlite' | 'postgresql';
+  query(sql: string, params?: any[]): Promise<any[]>;
+  columnNames(table: string): Promise<string[]>;
+}
+
+const ENTRY_COLUMNS = 'id, session_id, topic, content, date, created_at, expires_at, source_memory_id';
+
+// Columns added to short_memories tables created by older versions
+const MIGRATED_COLUMNS: Array<[string, string]> = [
+  ['session_id', 'TEXT'],
+  ['expires_at', 'TEXT'],
+  ['source_memory_id', 'INTEGER']
+];
+
+// Short Memory Manager (Kurzzeitgedächtnis)
+// One store for SQLite and PostgreSQL: same table, FIFO eviction per session and
+// optional TTL. Evicted entries are returned to the caller instead of being dropped.
 export class ShortMemoryManager {
-  private db: Database;
-  private maxShortMemories: number;
+  private executor: ShortMemorySqlExecutor;
+  private settings: ShortMemorySettings;
+  private schemaReady: Promise<void> | null = null;
   
-  constructor(database: Database, maxShortMemories: number = 10) {
-    Logger.info('ShortMemoryManager initialization', { maxShortMemories });
-    this.db = database;
-    this.maxShortMemories = maxShortMemories;
-    Logger.success('ShortMemoryManager initialized successfully');
+  constructor(executor: ShortMemorySqlExecutor, settings: Partial<ShortMemorySettings> = {}) {
+    this.executor = executor;
+    this.settings = { ...ShortMemoryManager.settingsFromEnv(), ...settings };
+    Logger.info('ShortMemoryManager initialized', { dialect: executor.dialect, ...this.settings });
   }
   
-  /**
-   * Fügt eine neue Memory zum Short Memory hinzu
-   * Automatisches FIFO cleanup wenn Limit überschritten
-   */
-  async addToShortMemory(memory: any): Promise<void> {
-    Logger.info('Adding memory to short memory', { 
-      topic: memory.topic, 
-      maxLimit: this.maxShortMemories 
-    });
-    
-    try {
-      // 1. Memory in short_memory category speichern
-      await this.insertShortMemory(memory);
-      Logger.debug('Memory inserted into short memory storage');
-      
-      // 2. Count prüfen und ggf. älteste entfernen
-      const count = await this.getShortMemoryCount();
-      
-      if (count > this.maxShortMemories) {
-        Logger.info('Short memory limit exceeded, removing oldest', { 
-          currentCount: count, 
-          maxLimit: this.maxShortMemories 
-        });
-        await this.removeOldestShortMemory();
-        Logger.success('Oldest short memory removed (FIFO cleanup)');
-      } else {
-        Logger.debug('Short memory within limits', { 
-          currentCount: count, 
-          maxLimit: this.maxShortMemories 
-        });
+  static settingsFromEnv(): ShortMemorySettings {
+    const limit = parseInt(process.env.SHORT_MEMORY_LIMIT || '', 10);
+    const ttlHours = parseFloat(process.env.SHORT_MEMORY_TTL_HOURS || '');
+    
+    return {
+      maxShortMemories: limit > 0 ? limit : 10,
+      ttlHours: ttlHours > 0 ? ttlHours : 0
+    };
+  }
+  
+  static forSQLite(db: Database.Database, settings: Partial<ShortMemorySettings> = {}): ShortMemoryManager {
+    return new ShortMemoryManager({
+      dialect: 'sqlite',
+      query: async (sql, params = []) => {
+        const stmt = db.prepare(sql);
+        if (stmt.reader) return stmt.all(...params);
+        stmt.run(...params);
+        return [];
+      },
+      columnNames: async (table) => (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(column => column.name)
+    }, settings);
+  }
+  
+  static forPostgreSQL(connect: () => Promise<PoolClient>, settings: Partial<ShortMemorySettings> = {}): ShortMemoryManager {
+    const query = async (sql: string, params: any[] = []) => {
+      let index = 0;
+      const client = await connect();
+      try {
+        return (await client.query(sql.replace(/\?/g, () => `$${++index}`), params)).rows;
+      } finally {
+        client.release();
       }
-      
-      Logger.success('Memory added to short memory successfully', { topic: memory.topic });
-      
-    } catch (error) {
-      Logger.error('Failed to add memory to short memory', { topic: memory.topic, error });
-      throw new Error(`Failed to add to short memory: ${error}`);
-    }
+    };
+    
+    return new ShortMemoryManager({
+      dialect: 'postgresql',
+      query,
+      columnNames: async (table) => (await query(
+        `SELECT column_name FROM information_schema.columns WHERE table_name = ?`, [table]
+      )).map(row => row.column_name)
+    }, settings);
   }
   
-  /**
-   * Speichert Memory in SQLite mit category 'short_memory'
-   */
-  private async insertShortMemory(memory: any): Promise<void> {
-    Logger.debug('Inserting short memory into SQLite', { 
-      topic: memory.topic, 
-      hasDate: !!memory.date 
-    });
-    
-    return new Promise((resolve, reject) => {
-      const stmt = this.db.prepare(`
-        INSERT INTO memories (date, category, topic, content)
-        VALUES (?, ?, ?, ?)
-      `);
-      
-      const date = memory.date || new Date().toISOString().split('T')[0];
-      
-      stmt.run(
-        date,
-        'short_memory',
-        memory.topic,
-        memory.content,
-        (err: Error | null) => {
-          if (err) {
-            Logger.error('Failed to insert short memory into SQLite', { 
-              topic: memory.topic, 
-              error: err 
-            });
-            reject(err);
-          } else {
-            Logger.debug('Short memory inserted into SQLite successfully', { 
-              topic: memory.topic,
-              date 
-            });
-            resolve();
-          }
-        }
-      );
-      
-      stmt.finalize();
-    });
+  // Creates or migrates the table up front; otherwise this happens on first use
+  async initialize(): Promise<void> {
+    await this.ensureSchema();
   }
   
-  /**
-   * Zählt aktuelle Short Memories
-   */
-  async getShortMemoryCount(): Promise<number> {
-    Logger.debug('Counting short memories');
-    
-    return new Promise((resolve, reject) => {
-      this.db.get(
-        "SELECT COUNT(*) as count FROM memories WHERE category = 'short_memory'",
-        (err: Error | null, row: any) => {
-          if (err) {
-            Logger.error('Failed to count short memories', { error: err });
-            reject(err);
-          } else {
-            const count = row.count;
-            Logger.debug('Short memory count retrieved', { count });
-            resolve(count);
-          }
-        }
-      );
-    });
+  getConfig(): ShortMemorySettings {
+    return { ...this.settings };
   }
   
   /**
-   * Entfernt die älteste Short Memory (FIFO)
+   * Stores an entry and removes expired entries and the oldest ones beyond the
+   * FIFO limit of its session. Returns the removed entries.
    */
-  private async removeOldestShortMemory(): Promise<void> {
-    Logger.debug('Removing oldest short memory (FIFO)');
-    
-    return new Promise((resolve, reject) => {
-      this.db.run(`
-        DELETE FROM memories 
-        WHERE category = 'short_memory' 
-        AND id = (
-          SELECT id FROM memories 
-          WHERE category = 'short_memory' 
-          ORDER BY created_at ASC 
-          LIMIT 1
-        )
-      `, (err: Error | null) => {
-        if (err) {
-          Logger.error('Failed to remove oldest short memory', { error: err });
-          reject(err);
-        } else {
-          Logger.debug('Oldest short memory removed successfully');
-          resolve();
-        }
-      });
-    });
+  async add(memory: { topic: string; content: string; date?: string; session_id?: string | null; source_memory_id?: number | null }): Promise<ShortMemoryEntry[]> {
+    await this.ensureSchema();
+    
+    const now = new Date();
+    const sessionId = memory.session_id ?? null;
+    const expiresAt = this.settings.ttlHours > 0
+      ? new Date(now.getTime() + this.settings.ttlHours * 3600000).toISOString()
+      : null;
+    
+    await this.executor.query(
+      `INSERT INTO short_memories (session_id, topic, content, date, created_at, expires_at, source_memory_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [sessionId, memory.topic, memory.content, memory.date || now.toISOString().split('T')[0], now.toISOString(), expiresAt, memory.source_memory_id ?? null]
+    );
+    
+    const expired = await this.removeExpired(now);
+    
+    const scoped = await this.executor.query(
+      `SELECT id FROM short_memories WHERE ${this.sessionScope(sessionId)} ORDER BY created_at DESC, id DESC`,
+      sessionId ? [sessionId] : []
+    );
+    const overflow = await this.removeByIds(scoped.slice(this.settings.maxShortMemories).map(row => Number(row.id)));
+    
+    if (expired.length + overflow.length > 0) {
+      Logger.info('Short memories evicted', { sessionId, expired: expired.length, overflow: overflow.length });
+    }
+    
+    return [...expired, ...overflow];
   }
   
   /**
-   * Holt Short Memories (neueste zuerst)
+   * Entries of one session (or without session), newest first; expired entries are skipped
    */
-  async getShortMemories(limit?: number): Promise<any[]> {
-    const actualLimit = limit || this.maxShortMemories;
-    Logger.debug('Retrieving short memories', { 
-      requestedLimit: limit, 
-      actualLimit,
-      maxConfigured: this.maxShortMemories 
-    });
-    
-    return new Promise((resolve, reject) => {
-      this.db.all(`
-        SELECT id, date, category, topic, content, created_at
-        FROM memories 
-        WHERE category = 'short_memory'
-        ORDER BY created_at DESC
-        LIMIT ?
-      `, [actualLimit], (err: Error | null, rows: any[]) => {
-        if (err) {
-          Logger.error('Failed to retrieve short memories', { 
-            actualLimit, 
-            error: err 
-          });
-          reject(err);
-        } else {
-          const memories = rows || [];
-          Logger.success('Short memories retrieved', { 
-            foundCount: memories.length, 
-            requestedLimit: actualLimit 
-          });
-          resolve(memories);
-        }
-      });
-    });
+  async list(limit?: number, sessionId: string | null = null): Promise<ShortMemoryEntry[]> {
+    await this.ensureSchema();
+    
+    const params: any[] = sessionId ? [sessionId] : [];
+    const rows = await this.executor.query(
+      `SELECT ${ENTRY_COLUMNS} FROM short_memories
+       WHERE ${this.sessionScope(sessionId)} AND (expires_at IS NULL OR expires_at > ?)
+       ORDER BY created_at DESC, id DESC LIMIT ?`,
+      [...params, new Date().toISOString(), limit || this.settings.maxShortMemories]
+    );
+    return rows.map(row => this.toEntry(row));
+  }
+  
+  async count(sessionId: string | null = null): Promise<number> {
+    await this.ensureSchema();
+    
+    const [row] = await this.executor.query(
+      `SELECT COUNT(*) AS count FROM short_memories
+       WHERE ${this.sessionScope(sessionId)} AND (expires_at IS NULL OR expires_at > ?)`,
+      [...(sessionId ? [sessionId] : []), new Date().toISOString()]
+    );
+    return Number(row?.count || 0);
+  }
+  
+  async get(id: number): Promise<ShortMemoryEntry | null> {
+    await this.ensureSchema();
+    
+    const [row] = await this.executor.query(`SELECT ${ENTRY_COLUMNS} FROM short_memories WHERE id = ?`, [id]);
+    return row ? this.toEntry(row) : null;
+  }
+  
+  async delete(id: number): Promise<boolean> {
+    return (await this.removeByIds([id])).length > 0;
   }
   
   /**
-   * Leert alle Short Memories (für Testing/Reset)
+   * Removes all entries, or only those of one session
    */
-  async clearShortMemory(): Promise<void> {
-    Logger.warn('Clearing all short memories (destructive operation)');
-    
-    return new Promise((resolve, reject) => {
-      this.db.run(
-        "DELETE FROM memories WHERE category = 'short_memory'",
-        (err: Error | null) => {
-          if (err) {
-            Logger.error('Failed to clear short memories', { error: err });
-            reject(err);
-          } else {
-            Logger.success('All short memories cleared successfully');
-            resolve();
-          }
-        }
-      );
-    });
+  async clear(sessionId?: string): Promise<number> {
+    await this.ensureSchema();
+    
+    const rows = await this.executor.query(
+      `DELETE FROM short_memories ${sessionId ? 'WHERE session_id = ?' : ''} RETURNING id`,
+      sessionId ? [sessionId] : []
+    );
+    Logger.info('Short memories cleared', { sessionId, removed: rows.length });
+    return rows.length;
   }
   
   /**
-   * Konfiguriert Max-Anzahl Short Memories
+   * Removes entries whose TTL has passed and returns them
    */
-  setMaxShortMemories(max: number): void {
-    Logger.info('Updating short memory configuration', { 
-      oldLimit: this.maxShortMemories, 
-      newLimit: max 
-    });
-    
-    if (max < 1) {
-      Logger.error('Invalid short memory limit attempted', { newLimit: max });
-      throw new Error('Max short memories must be at least 1');
+  async removeExpired(now: Date = new Date()): Promise<ShortMemoryEntry[]> {
+    await this.ensureSchema();
+    
+    const rows = await this.executor.query(
+      `DELETE FROM short_memories WHERE expires_at IS NOT NULL AND expires_at <= ? RETURNING ${ENTRY_COLUMNS}`,
+      [now.toISOString()]
+    );
+    return rows.map(row => this.toEntry(row));
+  }
+  
+  private async removeByIds(ids: number[]): Promise<ShortMemoryEntry[]> {
+    if (ids.length === 0) return [];
+    await this.ensureSchema();
+    
+    const rows = await this.executor.query(
+      `DELETE FROM short_memories WHERE id IN (${ids.map(() => '?').join(', ')}) RETURNING ${ENTRY_COLUMNS}`,
+      ids
+    );
+    return rows.map(row => this.toEntry(row)).sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id);
+  }
+  
+  private sessionScope(sessionId: string | null): string {
+    return sessionId ? 'session_id = ?' : 'session_id IS NULL';
+  }
+  
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.createSchema().catch((error) => {
+        this.schemaReady = null;
+        throw error;
+      });
     }
+    return this.schemaReady;
+  }
+  
+  // Timestamps are ISO strings in both databases; PostgreSQL tables from older versions keep their DATE/TIMESTAMP columns
+  private async createSchema(): Promise<void> {
+    const idColumn = this.executor.dialect === 'postgresql' ? 'SERIAL PRIMARY KEY' : 'INTEGER PRIMARY KEY AUTOINCREMENT';
+    
+    await this.executor.query(`
+      CREATE TABLE IF NOT EXISTS short_memories (
+        id ${idColumn},
+        session_id TEXT,
+        topic TEXT NOT NULL,
+        content TEXT NOT NULL,
+        date TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT,
+        source_memory_id INTEGER
+      )
+    `);
     
-    this.maxShortMemories = max;
-    Logger.success('Short memory limit updated', { newLimit: max });
+    const columns = await this.executor.columnNames('short_memories');
+    for (const [column, type] of MIGRATED_COLUMNS) {
+      if (!columns.includes(column)) {
+        await this.executor.query(`ALTER TABLE short_memories ADD COLUMN ${column} ${type}`);
+        Logger.info('Migrated short_memories', { addedColumn: column });
+      }
+    }
+    
+    await this.executor.query(`CREATE INDEX IF NOT EXISTS idx_short_memories_created_at ON short_memories(created_at)`);
+    await this.executor.query(`CREATE INDEX IF NOT EXISTS idx_short_memories_session_id ON short_memories(session_id)`);
   }
   
-  /**
-   * Gibt aktuelle Konfiguration zurück
-   */
-  getConfig(): { maxShortMemories: number } {
-    Logger.debug('Short memory configuration requested', { 
-      maxShortMemories: this.maxShortMemories 
-    });
+  private toEntry(row: any): ShortMemoryEntry {
+    const iso = (value: any) => value instanceof Date ? value.toISOString() : value;
     
     return {
-      maxShortMemories: this.maxShortMemories
+      id: Number(row.id),
+      session_id: row.session_id ?? null,
+      topic: row.topic,
+      content: row.content,
+      date: row.date instanceof Date ? row.date.toISOString().split('T')[0] : row.date,
+      created_at: iso(row.created_at),
+      expires_at: iso(row.expires_at) ?? null,
+      source_memory_id: row.source_memory_id ?? null
     };
   }
 }
@@ -13,8 +13,14 @@ import {
 import { DatabaseFactory, IMemoryDatabase } from './database/DatabaseFactory.js';
 import { SemanticAnalyzer } from './llm/SemanticAnalyzer.js';
 import { JobProcessor } from './utils/JobProcessor.js';
+import { PendingWriteProcessor } from './utils/PendingWriteProcessor.js';
+import { ConsistencyChecker } from './utils/ConsistencyChecker.js';
+import { MemoryConsolidator } from './utils/MemoryConsolidator.js';
 import { ChromaDBClient } from './database/ChromaDBClient.js';
 import { Neo4jClient } from './database/Neo4jClient.js';
+import { RelationInferencePhase } from './database/MemorySavePipeline.js';
+import { SearchFilterTranslator, SEARCH_STORES } from './database/SearchFilters.js';
+import { SearchCursorStore, SearchPage } from './database/SearchCursor.js';
 import { EmbeddingFactory } from './embedding/index.js';
 import { Logger } from './utils/Logger.js';
 import { ContainerManager } from './utils/ContainerManager.js';
@@ -66,6 +72,9 @@ async function gracefulShutdown() {
       await neo4jClient.disconnect?.();
     }
     
+    pendingWriteProcessor?.stop();
+    memoryConsolidator?.stop();
+    
     if (memoryDb) {
       Logger.info('Closing SQLite database...');
       await memoryDb.close?.();
@@ -125,9 +134,13 @@ if (process.env.DEBUG_BABY_SKYNET) {
 // Global instances
 let memoryDb: any = null;  // Using any for compatibility with existing code
 let jobProcessor: JobProcessor | null = null;
+let pendingWriteProcessor: PendingWriteProcessor | null = null;
+let memoryConsolidator: MemoryConsolidator | null = null;
 let chromaClient: ChromaDBClient | null = null;
 let neo4jClient: Neo4jClient | null = null;
 let analyzer: SemanticAnalyzer | null = null;
+let activeSessionId: string | null = null;  // set by begin_session, cleared by end_session
+const searchCursors = new SearchCursorStore();  // ranked results behind the cursors of the search tools
 
 // LLM Model und Provider konfigurieren
 Logger.separator('LLM Configuration');
@@ -213,6 +226,9 @@ async function initializeNeo4j() {
     await neo4jClient.createIndex();
     Logger.success('Neo4j indexes created successfully');
     
+    // Older graphs stored concepts as a comma-joined property on the memory node
+    await neo4jClient.migrateConceptProperties();
+    
     Logger.success(`Neo4j fully operational: ${neo4jConfig.uri}`);
   } catch (error) {
     Logger.error(`Neo4j initialization failed: ${error}`);
@@ -223,6 +239,22 @@ async function initializeNeo4j() {
   }
 }
 
+// Filter-Schema der Such-Tools (SQL, ChromaDB und Neo4j werten dieselben Filter aus)
+const SEARCH_FILTERS_SCHEMA = {
+  type: 'object',
+  description: 'Optional: Strukturierte Filter. Quellen, die einen Filter nicht auswerten können (mood nur ChromaDB, minConfidence nicht SQL), werden übersprungen',
+  properties: {
+    categories: { type: 'array', items: { type: 'string' }, description: 'Kategorien' },
+    memoryTypes: { type: 'array', items: { type: 'string' }, description: 'Memory-Typen der Analyse (faktenwissen, erlebnisse, ...)' },
+    moods: { type: 'array', items: { type: 'string' }, description: 'Stimmung der Konzepte (nur ChromaDB)' },
+    keywords: { type: 'array', items: { type: 'string' }, description: 'Mindestens eines der Schlüsselwörter in Topic, Inhalt oder Konzept-Keywords' },
+    dateFrom: { type: 'string', description: 'Datum ab (YYYY-MM-DD, inklusive)' },
+    dateTo: { type: 'string', description: 'Datum bis (YYYY-MM-DD, inklusive)' },
+    minConfidence: { type: 'number', description: 'Minimale Konzept-Konfidenz (0-1)' },
+    sources: { type: 'array', items: { type: 'string', enum: SEARCH_STORES }, description: 'Nur diese Quellen durchsuchen' },
+  },
+};
+
 // Server erstellen
 Logger.separator('MCP Server Setup');
 const server = new Server({
@@ -262,7 +294,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           type: 'object',
           properties: {
             category: { type: 'string', description: 'Name der Kategorie' },
-            limit: { type: 'number', description: 'Maximale Anzahl Erinnerungen', default: 50 },
+            limit: { type: 'number', description: 'Maximale Anzahl Erinnerungen pro Seite', default: 50 },
+            cursor: { type: 'string', description: 'Optional: next_cursor der vorherigen Seite, um weiterzublättern' },
           },
           required: ['category'],
         },
@@ -279,6 +312,62 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ['category', 'topic', 'content'],
         },
       },
+      {
+        name: 'add_short_memory',
+        description: 'Notiz im Kurzzeitgedächtnis ablegen (FIFO); verdrängte Einträge durchlaufen die Speicher-Pipeline statt verloren zu gehen',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            topic: { type: 'string', description: 'Kurzer, prägnanter Titel' },
+            content: { type: 'string', description: 'Inhalt der Notiz' },
+            sessionId: { type: 'string', description: 'Optional: Session, deren Arbeitsgedächtnis die Notiz gehört' },
+          },
+          required: ['topic', 'content'],
+        },
+      },
+      {
+        name: 'list_short_memories',
+        description: 'Einträge des Kurzzeitgedächtnisses anzeigen (neueste zuerst)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            limit: { type: 'number', description: 'Maximale Anzahl Einträge', default: 10 },
+            sessionId: { type: 'string', description: 'Optional: nur Einträge dieser Session (sonst Einträge ohne Session)' },
+          },
+        },
+      },
+      {
+        name: 'promote_short_memory',
+        description: 'Kurzzeit-Memory ins Langzeitgedächtnis übernehmen (Klassifikation + Bedeutsamkeits-Check der Speicher-Pipeline)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            id: { type: 'number', description: 'ID der Kurzzeit-Memory' },
+            category: { type: 'string', description: 'Optional: Kategorie (sonst durch LLM bestimmt)' },
+          },
+          required: ['id'],
+        },
+      },
+      {
+        name: 'begin_session',
+        description: 'Gesprächs-Session starten: gespeicherte und abgerufene Memories werden bis end_session der Session zugeordnet',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', description: 'Optional: Titel bzw. Thema der Session' },
+          },
+        },
+      },
+      {
+        name: 'end_session',
+        description: 'Gesprächs-Session beenden: LLM fasst die berührten Memories als Erlebnis zusammen und verknüpft es im Graph mit ihnen',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: { type: 'string', description: 'Optional: Session-ID (Standard: aktive Session)' },
+          },
+        },
+      },
       // {
       //   name: 'save_new_memory_advanced',
       //   description: 'Erweiterte Memory-Speicherung mit semantischer Analyse und Bedeutsamkeits-Check',
@@ -309,7 +398,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         description: 'Letzte N Erinnerungen abrufen',
         inputSchema: {
           type: 'object',
-          properties: { limit: { type: 'number', description: 'Anzahl Erinnerungen', default: 10 } },
+          properties: {
+            limit: { type: 'number', description: 'Anzahl Erinnerungen pro Seite', default: 10 },
+            cursor: { type: 'string', description: 'Optional: next_cursor der vorherigen Seite, um ältere Erinnerungen zu laden' },
+          },
         },
       },
       {
@@ -343,6 +435,44 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ['id', 'new_category'],
         },
       },
+      {
+        name: 'delete_memory',
+        description: 'Erinnerung endgültig löschen (SQL, ChromaDB-Konzepte und Neo4j-Knoten)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            id: { type: 'number', description: 'ID der Erinnerung' },
+          },
+          required: ['id'],
+        },
+      },
+      {
+        name: 'merge_memories',
+        description: 'Doppelte Memories zusammenführen: Inhalt kombinieren, Konzepte neu extrahieren, Graph-Beziehungen übertragen und Duplikate löschen',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            targetId: { type: 'number', description: 'ID der Memory, die erhalten bleibt' },
+            duplicateIds: { type: 'array', items: { type: 'number' }, description: 'IDs der Duplikate, die in die Ziel-Memory übernommen und danach gelöscht werden' },
+            mergedContent: { type: 'string', description: 'Optional: zusammengeführter Inhalt (Standard: fehlende Absätze der Duplikate werden angehängt)' },
+          },
+          required: ['targetId', 'duplicateIds'],
+        },
+      },
+      {
+        name: 'resolve_contradiction',
+        description: 'Widerspruch zwischen zwei Fakten auflösen: beide behalten, ersetzen oder zusammenführen',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            memoryId: { type: 'number', description: 'ID der Memory, die gültig bleibt' },
+            conflictingMemoryId: { type: 'number', description: 'ID der widersprechenden Memory' },
+            resolution: { type: 'string', enum: ['keep', 'supersede', 'merge'], description: 'keep: beide behalten, supersede: widersprechende Memory löschen, merge: Inhalt zusammenführen und widersprechende Memory löschen' },
+            mergedContent: { type: 'string', description: 'Zusammengeführter Inhalt (nur für merge)' },
+          },
+          required: ['memoryId', 'conflictingMemoryId', 'resolution'],
+        },
+      },
       {
         name: 'test_llm_connection',
         description: 'Teste Verbindung zum LLM-Provider und prüfe Model-Verfügbarkeit',
@@ -378,6 +508,42 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ['job_id'],
         },
       },
+      {
+        name: 'retry_failed_analysis',
+        description: 'Nur die fehlgeschlagenen Memories (not_found, llm_error, parse_error) eines abgeschlossenen oder fehlgeschlagenen Analyse-Jobs erneut analysieren',
+        inputSchema: {
+          type: 'object',
+          properties: { job_id: { type: 'string', description: 'Job-ID der Analyse' } },
+          required: ['job_id'],
+        },
+      },
+      {
+        name: 'cancel_analysis_job',
+        description: 'Analyse-Job abbrechen (wartend, laufend oder pausiert)',
+        inputSchema: {
+          type: 'object',
+          properties: { job_id: { type: 'string', description: 'Job-ID der Analyse' } },
+          required: ['job_id'],
+        },
+      },
+      {
+        name: 'pause_analysis_job',
+        description: 'Analyse-Job pausieren - stoppt vor der nächsten Memory, Fortschritt bleibt erhalten',
+        inputSchema: {
+          type: 'object',
+          properties: { job_id: { type: 'string', description: 'Job-ID der Analyse' } },
+          required: ['job_id'],
+        },
+      },
+      {
+        name: 'retry_analysis_job',
+        description: 'Pausierten, abgebrochenen oder fehlgeschlagenen Analyse-Job ab gespeichertem Fortschritt fortsetzen',
+        inputSchema: {
+          type: 'object',
+          properties: { job_id: { type: 'string', description: 'Job-ID der Analyse' } },
+          required: ['job_id'],
+        },
+      },
       // {
       //   name: 'extract_and_analyze_concepts',
       //   description: 'Vollständige Pipeline: Memory in semantische Konzepte aufbrechen und analysieren',
@@ -447,12 +613,24 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: 'object',
           properties: {
-            query: { type: 'string', description: 'Suchbegriff' },
+            query: { type: 'string', description: 'Suchbegriff; Zeitangaben wie "letzten Dienstag", "im März" oder "last week" werden als Datumsfilter gelesen, sofern filters kein dateFrom/dateTo setzt' },
             categories: { type: 'array', items: { type: 'string' }, description: 'Optional: Kategorien zum Filtern' },
             enableReranking: { type: 'boolean', description: 'Optional: Aktiviert Reranking für bessere Relevanz (default: false)' },
-            rerankStrategy: { type: 'string', enum: ['hybrid', 'llm', 'text'], description: 'Optional: Reranking-Strategie (default: hybrid)' },
+            rerankStrategy: { type: 'string', enum: ['hybrid', 'llm', 'text'], description: 'Optional: Reranking-Strategie (default: hybrid). "llm" bewertet die Top-Kandidaten per LLM mit Relevanz und Begründung' },
+            fusionMethod: { type: 'string', enum: ['rrf', 'score'], description: 'Optional: Zusammenführung von SQL- und Vektor-Treffern (default: SEARCH_FUSION_METHOD bzw. rrf). "rrf" = Reciprocal Rank Fusion, "score" = normalisierte Scores' },
+            fusionWeights: {
+              type: 'object',
+              properties: {
+                sql: { type: 'number', description: 'Gewicht der SQL-Volltextsuche' },
+                chroma: { type: 'number', description: 'Gewicht der ChromaDB-Vektorsuche' },
+              },
+              description: 'Optional: Gewichte pro Quelle (default: 1 bzw. SEARCH_FUSION_WEIGHT_*)'
+            },
+            filters: SEARCH_FILTERS_SCHEMA,
+            explain: { type: 'boolean', description: 'Optional: Erklärt jedes Ergebnis mit Rängen pro Quelle, Vektor-Distanz, Treffer-Begriffen, Aktualität und Reranking-Anteilen (default: false)' },
+            limit: { type: 'number', description: 'Optional: Ergebnisse pro Seite (default: 15)' },
+            cursor: { type: 'string', description: 'Optional: next_cursor einer vorherigen Seite; blättert im gespeicherten Ranking weiter, ohne erneut zu suchen (query und übrige Parameter werden dann ignoriert)' },
           },
-          required: ['query'],
         },
       },
       // {
@@ -480,18 +658,6 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       //   },
       // },
       // {
-      //   name: 'search_memories_with_explanation',
-      //   description: 'Suche mit detaillierter Erklärung der verwendeten Suchstrategien',
-      //   inputSchema: {
-      //     type: 'object',
-      //     properties: {
-      //       query: { type: 'string', description: 'Suchbegriff' },
-      //       categories: { type: 'array', items: { type: 'string' }, description: 'Optional: Kategorien zum Filtern' },
-      //     },
-      //     required: ['query'],
-      //   },
-      // },
-      // {
       //   name: 'search_memories_with_reranking',
       //   description: 'Erweiterte Suche mit intelligenter Neugewichtung der Ergebnisse für bessere Relevanz',
       //   inputSchema: {
@@ -546,18 +712,53 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ['category', 'topic', 'content'],
         },
       },
+      {
+        name: 'list_inconsistent_memories',
+        description: 'Memories mit ausstehenden oder fehlgeschlagenen ChromaDB/Neo4j-Schreibvorgängen auflisten',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            retryNow: { type: 'boolean', description: 'Ausstehende Schreibvorgänge vorher sofort erneut versuchen', default: false },
+          },
+        },
+      },
+      {
+        name: 'verify_memory_consistency',
+        description: 'SQL, ChromaDB und Neo4j auf Konsistenz prüfen und optional reparieren',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            reindexMissing: { type: 'boolean', description: 'SQL-Memories ohne ChromaDB-Konzepte neu analysieren und indexieren', default: false },
+            deleteOrphans: { type: 'boolean', description: 'Verwaiste ChromaDB-Konzepte und Neo4j-Knoten löschen', default: false },
+            maxReindex: { type: 'number', description: 'Maximale Anzahl neu zu indexierender Memories pro Aufruf', default: 10 },
+          },
+        },
+      },
+      {
+        name: 'consolidate_memories',
+        description: 'Memory-Konsolidierung: veraltete Memories nach forgotten_memories, oft abgerufene oder stark vernetzte nach kernerinnerungen (standardmäßig nur Bericht)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            dryRun: { type: 'boolean', description: 'Nur berichten, nichts verschieben', default: true },
+          },
+        },
+      },
       {
         name: 'search_memories_with_graph',
         description: 'Erweiterte Suche mit Graph-Kontext und verwandten Memories',
         inputSchema: {
           type: 'object',
           properties: {
-            query: { type: 'string', description: 'Suchbegriff' },
+            query: { type: 'string', description: 'Suchbegriff; Zeitangaben wie "letzten Dienstag", "im März" oder "last week" werden als Datumsfilter gelesen, sofern filters kein dateFrom/dateTo setzt' },
             includeRelated: { type: 'boolean', description: 'Verwandte Memories über Graph-Beziehungen einbeziehen', default: true },
             maxRelationshipDepth: { type: 'number', description: 'Maximale Tiefe für Graph-Traversierung', default: 2 },
             categories: { type: 'array', items: { type: 'string' }, description: 'Optional: Kategorien zum Filtern' },
+            filters: SEARCH_FILTERS_SCHEMA,
+            explain: { type: 'boolean', description: 'Optional: Erklärt jedes Ergebnis mit Rängen pro Quelle, Graph-Boni und Reranking-Anteilen (default: false)' },
+            limit: { type: 'number', description: 'Optional: Ergebnisse pro Seite (default: 10)' },
+            cursor: { type: 'string', description: 'Optional: next_cursor einer vorherigen Seite; blättert im gespeicherten Ranking weiter, ohne erneut zu suchen (query und übrige Parameter werden dann ignoriert)' },
           },
-          required: ['query'],
         },
       },
       {
@@ -790,9 +991,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const jobId = await memoryDb.createAnalysisJob(memoryIds, 'batch');
         
         if (background) {
-          jobProcessor.processJob(jobId).catch((error) => {
-            console.error(`Background job ${jobId} failed:`, error);
-          });
+          jobProcessor.enqueueJob(jobId);
           
           return {
             content: [{ type: 'text', text: `🚀 Batch Analysis Started\n\n🆔 Job ID: ${jobId}\n📊 Memories: ${memoryIds.length} queued\n⚡ Mode: Background processing\n📱 Status: Use get_analysis_status("${jobId}") to check progress` }]
@@ -825,10 +1024,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           `${job.progress_current}/${job.progress_total} (${Math.round(job.progress_current / job.progress_total * 100)}%)` :
           'Unknown';
         
-        const statusIcon = ({ 'pending': '⏳', 'running': '🔄', 'completed': '✅', 'failed': '❌' } as any)[job.status] || '❓';
+        const statusIcon = ({ 'pending': '⏳', 'running': '🔄', 'paused': '⏸️', 'cancelled': '🚫', 'completed': '✅', 'failed': '❌' } as any)[job.status] || '❓';
         
         let statusText = `📊 Analysis Job Status\n\n🆔 Job ID: ${jobId}\n${statusIcon} Status: ${job.status}\n📈 Progress: ${progress}\n📅 Created: ${job.created_at}`;
         
+        if (jobProcessor && job.status === 'pending') {
+          const queuePosition = jobProcessor.getQueueStatus().queuedJobs.indexOf(jobId);
+          if (queuePosition !== -1) statusText += `\n📋 Queue Position: ${queuePosition + 1}`;
+        }
+        
         if (job.started_at) statusText += `\n🚀 Started: ${job.started_at}`;
         if (job.completed_at) statusText += `\n🏁 Completed: ${job.completed_at}`;
         if (job.error_message) statusText += `\n❌ Error: ${job.error_message}`;
@@ -856,11 +1060,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           return { content: [{ type: 'text', text: `⏳ Job ${jobId} not yet completed (Status: ${job.status})\n\nUse get_analysis_status to check progress.` }] };
         }
         
-        const results = await memoryDb.getAnalysisResults(jobId);
-        if (results.length === 0) {
+        const allResults = await memoryDb.getAnalysisResults(jobId);
+        if (allResults.length === 0) {
           return { content: [{ type: 'text', text: `❌ No results found for job ${jobId}` }] };
         }
         
+        const results = allResults.filter((result: any) => !result.status || result.status === 'ok');
+        const failedResults = allResults.filter((result: any) => result.status && result.status !== 'ok');
+        
         const resultText = results.map((result: any) => {
           const conceptsList = result.extracted_concepts.join(', ');
           const metadataEntries = Object.entries(result.metadata)
@@ -875,16 +1082,62 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                  (metadataEntries ? `   📋 Metadata:\n${metadataEntries}\n` : '');
         }).join('\n---\n\n');
         
+        const statusIcons: Record<string, string> = { 'not_found': '🔍', 'llm_error': '🤖', 'parse_error': '🧩' };
+        const failedText = failedResults.length > 0 ?
+          `\n\n⚠️ Failed Items (${failedResults.length}):\n` +
+          failedResults.map((result: any) =>
+            `   ${statusIcons[result.status] || '❌'} Memory ${result.memory_id}: ${result.status}${result.error_message ? ` - ${result.error_message}` : ''}`
+          ).join('\n') +
+          `\n\n🔁 Use retry_failed_analysis("${jobId}") to reprocess only these items` : '';
+        
         return {
           content: [{
             type: 'text',
-            text: `🧠 Analysis Results (Job ${jobId})\n\n📊 Analyzed: ${results.length} memories\n🏁 Completed: ${job.completed_at}\n\n${resultText}`
+            text: `🧠 Analysis Results (Job ${jobId})\n\n📊 Analyzed: ${results.length} memories\n❌ Failed: ${failedResults.length}\n🏁 Completed: ${job.completed_at}\n\n${resultText}${failedText}`
           }]
         };
       } catch (error) {
         return { content: [{ type: 'text', text: `❌ Result retrieval failed: ${error}` }] };
       }
 
+    case 'retry_failed_analysis':
+      if (!memoryDb || !jobProcessor) {
+        return { content: [{ type: 'text', text: '❌ Database or job processor not available.' }] };
+      }
+      
+      try {
+        const jobId = args?.job_id as string;
+        if (!jobId) throw new Error('job_id parameter is required');
+        
+        const retryResult = await jobProcessor.retryFailedItems(jobId);
+        const icon = retryResult.success ? '🔁' : '⚠️';
+        
+        return { content: [{ type: 'text', text: `${icon} ${retryResult.message}\n\n📱 Status: Use get_analysis_status("${jobId}") to check progress` }] };
+      } catch (error) {
+        return { content: [{ type: 'text', text: `❌ Retry of failed items failed: ${error}` }] };
+      }
+
+    case 'cancel_analysis_job':
+    case 'pause_analysis_job':
+    case 'retry_analysis_job':
+      if (!memoryDb || !jobProcessor) {
+        return { content: [{ type: 'text', text: '❌ Database or job processor not available.' }] };
+      }
+      
+      try {
+        const jobId = args?.job_id as string;
+        if (!jobId) throw new Error('job_id parameter is required');
+        
+        const controlResult = name === 'cancel_analysis_job' ? await jobProcessor.cancelJob(jobId) :
+                              name === 'pause_analysis_job' ? await jobProcessor.pauseJob(jobId) :
+                              await jobProcessor.retryJob(jobId);
+        
+        const icon = controlResult.success ? '✅' : '⚠️';
+        return { content: [{ type: 'text', text: `${icon} ${controlResult.message}\n\n📱 Status: Use get_analysis_status("${jobId}") to check progress` }] };
+      } catch (error) {
+        return { content: [{ type: 'text', text: `❌ Job control failed: ${error}` }] };
+      }
+
     // case 'extract_and_analyze_concepts':
     //   if (!memoryDb || !jobProcessor) {
     //     return { content: [{ type: 'text', text: '❌ Database or job processor not available.' }] };
@@ -975,14 +1228,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const category = args?.category as string;
         const limit = (args?.limit as number) || 50;
         if (!category) throw new Error('Category parameter is required');
+        const after = args?.cursor ? SearchCursorStore.listingPosition(args.cursor as string, 'category', category) : undefined;
         
-        const memories = await memoryDb.getMemoriesByCategory(category, limit);
+        // One row more than the page tells whether another page follows
+        const rows = await memoryDb.getMemoriesByCategory(category, limit + 1, after);
+        const memories = rows.slice(0, limit);
         if (memories.length === 0) {
-          return { content: [{ type: 'text', text: `📝 Keine Erinnerungen in Kategorie "${category}" gefunden.` }] };
+          return { content: [{ type: 'text', text: `📝 Keine ${after ? 'weiteren ' : ''}Erinnerungen in Kategorie "${category}" gefunden.` }] };
         }
         
+        recordRecall(memories, 'recall_category', category);
         const memoryText = memories.map((memory: any) => `📅 ${memory.date} | 🏷️ ${memory.topic}\n${memory.content}\n`).join('\n---\n\n');
-        return { content: [{ type: 'text', text: `🧠 Erinnerungen aus Kategorie "${category}" (${memories.length} gefunden):\n\n${memoryText}` }] };
+        const nextCursor = SearchCursorStore.listingCursor('category', rows, limit, category);
+        return { content: [{ type: 'text', text: `🧠 Erinnerungen aus Kategorie "${category}" (${memories.length} gefunden):\n\n${memoryText}${describeNextCursor(nextCursor)}` }] };
       } catch (error) {
         return { content: [{ type: 'text', text: `❌ Fehler beim Abrufen: ${error}` }] };
       }
@@ -1003,6 +1261,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         if (!category || !topic || !content) throw new Error('Category, topic and content required');
         
         const result = await memoryDb.saveNewMemory(category, topic, content);
+        recordSessionMemories([result.id], 'saved');
         return {
           content: [{ type: 'text', text: `✅ Neue Erinnerung gespeichert!\n\n📂 Kategorie: ${category}\n🏷️ Topic: ${topic}\n🆔 ID: ${result.id}\n📅 Datum: ${new Date().toISOString().split('T')[0]}\n\n💾 Erfolgreich in Baby-SkyNet Memory System abgelegt.` }]
         };
@@ -1010,6 +1269,112 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         return { content: [{ type: 'text', text: `❌ Fehler beim Speichern: ${error}` }] };
       }
 
+    case 'add_short_memory':
+      if (!memoryDb) return { content: [{ type: 'text', text: '❌ Database not connected.' }] };
+      
+      try {
+        const topic = args?.topic as string;
+        const content = args?.content as string;
+        const sessionId = (args?.sessionId as string | undefined) || activeSessionId || undefined;
+        if (!topic || !content) throw new Error('Topic and content required');
+        if (!memoryDb.addToShortMemory) throw new Error('Database does not support short memory');
+        
+        await memoryDb.addToShortMemory({ topic, content, date: new Date().toISOString().split('T')[0], session_id: sessionId });
+        const sessionText = sessionId ? `\n🧵 Session: ${sessionId}` : '';
+        return {
+          content: [{ type: 'text', text: `✅ Im Kurzzeitgedächtnis abgelegt!\n\n🏷️ Topic: ${topic}${sessionText}\n\n💡 Mit promote_short_memory ins Langzeitgedächtnis übernehmen; verdrängte Einträge werden automatisch durch die Speicher-Pipeline geschickt.` }]
+        };
+      } catch (error) {
+        return { content: [{ type: 'text', text: `❌ Fehler beim Speichern im Kurzzeitgedächtnis: ${error}` }] };
+      }
+
+    case 'list_short_memories':
+      if (!memoryDb) return { content: [{ type: 'text', text: '❌ Database not connected.' }] };
+      
+      try {
+        const limit = (args?.limit as number) || 10;
+        const sessionId = args?.sessionId as string | undefined;
+        if (!memoryDb.getShortMemories) throw new Error('Database does not support short memory');
+        
+        const entries = await memoryDb.getShortMemories(limit, sessionId);
+        const scopeText = sessionId ? ` der Session ${sessionId}` : '';
+        if (entries.length === 0) {
+          return { content: [{ type: 'text', text: `📝 Das Kurzzeitgedächtnis${scopeText} ist leer.` }] };
+        }
+        
+        const entryText = entries.map((entry: any) => {
+          const origin = entry.source_memory_id ? ` | 🔗 Kopie von Memory ${entry.source_memory_id}` : '';
+          const expiry = entry.expires_at ? ` | ⌛ bis ${entry.expires_at}` : '';
+          return `[ID: ${entry.id}] 📅 ${entry.date} | 🏷️ ${entry.topic}${origin}${expiry}\n${entry.content}`;
+        }).join('\n\n---\n\n');
+        return { content: [{ type: 'text', text: `⏳ Kurzzeitgedächtnis${scopeText} (${entries.length} Einträge):\n\n${entryText}` }] };
+      } catch (error) {
+        return { content: [{ type: 'text', text: `❌ Fehler beim Abrufen des Kurzzeitgedächtnisses: ${error}` }] };
+      }
+
+    case 'promote_short_memory':
+      if (!memoryDb) return { content: [{ type: 'text', text: '❌ Database not connected.' }] };
+      
+      try {
+        const id = args?.id as number;
+        const category = args?.category as string | undefined;
+        if (!id) throw new Error('Short memory ID required');
+        if (!memoryDb.promoteShortMemory) throw new Error('Database does not support short memory promotion');
+        
+        const result = await memoryDb.promoteShortMemory(id, category);
+        if (!result.success) {
+          return { content: [{ type: 'text', text: `❌ Kurzzeit-Memory ${id} nicht übernommen: ${result.error}` }] };
+        }
+        
+        const memory = result.memory;
+        const sqlStatus = memory.stored_in_sqlite ? '✅ Langzeit (SQL)' : '⏭️ Nur ChromaDB/Neo4j';
+        return {
+          content: [{ type: 'text', text: `✅ Kurzzeit-Memory ${id} ins Langzeitgedächtnis übernommen!\n\n🆔 Memory-ID: ${memory.memory_id}\n📂 Kategorie: ${memory.analyzed_category}\n💾 ${sqlStatus}\n🤔 ${memory.significance_reason || 'Keine Begründung'}` }]
+        };
+      } catch (error) {
+        return { content: [{ type: 'text', text: `❌ Fehler beim Übernehmen der Kurzzeit-Memory: ${error}` }] };
+      }
+
+    case 'begin_session':
+      if (!memoryDb) return { content: [{ type: 'text', text: '❌ Database not connected.' }] };
+      
+      try {
+        const title = args?.title as string | undefined;
+        if (!memoryDb.beginSession) throw new Error('Database does not support sessions');
+        
+        const previousText = activeSessionId ? `\n⚠️ Vorherige Session ${activeSessionId} bleibt offen (end_session mit sessionId beenden)` : '';
+        const session = await memoryDb.beginSession(title);
+        activeSessionId = session.id;
+        return {
+          content: [{ type: 'text', text: `🧵 Session gestartet!\n\n🆔 Session-ID: ${session.id}\n🏷️ Titel: ${session.title || 'ohne Titel'}\n📅 Beginn: ${session.started_at}${previousText}\n\n💡 Gespeicherte und abgerufene Memories werden bis end_session dieser Session zugeordnet.` }]
+        };
+      } catch (error) {
+        return { content: [{ type: 'text', text: `❌ Fehler beim Starten der Session: ${error}` }] };
+      }
+
+    case 'end_session':
+      if (!memoryDb) return { content: [{ type: 'text', text: '❌ Database not connected.' }] };
+      
+      try {
+        const sessionId = (args?.sessionId as string | undefined) || activeSessionId;
+        if (!sessionId) throw new Error('No active session - start one with begin_session');
+        if (!memoryDb.endSession) throw new Error('Database does not support sessions');
+        
+        const result = await memoryDb.endSession(sessionId);
+        if (sessionId === activeSessionId) activeSessionId = null;
+        
+        if (!result.summary_memory_id) {
+          return { content: [{ type: 'text', text: `🧵 Session ${sessionId} beendet.\n\n📝 Keine Memories gespeichert oder abgerufen - keine Zusammenfassung erstellt.` }] };
+        }
+        
+        const errorText = result.errors.length > 0 ? `\n\n⚠️ Fehler: ${result.errors.slice(0, 5).join('; ')}` : '';
+        return {
+          content: [{ type: 'text', text: `🧵 Session ${sessionId} beendet!\n\n📚 Berührte Memories: ${result.memories_touched}\n✨ Erlebnis gespeichert: [ID: ${result.summary_memory_id}] ${result.summary_topic}\n🕸️ SUMMARIZES-Beziehungen: ${result.relationships_created}${errorText}` }]
+        };
+      } catch (error) {
+        return { content: [{ type: 'text', text: `❌ Fehler beim Beenden der Session: ${error}` }] };
+      }
+
     // case 'save_new_memory_advanced':
     //   if (!memoryDb) return { content: [{ type: 'text', text: '❌ Database not connected.' }] };
     //   if (!memoryDb.analyzer) return { content: [{ type: 'text', text: '❌ LLM Service not available.' }] };
@@ -1109,43 +1474,74 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const categories = args?.categories as string[];
         const enableReranking = args?.enableReranking as boolean || false;
         const rerankStrategy = (args?.rerankStrategy as 'hybrid' | 'llm' | 'text') || 'hybrid';
-        if (!query) throw new Error('Query parameter is required');
-        
-        const result = await memoryDb.searchMemoriesIntelligent(query, categories, enableReranking, rerankStrategy);
-        
-        // Check if we got valid results
-        if (!result || !result.results) {
-          return { content: [{ type: 'text', text: `❌ Intelligente Suche fehlgeschlagen: Ungültiges Ergebnis-Format` }] };
+        const fusionMethod = args?.fusionMethod as 'rrf' | 'score' | undefined;
+        const fusionWeights = args?.fusionWeights as { sql?: number; chroma?: number } | undefined;
+        const explain = args?.explain === true;
+        const cursor = args?.cursor as string | undefined;
+        if (!query && !cursor) throw new Error('Query or cursor parameter is required');
+        
+        // A cursor pages through the stored ranking of an earlier search instead of searching again
+        let result: any;
+        let page: SearchPage;
+        if (cursor) {
+          ({ result, page } = searchCursors.page(cursor, 'search_memories_intelligent', args?.limit as number));
+        } else {
+          const filters = SearchFilterTranslator.parse(args?.filters);
+          const searchResult = await memoryDb.searchMemoriesIntelligent(query, categories, enableReranking, rerankStrategy, {
+            method: fusionMethod,
+            weights: fusionWeights
+          }, filters, explain);
+          
+          // Check if we got valid results
+          if (!searchResult || !searchResult.results) {
+            return { content: [{ type: 'text', text: `❌ Intelligente Suche fehlgeschlagen: Ungültiges Ergebnis-Format` }] };
+          }
+          result = { ...searchResult, query, enableReranking };
+          page = searchCursors.snapshot('search_memories_intelligent', result, (args?.limit as number) || 15);
         }
         
         const strategyIcon = '🔄'; // Default icon
-        const rerankIcon = enableReranking ? ' ⚡' : '';
-        const totalResults = result.results.length;
-        const resultsToShow = result.results;
+        const rerankIcon = result.enableReranking ? ' ⚡' : '';
+        const totalResults = page.total;
+        const resultsToShow = page.results;
         
+        const filterInfo = describeSearchFilters(result.filters) + describeTemporalRange(result.temporal);
         if (totalResults === 0) {
-          return { content: [{ type: 'text', text: `🔍 Keine Ergebnisse für "${query}" gefunden.\n\n🤖 Strategie: ${strategyIcon} intelligent search${rerankIcon}${enableReranking ? ` (${result.rerank_strategy || rerankStrategy})` : ''}` }] };
+          return { content: [{ type: 'text', text: `🔍 Keine Ergebnisse für "${result.query}" gefunden.${filterInfo}\n\n🤖 Strategie: ${strategyIcon} intelligent search${rerankIcon}${result.enableReranking ? ` (${result.rerank_strategy || rerankStrategy})` : ''}` }] };
         }
         
-        const memoryText = resultsToShow.slice(0, 15).map((memory: any) => {
+        recordRecall(resultsToShow, 'search_memories_intelligent', result.query);
+        const memoryText = resultsToShow.map((memory: any) => {
           const sourceIcon = memory.source === 'sql' ? '💾' : memory.source === 'chroma' ? '🧠' : '🔗';
           const relevanceScore = memory.relevance_score ? ` (${(memory.relevance_score * 100).toFixed(0)}%)` : '';
           const categoryDisplay = memory.category ? ` [${memory.category}]` : '';
+          const justification = memory.relevance_justification ? `💬 ${memory.relevance_justification}\n` : '';
+          // Full-text hits carry a snippet with the matched terms highlighted
+          const preview = memory.snippet || `${(memory.content || '').substring(0, 300)}${(memory.content || '').length > 300 ? '...' : ''}`;
+          const ranks = memory.source_ranks || {};
+          const rankText = [
+            ranks.sql ? `SQL #${ranks.sql.rank}` : '',
+            ranks.chroma ? `Vektor #${ranks.chroma.rank}${ranks.chroma.score !== null ? ` (${(ranks.chroma.score * 100).toFixed(0)}%)` : ''}` : ''
+          ].filter(Boolean).join(' | ');
+          const fusionText = rankText ? ` | 🧮 ${rankText}` : '';
           
-          return `${sourceIcon} **${memory.topic || 'Untitled'}**${categoryDisplay}${relevanceScore}\n📝 ${(memory.content || '').substring(0, 300)}${(memory.content || '').length > 300 ? '...' : ''}\n🆔 ID: ${memory.id || 'Unknown'}\n`;
+          return `${sourceIcon} **${memory.topic || 'Untitled'}**${categoryDisplay}${relevanceScore}\n📝 ${preview}\n${justification}🆔 ID: ${memory.id || 'Unknown'}${fusionText}\n${describeExplanation(memory.explanation)}`;
         }).join('\n');
         
         const sourceSummary = result.sources ? 
-          `• SQL Database: ${result.sources.sql?.count || 0} Treffer\n• ChromaDB: ${result.sources.chroma?.count || 0} semantische Treffer` :
+          `• ${result.sources.sql?.source || 'SQL Database'}: ${result.sources.sql?.count || 0} Treffer\n• ${result.sources.chroma?.source || 'ChromaDB'}: ${result.sources.chroma?.count || 0} semantische Treffer` :
           `• Gefunden: ${totalResults} Ergebnisse`;
         
+        const fusionInfo = result.fusion
+          ? `\n🧮 Fusion: ${result.fusion.method === 'rrf' ? `RRF (k=${result.fusion.rrfK})` : 'normalisierte Scores'}, Gewichte SQL ${result.fusion.weights.sql} / ChromaDB ${result.fusion.weights.chroma}`
+          : '';
         const rerankInfo = result.reranked ? `\n🎯 Reranking: ${result.rerank_strategy} Strategie angewendet` : '';
         const executionTime = result.execution_time ? ` (${result.execution_time}ms)` : '';
         
         return { 
           content: [{ 
             type: 'text', 
-            text: `🧠 Intelligente Suchergebnisse für "${query}"${rerankIcon}${executionTime}:\n\n📊 Statistik:\n${sourceSummary}${rerankInfo}\n\n🎯 Top ${Math.min(15, totalResults)} Ergebnisse:\n\n${memoryText}` 
+            text: `🧠 Intelligente Suchergebnisse für "${result.query}"${rerankIcon}${executionTime}:\n\n📊 Statistik:\n${sourceSummary}${fusionInfo}${rerankInfo}${filterInfo}\n\n🎯 ${describePage(page)}:\n\n${memoryText}${describeNextCursor(page.next_cursor)}` 
           }] 
         };
       } catch (error) {
@@ -1233,55 +1629,6 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     //     return { content: [{ type: 'text', text: `❌ Fehler bei der erweiterten Memory-Abfrage: ${error}` }] };
     //   }
 
-    // case 'search_memories_with_explanation':
-    //   if (!memoryDb) return { content: [{ type: 'text', text: '❌ Database not connected.' }] };
-      
-    //   try {
-    //     const query = args?.query as string;
-    //     const categories = args?.categories as string[];
-    //     if (!query) throw new Error('Query parameter is required');
-        
-    //     const result = await memoryDb.searchMemoriesAdvanced(query, categories);
-        
-    //     const explanation = {
-    //       sql_strategy: "Full-text search in topic and content fields",
-    //       chroma_strategy: "Semantic vector similarity search using embeddings",
-    //       metadata_filters_applied: categories ? categories.length > 0 : false,
-    //       semantic_search_performed: memoryDb.chromaClient !== null
-    //     };
-
-    //     if (categories && categories.length > 0) {
-    //       explanation.chroma_strategy += ` with metadata filtering on categories: [${categories.join(', ')}]`;
-    //     }
-    //     if (!result.success) {
-    //       return { content: [{ type: 'text', text: `❌ Erklärende Suche fehlgeschlagen: ${result.error}` }] };
-    //     }
-        
-    //     const totalResults = result.combined_results.length;
-        
-    //     let responseText = `🔬 Such-Analyse für "${query}":\n\n`;
-    //     responseText += `📊 Verwendete Strategien:\n`;
-    //     responseText += `• SQL Database: ${explanation.sql_strategy}\n`;
-    //     responseText += `• ChromaDB: ${explanation.chroma_strategy}\n`;
-    //     responseText += `• Metadaten-Filter: ${explanation.metadata_filters_applied ? '✅ Ja' : '❌ Nein'}\n`;
-    //     responseText += `• Semantische Suche: ${explanation.semantic_search_performed ? '✅ Aktiv' : '❌ Nicht verfügbar'}\n\n`;
-        
-    //     if (totalResults > 0) {
-    //       responseText += `🎯 Ergebnisse (${totalResults} gefunden):\n\n`;
-    //       result.combined_results.slice(0, 10).forEach((memory: any) => {
-    //         const sourceIcon = memory.source === 'sqlite' ? '💾' : '🧠';
-    //         const relevanceScore = memory.relevance_score ? ` (${(memory.relevance_score * 100).toFixed(0)}%)` : '';
-    //         responseText += `${sourceIcon} ${memory.date || 'N/A'} | 📂 ${memory.category}${relevanceScore}\n🏷️ ${memory.topic}\n${memory.content.substring(0, 120)}...\n\n---\n\n`;
-    //       });
-    //     } else {
-    //       responseText += '🔍 Keine Ergebnisse gefunden.';
-    //     }
-        
-    //     return { content: [{ type: 'text', text: responseText }] };
-    //   } catch (error) {
-    //     return { content: [{ type: 'text', text: `❌ Fehler bei der erklärenden Suche: ${error}` }] };
-    //   }
-
     // case 'search_memories_with_reranking':
     //   if (!memoryDb) return { content: [{ type: 'text', text: '❌ Database not connected.' }] };
       
@@ -1371,143 +1718,133 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         
         if (!category || !topic || !content) throw new Error('Category, topic and content required');
         
-        // DIRECT INTEGRATION: Bypass broken pipeline and use working methods
+        const result = await memoryDb.saveMemoryWithGraph(category, topic, content, forceRelationships);
         
-        // Step 1: Save to SQL first to get ID
-        const savedMemory = await memoryDb.saveNewMemory(category, topic, content);
-        const memoryId = savedMemory.id;
+        if (result.memory_id === 0 && result.error) {
+          throw new Error(result.error);
+        }
+        recordSessionMemories([result.memory_id], 'saved');
         
-        // Step 2: Semantic Analysis if analyzer available
-        let semanticConcepts: any[] = [];
-        let memoryType = category;
-        let chromaStored = false;
-        let neo4jStored = false;
+        const relationshipText = result.stored_in_neo4j 
+          ? `\n🕸️ Graph-Netzwerk: ✅ (${result.relationships_created} Beziehungen)`
+          : '\n🕸️ Graph-Netzwerk: ❌ (Neo4j nicht verfügbar)';
         
-        if (analyzer) {
-          try {
-            const analysisResult = await analyzer.extractAndAnalyzeConcepts({
-              category, topic, content
-            });
-            
-            if (analysisResult.semantic_concepts) {
-              semanticConcepts = analysisResult.semantic_concepts;
-              
-              // Use LLM-determined category
-              if (semanticConcepts.length > 0 && semanticConcepts[0].memory_type) {
-                memoryType = semanticConcepts[0].memory_type;
-                
-                // FIXED: Don't update SQL category for semantic memory types that will be removed
-                if (!['faktenwissen', 'prozedurales_wissen'].includes(memoryType)) {
-                  await memoryDb.updateMemory(memoryId, { category: memoryType });
-                }
-              }
-              
-              // Step 3: ChromaDB Integration with FIXED field mapping
-              if (chromaClient && semanticConcepts.length > 0) {
-                try {
-                  for (let i = 0; i < semanticConcepts.length; i++) {
-                    const concept = semanticConcepts[i];
-                    
-                    // Create ChromaDB entry with CORRECT field mapping
-                    const conceptEntry = {
-                      id: `${memoryId}_concept_${i + 1}`,
-                      concept_description: concept.concept_description || concept.content,
-                      concept_title: concept.concept_title || `Concept ${i + 1}`,
-                      metadata: {
-                        source_memory_id: memoryId,
-                        source_category: savedMemory.category || '',
-                        source_topic: savedMemory.topic || '',
-                        source_date: savedMemory.date?.toString() || '',
-                        source_created_at: savedMemory.created_at?.toString() || '',
-                        concept_title: concept.concept_title || `Concept ${i + 1}`,
-                        concept_index: i + 1,
-                        concept_memory_type: concept.memory_type || '',
-                        concept_confidence: concept.confidence || 0,
-                        concept_mood: concept.mood || '',
-                        concept_keywords: concept.keywords?.join(', ') || '',
-                        is_granular_concept: true,
-                        concept_summary: concept.concept_description || ''
-                      }
-                    };
-                    
-                    const result = await chromaClient.storeConcepts(savedMemory, [conceptEntry]);
-                    if (result.success) chromaStored = true;
-                  }
-                } catch (chromaError) {
-                  Logger.error('ChromaDB storage failed', { error: String(chromaError) });
-                }
-              }
-            }
-          } catch (analysisError) {
-            Logger.error('Semantic analysis failed', { error: String(analysisError) });
-          }
+        const sqlText = result.stored_in_sqlite ? '✅' : '⏭️ Removed (not significant or semantic type)';
+        const pendingText = result.pending_writes?.length > 0 ? `\n⏳ Ausstehend: ${result.pending_writes.join(', ')} (wird automatisch erneut versucht)` : '';
+        const shortMemoryText = result.stored_in_short_memory ? '\n💭 Short Memory: ✅ (Session continuity)' : '';
+        const reasonText = result.significance_reason ? `\n💡 ${result.significance_reason}` : '';
+        const warningText = result.error ? `\n⚠️ ${result.error}` : '';
+        const duplicateText = result.duplicates?.length > 0
+          ? `\n\n🔁 **Mögliches Duplikat von:**\n${result.duplicates.map((entry: any) => `• #${entry.memory_id} ${entry.topic} (Ähnlichkeit ${(entry.similarity * 100).toFixed(0)}%, Topic ${(entry.topic_overlap * 100).toFixed(0)}%)`).join('\n')}\n💡 Zusammenführen mit merge_memories(<ID>, [${result.memory_id}])`
+          : '';
+        const contradictionText = result.contradictions?.length > 0
+          ? `\n\n⚡ **Mögliche Widersprüche:**\n${result.contradictions.map((entry: any) => `• [ID: ${entry.memory_id}] ${entry.topic} (${(entry.confidence * 100).toFixed(0)}%) - ${entry.explanation}`).join('\n')}\n💡 Auflösen mit resolve_contradiction(${result.memory_id}, <ID>, keep|supersede|merge)`
+          : '';
+        
+        return {
+          content: [{ type: 'text', text: `✅ Memory mit Graph-Integration gespeichert!\n\n📂 Kategorie: ${result.analyzed_category}\n🏷️ Topic: ${topic}\n🆔 ID: ${result.memory_id}\n💾 SQL Database: ${sqlText}\n🧠 ChromaDB: ${result.stored_in_chroma ? '✅' : '❌'}${relationshipText}${shortMemoryText}${pendingText}${reasonText}${warningText}${duplicateText}${contradictionText}` }]
+        };
+      } catch (error) {
+        return { content: [{ type: 'text', text: `❌ Fehler beim Speichern mit Graph: ${error}` }] };
+      }
+
+    case 'list_inconsistent_memories':
+      if (!memoryDb || !pendingWriteProcessor) {
+        return { content: [{ type: 'text', text: '❌ Database or pending write processor not available.' }] };
+      }
+      
+      try {
+        let retryText = '';
+        if (args?.retryNow) {
+          const runResult = await pendingWriteProcessor.processPendingWrites();
+          retryText = `🔁 Retry: ${runResult.completed}/${runResult.processed} completed, ${runResult.failed} failed permanently\n\n`;
         }
         
-        // Step 4: Neo4j Integration with FIXED data cleaning
-        if (neo4jClient) {
-          try {
-            const cleanedMemory = {
-              id: memoryId,
-              content: savedMemory.content || '',
-              category: memoryType,
-              topic: savedMemory.topic || '',
-              date: savedMemory.date?.toString() || '',
-              created_at: savedMemory.created_at?.toString() || ''
-            };
-            
-            const neo4jResult = await neo4jClient.createMemoryNode(cleanedMemory);
-            neo4jStored = true; // Assume success if no error thrown
-          } catch (neo4jError) {
-            Logger.error('Neo4j storage failed', { error: String(neo4jError) });
-          }
+        const inconsistent = await pendingWriteProcessor.listInconsistentMemories();
+        if (inconsistent.length === 0) {
+          return { content: [{ type: 'text', text: `${retryText}✅ Keine inkonsistenten Memories - alle Schreibvorgänge abgeschlossen.` }] };
         }
+        
+        const memoryText = inconsistent.map(entry => {
+          const writesText = entry.writes.map(write => {
+            const icon = write.status === 'failed' ? '❌' : '⏳';
+            const errorText = write.last_error ? ` - ${write.last_error}` : '';
+            return `   ${icon} ${write.target} (${write.status}, ${write.attempts} Versuche)${errorText}`;
+          }).join('\n');
+          return `🆔 ${entry.memory_id} - ${entry.topic}\n   💾 SQL: ${entry.in_sql ? '✅' : '❌'}\n${writesText}`;
+        }).join('\n\n');
+        
+        return {
+          content: [{ type: 'text', text: `${retryText}⚠️ ${inconsistent.length} inkonsistente Memories:\n\n${memoryText}` }]
+        };
+      } catch (error) {
+        return { content: [{ type: 'text', text: `❌ Fehler beim Auflisten inkonsistenter Memories: ${error}` }] };
+      }
 
-        // Step 5: Significance Check
-        const significanceResult = await analyzer.evaluateSignificance({
-            category, topic, content
-        }, memoryType);
+    case 'verify_memory_consistency':
+      if (!memoryDb) return { content: [{ type: 'text', text: '❌ Database not connected.' }] };
+      
+      try {
+        const checker = new ConsistencyChecker(memoryDb);
+        const report = await checker.verify({
+          reindexMissing: args?.reindexMissing === true,
+          deleteOrphans: args?.deleteOrphans === true,
+          maxReindex: args?.maxReindex as number | undefined
+        });
         
-        // Step 6: FIXED - Remove semantic memory types from SQL
-        let keptInSQL = true;
-        if (['faktenwissen', 'prozedurales_wissen'].includes(memoryType) || !significanceResult.significant) {
-          try {
-            await memoryDb.deleteMemory(memoryId);
-            keptInSQL = false;
-            Logger.info('Semantic memory type removed from SQL', { memoryId, memoryType });
-          } catch (deleteError) {
-            Logger.error('Failed to remove semantic memory from SQL', { memoryId, memoryType, error: deleteError });
-          }
-        }
+        const listPreview = (items: string[]) => items.length > 10 ? `${items.slice(0, 10).join(', ')} … (+${items.length - 10})` : items.join(', ');
         
-        // Step 7: FIXED - Add to Short Memory for session continuity if removed from SQL
-        let shortMemoryAdded = false;
-        if (!keptInSQL) {
-          try {
-            // Add to short memory for session continuity
-            await memoryDb.addToShortMemory({
-              topic: topic,
-              content: content,
-              date: new Date().toISOString().split('T')[0]
-            });
-            shortMemoryAdded = true;
-            Logger.info('Memory added to short memory for session continuity', { memoryId, memoryType });
-          } catch (shortMemoryError) {
-            Logger.error('Failed to add to short memory', { memoryId, memoryType, error: shortMemoryError });
-          }
-        }
+        const storesText = `💾 SQL: ${report.checked.sql_memories} Memories (+${report.checked.routed_memories} ausgelagert)\n` +
+          `🧠 ChromaDB: ${report.chroma_available ? `${report.checked.chroma_concepts} Konzepte` : '❌ nicht verfügbar'}\n` +
+          `🕸️ Neo4j: ${report.neo4j_available ? `${report.checked.neo4j_nodes} Knoten` : '❌ nicht verfügbar'}`;
         
-        const relationshipText = neo4jStored 
-          ? `\n🕸️ Graph-Netzwerk: ✅`
-          : '\n🕸️ Graph-Netzwerk: ❌ (Neo4j nicht verfügbar)';
+        const findingsText = `🧩 Verwaiste Konzepte: ${report.orphaned_concepts.length}` +
+          (report.orphaned_concepts.length > 0 ? `\n   Memory-IDs: ${listPreview([...new Set(report.orphaned_concepts.map(concept => String(concept.source_memory_id)))])}` : '') +
+          `\n🔗 Verwaiste Neo4j-Knoten: ${report.orphaned_nodes.length}` +
+          (report.orphaned_nodes.length > 0 ? `\n   Memory-IDs: ${listPreview(report.orphaned_nodes.map(String))}` : '') +
+          `\n📭 SQL-Memories ohne Vektoren: ${report.missing_vectors.length}` +
+          (report.missing_vectors.length > 0 ? `\n   ${listPreview(report.missing_vectors.map(entry => `${entry.memory_id} (${entry.topic})`))}` : '');
         
-        const sqlText = keptInSQL ? '✅' : '⏭️ Removed (semantic type)';
-        const shortMemoryText = shortMemoryAdded ? '\n💭 Short Memory: ✅ (Session continuity)' : '';
+        const repairText = report.repair
+          ? `\n\n🔧 Reparatur:\n   🗑️ Konzepte gelöscht: ${report.repair.concepts_deleted}\n   🗑️ Knoten gelöscht: ${report.repair.nodes_deleted}\n   🔄 Neu indexiert: ${report.repair.memories_reindexed}` +
+            (report.repair.errors.length > 0 ? `\n   ⚠️ Fehler: ${report.repair.errors.slice(0, 5).join('; ')}` : '')
+          : '';
+        
+        const errorText = report.errors.length > 0 ? `\n\n⚠️ Prüfung unvollständig: ${report.errors.join('; ')}` : '';
+        const isConsistent = report.orphaned_concepts.length === 0 && report.orphaned_nodes.length === 0 && report.missing_vectors.length === 0;
+        const headline = isConsistent ? '✅ Alle Speicher sind konsistent' : '⚠️ Inkonsistenzen gefunden';
+        const hintText = !isConsistent && !report.repair ? '\n\n💡 Reparatur mit reindexMissing=true und/oder deleteOrphans=true' : '';
         
         return {
-          content: [{ type: 'text', text: `✅ Memory mit Graph-Integration gespeichert!\n\n📂 Kategorie: ${memoryType}\n🏷️ Topic: ${topic}\n🆔 ID: ${memoryId}\n💾 SQL Database: ${sqlText}\n🧠 ChromaDB: ${chromaStored ? '✅' : '❌'}${relationshipText}${shortMemoryText}` }]
+          content: [{ type: 'text', text: `${headline}\n\n${storesText}\n\n${findingsText}${repairText}${errorText}${hintText}` }]
         };
       } catch (error) {
-        return { content: [{ type: 'text', text: `❌ Fehler beim Speichern mit Graph: ${error}` }] };
+        return { content: [{ type: 'text', text: `❌ Konsistenzprüfung fehlgeschlagen: ${error}` }] };
+      }
+
+    case 'consolidate_memories':
+      if (!memoryDb || !memoryConsolidator) return { content: [{ type: 'text', text: '❌ Database or memory consolidator not available.' }] };
+      
+      try {
+        const dryRun = args?.dryRun !== false; // Default true
+        const report = await memoryConsolidator.consolidate({ dryRun });
+        
+        const actionText = (actions: any[]) => actions.length > 0
+          ? actions.slice(0, 20).map(action => `   • [ID: ${action.memory_id}] ${action.topic} (${action.from_category}) - ${action.reason}`).join('\n') +
+            (actions.length > 20 ? `\n   … (+${actions.length - 20})` : '')
+          : '   keine';
+        
+        const headline = dryRun ? '🧪 Konsolidierungs-Bericht (Dry Run - nichts verschoben)' : '🧹 Memory-Konsolidierung ausgeführt';
+        const settingsText = `⚙️ Halbwertszeit ${report.settings.halfLifeDays} Tage, Vergessen unter ${report.settings.forgetThreshold}, ` +
+          `Kernerinnerung ab ${report.settings.promoteAccessCount} Abrufen oder ${report.settings.promoteConnections} Beziehungen`;
+        const errorText = report.errors.length > 0 ? `\n\n⚠️ Fehler: ${report.errors.slice(0, 5).join('; ')}` : '';
+        const hintText = dryRun && report.promoted.length + report.demoted.length > 0 ? '\n\n💡 Ausführen mit dryRun=false' : '';
+        
+        return {
+          content: [{ type: 'text', text: `${headline}\n\n📊 Geprüft: ${report.evaluated} Memories\n${settingsText}\n\n⭐ → kernerinnerungen: ${report.promoted.length}\n${actionText(report.promoted)}\n\n🌫️ → forgotten_memories: ${report.demoted.length}\n${actionText(report.demoted)}${errorText}${hintText}` }]
+        };
+      } catch (error) {
+        return { content: [{ type: 'text', text: `❌ Konsolidierung fehlgeschlagen: ${error}` }] };
       }
 
     case 'search_memories_with_graph':
@@ -1518,27 +1855,39 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const includeRelated = args?.includeRelated !== false; // Default true
         const maxRelationshipDepth = args?.maxRelationshipDepth as number || 2;
         const categories = args?.categories as string[];
+        const explain = args?.explain === true;
+        const cursor = args?.cursor as string | undefined;
         
-        if (!query) throw new Error('Query required');
+        if (!query && !cursor) throw new Error('Query or cursor required');
         
-        const result = await memoryDb.searchMemoriesWithGraph(query, categories, includeRelated, maxRelationshipDepth);
+        let result: any;
+        let page: SearchPage;
+        if (cursor) {
+          ({ result, page } = searchCursors.page(cursor, 'search_memories_with_graph', args?.limit as number));
+        } else {
+          const filters = SearchFilterTranslator.parse(args?.filters);
+          result = { ...await memoryDb.searchMemoriesWithGraph(query, categories, includeRelated, maxRelationshipDepth, filters, explain), query };
+          page = searchCursors.snapshot('search_memories_with_graph', result, (args?.limit as number) || 10);
+        }
         
-        const totalResults = result.results.length;
-        const graphInfo = result.relationships.length > 0 
+        const totalResults = page.total;
+        const graphInfo = (result.relationships.length > 0 
           ? `\n🕸️ Graph-Beziehungen: ${result.relationships.length} gefunden`
-          : '';
+          : '') + describeSearchFilters(result.filters) + describeTemporalRange(result.temporal);
         
         if (totalResults === 0) {
-          return { content: [{ type: 'text', text: `🔍 Keine Ergebnisse für "${query}" gefunden.${graphInfo}` }] };
+          return { content: [{ type: 'text', text: `🔍 Keine Ergebnisse für "${result.query}" gefunden.${graphInfo}` }] };
         }
         
-        const memoryText = result.results.slice(0, 10).map((memory: any) => {
-          const sourceIcon = memory.source === 'sqlite' ? '💾' : memory.source === 'chroma_only' ? '🧠' : '🕸️';
-          return `${sourceIcon} **${memory.topic}** (${memory.category})\n${memory.content}\n📅 ${memory.date}`;
+        recordRecall(page.results, 'search_memories_with_graph', result.query);
+        const memoryText = page.results.map((memory: any) => {
+          const sourceIcon = memory.source === 'neo4j' ? '🕸️' : memory.source === 'sql' ? '💾' : memory.source === 'chroma' ? '🧠' : '🔗';
+          const explanation = memory.explanation ? `\n${describeExplanation(memory.explanation).trimEnd()}` : '';
+          return `${sourceIcon} **${memory.topic}** (${memory.category})\n${memory.content}\n📅 ${memory.date}${explanation}`;
         }).join('\n\n');
         
         return {
-          content: [{ type: 'text', text: `🔍 **Graph-erweiterte Suche**: "${query}"\n📊 Ergebnisse: ${totalResults}${graphInfo}\n\n${memoryText}` }]
+          content: [{ type: 'text', text: `🔍 **Graph-erweiterte Suche**: "${result.query}"\n📊 ${describePage(page)}${graphInfo}\n\n${memoryText}${describeNextCursor(page.next_cursor)}` }]
         };
       } catch (error) {
         return { content: [{ type: 'text', text: `❌ Fehler bei der Graph-Suche: ${error}` }] };
@@ -1561,6 +1910,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
         
         const memory = result.memory;
+        recordRecall([{ id: memoryId }], 'get_graph_context_for_memory');
         const directRels = result.direct_relationships.length;
         const extendedRels = result.extended_relationships.length;
         const totalConnections = result.relationship_summary.total_connections;
@@ -1569,8 +1919,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           .map(([type, count]) => `${type}: ${count}`)
           .join(', ');
         
+        // Direct relationships with their direction, score and (for LLM-inferred ones) justification
+        const directText = result.direct_relationships.map((rel: any) => {
+          const outgoing = rel.start_node_id === memoryId;
+          const otherTopic = outgoing ? rel.end_topic : rel.start_topic;
+          const otherId = outgoing ? rel.end_node_id : rel.start_node_id;
+          const score = rel.properties.confidence ?? rel.properties.similarity_score ?? rel.properties.score;
+          const scoreText = score !== undefined ? ` (${Number(score).toFixed(2)})` : '';
+          const justification = rel.properties.justification ? `\n   💭 ${rel.properties.justification}` : '';
+          return `${outgoing ? '➡️' : '⬅️'} **${rel.type}**${scoreText} ${otherTopic || 'Memory'} [ID: ${otherId}]${justification}`;
+        }).join('\n');
+        
         return {
-          content: [{ type: 'text', text: `🕸️ **Graph-Kontext für Memory ${memoryId}**\n\n📂 **${memory.category}** - ${memory.topic}\n📅 ${memory.date}\n\n🔗 **Direkte Beziehungen**: ${directRels}\n🔗 **Erweiterte Beziehungen**: ${extendedRels}\n📊 **Gesamt-Verbindungen**: ${totalConnections}\n🏷️ **Beziehungstypen**: ${relTypesText || 'Keine'}` }]
+          content: [{ type: 'text', text: `🕸️ **Graph-Kontext für Memory ${memoryId}**\n\n📂 **${memory.category}** - ${memory.topic}\n📅 ${memory.date}\n\n🔗 **Direkte Beziehungen**: ${directRels}\n🔗 **Erweiterte Beziehungen**: ${extendedRels}\n📊 **Gesamt-Verbindungen**: ${totalConnections}\n🏷️ **Beziehungstypen**: ${relTypesText || 'Keine'}${directText ? `\n\n${directText}` : ''}` }]
         };
       } catch (error) {
         return { content: [{ type: 'text', text: `❌ Fehler beim Abrufen des Graph-Kontexts: ${error}` }] };
@@ -1647,10 +2008,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       
       try {
         const limit = (args?.limit as number) || 10;
-        const memories = await memoryDb.getRecentMemories(limit);
+        const after = args?.cursor ? SearchCursorStore.listingPosition(args.cursor as string, 'recent') : undefined;
+        const rows = await memoryDb.getRecentMemories(limit + 1, after);
+        const memories = rows.slice(0, limit);
+        const nextCursor = SearchCursorStore.listingCursor('recent', rows, limit);
         
         if (memories.length === 0) {
-          return { content: [{ type: 'text', text: '📝 Keine Erinnerungen gefunden.' }] };
+          return { content: [{ type: 'text', text: after ? '📝 Keine älteren Erinnerungen gefunden.' : '📝 Keine Erinnerungen gefunden.' }] };
         }
         
         const memoryText = memories.map((memory: any) => {
@@ -1667,7 +2031,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         return { 
           content: [{ 
             type: 'text', 
-            text: `🕒 Neueste ${memories.length} Erinnerungen (Limit: ${limit}):\n\n${memoryText}` 
+            text: `🕒 ${after ? 'Ältere' : 'Neueste'} ${memories.length} Erinnerungen (Limit: ${limit}):\n\n${memoryText}${describeNextCursor(nextCursor)}` 
           }] 
         };
       } catch (error) {
@@ -1691,9 +2055,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           return { content: [{ type: 'text', text: `❌ Memory with ID ${id} not found.` }] };
         }
         
-        const result = await memoryDb.updateMemory(id, { topic, content, category });
+        // Cascade keeps ChromaDB concepts and the Neo4j node in sync with the SQL row
+        const result = memoryDb.updateMemoryCascade
+          ? await memoryDb.updateMemoryCascade(id, { topic, content, category })
+          : { ...(await memoryDb.updateMemory(id, { topic, content, category })), errors: [] };
+        const changedRows = result.changed_rows ?? result.changedRows;
         
-        if (result.changedRows === 0) {
+        if (changedRows === 0) {
           return { content: [{ type: 'text', text: `❌ No changes made to memory ${id}.` }] };
         }
         
@@ -1702,10 +2070,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         if (content !== undefined) updatedFields.push(`Content: Updated (${content.length} characters)`);
         if (category !== undefined) updatedFields.push(`Category: "${category}"`);
         
+        let syncText = '';
+        if (result.reindexed) syncText += `\n🧠 ChromaDB: ${result.concepts_deleted} alte Konzepte ersetzt durch ${result.concepts_stored} neue`;
+        if (result.updated_in_neo4j) syncText += `\n🕸️ Neo4j: Knoten aktualisiert`;
+        if (result.pending_writes?.length > 0) syncText += `\n⏳ Ausstehende Writes: ${result.pending_writes.join(', ')} (werden automatisch wiederholt)`;
+        if (result.errors.length > 0) syncText += `\n\n⚠️ Warnungen:\n${result.errors.map((error: string) => `• ${error}`).join('\n')}`;
+        
         return { 
           content: [{ 
             type: 'text', 
-            text: `✅ Memory ${id} successfully updated!\n\n📝 Updated fields:\n${updatedFields.map((field: any) => `• ${field}`).join('\n')}\n\n📂 Original: ${existingMemory.category} | 🏷️ ${existingMemory.topic}` 
+            text: `✅ Memory ${id} successfully updated!\n\n📝 Updated fields:\n${updatedFields.map((field: any) => `• ${field}`).join('\n')}\n\n📂 Original: ${existingMemory.category} | 🏷️ ${existingMemory.topic}${syncText}` 
           }] 
         };
       } catch (error) {
@@ -1742,6 +2116,102 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         return { content: [{ type: 'text', text: `❌ Fehler beim Verschieben der Memory: ${error}` }] };
       }
 
+    case 'delete_memory':
+      if (!memoryDb) return { content: [{ type: 'text', text: '❌ Database not connected.' }] };
+      
+      try {
+        const id = args?.id as number;
+        if (!id) throw new Error('Memory ID is required');
+        
+        if (!memoryDb.deleteMemoryCascade) {
+          const deleted = await memoryDb.deleteMemory(id);
+          return { content: [{ type: 'text', text: deleted ? `✅ Memory ${id} aus SQL gelöscht.` : `❌ Memory with ID ${id} not found.` }] };
+        }
+        
+        const result = await memoryDb.deleteMemoryCascade(id);
+        
+        if (!result.found) {
+          return { content: [{ type: 'text', text: `❌ Memory with ID ${id} not found.` }] };
+        }
+        
+        let text = `🗑️ Memory ${id} gelöscht\n\n`;
+        text += `💾 SQL: ${result.deleted_from_sql ? '✅ gelöscht' : '➖ nicht vorhanden'}\n`;
+        text += `🧠 ChromaDB: ${memoryDb.chromaClient ? `${result.concepts_deleted} Konzepte gelöscht` : '➖ nicht verfügbar'}\n`;
+        text += `🕸️ Neo4j: ${result.deleted_from_neo4j ? '✅ Knoten gelöscht' : '➖ nicht verfügbar'}\n`;
+        if (result.pending_writes_cancelled > 0) {
+          text += `⏳ ${result.pending_writes_cancelled} ausstehende Writes verworfen\n`;
+        }
+        
+        if (result.errors.length > 0) {
+          text += `\n⚠️ Fehler:\n${result.errors.map((error: string) => `• ${error}`).join('\n')}\n`;
+          text += `\n💡 Reste können mit verify_memory_consistency(deleteOrphans=true) entfernt werden.`;
+        }
+        
+        return { content: [{ type: 'text', text }] };
+      } catch (error) {
+        return { content: [{ type: 'text', text: `❌ Fehler beim Löschen der Memory: ${error}` }] };
+      }
+
+    case 'merge_memories':
+      if (!memoryDb) return { content: [{ type: 'text', text: '❌ Database not connected.' }] };
+      
+      try {
+        const targetId = args?.targetId as number;
+        const duplicateIds = (args?.duplicateIds as number[]) || [];
+        const mergedContent = args?.mergedContent as string | undefined;
+        
+        if (!targetId || duplicateIds.length === 0) throw new Error('targetId and duplicateIds are required');
+        if (!memoryDb.mergeMemories) throw new Error('Database does not support merging memories');
+        
+        const result = await memoryDb.mergeMemories(targetId, duplicateIds, mergedContent);
+        
+        let text = `🔀 Memories in ${targetId} zusammengeführt\n\n`;
+        text += `🗑️ Gelöscht: ${result.merged_ids.length > 0 ? result.merged_ids.map((id: number) => `#${id}`).join(', ') : 'keine'}\n`;
+        text += `🧠 Konzepte neu extrahiert: ${result.reindexed ? '✅' : '➖'}\n`;
+        text += `🕸️ Übertragene Beziehungen: ${result.relationships_repointed}\n`;
+        
+        if (result.errors.length > 0) {
+          text += `\n⚠️ Fehler:\n${result.errors.map((error: string) => `• ${error}`).join('\n')}\n`;
+          text += `\n💡 Reste können mit verify_memory_consistency(deleteOrphans=true) entfernt werden.`;
+        }
+        
+        return { content: [{ type: 'text', text }] };
+      } catch (error) {
+        return { content: [{ type: 'text', text: `❌ Fehler beim Zusammenführen der Memories: ${error}` }] };
+      }
+
+    case 'resolve_contradiction':
+      if (!memoryDb) return { content: [{ type: 'text', text: '❌ Database not connected.' }] };
+      
+      try {
+        const memoryId = args?.memoryId as number;
+        const conflictingMemoryId = args?.conflictingMemoryId as number;
+        const resolution = args?.resolution as 'keep' | 'supersede' | 'merge';
+        const mergedContent = args?.mergedContent as string | undefined;
+        
+        if (!memoryId || !conflictingMemoryId) throw new Error('memoryId and conflictingMemoryId are required');
+        if (!['keep', 'supersede', 'merge'].includes(resolution)) throw new Error('resolution must be keep, supersede or merge');
+        if (!memoryDb.resolveContradiction) throw new Error('Database does not support contradiction resolution');
+        
+        const result = await memoryDb.resolveContradiction(memoryId, conflictingMemoryId, resolution, mergedContent);
+        
+        let text = `⚖️ Widerspruch zwischen ${memoryId} und ${conflictingMemoryId} aufgelöst (${resolution})\n\n`;
+        if (resolution === 'keep') {
+          text += `✅ Beide Memories bleiben erhalten, ${result.edges_resolved} CONTRADICTS-Beziehung(en) als gelöst markiert\n`;
+        } else {
+          if (result.merged) text += `📝 Memory ${memoryId}: Inhalt zusammengeführt und neu indexiert\n`;
+          text += `🗑️ Memory ${conflictingMemoryId}: aus allen Stores gelöscht\n`;
+        }
+        
+        if (result.errors.length > 0) {
+          text += `\n⚠️ Fehler:\n${result.errors.map((error: string) => `• ${error}`).join('\n')}\n`;
+        }
+        
+        return { content: [{ type: 'text', text }] };
+      } catch (error) {
+        return { content: [{ type: 'text', text: `❌ Fehler beim Auflösen des Widerspruchs: ${error}` }] };
+      }
+
     case 'execute_special_directive':
       try {
         // Read the directive file
@@ -1861,10 +2331,28 @@ async function initializeDatabase(): Promise<void> {
       // Create JobProcessor - cast for compatibility
       jobProcessor = new JobProcessor(memoryDb as any, LLM_MODEL);
       
+      // Resume jobs that were interrupted by a previous shutdown
+      jobProcessor.recoverInterruptedJobs().catch((error) => {
+        Logger.error('Failed to recover interrupted analysis jobs', { error: String(error) });
+      });
+      
+      // Retry ChromaDB/Neo4j writes that failed during earlier saves
+      pendingWriteProcessor = new PendingWriteProcessor(memoryDb as any);
+      pendingWriteProcessor.start();
+      
+      // Demote stale and promote frequently recalled memories on a schedule
+      memoryConsolidator = new MemoryConsolidator(memoryDb as any);
+      memoryConsolidator.start();
+      
       // Initialize LLM Service and link to Database
       analyzer = new SemanticAnalyzer(LLM_MODEL);
       memoryDb.analyzer = analyzer;
       
+      // Optional: LLM relation inference costs one extra LLM call per saved memory
+      if (process.env.LLM_RELATION_INFERENCE === 'true' && memoryDb.addPipelinePhase) {
+        memoryDb.addPipelinePhase(new RelationInferencePhase(RelationInferencePhase.optionsFromEnv()), { after: 'store_graph' });
+      }
+      
       Logger.success('Database and core components initialized successfully', {
         databaseType: DatabaseFactory.getDatabaseType(),
         jobProcessor: 'JobProcessor',
@@ -1880,6 +2368,87 @@ async function initializeDatabase(): Promise<void> {
   }
 }
 
+// Log an access event for every displayed memory; feeds consolidation and rerankHybrid (fire and forget)
+function recordRecall(memories: any[], tool: string, query?: string): void {
+  const ids = memories
+    .map((memory: any) => Number(memory.id ?? memory.source_memory_id))
+    .filter((id: number) => Number.isInteger(id) && id > 0);
+  if (ids.length === 0) return;
+  
+  recordSessionMemories(ids, 'recalled');
+  
+  if (!memoryDb?.recordMemoryAccess) return;
+  memoryDb.recordMemoryAccess([...new Set(ids)], { tool, query }).catch((error: any) => {
+    Logger.warn('Failed to record memory recall', { error: String(error) });
+  });
+}
+
+// One line summary of the active search filters for tool output
+function describeSearchFilters(filters: any): string {
+  if (!filters || Object.keys(filters).length === 0) return '';
+  
+  const parts = Object.entries(filters).map(([key, value]) => `${key}=${Array.isArray(value) ? value.join('|') : value}`);
+  return `\n🔎 Filter: ${parts.join(', ')}`;
+}
+
+// Explain mode block under a search result: source ranks, matched terms, recency and reranking signals
+function describeExplanation(explanation: any): string {
+  if (!explanation) return '';
+  
+  const sourceNames: Record<string, string> = { sql: 'SQL', chroma: 'Vektor', neo4j: 'Graph' };
+  const ranks = Object.entries(explanation.source_ranks || {})
+    .map(([source, rank]: [string, any]) => `${sourceNames[source] || source} #${rank.rank}${rank.score !== null ? ` (Score ${Number(rank.score).toFixed(3)})` : ''}`);
+  const lines = [
+    `🔬 Position ${explanation.position}: ${ranks.length > 0 ? ranks.join(' | ') : 'keine Quell-Ränge'}` +
+      (explanation.fusion_score !== null ? ` | Fusion ${explanation.fusion_score.toFixed(4)}` : '') +
+      (explanation.vector_distance !== null ? ` | Distanz ${explanation.vector_distance.toFixed(3)}` : ''),
+    `   🔤 Begriffe: ${explanation.matched_terms.length > 0 ? explanation.matched_terms.join(', ') : 'keine'}` +
+      (explanation.days_since_use !== null ? ` | ⏱️ zuletzt genutzt vor ${explanation.days_since_use} Tagen` : '')
+  ];
+  
+  if (explanation.rerank) {
+    const components = explanation.rerank.components
+      .map((component: any) => `${component.signal} ${component.value >= 0 ? '+' : ''}${component.value.toFixed(2)}${component.detail ? ` (${component.detail})` : ''}`)
+      .join(', ');
+    lines.push(`   🎯 Reranking ${explanation.rerank.strategy}: ${explanation.rerank.score.toFixed(2)}${components ? ` = ${components}` : ''}`);
+  } else {
+    lines.push('   🎯 Kein Reranking, Reihenfolge aus der Rank Fusion');
+  }
+  
+  return lines.join('\n') + '\n';
+}
+
+// Position of a result page within the ranked list
+function describePage(page: SearchPage): string {
+  return `Ergebnisse ${page.offset + 1}-${page.offset + page.results.length} von ${page.total}`;
+}
+
+// Hint for the next page of a paged tool
+function describeNextCursor(cursor: string | null): string {
+  return cursor ? `\n\n➡️ Weitere Ergebnisse: cursor="${cursor}"` : '';
+}
+
+// Date range read from a time expression in the search query
+function describeTemporalRange(temporal: any): string {
+  if (!temporal) return '';
+  
+  const range = temporal.from === temporal.to ? temporal.from : `${temporal.from} bis ${temporal.to}`;
+  return `\n📅 Zeitraum: ${range} (aus "${temporal.expression}")`;
+}
+
+// Attach saved or recalled memories to the active session, summarized by end_session (fire and forget)
+function recordSessionMemories(ids: number[], action: 'saved' | 'recalled'): void {
+  if (!activeSessionId || !memoryDb?.recordSessionMemories) return;
+  
+  const memoryIds = [...new Set(ids.map(Number))].filter(id => Number.isInteger(id) && id > 0);
+  if (memoryIds.length === 0) return;
+  
+  const sessionId = activeSessionId;
+  memoryDb.recordSessionMemories(sessionId, memoryIds, action).catch((error: any) => {
+    Logger.warn('Failed to record session memories', { sessionId, error: String(error) });
+  });
+}
+
 // Function to link external clients to database after they are initialized
 async function linkClientsToDatabase(): Promise<void> {
   if (!memoryDb) {
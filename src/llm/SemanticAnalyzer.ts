@@ -2,6 +2,30 @@ import { LLMClientFactory } from './LLMClientFactory.js';
 import { ILLMClient } from './types.js';
 import { Logger } from '../utils/Logger.js';
 
+// Relationship vocabulary the LLM may assign between two memories
+export const LLM_RELATIONSHIP_TYPES = ['CAUSES', 'REFINES', 'CONTRADICTS', 'EXAMPLE_OF', 'REFLECTS_ON'] as const;
+export type LLMRelationshipType = typeof LLM_RELATIONSHIP_TYPES[number];
+
+export interface ClassifiedRelationship {
+  id: number;
+  relationship_type: LLMRelationshipType;
+  // true: the new memory is the source of the edge, false: the candidate is
+  outgoing: boolean;
+  confidence: number;
+  justification: string;
+}
+
+export interface DetectedContradiction {
+  id: number;
+  confidence: number;
+  explanation: string;
+}
+
+export interface SessionSummary {
+  topic: string;
+  content: string;
+}
+
 // Semantic Analysis Engine
 export class SemanticAnalyzer {
   private llmClient: ILLMClient;
@@ -91,6 +115,7 @@ export class SemanticAnalyzer {
     keywords?: string[];
     extracted_concepts?: string[];
     error?: string;
+    error_type?: 'llm_error' | 'parse_error';
   }> {
     Logger.info('Starting memory analysis', { 
       category: memory.category, 
@@ -106,7 +131,7 @@ export class SemanticAnalyzer {
         category: memory.category,
         error: response.error 
       });
-      return { error: response.error };
+      return { error: response.error, error_type: 'llm_error' };
     }
     
     try {
@@ -125,7 +150,7 @@ export class SemanticAnalyzer {
         category: memory.category,
         error: String(error) 
       });
-      return { error: `Failed to parse analysis: ${error}` };
+      return { error: `Failed to parse analysis: ${error}`, error_type: 'parse_error' };
     }
   }
   
@@ -483,4 +508,342 @@ Return ONLY the JSON, no explanation.`;
     
     return normalizedConcepts;
   }
+
+  // Search reranking: score how well each candidate memory answers the query
+  async scoreRelevance(query: string, candidates: Array<{ id: number; topic?: string; content?: string; category?: string }>): Promise<{
+    scores?: Array<{ id: number; relevance: number; justification: string }>;
+    error?: string;
+  }> {
+    Logger.info('Starting relevance scoring', { 
+      query: query.substring(0, 50),
+      candidateCount: candidates.length
+    });
+    
+    const prompt = this.buildRelevancePrompt(query, candidates);
+    const response = await this.generateResponse(prompt);
+    
+    if (response.error) {
+      Logger.error('Relevance scoring failed - LLM response error', { 
+        candidateCount: candidates.length,
+        error: response.error 
+      });
+      return { error: response.error };
+    }
+    
+    try {
+      const scores = this.parseRelevanceResponse(response.response!, candidates.map(candidate => candidate.id));
+      Logger.success('Relevance scoring completed', { 
+        candidateCount: candidates.length,
+        scoredCount: scores.length
+      });
+      return { scores };
+    } catch (error) {
+      Logger.error('Relevance scoring failed - parsing error', { 
+        candidateCount: candidates.length,
+        error: String(error) 
+      });
+      return { error: `Failed to parse relevance scores: ${error}` };
+    }
+  }
+
+  private buildRelevancePrompt(query: string, candidates: Array<{ id: number; topic?: string; content?: string; category?: string }>): string {
+    const candidateList = candidates.map(candidate => 
+      `[ID ${candidate.id}] (${candidate.category || 'unknown'}) ${candidate.topic || 'Untitled'}\n${candidate.content || ''}`
+    ).join('\n\n');
+    
+    return `Rate how relevant each memory is for the search query. Judge the meaning, not just shared words.
+
+SEARCH QUERY: ${query}
+
+MEMORIES:
+${candidateList}
+
+Scoring scale:
+- 1.0: directly answers the query
+- 0.7: clearly related and useful
+- 0.4: loosely related
+- 0.0: unrelated
+
+Return ONLY a JSON array with one entry per memory ID, in any order:
+[
+  {"id": 12, "relevance": 0.85, "justification": "one short sentence"}
+]
+
+Return ONLY the JSON array, no explanation.`;
+  }
+
+  private parseRelevanceResponse(response: string, candidateIds: number[]): Array<{ id: number; relevance: number; justification: string }> {
+    const jsonMatch = response.match(/\[[\s\S]*\]/);
+    if (!jsonMatch) {
+      throw new Error('No JSON array found in relevance response');
+    }
+    
+    const parsed = JSON.parse(jsonMatch[0]);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Expected array of relevance scores');
+    }
+    
+    // Keep only well-formed entries for known candidates; missing ones are handled by the caller
+    const scores = parsed
+      .map(entry => ({
+        id: Number(entry.id),
+        relevance: Number(entry.relevance),
+        justification: String(entry.justification || '')
+      }))
+      .filter(entry => candidateIds.includes(entry.id) && Number.isFinite(entry.relevance))
+      .map(entry => ({ ...entry, relevance: Math.min(1, Math.max(0, entry.relevance)) }));
+    
+    if (scores.length === 0) {
+      throw new Error('No valid relevance scores in response');
+    }
+    
+    return scores;
+  }
+
+  // Relation inference: classify how a new memory relates to each candidate memory
+  async classifyRelationships(memory: { topic?: string; content?: string; category?: string }, candidates: Array<{ id: number; topic?: string; content?: string; category?: string }>): Promise<{
+    relationships?: ClassifiedRelationship[];
+    error?: string;
+  }> {
+    Logger.info('Starting relationship classification', { 
+      topic: memory.topic,
+      candidateCount: candidates.length
+    });
+    
+    const prompt = this.buildRelationshipPrompt(memory, candidates);
+    const response = await this.generateResponse(prompt);
+    
+    if (response.error) {
+      Logger.error('Relationship classification failed - LLM response error', { 
+        candidateCount: candidates.length,
+        error: response.error 
+      });
+      return { error: response.error };
+    }
+    
+    try {
+      const relationships = this.parseRelationshipResponse(response.response!, candidates.map(candidate => candidate.id));
+      Logger.success('Relationship classification completed', { 
+        candidateCount: candidates.length,
+        relationshipCount: relationships.length
+      });
+      return { relationships };
+    } catch (error) {
+      Logger.error('Relationship classification failed - parsing error', { 
+        candidateCount: candidates.length,
+        error: String(error) 
+      });
+      return { error: `Failed to parse relationships: ${error}` };
+    }
+  }
+
+  private buildRelationshipPrompt(memory: { topic?: string; content?: string; category?: string }, candidates: Array<{ id: number; topic?: string; content?: string; category?: string }>): string {
+    const candidateList = candidates.map(candidate => 
+      `[ID ${candidate.id}] (${candidate.category || 'unknown'}) ${candidate.topic || 'Untitled'}\n${candidate.content || ''}`
+    ).join('\n\n');
+    
+    return `Classify how the NEW memory relates to each existing memory. Only report relations that clearly hold.
+
+NEW MEMORY: (${memory.category || 'unknown'}) ${memory.topic || 'Untitled'}
+${memory.content || ''}
+
+EXISTING MEMORIES:
+${candidateList}
+
+Relationship types (SOURCE -> TARGET):
+- CAUSES: the source led to or resolved the target (e.g. a procedure that fixed an incident)
+- REFINES: the source corrects, extends or makes the target more precise
+- CONTRADICTS: source and target make incompatible statements
+- EXAMPLE_OF: the source is a concrete instance of the target
+- REFLECTS_ON: the source is a reflection or opinion about the target
+- NONE: no meaningful relation
+
+"direction" is "outgoing" if the NEW memory is the source, "incoming" if the existing memory is the source.
+
+Return ONLY a JSON array with one entry per memory ID:
+[
+  {"id": 12, "relationship": "REFINES", "direction": "outgoing", "confidence": 0.8, "justification": "one short sentence"}
+]
+
+Return ONLY the JSON array, no explanation.`;
+  }
+
+  private parseRelationshipResponse(response: string, candidateIds: number[]): ClassifiedRelationship[] {
+    const jsonMatch = response.match(/\[[\s\S]*\]/);
+    if (!jsonMatch) {
+      throw new Error('No JSON array found in relationship response');
+    }
+    
+    const parsed = JSON.parse(jsonMatch[0]);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Expected array of relationships');
+    }
+    
+    // NONE and anything outside the vocabulary is dropped
+    return parsed
+      .map(entry => ({
+        id: Number(entry.id),
+        relationship_type: String(entry.relationship || '').toUpperCase() as LLMRelationshipType,
+        outgoing: String(entry.direction || 'outgoing').toLowerCase() !== 'incoming',
+        confidence: Number(entry.confidence),
+        justification: String(entry.justification || '')
+      }))
+      .filter(entry => candidateIds.includes(entry.id) 
+        && LLM_RELATIONSHIP_TYPES.includes(entry.relationship_type) 
+        && Number.isFinite(entry.confidence))
+      .map(entry => ({ ...entry, confidence: Math.min(1, Math.max(0, entry.confidence)) }));
+  }
+
+  // Contradiction check: decide which existing statements conflict with a new fact
+  async detectContradictions(memory: { topic?: string; content?: string; category?: string }, candidates: Array<{ id: number; topic?: string; content?: string; category?: string }>): Promise<{
+    contradictions?: DetectedContradiction[];
+    error?: string;
+  }> {
+    Logger.info('Starting contradiction check', { 
+      topic: memory.topic,
+      candidateCount: candidates.length
+    });
+    
+    const prompt = this.buildContradictionPrompt(memory, candidates);
+    const response = await this.generateResponse(prompt);
+    
+    if (response.error) {
+      Logger.error('Contradiction check failed - LLM response error', { 
+        candidateCount: candidates.length,
+        error: response.error 
+      });
+      return { error: response.error };
+    }
+    
+    try {
+      const contradictions = this.parseContradictionResponse(response.response!, candidates.map(candidate => candidate.id));
+      Logger.success('Contradiction check completed', { 
+        candidateCount: candidates.length,
+        contradictionCount: contradictions.length
+      });
+      return { contradictions };
+    } catch (error) {
+      Logger.error('Contradiction check failed - parsing error', { 
+        candidateCount: candidates.length,
+        error: String(error) 
+      });
+      return { error: `Failed to parse contradictions: ${error}` };
+    }
+  }
+
+  private buildContradictionPrompt(memory: { topic?: string; content?: string; category?: string }, candidates: Array<{ id: number; topic?: string; content?: string; category?: string }>): string {
+    const candidateList = candidates.map(candidate => 
+      `[ID ${candidate.id}] ${candidate.topic || 'Untitled'}\n${candidate.content || ''}`
+    ).join('\n\n');
+    
+    return `Check whether the NEW fact contradicts any of the EXISTING statements.
+
+NEW FACT: ${memory.topic || 'Untitled'}
+${memory.content || ''}
+
+EXISTING STATEMENTS:
+${candidateList}
+
+A contradiction means both cannot be true at the same time (different values, opposite claims, outdated information).
+Statements about different subjects, additional details or different perspectives are NOT contradictions.
+
+Return ONLY a JSON array with one entry per statement ID:
+[
+  {"id": 12, "contradicts": true, "confidence": 0.9, "explanation": "one short sentence"}
+]
+
+Return ONLY the JSON array, no explanation.`;
+  }
+
+  private parseContradictionResponse(response: string, candidateIds: number[]): DetectedContradiction[] {
+    const jsonMatch = response.match(/\[[\s\S]*\]/);
+    if (!jsonMatch) {
+      throw new Error('No JSON array found in contradiction response');
+    }
+    
+    const parsed = JSON.parse(jsonMatch[0]);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Expected array of contradiction verdicts');
+    }
+    
+    // Only confirmed contradictions are returned
+    return parsed
+      .filter(entry => entry.contradicts === true || String(entry.contradicts).toLowerCase() === 'true')
+      .map(entry => ({
+        id: Number(entry.id),
+        confidence: Number(entry.confidence),
+        explanation: String(entry.explanation || '')
+      }))
+      .filter(entry => candidateIds.includes(entry.id) && Number.isFinite(entry.confidence))
+      .map(entry => ({ ...entry, confidence: Math.min(1, Math.max(0, entry.confidence)) }));
+  }
+
+  // Episodic summary (erlebnisse) of the memories saved and recalled during one session
+  async summarizeSession(session: { title?: string; started_at?: string }, memories: Array<{ id: number; topic?: string; content?: string; category?: string; action?: string }>): Promise<{
+    summary?: SessionSummary;
+    error?: string;
+  }> {
+    Logger.info('Starting session summary', { 
+      title: session.title,
+      memoryCount: memories.length
+    });
+    
+    const prompt = this.buildSessionSummaryPrompt(session, memories);
+    const response = await this.generateResponse(prompt);
+    
+    if (response.error) {
+      Logger.error('Session summary failed - LLM response error', { 
+        memoryCount: memories.length,
+        error: response.error 
+      });
+      return { error: response.error };
+    }
+    
+    try {
+      const summary = this.parseSessionSummaryResponse(response.response!);
+      Logger.success('Session summary completed', { 
+        memoryCount: memories.length,
+        topic: summary.topic
+      });
+      return { summary };
+    } catch (error) {
+      Logger.error('Session summary failed - parsing error', { 
+        memoryCount: memories.length,
+        error: String(error) 
+      });
+      return { error: `Failed to parse session summary: ${error}` };
+    }
+  }
+
+  private buildSessionSummaryPrompt(session: { title?: string; started_at?: string }, memories: Array<{ id: number; topic?: string; content?: string; category?: string; action?: string }>): string {
+    const memoryList = memories.map(memory => 
+      `[${memory.action || 'touched'}] ${memory.topic || 'Untitled'} (${memory.category || 'unknown'})\n${(memory.content || '').substring(0, 600)}`
+    ).join('\n\n');
+    
+    return `Summarize this conversation session as a personal experience (erlebnisse) memory.
+
+SESSION: ${session.title || 'Untitled session'}${session.started_at ? ` (started ${session.started_at})` : ''}
+
+MEMORIES SAVED AND RECALLED DURING THE SESSION:
+${memoryList || '(none)'}
+
+Describe what the session was about, what was learned or decided and how the collaboration went.
+Write in the language of the memories, in 3-6 sentences. Do not invent events that are not supported above.
+
+Return ONLY: {"topic": "short title of the session", "content": "the summary"}`;
+  }
+
+  private parseSessionSummaryResponse(response: string): SessionSummary {
+    const jsonMatch = response.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('No JSON found in session summary response');
+    }
+    
+    const parsed = JSON.parse(jsonMatch[0]);
+    if (!parsed.topic || !parsed.content) {
+      throw new Error('Missing required fields in session summary response');
+    }
+    
+    return { topic: String(parsed.topic).trim(), content: String(parsed.content).trim() };
+  }
 }
@@ -0,0 +1,183 @@
+import { IMemoryDatabase } from '../database/DatabaseFactory.js';
+import { SEMANTIC_MEMORY_TYPES, toStorableMemory } from '../database/MemorySavePipeline.js';
+import { Logger } from './Logger.js';
+
+export interface ConsistencyRepairOptions {
+  reindexMissing?: boolean;
+  deleteOrphans?: boolean;
+  maxReindex?: number;
+}
+
+export interface ConsistencyReport {
+  checked: {
+    sql_memories: number;
+    routed_memories: number;
+    chroma_concepts: number;
+    neo4j_nodes: number;
+  };
+  chroma_available: boolean;
+  neo4j_available: boolean;
+  orphaned_concepts: Array<{ id: string; source_memory_id: number | null }>;
+  orphaned_nodes: number[];
+  missing_vectors: Array<{ memory_id: number; topic: string; category: string }>;
+  repair?: {
+    concepts_deleted: number;
+    nodes_deleted: number;
+    memories_reindexed: number;
+    errors: string[];
+  };
+  errors: string[];
+}
+
+// Cross-Store Consistency Checker
+// A memory is known if it has a SQL row or was routed out of SQL by the save
+// pipeline. Concepts and graph nodes of unknown memories are orphans, SQL rows
+// without any concept document are missing their vectors.
+export class ConsistencyChecker {
+  private db: IMemoryDatabase;
+  
+  constructor(database: IMemoryDatabase) {
+    this.db = database;
+  }
+  
+  async verify(options: ConsistencyRepairOptions = {}): Promise<ConsistencyReport> {
+    Logger.separator('Memory Consistency Check');
+    
+    const report: ConsistencyReport = {
+      checked: { sql_memories: 0, routed_memories: 0, chroma_concepts: 0, neo4j_nodes: 0 },
+      chroma_available: !!this.db.chromaClient,
+      neo4j_available: !!this.db.neo4jClient,
+      orphaned_concepts: [],
+      orphaned_nodes: [],
+      missing_vectors: [],
+      errors: []
+    };
+    
+    if (!this.db.getAllMemoryIds) {
+      throw new Error('Database does not support consistency checks');
+    }
+    
+    const sqlIds = new Set(await this.db.getAllMemoryIds());
+    const routedIds = new Set(this.db.getRoutedMemoryIds ? await this.db.getRoutedMemoryIds() : []);
+    report.checked.sql_memories = sqlIds.size;
+    report.checked.routed_memories = routedIds.size;
+    
+    const isKnown = (memoryId: number | null) => memoryId !== null && (sqlIds.has(memoryId) || routedIds.has(memoryId));
+    
+    // ChromaDB: orphaned concepts and SQL rows without concepts
+    if (this.db.chromaClient) {
+      const { sources, error } = await this.db.chromaClient.getConceptSources();
+      if (error) {
+        report.errors.push(`ChromaDB: ${error}`);
+      } else {
+        report.checked.chroma_concepts = sources.length;
+        const indexedIds = new Set<number>();
+        
+        for (const source of sources) {
+          if (source.source_memory_id !== null) indexedIds.add(source.source_memory_id);
+          
+          // Semantic types never have a SQL row, so concepts stored before the routing registry existed stay valid
+          if (!isKnown(source.source_memory_id) && !SEMANTIC_MEMORY_TYPES.includes(source.memory_type)) {
+            report.orphaned_concepts.push({ id: source.id, source_memory_id: source.source_memory_id });
+          }
+        }
+        
+        for (const memoryId of sqlIds) {
+          if (indexedIds.has(memoryId)) continue;
+          
+          const memory = await this.db.getMemoryById(memoryId);
+          if (memory) {
+            report.missing_vectors.push({ memory_id: memoryId, topic: memory.topic, category: memory.category });
+          }
+        }
+      }
+    }
+    
+    // Neo4j: memory nodes without a known memory
+    if (this.db.neo4jClient) {
+      try {
+        const nodes: Array<{ id: number; category: string | null }> = await this.db.neo4jClient.getMemoryNodeSources();
+        report.checked.neo4j_nodes = nodes.length;
+        // Same rule as for concepts: semantic types may predate the routing registry
+        report.orphaned_nodes = nodes
+          .filter(node => !isKnown(node.id) && !SEMANTIC_MEMORY_TYPES.includes(node.category || ''))
+          .map(node => node.id);
+      } catch (error) {
+        report.errors.push(`Neo4j: ${String(error)}`);
+      }
+    }
+    
+    Logger.info('Consistency check completed', {
+      checked: report.checked,
+      orphanedConcepts: report.orphaned_concepts.length,
+      orphanedNodes: report.orphaned_nodes.length,
+      missingVectors: report.missing_vectors.length
+    });
+    
+    if (options.reindexMissing || options.deleteOrphans) {
+      report.repair = await this.repair(report, options);
+    }
+    
+    return report;
+  }
+  
+  private async repair(report: ConsistencyReport, options: ConsistencyRepairOptions): Promise<NonNullable<ConsistencyReport['repair']>> {
+    const repair = { concepts_deleted: 0, nodes_deleted: 0, memories_reindexed: 0, errors: [] as string[] };
+    
+    if (options.deleteOrphans) {
+      if (report.orphaned_concepts.length > 0) {
+        const deleteResult = await this.db.chromaClient.deleteConcepts(report.orphaned_concepts.map(concept => concept.id));
+        repair.concepts_deleted = deleteResult.deleted;
+        if (deleteResult.error) repair.errors.push(`ChromaDB: ${deleteResult.error}`);
+      }
+      
+      for (const nodeId of report.orphaned_nodes) {
+        try {
+          await this.db.neo4jClient.deleteMemory(nodeId);
+          repair.nodes_deleted++;
+        } catch (error) {
+          repair.errors.push(`Neo4j node ${nodeId}: ${String(error)}`);
+        }
+      }
+    }
+    
+    if (options.reindexMissing && report.missing_vectors.length > 0) {
+      if (!this.db.analyzer) {
+        repair.errors.push('Re-indexing skipped: SemanticAnalyzer not available');
+      } else {
+        // Re-indexing runs one LLM analysis per memory, so it is capped per call
+        const toReindex = report.missing_vectors.slice(0, options.maxReindex ?? 10);
+        
+        for (const entry of toReindex) {
+          try {
+            await this.reindexMemory(entry.memory_id);
+            repair.memories_reindexed++;
+          } catch (error) {
+            repair.errors.push(`Memory ${entry.memory_id}: ${String(error)}`);
+          }
+        }
+      }
+    }
+    
+    Logger.success('Consistency repair completed', repair);
+    return repair;
+  }
+  
+  private async reindexMemory(memoryId: number): Promise<void> {
+    const memory = await this.db.getMemoryById(memoryId);
+    if (!memory) throw new Error('Memory not found');
+    
+    const analysis = await this.db.analyzer.extractAndAnalyzeConcepts(memory);
+    if (analysis.error) throw new Error(analysis.error);
+    
+    const concepts = analysis.semantic_concepts || [];
+    if (concepts.length === 0) throw new Error('No concepts extracted');
+    
+    const storeResult = await this.db.chromaClient.storeConcepts(toStorableMemory(memory), concepts);
+    if (!storeResult.success || storeResult.stored === 0) {
+      throw new Error(storeResult.errors?.join(', ') || 'ChromaDB stored no concepts');
+    }
+    
+    Logger.info('Memory re-indexed in ChromaDB', { memoryId, stored: storeResult.stored });
+  }
+}
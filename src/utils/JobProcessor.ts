@@ -2,101 +2,342 @@ import { IMemoryDatabase } from '../database/DatabaseFactory.js';
 import { SemanticAnalyzer } from '../llm/SemanticAnalyzer.js';
 import { Logger } from './Logger.js';
 
+// Job states that stop a worker before the next memory is processed
+const STOPPED_STATUSES = ['paused', 'cancelled'];
+
+// Outcome of analyzing a single memory within a job
+export type AnalysisItemStatus = 'ok' | 'not_found' | 'llm_error' | 'parse_error';
+
+interface JobWaiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+export interface JobControlResult {
+  success: boolean;
+  message: string;
+  status?: string;
+}
+
 // Job Processing Engine
+// Jobs are persisted by the database, the in-memory queue only decides which
+// job runs next. Progress is stored after every memory, so an interrupted job
+// can be resumed from its progress counter.
 export class JobProcessor {
   private db: IMemoryDatabase;
   private analyzer: SemanticAnalyzer;
-  private isProcessing: boolean = false;
   private llmModel: string;
+  private workerCount: number;
+  private queue: string[] = [];
+  private activeJobs: Set<string> = new Set();
+  private waiters: Map<string, JobWaiter[]> = new Map();
   
-  constructor(database: IMemoryDatabase, llmModel: string) {
+  constructor(database: IMemoryDatabase, llmModel: string, workerCount?: number) {
     this.db = database;
     this.llmModel = llmModel;
     this.analyzer = new SemanticAnalyzer(this.llmModel);
+    this.workerCount = Math.max(1, workerCount ?? (parseInt(process.env.JOB_WORKER_COUNT || '1', 10) || 1));
     
-    Logger.info('JobProcessor initialized', { llmModel: this.llmModel });
+    Logger.info('JobProcessor initialized', { llmModel: this.llmModel, workerCount: this.workerCount });
   }
-
+  
+  // Queue a job for background processing
+  enqueueJob(jobId: string): void {
+    if (this.queue.includes(jobId) || this.activeJobs.has(jobId)) {
+      Logger.debug('Job already queued or running', { jobId });
+      return;
+    }
+    
+    this.queue.push(jobId);
+    Logger.info('Job queued', { jobId, queueLength: this.queue.length, activeJobs: this.activeJobs.size });
+    this.drainQueue();
+  }
+  
+  // Queue a job and wait until it has finished
   async processJob(jobId: string): Promise<void> {
-    if (this.isProcessing) {
-      Logger.warn('Job processing rejected - another job already running', { jobId, currentlyProcessing: true });
-      throw new Error('Another job is already being processed');
+    const done = new Promise<void>((resolve, reject) => {
+      const jobWaiters = this.waiters.get(jobId) || [];
+      jobWaiters.push({ resolve, reject });
+      this.waiters.set(jobId, jobWaiters);
+    });
+    
+    this.enqueueJob(jobId);
+    return done;
+  }
+  
+  // Re-queue jobs that were pending or running when the server stopped
+  async recoverInterruptedJobs(): Promise<number> {
+    if (!this.db.getJobsByStatus) {
+      Logger.warn('Job recovery skipped - database does not support job queries');
+      return 0;
+    }
+    
+    const jobs = await this.db.getJobsByStatus(['running', 'pending']);
+    
+    for (const job of jobs) {
+      Logger.info('Resuming interrupted job', {
+        jobId: job.id,
+        status: job.status,
+        progress: `${job.progress_current}/${job.progress_total}`
+      });
+      this.enqueueJob(job.id);
+    }
+    
+    if (jobs.length > 0) {
+      Logger.success('Interrupted jobs re-queued', { count: jobs.length });
+    }
+    
+    return jobs.length;
+  }
+  
+  async cancelJob(jobId: string): Promise<JobControlResult> {
+    return this.stopJob(jobId, 'cancelled', ['pending', 'running', 'paused']);
+  }
+  
+  async pauseJob(jobId: string): Promise<JobControlResult> {
+    return this.stopJob(jobId, 'paused', ['pending', 'running']);
+  }
+  
+  // Resume a paused, failed or cancelled job from its stored progress
+  async retryJob(jobId: string): Promise<JobControlResult> {
+    const job = await this.db.getJobStatus(jobId);
+    if (!job) {
+      return { success: false, message: `Job ${jobId} not found` };
+    }
+    
+    if (!['paused', 'failed', 'cancelled'].includes(job.status)) {
+      return { success: false, message: `Job ${jobId} cannot be retried (status: ${job.status})`, status: job.status };
+    }
+    
+    await this.db.updateJobStatus(jobId, 'pending');
+    this.enqueueJob(jobId);
+    
+    Logger.info('Job re-queued', { jobId, previousStatus: job.status, progress: job.progress_current });
+    return { success: true, message: `Job ${jobId} re-queued from ${job.progress_current}/${job.progress_total}`, status: 'pending' };
+  }
+  
+  // Re-analyze only the memories of a finished job whose analysis failed
+  async retryFailedItems(jobId: string): Promise<JobControlResult & { retryCount?: number }> {
+    const job = await this.db.getJobStatus(jobId);
+    if (!job) {
+      return { success: false, message: `Job ${jobId} not found` };
+    }
+    
+    // Paused or cancelled jobs still have unprocessed memories, retryJob resumes those
+    if (!['completed', 'failed'].includes(job.status)) {
+      return { success: false, message: `Job ${jobId} cannot retry failed items (status: ${job.status})`, status: job.status };
+    }
+    
+    const results = await this.db.getAnalysisResults(jobId);
+    const failedIds = results
+      .filter((result: any) => result.status && result.status !== 'ok' && result.status !== 'pending')
+      .map((result: any) => result.memory_id);
+    
+    if (failedIds.length === 0) {
+      return { success: false, message: `Job ${jobId} has no failed items`, status: job.status, retryCount: 0 };
+    }
+    
+    // The retry set is stored as pending results, so it survives a restart
+    await this.db.markAnalysisResultsPending(jobId, failedIds);
+    await this.db.updateJobStatus(jobId, 'pending');
+    this.enqueueJob(jobId);
+    
+    Logger.info('Failed job items re-queued', { jobId, failedIds });
+    return { success: true, message: `${failedIds.length} failed items of job ${jobId} re-queued`, status: 'pending', retryCount: failedIds.length };
+  }
+  
+  getQueueStatus(): { workerCount: number; activeJobs: string[]; queuedJobs: string[] } {
+    return {
+      workerCount: this.workerCount,
+      activeJobs: Array.from(this.activeJobs),
+      queuedJobs: [...this.queue]
+    };
+  }
+  
+  private async stopJob(jobId: string, targetStatus: string, allowedStatuses: string[]): Promise<JobControlResult> {
+    const job = await this.db.getJobStatus(jobId);
+    if (!job) {
+      return { success: false, message: `Job ${jobId} not found` };
+    }
+    
+    if (!allowedStatuses.includes(job.status)) {
+      return { success: false, message: `Job ${jobId} cannot be ${targetStatus} (status: ${job.status})`, status: job.status };
+    }
+    
+    await this.db.updateJobStatus(jobId, targetStatus);
+    
+    // Queued jobs are dropped right away, running jobs stop before their next memory
+    const queueIndex = this.queue.indexOf(jobId);
+    if (queueIndex !== -1) {
+      this.queue.splice(queueIndex, 1);
+      this.settleWaiters(jobId);
     }
     
+    Logger.info(`Job ${targetStatus}`, { jobId, previousStatus: job.status, wasRunning: this.activeJobs.has(jobId) });
+    return { success: true, message: `Job ${jobId} ${targetStatus}`, status: targetStatus };
+  }
+  
+  private drainQueue(): void {
+    while (this.activeJobs.size < this.workerCount && this.queue.length > 0) {
+      const jobId = this.queue.shift()!;
+      this.activeJobs.add(jobId);
+      
+      this.runJob(jobId)
+        .then(() => this.settleWaiters(jobId))
+        .catch((error) => this.settleWaiters(jobId, error))
+        .finally(() => {
+          this.activeJobs.delete(jobId);
+          Logger.debug('Job processing finished - worker released', { jobId });
+          this.drainQueue();
+        });
+    }
+  }
+  
+  private settleWaiters(jobId: string, error?: Error): void {
+    const jobWaiters = this.waiters.get(jobId) || [];
+    this.waiters.delete(jobId);
+    
+    for (const waiter of jobWaiters) {
+      if (error) {
+        waiter.reject(error);
+      } else {
+        waiter.resolve();
+      }
+    }
+  }
+  
+  private async isStopRequested(jobId: string): Promise<boolean> {
+    const job = await this.db.getJobStatus(jobId);
+    return !!job && STOPPED_STATUSES.includes(job.status);
+  }
+  
+  private async runJob(jobId: string): Promise<void> {
     Logger.info('Starting job processing', { jobId, llmModel: this.llmModel });
-    this.isProcessing = true;
     
     try {
-      await this.db.updateJobStatus(jobId, 'running');
       const job = await this.db.getJobStatus(jobId);
       if (!job) {
         Logger.error('Job not found', { jobId });
         throw new Error(`Job ${jobId} not found`);
       }
       
-      const memoryIds = JSON.parse(job.memory_ids);
-      Logger.info('Job loaded successfully', { 
-        jobId, 
+      if (job.status !== 'pending' && job.status !== 'running') {
+        Logger.info('Job skipped - not runnable', { jobId, status: job.status });
+        return;
+      }
+      
+      await this.db.updateJobStatus(jobId, 'running');
+      
+      const memoryIds: number[] = JSON.parse(job.memory_ids);
+      const startIndex = Math.min(job.progress_current || 0, memoryIds.length);
+      const remainingIds = new Set(memoryIds.slice(startIndex));
+      
+      // Failed items reset by retryFailedItems; they leave the progress counter alone
+      const retryIds: number[] = (await this.db.getAnalysisResults(jobId))
+        .filter((result: any) => result.status === 'pending' && !remainingIds.has(result.memory_id))
+        .map((result: any) => result.memory_id);
+      
+      Logger.info('Job loaded successfully', {
+        jobId,
         memoryCount: memoryIds.length,
-        jobType: job.job_type 
+        resumeFrom: startIndex,
+        retryItems: retryIds.length,
+        jobType: job.job_type
       });
       
-      for (let i = 0; i < memoryIds.length; i++) {
+      const itemCounts: Record<string, number> = {};
+      
+      for (let i = startIndex; i < memoryIds.length; i++) {
+        if (await this.isStopRequested(jobId)) {
+          Logger.info('Job stopped before completion', { jobId, progress: `${i}/${memoryIds.length}` });
+          return;
+        }
+        
         const memoryId = memoryIds[i];
         Logger.debug(`Processing memory ${i + 1}/${memoryIds.length}`, { jobId, memoryId });
         
-        try {
-          const memory = await this.db.getMemoryById(memoryId);
-          if (!memory) {
-            Logger.error('Memory not found during job processing', { jobId, memoryId });
-            continue;
-          }
-          
-          const result = await this.analyzer.analyzeMemory(memory);
-          if (result.error) {
-            Logger.error('Analysis failed for memory during job processing', { 
-              jobId, 
-              memoryId, 
-              error: result.error 
-            });
-            continue;
-          }
-          
-          await this.db.saveAnalysisResult(jobId, memoryId, result);
-          await this.db.updateJobProgress(jobId, i + 1);
-          
-          Logger.debug('Memory analysis completed', { 
-            jobId, 
-            memoryId, 
-            progress: `${i + 1}/${memoryIds.length}`,
-            memoryType: result.memory_type,
-            confidence: result.confidence
-          });
-          
-        } catch (error) {
-          Logger.error('Error processing memory during job', { 
-            jobId, 
-            memoryId, 
-            error: String(error) 
-          });
+        const itemStatus = await this.processMemory(jobId, memoryId);
+        itemCounts[itemStatus] = (itemCounts[itemStatus] || 0) + 1;
+        
+        // Progress counts processed memories so a resumed job continues after this one
+        await this.db.updateJobProgress(jobId, i + 1);
+      }
+      
+      for (const memoryId of retryIds) {
+        if (await this.isStopRequested(jobId)) {
+          Logger.info('Job stopped before all failed items were retried', { jobId, memoryId });
+          return;
         }
+        
+        Logger.debug('Retrying failed memory', { jobId, memoryId });
+        const itemStatus = await this.processMemory(jobId, memoryId);
+        itemCounts[itemStatus] = (itemCounts[itemStatus] || 0) + 1;
+      }
+      
+      if (await this.isStopRequested(jobId)) {
+        Logger.info('Job stopped after last memory', { jobId });
+        return;
       }
       
       await this.db.updateJobStatus(jobId, 'completed');
-      Logger.success('Job processing completed', { 
-        jobId, 
-        totalMemories: memoryIds.length 
+      Logger.success('Job processing completed', {
+        jobId,
+        totalMemories: memoryIds.length,
+        retriedItems: retryIds.length,
+        itemCounts
       });
     } catch (error) {
       Logger.error('Job processing failed', { jobId, error: String(error) });
       await this.db.updateJobStatus(jobId, 'failed', String(error));
       throw error;
-    } finally {
-      this.isProcessing = false;
-      Logger.debug('Job processing finished - processor released', { jobId });
     }
   }
   
+  // Analyze one memory and record its outcome, failures included
+  private async processMemory(jobId: string, memoryId: number): Promise<AnalysisItemStatus> {
+    let itemStatus: AnalysisItemStatus;
+    let result: any;
+    
+    try {
+      const memory = await this.db.getMemoryById(memoryId);
+      if (!memory) {
+        Logger.error('Memory not found during job processing', { jobId, memoryId });
+        itemStatus = 'not_found';
+        result = { error: `Memory ${memoryId} not found` };
+      } else {
+        result = await this.analyzer.analyzeMemory(memory);
+        if (result.error) {
+          Logger.error('Analysis failed for memory during job processing', {
+            jobId,
+            memoryId,
+            errorType: result.error_type,
+            error: result.error
+          });
+          itemStatus = result.error_type || 'llm_error';
+        } else {
+          itemStatus = 'ok';
+          Logger.debug('Memory analysis completed', {
+            jobId,
+            memoryId,
+            memoryType: result.memory_type,
+            confidence: result.confidence
+          });
+        }
+      }
+    } catch (error) {
+      Logger.error('Error processing memory during job', {
+        jobId,
+        memoryId,
+        error: String(error)
+      });
+      itemStatus = 'llm_error';
+      result = { error: String(error) };
+    }
+    
+    await this.db.saveAnalysisResult(jobId, memoryId, result, itemStatus);
+    return itemStatus;
+  }
+  
   async testLLMConnection() {
     Logger.info('Testing LLM connection via JobProcessor', { llmModel: this.llmModel });
     const result = await this.analyzer.testConnection();
@@ -104,13 +345,13 @@ export class JobProcessor {
     if (result.status === 'ready') {
       Logger.success('JobProcessor LLM connection test successful', { llmModel: this.llmModel });
     } else {
-      Logger.warn('JobProcessor LLM connection test failed', { 
-        llmModel: this.llmModel, 
-        status: result.status, 
-        error: result.error 
+      Logger.warn('JobProcessor LLM connection test failed', {
+        llmModel: this.llmModel,
+        status: result.status,
+        error: result.error
       });
     }
     
     return result;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,42 @@
+// Language Detector
+// Picks the PostgreSQL text search configuration for a memory by counting common
+// German and English stopwords. Texts without a clear winner use 'simple', which
+// indexes words without stemming instead of stemming them in the wrong language.
+export type DetectedLanguage = 'german' | 'english' | 'simple';
+
+export class LanguageDetector {
+  private static readonly GERMAN_WORDS = new Set([
+    'der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'du', 'wir', 'sie', 'es', 'ein', 'eine', 'einen',
+    'mit', 'auf', 'für', 'von', 'den', 'dem', 'des', 'zu', 'im', 'auch', 'sich', 'wie', 'wenn', 'aber',
+    'oder', 'noch', 'nur', 'bei', 'nach', 'über', 'wird', 'werden', 'haben', 'hat', 'sind', 'war', 'dass'
+  ]);
+  
+  private static readonly ENGLISH_WORDS = new Set([
+    'the', 'and', 'is', 'not', 'you', 'we', 'they', 'it', 'a', 'an', 'with', 'on', 'for', 'of', 'to',
+    'in', 'also', 'how', 'if', 'but', 'or', 'only', 'at', 'after', 'about', 'will', 'be', 'have', 'has',
+    'are', 'was', 'that', 'this', 'from', 'what', 'which', 'there', 'their', 'been', 'would', 'can'
+  ]);
+  
+  // Minimum number of stopword hits before a language is trusted
+  private static readonly MIN_HITS = 2;
+  
+  static detect(text: string): DetectedLanguage {
+    const words = (text || '').toLowerCase().match(/[a-zäöüß]+/g) || [];
+    let german = 0;
+    let english = 0;
+    
+    for (const word of words) {
+      if (this.GERMAN_WORDS.has(word)) german++;
+      if (this.ENGLISH_WORDS.has(word)) english++;
+    }
+    
+    // Umlauts and ß are a strong German signal even in short texts
+    if (/[äöüß]/i.test(text || '')) german += 2;
+    
+    if (Math.max(german, english) < this.MIN_HITS || german === english) {
+      return 'simple';
+    }
+    
+    return german > english ? 'german' : 'english';
+  }
+}
@@ -0,0 +1,203 @@
+import { IMemoryDatabase } from '../database/DatabaseFactory.js';
+import { Logger } from './Logger.js';
+import { AUTOMATIC_RELATIONSHIP_TYPES } from '../database/RelationshipBuilder.js';
+
+export interface ConsolidationSettings {
+  halfLifeDays: number;        // days without recall until the decay score halves (for never recalled memories)
+  forgetThreshold: number;     // decay score below which a memory moves to forgotten_memories
+  promoteAccessCount: number;  // recalls after which a memory moves to kernerinnerungen
+  promoteConnections: number;  // deliberate graph relationships (not the automatic ones) after which a memory moves to kernerinnerungen
+  intervalHours: number;       // scheduled run interval, 0 disables the schedule
+}
+
+export interface ConsolidationAction {
+  memory_id: number;
+  topic: string;
+  from_category: string;
+  to_category: string;
+  decay_score: number;
+  access_count: number;
+  connections: number;
+  reason: string;
+}
+
+export interface ConsolidationReport {
+  dry_run: boolean;
+  evaluated: number;
+  promoted: ConsolidationAction[];
+  demoted: ConsolidationAction[];
+  settings: ConsolidationSettings;
+  errors: string[];
+}
+
+// Categories the consolidator never moves memories out of
+const PROTECTED_CATEGORIES = ['kernerinnerungen', 'short_memory', 'undefined'];
+
+// Memory Consolidator
+// Memories decay with the time since they were last recalled; every recall slows
+// the decay down. Stale memories are demoted to forgotten_memories, frequently
+// recalled or highly connected ones are promoted to kernerinnerungen.
+export class MemoryConsolidator {
+  private db: IMemoryDatabase;
+  private settings: ConsolidationSettings;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  
+  constructor(database: IMemoryDatabase, settings: Partial<ConsolidationSettings> = {}) {
+    this.db = database;
+    this.settings = { ...MemoryConsolidator.settingsFromEnv(), ...settings };
+    
+    Logger.info('MemoryConsolidator initialized', this.settings);
+  }
+  
+  static settingsFromEnv(): ConsolidationSettings {
+    const parse = (value: string | undefined, fallback: number) => {
+      const parsed = parseFloat(value || '');
+      return isNaN(parsed) ? fallback : parsed;
+    };
+    
+    return {
+      halfLifeDays: Math.max(1, parse(process.env.CONSOLIDATION_HALF_LIFE_DAYS, 30)),
+      forgetThreshold: parse(process.env.CONSOLIDATION_FORGET_THRESHOLD, 0.1),
+      promoteAccessCount: parse(process.env.CONSOLIDATION_PROMOTE_ACCESS_COUNT, 10),
+      promoteConnections: parse(process.env.CONSOLIDATION_PROMOTE_CONNECTIONS, 8),
+      intervalHours: parse(process.env.CONSOLIDATION_INTERVAL_HOURS, 0)
+    };
+  }
+  
+  // 1.0 right after a recall, 0.5 after one (access-extended) half-life. Memories created
+  // before access tracking existed decay from the start of tracking, not from their creation
+  static decayScore(
+    memory: { created_at: string; access_count: number; last_accessed_at: string | null; access_tracked_since?: string | null },
+    halfLifeDays: number,
+    now: number = Date.now()
+  ): number {
+    const reference = Math.max(
+      ...[memory.last_accessed_at, memory.created_at, memory.access_tracked_since]
+        .map(value => value ? new Date(value).getTime() : NaN)
+        .filter(time => !isNaN(time))
+    );
+    if (!isFinite(reference)) return 1;
+    
+    const days = Math.max(0, (now - reference) / 86400000);
+    const effectiveHalfLife = halfLifeDays * (1 + Math.log2(1 + (memory.access_count || 0)));
+    return Math.pow(0.5, days / effectiveHalfLife);
+  }
+  
+  start(): void {
+    if (this.timer || this.settings.intervalHours <= 0 || !this.db.getConsolidationCandidates) return;
+    
+    const intervalMs = this.settings.intervalHours * 3600000;
+    this.timer = setInterval(() => {
+      this.consolidate().catch((error) => {
+        Logger.error('Memory consolidation failed', { error: String(error) });
+      });
+    }, intervalMs);
+    this.timer.unref();
+    
+    Logger.info('Memory consolidation scheduled', { intervalHours: this.settings.intervalHours });
+  }
+  
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+  
+  async consolidate(options: { dryRun?: boolean } = {}): Promise<ConsolidationReport> {
+    const dryRun = options.dryRun ?? false;
+    const report: ConsolidationReport = {
+      dry_run: dryRun,
+      evaluated: 0,
+      promoted: [],
+      demoted: [],
+      settings: { ...this.settings },
+      errors: []
+    };
+    
+    if (!this.db.getConsolidationCandidates) {
+      throw new Error('Database does not support memory consolidation');
+    }
+    
+    // A dry run only reads, so it may overlap with a scheduled run
+    if (this.running && !dryRun) {
+      report.errors.push('Consolidation already running');
+      return report;
+    }
+    
+    if (!dryRun) this.running = true;
+    try {
+      Logger.separator(dryRun ? 'Memory Consolidation (dry run)' : 'Memory Consolidation');
+      
+      const memories = (await this.db.getConsolidationCandidates())
+        .filter(memory => !PROTECTED_CATEGORIES.includes(memory.category));
+      report.evaluated = memories.length;
+      
+      let connections = new Map<number, number>();
+      if (this.db.neo4jClient && memories.length > 0) {
+        try {
+          // SIMILAR_TO/SHARES_CONCEPT/FOLLOWS are created for every save and say nothing about importance
+          connections = await this.db.neo4jClient.getConnectionCounts(memories.map(memory => memory.id), AUTOMATIC_RELATIONSHIP_TYPES);
+        } catch (error) {
+          report.errors.push(`Neo4j: ${String(error)}`);
+        }
+      }
+      
+      const now = Date.now();
+      for (const memory of memories) {
+        const decayScore = MemoryConsolidator.decayScore(memory, this.settings.halfLifeDays, now);
+        const action = {
+          memory_id: memory.id,
+          topic: memory.topic,
+          from_category: memory.category,
+          decay_score: Math.round(decayScore * 1000) / 1000,
+          access_count: memory.access_count || 0,
+          connections: connections.get(memory.id) || 0
+        };
+        
+        if (action.access_count >= this.settings.promoteAccessCount || action.connections >= this.settings.promoteConnections) {
+          const reason = action.access_count >= this.settings.promoteAccessCount
+            ? `recalled ${action.access_count} times`
+            : `${action.connections} graph relationships`;
+          report.promoted.push({ ...action, to_category: 'kernerinnerungen', reason });
+        } else if (memory.category !== 'forgotten_memories' && decayScore < this.settings.forgetThreshold) {
+          report.demoted.push({ ...action, to_category: 'forgotten_memories', reason: `decay score ${action.decay_score}` });
+        }
+      }
+      
+      if (!dryRun) {
+        for (const action of [...report.promoted, ...report.demoted]) {
+          try {
+            await this.moveToCategory(action.memory_id, action.to_category);
+          } catch (error) {
+            report.errors.push(`Memory ${action.memory_id}: ${String(error)}`);
+          }
+        }
+      }
+      
+      Logger.info('Memory consolidation finished', {
+        dryRun,
+        evaluated: report.evaluated,
+        promoted: report.promoted.length,
+        demoted: report.demoted.length,
+        errors: report.errors.length
+      });
+      return report;
+    } finally {
+      if (!dryRun) this.running = false;
+    }
+  }
+  
+  // The cascade keeps the category of ChromaDB concepts and the Neo4j node in sync
+  private async moveToCategory(memoryId: number, category: string): Promise<void> {
+    if (this.db.updateMemoryCascade) {
+      const result = await this.db.updateMemoryCascade(memoryId, { category });
+      if (result.errors?.length > 0) throw new Error(result.errors.join(', '));
+      return;
+    }
+    
+    const result = await this.db.moveMemory(memoryId, category);
+    if (!result?.success) throw new Error(result?.message || 'Move failed');
+  }
+}
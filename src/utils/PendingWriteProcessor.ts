@@ -0,0 +1,193 @@
+import { IMemoryDatabase } from '../database/DatabaseFactory.js';
+import { Logger } from './Logger.js';
+
+export interface PendingWriteRunResult {
+  processed: number;
+  completed: number;
+  failed: number;
+}
+
+export interface InconsistentMemory {
+  memory_id: number;
+  topic: string;
+  in_sql: boolean;
+  writes: Array<{
+    id: number;
+    target: string;
+    status: string;
+    attempts: number;
+    last_error: string | null;
+    created_at: string;
+  }>;
+}
+
+// Pending Write Processor
+// Retries ChromaDB/Neo4j writes that failed during a memory save. The writes are
+// stored in the pending_writes outbox, so nothing is lost across restarts. When a
+// deferred ChromaDB write succeeds, the SQL removal skipped by routing is completed.
+// Short memories evicted from the FIFO are queued here as well and saved through
+// the save pipeline.
+export class PendingWriteProcessor {
+  private db: IMemoryDatabase;
+  private intervalMs: number;
+  private maxAttempts: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  
+  constructor(database: IMemoryDatabase, intervalMs?: number, maxAttempts?: number) {
+    this.db = database;
+    this.intervalMs = intervalMs ?? (parseInt(process.env.PENDING_WRITE_RETRY_INTERVAL_MS || '60000', 10) || 60000);
+    this.maxAttempts = Math.max(1, maxAttempts ?? (parseInt(process.env.PENDING_WRITE_MAX_ATTEMPTS || '5', 10) || 5));
+    
+    Logger.info('PendingWriteProcessor initialized', { intervalMs: this.intervalMs, maxAttempts: this.maxAttempts });
+  }
+  
+  start(): void {
+    if (this.timer || !this.db.getPendingWrites) return;
+    
+    this.timer = setInterval(() => {
+      this.processPendingWrites().catch((error) => {
+        Logger.error('Pending write processing failed', { error: String(error) });
+      });
+    }, this.intervalMs);
+    this.timer.unref();
+    
+    Logger.info('Pending write retries scheduled', { intervalMs: this.intervalMs });
+  }
+  
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+  
+  // Retry all pending writes once; writes that keep failing are marked failed after maxAttempts
+  async processPendingWrites(): Promise<PendingWriteRunResult> {
+    const runResult: PendingWriteRunResult = { processed: 0, completed: 0, failed: 0 };
+    
+    if (this.running || !this.db.getPendingWrites || !this.db.recordPendingWriteAttempt) {
+      return runResult;
+    }
+    
+    this.running = true;
+    try {
+      const writes = await this.db.getPendingWrites(['pending']);
+      if (writes.length === 0) return runResult;
+      
+      Logger.info('Retrying pending writes', { count: writes.length });
+      
+      for (const write of writes) {
+        runResult.processed++;
+        
+        try {
+          await this.retryWrite(write);
+          await this.db.recordPendingWriteAttempt(write.id, 'completed');
+          runResult.completed++;
+          Logger.success('Pending write completed', { id: write.id, memoryId: write.memory_id, target: write.target });
+        } catch (error) {
+          const status = write.attempts + 1 >= this.maxAttempts ? 'failed' : 'pending';
+          await this.db.recordPendingWriteAttempt(write.id, status, String(error));
+          if (status === 'failed') runResult.failed++;
+          
+          Logger.warn('Pending write retry failed', {
+            id: write.id,
+            memoryId: write.memory_id,
+            target: write.target,
+            attempts: write.attempts + 1,
+            status,
+            error: String(error)
+          });
+        }
+      }
+      
+      Logger.info('Pending write run finished', runResult);
+      return runResult;
+    } finally {
+      this.running = false;
+    }
+  }
+  
+  // Memories with pending or failed writes, i.e. missing from at least one store
+  async listInconsistentMemories(): Promise<InconsistentMemory[]> {
+    if (!this.db.getPendingWrites) return [];
+    
+    const writes = await this.db.getPendingWrites(['pending', 'failed'], 1000);
+    const byMemory = new Map<number, InconsistentMemory>();
+    
+    for (const write of writes) {
+      // Evicted short memories are not stored anywhere yet
+      if (write.target === 'short_memory') continue;
+      
+      let entry = byMemory.get(write.memory_id);
+      if (!entry) {
+        const sqlMemory = await this.db.getMemoryById(write.memory_id);
+        entry = {
+          memory_id: write.memory_id,
+          topic: sqlMemory?.topic || write.payload?.memory?.topic || '',
+          in_sql: !!sqlMemory,
+          writes: []
+        };
+        byMemory.set(write.memory_id, entry);
+      }
+      
+      entry.writes.push({
+        id: write.id,
+        target: write.target,
+        status: write.status,
+        attempts: write.attempts,
+        last_error: write.last_error,
+        created_at: String(write.created_at)
+      });
+    }
+    
+    return Array.from(byMemory.values());
+  }
+  
+  private async retryWrite(write: any): Promise<void> {
+    const { memory, concepts, remove_from_sql } = write.payload || {};
+    if (!memory) {
+      throw new Error('Pending write has no memory payload');
+    }
+    
+    if (write.target === 'chroma') {
+      if (!this.db.chromaClient) throw new Error('ChromaDB client not available');
+      
+      const result = await this.db.chromaClient.storeConcepts(memory, concepts || []);
+      if (!result.success || result.stored === 0) {
+        throw new Error(result.errors?.join(', ') || 'ChromaDB stored no concepts');
+      }
+      
+      // Complete the routing that was deferred while ChromaDB was failing
+      if (remove_from_sql) {
+        await this.db.deleteMemory(write.memory_id);
+        await this.db.recordRoutedMemory?.(write.memory_id, memory.category, memory.topic);
+        await this.db.addToShortMemory?.({
+          topic: memory.topic,
+          content: memory.content,
+          date: new Date().toISOString().split('T')[0],
+          source_memory_id: write.memory_id
+        });
+        Logger.info('Deferred SQL removal completed', { memoryId: write.memory_id });
+      }
+    } else if (write.target === 'neo4j') {
+      if (!this.db.neo4jClient) throw new Error('Neo4j client not available');
+      
+      const result = await this.db.neo4jClient.createMemoryNodeWithConcepts(memory, concepts || []);
+      if (!result.success) {
+        throw new Error(result.error || 'Neo4j node creation failed');
+      }
+    } else if (write.target === 'short_memory') {
+      if (!this.db.saveMemoryWithGraph) throw new Error('Save pipeline not available');
+      
+      // Retry only when nothing was saved; a later failing phase must not save the memory twice
+      const result = await this.db.saveMemoryWithGraph(write.payload.category || 'undefined', memory.topic, memory.content);
+      if (!result.memory_id && !result.success) {
+        throw new Error(result.error || 'Save pipeline failed');
+      }
+      Logger.info('Evicted short memory saved', { shortMemoryId: memory.short_memory_id, memoryId: result.memory_id });
+    } else {
+      throw new Error(`Unknown pending write target: ${write.target}`);
+    }
+  }
+}
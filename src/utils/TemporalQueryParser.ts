@@ -0,0 +1,237 @@
+// Temporal Query Parser
+// Finds a relative or absolute time expression in a German or English search
+// query ("last Tuesday", "erlebnisse from March", "vor zwei Wochen") and turns it
+// into an inclusive date range. The expression is removed from the query, so
+// full-text and vector search only see the topic words.
+export interface TemporalRange {
+  from: string;         // YYYY-MM-DD, inclusive
+  to: string;           // YYYY-MM-DD, inclusive
+  expression: string;   // the matched text as written in the query
+}
+
+export interface TemporalParseResult {
+  query: string;                 // query without the time expression
+  range: TemporalRange | null;
+}
+
+type Unit = 'day' | 'week' | 'month' | 'year';
+
+interface TemporalRule {
+  pattern: RegExp;
+  resolve(match: RegExpExecArray, today: Date): { from: Date; to: Date } | null;
+}
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6,
+  sonntag: 0, montag: 1, dienstag: 2, mittwoch: 3, donnerstag: 4, freitag: 5, samstag: 6, sonnabend: 6
+};
+
+const MONTHS: Record<string, number> = {
+  january: 0, february: 1, march: 2, april: 3, may: 4, june: 5,
+  july: 6, august: 7, september: 8, october: 9, november: 10, december: 11,
+  januar: 0, jänner: 0, februar: 1, märz: 2, maerz: 2, mai: 4, juni: 5,
+  juli: 6, oktober: 9, dezember: 11
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  ein: 1, einem: 1, einer: 1, eins: 1, zwei: 2, drei: 3, vier: 4, fünf: 5, sechs: 6, sieben: 7, acht: 8, neun: 9, zehn: 10, elf: 11, zwölf: 12
+};
+
+const UNITS: Array<[Unit, string]> = [
+  ['day', 'days?|tag(?:e|en)?'],
+  ['week', 'weeks?|woche(?:n)?'],
+  ['month', 'months?|monat(?:e|en)?'],
+  ['year', 'years?|jahr(?:e|en)?']
+];
+
+const NUMBER = `\\d{1,3}|${Object.keys(NUMBER_WORDS).join('|')}`;
+const UNIT = UNITS.map(([, source]) => source).join('|');
+const WEEKDAY = Object.keys(WEEKDAYS).join('|');
+const MONTH = Object.keys(MONTHS).join('|');
+
+// Prepositions that belong to the expression; "since"/"seit" extend the range to today
+const PREFIX = `(?:(since|seit|in|from|during|on|at|im|am|vom|von|aus|während|in der|in den|aus dem)\\s+)?`;
+
+export class TemporalQueryParser {
+  private static readonly RULES: TemporalRule[] = [
+    // 2025-03-14
+    {
+      pattern: TemporalQueryParser.expression(`(\\d{4})-(\\d{2})-(\\d{2})`),
+      resolve: (match) => TemporalQueryParser.day(TemporalQueryParser.date(+match[2], +match[3] - 1, +match[4]))
+    },
+    // 14.03.2025
+    {
+      pattern: TemporalQueryParser.expression(`(\\d{1,2})\\.(\\d{1,2})\\.(\\d{4})`),
+      resolve: (match) => TemporalQueryParser.day(TemporalQueryParser.date(+match[4], +match[3] - 1, +match[2]))
+    },
+    // vor 3 Tagen, vor zwei Wochen / 3 days ago, two weeks ago
+    {
+      pattern: TemporalQueryParser.expression(`(?:vor\\s+(${NUMBER})\\s+(${UNIT})|(${NUMBER})\\s+(${UNIT})\\s+ago)`),
+      resolve: (match, today) => {
+        const count = TemporalQueryParser.number(match[2] || match[4]);
+        const unit = TemporalQueryParser.unit(match[3] || match[5]);
+        return count === null || !unit ? null : TemporalQueryParser.period(TemporalQueryParser.shift(today, unit, -count), unit);
+      }
+    },
+    // letzten 7 Tage, in den vergangenen 2 Wochen / last 7 days, past two weeks
+    {
+      pattern: TemporalQueryParser.expression(`(?:last|past|letzte(?:n)?|vergangene(?:n)?)\\s+(${NUMBER})\\s+(${UNIT})`),
+      resolve: (match, today) => {
+        const count = TemporalQueryParser.number(match[2]);
+        const unit = TemporalQueryParser.unit(match[3]);
+        return count === null || !unit ? null : { from: TemporalQueryParser.shift(today, unit, -count), to: today };
+      }
+    },
+    // vorgestern / the day before yesterday
+    {
+      pattern: TemporalQueryParser.expression(`(?:vorgestern|(?:the\\s+)?day\\s+before\\s+yesterday)`),
+      resolve: (match, today) => TemporalQueryParser.day(TemporalQueryParser.shift(today, 'day', -2))
+    },
+    {
+      pattern: TemporalQueryParser.expression(`(?:gestern|yesterday)`),
+      resolve: (match, today) => TemporalQueryParser.day(TemporalQueryParser.shift(today, 'day', -1))
+    },
+    {
+      pattern: TemporalQueryParser.expression(`(?:heute|today)`),
+      resolve: (match, today) => TemporalQueryParser.day(today)
+    },
+    // letzten Dienstag, am Dienstag / last Tuesday, on Tuesday
+    {
+      pattern: TemporalQueryParser.expression(`(last|this|on|letzte(?:n)?|vergangene(?:n)?|diese(?:n)?|am)\\s+(${WEEKDAY})`, false),
+      resolve: (match, today) => {
+        const modifier = match[2].toLowerCase();
+        const target = WEEKDAYS[match[3].toLowerCase()];
+        let daysBack = (today.getDay() - target + 7) % 7;
+        if (daysBack === 0 && /^(last|letzte|vergangene)/.test(modifier)) daysBack = 7;
+        return TemporalQueryParser.day(TemporalQueryParser.shift(today, 'day', -daysBack));
+      }
+    },
+    // letzte Woche, diesen Monat, letztes Jahr / last week, this month, last year
+    {
+      pattern: TemporalQueryParser.expression(`(last|past|this|letzte(?:n|r|s|m)?|vergangene(?:n|r|s|m)?|diese(?:n|r|s|m)?)\\s+(${UNITS.map(([, source]) => source).join('|')})`),
+      resolve: (match, today) => {
+        const unit = TemporalQueryParser.unit(match[3]);
+        if (!unit || unit === 'day') return null;
+        const offset = /^(this|diese)/i.test(match[2]) ? 0 : -1;
+        return TemporalQueryParser.period(TemporalQueryParser.shift(today, unit, offset), unit);
+      }
+    },
+    // im März, from March, März 2025, March 2025 (a bare "may"/"march" is too often a verb)
+    {
+      pattern: TemporalQueryParser.expression(`(${MONTH})(?:\\s+(\\d{4}))?`),
+      resolve: (match, today) => {
+        if (!match[1] && !match[3]) return null;
+        const month = MONTHS[match[2].toLowerCase()];
+        // Without a year the most recent such month is meant
+        const year = match[3] ? +match[3] : (month > today.getMonth() ? today.getFullYear() - 1 : today.getFullYear());
+        return TemporalQueryParser.period(TemporalQueryParser.date(year, month, 1), 'month');
+      }
+    },
+    // im Jahr 2024, in 2024, seit 2023 (a bare number may be anything else)
+    {
+      pattern: TemporalQueryParser.expression(`(?:(jahr|year)\\s+)?((?:19|20)\\d{2})`),
+      resolve: (match) => match[1] || match[2]
+        ? TemporalQueryParser.period(TemporalQueryParser.date(+match[3], 0, 1), 'year')
+        : null
+    }
+  ];
+  
+  /**
+   * Extract the first time expression of a query; now is injectable for tests
+   */
+  static parse(query: string, now: Date = new Date()): TemporalParseResult {
+    const text = query || '';
+    const today = TemporalQueryParser.date(now.getFullYear(), now.getMonth(), now.getDate());
+    
+    for (const rule of this.RULES) {
+      rule.pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      
+      while ((match = rule.pattern.exec(text)) !== null) {
+        const resolved = rule.resolve(match, today);
+        if (!resolved || isNaN(resolved.from.getTime()) || isNaN(resolved.to.getTime())) continue;
+        
+        // "seit März" / "since last week": from the start of the expression until today
+        const since = /^(since|seit)$/i.test(match[1] || '');
+        const to = since || resolved.to > today ? today : resolved.to;
+        if (resolved.from > to) continue;
+        
+        const remaining = (text.slice(0, match.index) + ' ' + text.slice(match.index + match[0].length))
+          .replace(/\s+/g, ' ')
+          .trim();
+        
+        return {
+          query: remaining,
+          range: {
+            from: TemporalQueryParser.format(resolved.from),
+            to: TemporalQueryParser.format(to),
+            expression: match[0].trim()
+          }
+        };
+      }
+    }
+    
+    return { query: text, range: null };
+  }
+  
+  // Whole-word match with an optional leading preposition (group 1)
+  private static expression(source: string, allowPrefix: boolean = true): RegExp {
+    return new RegExp(`(?<![\\p{L}\\d])${allowPrefix ? PREFIX : '()'}(?:${source})(?![\\p{L}\\d])`, 'giu');
+  }
+  
+  private static date(year: number, month: number, day: number): Date {
+    const date = new Date(year, month, day);
+    // new Date() rolls 31.02. over into March; such input is no date
+    return date.getMonth() === ((month % 12) + 12) % 12 && date.getDate() === day ? date : new Date(NaN);
+  }
+  
+  private static day(date: Date): { from: Date; to: Date } {
+    return { from: date, to: date };
+  }
+  
+  // The calendar day, ISO week (Monday to Sunday), month or year containing the date
+  private static period(date: Date, unit: Unit): { from: Date; to: Date } {
+    const year = date.getFullYear();
+    const month = date.getMonth();
+    
+    switch (unit) {
+      case 'day':
+        return TemporalQueryParser.day(date);
+      case 'week': {
+        const monday = TemporalQueryParser.shift(date, 'day', -((date.getDay() + 6) % 7));
+        return { from: monday, to: TemporalQueryParser.shift(monday, 'day', 6) };
+      }
+      case 'month':
+        return { from: new Date(year, month, 1), to: new Date(year, month + 1, 0) };
+      case 'year':
+        return { from: new Date(year, 0, 1), to: new Date(year, 11, 31) };
+    }
+  }
+  
+  private static shift(date: Date, unit: Unit, amount: number): Date {
+    const shifted = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    switch (unit) {
+      case 'day': shifted.setDate(shifted.getDate() + amount); break;
+      case 'week': shifted.setDate(shifted.getDate() + amount * 7); break;
+      case 'month': shifted.setMonth(shifted.getMonth() + amount, 1); break;
+      case 'year': shifted.setFullYear(shifted.getFullYear() + amount); break;
+    }
+    return shifted;
+  }
+  
+  private static number(value: string): number | null {
+    const parsed = /^\d+$/.test(value) ? parseInt(value, 10) : NUMBER_WORDS[value.toLowerCase()];
+    return parsed > 0 ? parsed : null;
+  }
+  
+  private static unit(value: string): Unit | null {
+    const match = UNITS.find(([, source]) => new RegExp(`^(?:${source})$`, 'i').test(value));
+    return match ? match[0] : null;
+  }
+  
+  private static format(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+}
@@ -60,13 +60,210 @@ async function runDatabaseTests() {
       logTest('SQLite memory deletion', true);
     }
     
+    // Test FTS5 full-text search
+    const ftsFirst = await sqliteDb.saveNewMemory('faktenwissen', 'Quokka Habitat', 'Quokkas live on Rottnest Island near Perth');
+    const ftsSecond = await sqliteDb.saveNewMemory('erlebnisse', 'Island trip', 'We saw a quokka on the island of Rottnest');
+    
+    const rankedResults = await sqliteDb.searchMemoriesBasic('quokka');
+    logTest('SQLite FTS ranking', rankedResults.length >= 2 && rankedResults[0].id === ftsFirst.id && rankedResults[0].rank <= rankedResults[1].rank);
+    
+    const phraseResults = await sqliteDb.searchMemoriesBasic('"Rottnest Island"');
+    logTest('SQLite FTS phrase query', phraseResults.some(memory => memory.id === ftsFirst.id) && !phraseResults.some(memory => memory.id === ftsSecond.id));
+    
+    const prefixResults = await sqliteDb.searchMemoriesBasic('Rottn*', ['erlebnisse']);
+    logTest('SQLite FTS prefix query', prefixResults.length === 1 && prefixResults[0].id === ftsSecond.id && prefixResults[0].snippet.includes('**Rottnest**'));
+    
+    await sqliteDb.updateMemory(ftsSecond.id, { content: 'We saw a wombat instead' });
+    const afterUpdate = await sqliteDb.searchMemoriesBasic('quokka', ['erlebnisse']);
+    const afterUpdateNew = await sqliteDb.searchMemoriesBasic('wombat');
+    logTest('SQLite FTS update trigger', afterUpdate.length === 0 && afterUpdateNew.some(memory => memory.id === ftsSecond.id));
+    
+    await sqliteDb.deleteMemory(ftsFirst.id);
+    await sqliteDb.deleteMemory(ftsSecond.id);
+    const afterDelete = [...await sqliteDb.searchMemoriesBasic('Rottnest'), ...await sqliteDb.searchMemoriesBasic('wombat')];
+    logTest('SQLite FTS delete trigger', !afterDelete.some(memory => memory.id === ftsFirst.id || memory.id === ftsSecond.id));
+    
     // Test advanced features if available
     if (typeof sqliteDb.saveMemoryWithGraph === 'function') {
       logTest('SQLite advanced pipeline available', true);
     } else {
       logTest('SQLite advanced pipeline available', false, 'Method not found');
     }
+
+    // Test analysis job persistence
+    const jobId = await sqliteDb.createAnalysisJob([101, 102], 'batch');
+    logTest('SQLite analysis job creation', typeof jobId === 'string' && jobId.length > 0);
+
+    await sqliteDb.updateJobStatus(jobId, 'running');
+    await sqliteDb.saveAnalysisResult(jobId, 101, {
+      memory_type: 'faktenwissen',
+      confidence: 0.9,
+      mood: 'neutral',
+      keywords: ['sqlite'],
+      extracted_concepts: ['Job Store']
+    });
+    await sqliteDb.saveAnalysisResult(jobId, 102, { error: 'Memory 102 not found' }, 'not_found');
+    await sqliteDb.updateJobProgress(jobId, 1);
+
+    const job = await sqliteDb.getJobStatus(jobId);
+    logTest('SQLite analysis job status', job?.status === 'running' && job.progress_current === 1 && job.progress_total === 2 && !!job.started_at);
+
+    const jobResults = await sqliteDb.getAnalysisResults(jobId);
+    logTest('SQLite analysis results', jobResults.length === 2 && jobResults[0].extracted_concepts[0] === 'Job Store' && jobResults[0].metadata.mood === 'neutral');
+    logTest('SQLite analysis item status', jobResults[0].status === 'ok' && jobResults[1].status === 'not_found' && jobResults[1].error_message === 'Memory 102 not found');
+
+    await sqliteDb.updateJobStatus(jobId, 'completed');
+    const completedJob = await sqliteDb.getJobStatus(jobId);
+    logTest('SQLite analysis job completion', completedJob?.status === 'completed' && !!completedJob.completed_at);
+
+    // Test pending write outbox
+    const writeId = await sqliteDb.createPendingWrite(103, 'chroma', { memory: { id: 103, topic: 'Outbox' }, concepts: [], remove_from_sql: true });
+    const pendingWrites = await sqliteDb.getPendingWrites(['pending']);
+    const pendingWrite = pendingWrites.find(write => write.id === writeId);
+    logTest('SQLite pending write creation', !!pendingWrite && pendingWrite.payload.remove_from_sql === true && pendingWrite.attempts === 0);
+    
+    await sqliteDb.recordPendingWriteAttempt(writeId, 'failed', 'ChromaDB unavailable');
+    const failedWrites = await sqliteDb.getPendingWrites(['failed']);
+    const failedWrite = failedWrites.find(write => write.id === writeId);
+    logTest('SQLite pending write attempt', failedWrite?.attempts === 1 && failedWrite.last_error === 'ChromaDB unavailable');
+    
+    // Test routed memory registry
+    await sqliteDb.recordRoutedMemory(104, 'faktenwissen', 'Routed');
+    const routedIds = await sqliteDb.getRoutedMemoryIds();
+    const sqlIds = await sqliteDb.getAllMemoryIds();
+    logTest('SQLite routed memory registry', routedIds.includes(104) && Array.isArray(sqlIds) && !sqlIds.includes(104));
     
+    // Test cleanup used by cascade deletes
+    const cancelledWrites = await sqliteDb.cancelPendingWrites(103);
+    const removedRouted = await sqliteDb.deleteRoutedMemory(104);
+    const remainingWrites = await sqliteDb.getPendingWrites(['pending', 'failed']);
+    logTest('SQLite cascade cleanup', cancelledWrites >= 1 && removedRouted && !remainingWrites.some(write => write.memory_id === 103) && !(await sqliteDb.getRoutedMemoryIds()).includes(104));
+    
+    // Test access tracking (counters on the memory, events also for memories routed out of SQL)
+    const accessed = await sqliteDb.saveNewMemory('erlebnisse', 'Access Tracking', 'Recalled twice');
+    await sqliteDb.recordMemoryAccess([accessed.id, 105], { tool: 'recall_category', query: 'erlebnisse' });
+    await sqliteDb.recordMemoryAccess([accessed.id], { tool: 'search_memories_intelligent', query: 'recalled' });
+    const accessStats = await sqliteDb.getMemoryAccessStats([accessed.id, 105, 106]);
+    const accessedRow = (await sqliteDb.getConsolidationCandidates()).find(memory => memory.id === accessed.id);
+    logTest('SQLite access tracking', accessStats.get(accessed.id)?.access_count === 2 && accessStats.get(105)?.access_count === 1 &&
+      !accessStats.has(106) && accessedRow?.access_count === 2 && !!accessedRow.last_accessed_at && !!accessedRow.access_tracked_since);
+    await sqliteDb.deleteMemory(accessed.id);
+    
+    // Test session records and the memories touched in a session
+    const sessionId = `test-session-${Date.now()}`;
+    await sqliteDb.createSession(sessionId, 'Integration test');
+    await sqliteDb.recordSessionMemories(sessionId, [105, 106], 'recalled');
+    await sqliteDb.recordSessionMemories(sessionId, [105], 'recalled');
+    await sqliteDb.recordSessionMemories(sessionId, [105], 'saved');
+    const touched = await sqliteDb.getSessionMemories(sessionId);
+    const completed = await sqliteDb.completeSession(sessionId, 105);
+    const completedAgain = await sqliteDb.completeSession(sessionId, 106);
+    const session = await sqliteDb.getSession(sessionId);
+    logTest('SQLite session tracking', touched.length === 3 && completed && !completedAgain &&
+      session?.title === 'Integration test' && session.summary_memory_id === 105 && !!session.ended_at);
+    
+    // Test structured search filters on the full-text search
+    const filterA = await sqliteDb.saveNewMemory('prozedurales_wissen', 'Filter test Docker', 'Filtertest compose setup');
+    const filterB = await sqliteDb.saveNewMemory('erlebnisse', 'Filter test evening', 'Filtertest without containers');
+    const byCategory = await sqliteDb.searchMemoriesBasic('Filtertest', undefined, { categories: ['prozedurales_wissen'] });
+    const byKeyword = await sqliteDb.searchMemoriesBasic('Filtertest', undefined, { keywords: ['containers'] });
+    const byDate = await sqliteDb.searchMemoriesBasic('Filtertest', undefined, { dateTo: '2000-01-01' });
+    logTest('SQLite search filters', byCategory.length === 1 && byCategory[0].id === filterA.id &&
+      byKeyword.length === 1 && byKeyword[0].id === filterB.id && byDate.length === 0);
+    await sqliteDb.deleteMemory(filterA.id);
+    await sqliteDb.deleteMemory(filterB.id);
+    
+    // Test keyset paging: the next page starts after the anchor, also when the anchor was deleted meanwhile
+    const paged = [];
+    for (let i = 0; i < 3; i++) paged.push(await sqliteDb.saveNewMemory('prozedurales_wissen', `Paging test ${i}`, 'Pagingtest'));
+    const firstPage = await sqliteDb.getMemoriesByCategory('prozedurales_wissen', 2);
+    const anchor = { id: firstPage[1]?.id, created_at: firstPage[1]?.created_at };
+    const secondPage = await sqliteDb.getMemoriesByCategory('prozedurales_wissen', 2, anchor);
+    await sqliteDb.deleteMemory(paged[1].id);
+    const afterAnchorDeleted = await sqliteDb.getRecentMemories(1, anchor);
+    logTest('SQLite keyset paging', firstPage.map(m => m.id).join() === `${paged[2].id},${paged[1].id}` &&
+      secondPage[0]?.id === paged[0].id && !secondPage.some(m => m.id === paged[1].id) && afterAnchorDeleted[0]?.id === paged[0].id);
+    await sqliteDb.deleteMemory(paged[0].id);
+    await sqliteDb.deleteMemory(paged[2].id);
+    
+    // Test job processing against the job store (the analyzer is replaced, no LLM needed)
+    const { JobProcessor } = await import('../build/utils/JobProcessor.js');
+    const withAnalyzer = (processor, analyzeMemory) => { processor.analyzer = { analyzeMemory }; return processor; };
+    const delay = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+    const jobMemories = [];
+    for (let i = 0; i < 4; i++) jobMemories.push(await sqliteDb.saveNewMemory('faktenwissen', `Job test ${i}`, 'Jobtest'));
+    const jobMemoryIds = jobMemories.map(memory => memory.id);
+    
+    // Two workers run two jobs side by side
+    let activeItems = 0;
+    let maxActiveItems = 0;
+    const concurrentProcessor = withAnalyzer(new JobProcessor(sqliteDb, 'llama3.1:latest', 2), async () => {
+      maxActiveItems = Math.max(maxActiveItems, ++activeItems);
+      await delay(20);
+      activeItems--;
+      return { memory_type: 'faktenwissen', confidence: 0.8 };
+    });
+    const concurrentJobs = [
+      await sqliteDb.createAnalysisJob(jobMemoryIds.slice(0, 2), 'batch'),
+      await sqliteDb.createAnalysisJob(jobMemoryIds.slice(2), 'batch')
+    ];
+    await Promise.all(concurrentJobs.map(id => concurrentProcessor.processJob(id)));
+    const concurrentStates = await Promise.all(concurrentJobs.map(id => sqliteDb.getJobStatus(id)));
+    logTest('SQLite concurrent job workers', maxActiveItems === 2 &&
+      concurrentStates.every(state => state.status === 'completed' && state.progress_current === 2));
+    
+    // A job interrupted by a restart continues after its stored progress
+    const analyzedIds = [];
+    const recoveryProcessor = withAnalyzer(new JobProcessor(sqliteDb, 'llama3.1:latest', 1), async (memory) => {
+      analyzedIds.push(memory.id);
+      return { memory_type: 'faktenwissen', confidence: 0.8 };
+    });
+    const interruptedJob = await sqliteDb.createAnalysisJob(jobMemoryIds.slice(0, 3), 'batch');
+    await sqliteDb.updateJobStatus(interruptedJob, 'running');
+    await sqliteDb.updateJobProgress(interruptedJob, 1);
+    const recoveredCount = await recoveryProcessor.recoverInterruptedJobs();
+    await recoveryProcessor.processJob(interruptedJob);
+    const recoveredJob = await sqliteDb.getJobStatus(interruptedJob);
+    logTest('SQLite job recovery from progress', recoveredCount >= 1 && analyzedIds.join() === jobMemoryIds.slice(1, 3).join() &&
+      recoveredJob.status === 'completed' && recoveredJob.progress_current === 3);
+    
+    // Pause, cancel and retry; a failed-item retry only revisits the failed memory
+    let failNext = true;
+    const controlProcessor = withAnalyzer(new JobProcessor(sqliteDb, 'llama3.1:latest', 1), async (memory) => {
+      if (memory.id === jobMemoryIds[1] && failNext) {
+        failNext = false;
+        return { error: 'LLM unavailable', error_type: 'llm_error' };
+      }
+      return { memory_type: 'faktenwissen', confidence: 0.8 };
+    });
+    const controlJob = await sqliteDb.createAnalysisJob(jobMemoryIds.slice(0, 2), 'batch');
+    const paused = await controlProcessor.pauseJob(controlJob);
+    const pausedAgain = await controlProcessor.pauseJob(controlJob);
+    const failedRetryWhilePaused = await controlProcessor.retryFailedItems(controlJob);
+    const cancelled = await controlProcessor.cancelJob(controlJob);
+    const resumed = await controlProcessor.retryJob(controlJob);
+    await controlProcessor.processJob(controlJob);
+    const firstRunResults = await sqliteDb.getAnalysisResults(controlJob);
+    const retriedItems = await controlProcessor.retryFailedItems(controlJob);
+    await controlProcessor.processJob(controlJob);
+    const retriedJob = await sqliteDb.getJobStatus(controlJob);
+    const retriedResults = await sqliteDb.getAnalysisResults(controlJob);
+    logTest('SQLite job control transitions', paused.status === 'paused' && !pausedAgain.success && !failedRetryWhilePaused.success &&
+      cancelled.status === 'cancelled' && resumed.status === 'pending' &&
+      firstRunResults.find(result => result.memory_id === jobMemoryIds[1])?.status === 'llm_error' &&
+      retriedItems.retryCount === 1 && retriedJob.status === 'completed' && retriedJob.progress_current === 2 &&
+      retriedResults.every(result => result.status === 'ok'));
+    
+    // The retry set is stored as pending results and survives a restart
+    await sqliteDb.markAnalysisResultsPending(controlJob, [jobMemoryIds[0]]);
+    await sqliteDb.updateJobStatus(controlJob, 'pending');
+    analyzedIds.length = 0;
+    await recoveryProcessor.recoverInterruptedJobs();
+    await recoveryProcessor.processJob(controlJob);
+    logTest('SQLite failed-item retry recovery', analyzedIds.join() === String(jobMemoryIds[0]) &&
+      (await sqliteDb.getJobStatus(controlJob)).status === 'completed');
+    for (const memory of jobMemories) await sqliteDb.deleteMemory(memory.id);
+
   } catch (error) {
     logTest('SQLite database tests', false, error.message);
   }
@@ -93,6 +290,22 @@ async function runDatabaseTests() {
       logTest('PostgreSQL memory deletion', true);
     }
     
+    // Test text search language detection used by POSTGRES_TEXT_SEARCH_CONFIG=auto
+    const { LanguageDetector } = await import('../build/utils/LanguageDetector.js');
+    logTest('Text search language detection',
+      LanguageDetector.detect('Wir haben heute die Datenbank migriert und sie läuft') === 'german' &&
+      LanguageDetector.detect('We migrated the database and it is running') === 'english' &&
+      LanguageDetector.detect('Docker Compose') === 'simple');
+    
+    // Test stemming, ranking and headlines (the factory may fall back to SQLite)
+    if (postgresDb.constructor.name === 'PostgreSQLDatabaseRefactored') {
+      const stemmed = await postgresDb.saveNewMemory('erlebnisse', 'Umzug', 'Wir haben die Häuser in der Straße gestrichen');
+      const stemmedResults = await postgresDb.searchMemoriesBasic('Haus');
+      const stemmedHit = stemmedResults.find(memory => memory.id === stemmed.id);
+      logTest('PostgreSQL language-aware search', !!stemmedHit && stemmedHit.rank > 0 && stemmedHit.snippet.includes('**'));
+      await postgresDb.deleteMemory(stemmed.id);
+    }
+    
     // Test PostgreSQL-specific features
     if (typeof postgresDb.getGraphStatistics === 'function') {
       try {
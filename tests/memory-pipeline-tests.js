@@ -11,6 +11,7 @@
 import { fileURLToPath } from 'url';
 import path from 'path';
 import dotenv from 'dotenv';
+import Database from 'better-sqlite3';
 
 // Load environment variables
 const __filename = fileURLToPath(import.meta.url);
@@ -20,6 +21,15 @@ dotenv.config({ path: envPath });
 
 import { DatabaseFactory } from '../build/database/DatabaseFactory.js';
 import { Neo4jClient } from '../build/database/Neo4jClient.js';
+import { MemorySavePipeline, SignificancePhase, RoutingPhase, RelationInferencePhase, ContradictionCheckPhase, DuplicateCheckPhase } from '../build/database/MemorySavePipeline.js';
+import { MemoryPipelineBase } from '../build/database/MemoryPipelineBase.js';
+import { PendingWriteProcessor } from '../build/utils/PendingWriteProcessor.js';
+import { ConsistencyChecker } from '../build/utils/ConsistencyChecker.js';
+import { MemoryConsolidator } from '../build/utils/MemoryConsolidator.js';
+import { RelationshipBuilder } from '../build/database/RelationshipBuilder.js';
+import { ShortMemoryManager } from '../build/database/ShortMemoryManager.js';
+import { SearchFusion } from '../build/database/SearchFusion.js';
+import { SearchCursorStore } from '../build/database/SearchCursor.js';
 import { Logger } from '../build/utils/Logger.js';
 import { ContainerManager } from '../build/utils/ContainerManager.js';
 
@@ -217,6 +227,16 @@ class MemoryPipelineTests {
       await neo4jClient.createMemoryNode(testMemory2);
       await neo4jClient.createRelationship('123', '124', 'RELATED_TO', { strength: 0.8 });
       
+      // Test concept nodes shared between memories (titles are merged after normalization)
+      await neo4jClient.linkConcepts(123, [{ concept_title: 'Graph Testing', confidence: 0.9, keywords: ['neo4j'] }]);
+      await neo4jClient.linkConcepts(124, [{ concept_title: ' graph  testing', confidence: 0.6 }]);
+      
+      const conceptSearch = await neo4jClient.searchMemoriesBySemanticConcepts(['Graph Testing']);
+      const cluster = await neo4jClient.findMemoriesInConceptCluster(123, 1);
+      if (conceptSearch.memories.length < 2 || !cluster.memories.some(memory => Number(memory.id) === 124)) {
+        throw new Error('Memories mentioning the same concept should be found via the Concept node');
+      }
+      
       // Test memory search and statistics
       const stats = await neo4jClient.getMemoryStatistics();
       
@@ -395,6 +415,898 @@ class MemoryPipelineTests {
     await db.close();
   }
 
+  createMockPipelineHost(analysis, significance = { significant: false, reason: 'mock' }, chromaSucceeds = true) {
+    const host = {
+      memories: new Map(),
+      shortMemories: [],
+      pendingWrites: [],
+      nextId: 1,
+      analyzer: {
+        extractAndAnalyzeConcepts: async () => analysis,
+        evaluateSignificance: async () => significance
+      },
+      chromaClient: {
+        storeConcepts: async (memory, concepts) => chromaSucceeds
+          ? { success: true, stored: concepts.length, errors: [] }
+          : { success: false, stored: 0, errors: ['ChromaDB unavailable'] }
+      },
+      neo4jClient: null,
+      saveNewMemory: async (category, topic, content) => {
+        const memory = { id: host.nextId++, category, topic, content, date: '2025-01-01' };
+        host.memories.set(memory.id, memory);
+        return memory;
+      },
+      getMemoryById: async (id) => host.memories.get(id) || null,
+      updateMemory: async (id, updates) => {
+        Object.assign(host.memories.get(id), updates);
+        return { changedRows: 1 };
+      },
+      deleteMemory: async (id) => host.memories.delete(id),
+      addToShortMemory: async (memory) => { host.shortMemories.push(memory); },
+      createPendingWrite: async (memoryId, target, payload) => {
+        host.pendingWrites.push({ id: host.pendingWrites.length + 1, memory_id: memoryId, target, payload, status: 'pending', attempts: 0 });
+        return host.pendingWrites.length;
+      }
+    };
+    return host;
+  }
+  
+  // Backend built on the shared base class, backed by the mock host's in-memory stores;
+  // overrides replace single methods or set clients (analyzer, chromaClient, neo4jClient, ...)
+  createPipelineDatabase(host, overrides = {}) {
+    class PipelineTestDatabase extends MemoryPipelineBase {
+      saveNewMemory = host.saveNewMemory;
+      getMemoryById = host.getMemoryById;
+      updateMemory = host.updateMemory;
+      deleteMemory = host.deleteMemory;
+      createPendingWrite = host.createPendingWrite;
+      getPendingWrites = async (statuses = ['pending']) => host.pendingWrites.filter(write => statuses.includes(write.status));
+      recordPendingWriteAttempt = async (id, status) => {
+        const write = host.pendingWrites.find(entry => entry.id === id);
+        Object.assign(write, { status, attempts: write.attempts + 1 });
+      };
+      searchMemoriesBasic = async () => [];
+      getMemoriesByCategory = async () => [];
+    }
+    return Object.assign(new PipelineTestDatabase(), overrides);
+  }
+  
+  async testSavePipelinePhases() {
+    // Semantic memory types are routed out of SQL into short memory
+    const factHost = this.createMockPipelineHost({
+      semantic_concepts: [{ concept_title: 'Fact', memory_type: 'faktenwissen', confidence: 0.9 }]
+    });
+    const factContext = await new MemorySavePipeline().execute(
+      MemorySavePipeline.createContext('undefined', 'Pipeline Fact', 'A fact about pipelines'), factHost
+    );
+    if (factContext.keepInSQL || factHost.memories.size !== 0 || factHost.shortMemories.length !== 1) {
+      throw new Error('faktenwissen should be removed from SQL and added to short memory');
+    }
+    
+    // Significant experiences stay in SQL with the LLM-determined category
+    const experienceHost = this.createMockPipelineHost(
+      { semantic_concepts: [{ concept_title: 'Experience', memory_type: 'erlebnisse', confidence: 0.8 }] },
+      { significant: true, reason: 'important' }
+    );
+    const experienceContext = await new MemorySavePipeline().execute(
+      MemorySavePipeline.createContext('undefined', 'Pipeline Experience', 'Something happened'), experienceHost
+    );
+    if (!experienceContext.keepInSQL || experienceHost.memories.get(experienceContext.memoryId)?.category !== 'erlebnisse') {
+      throw new Error('Significant erlebnisse should stay in SQL with updated category');
+    }
+    
+    // A failed analysis halts the pipeline and keeps the memory in SQL
+    const failedHost = this.createMockPipelineHost({ error: 'LLM unavailable' });
+    const failedContext = await new MemorySavePipeline().execute(
+      MemorySavePipeline.createContext('humor', 'Pipeline Failure', 'Analysis fails'), failedHost
+    );
+    if (!failedContext.halted || failedHost.memories.size !== 1 || failedHost.shortMemories.length !== 0) {
+      throw new Error('Failed analysis should halt the pipeline and keep the memory in SQL');
+    }
+    
+    // A failed ChromaDB write defers the SQL removal and is recorded in the outbox
+    const chromaDownHost = this.createMockPipelineHost(
+      { semantic_concepts: [{ concept_title: 'Fact', memory_type: 'faktenwissen', confidence: 0.9 }] },
+      undefined,
+      false
+    );
+    const chromaDownContext = await new MemorySavePipeline().execute(
+      MemorySavePipeline.createContext('faktenwissen', 'Pipeline Outbox', 'ChromaDB is down'), chromaDownHost
+    );
+    const chromaWrite = chromaDownHost.pendingWrites.find(write => write.target === 'chroma');
+    if (!chromaDownContext.sqlDeleteDeferred || chromaDownHost.memories.size !== 1 || !chromaWrite?.payload.remove_from_sql) {
+      throw new Error('faktenwissen must stay in SQL with a pending ChromaDB write when ChromaDB fails');
+    }
+    
+    // Single phases run on a hand-built context
+    const routingHost = this.createMockPipelineHost({});
+    const routingContext = MemorySavePipeline.createContext('humor', 'Routing', 'Routing only');
+    routingContext.memoryId = 42;
+    routingContext.memoryType = 'humor';
+    routingContext.stored_in_chroma = true;
+    await new SignificancePhase().run(routingContext, routingHost);
+    await new RoutingPhase().run(routingContext, routingHost);
+    if (routingContext.keepInSQL || !routingContext.stored_in_short_memory) {
+      throw new Error('Non-significant memory should be routed to short memory');
+    }
+    
+    // Additional phases can be inserted relative to existing ones
+    const pipeline = new MemorySavePipeline();
+    pipeline.addPhase({ name: 'custom', run: async (context) => { context.extras.custom = true; } }, { before: 'route' });
+    const phaseNames = pipeline.getPhaseNames();
+    if (phaseNames[phaseNames.indexOf('route') - 1] !== 'custom') {
+      throw new Error(`Custom phase inserted at wrong position: ${phaseNames.join(', ')}`);
+    }
+  }
+  
+  async testPendingWriteRetry() {
+    const host = this.createMockPipelineHost(
+      { semantic_concepts: [{ concept_title: 'Fact', memory_type: 'faktenwissen', confidence: 0.9 }] },
+      undefined,
+      false
+    );
+    await new MemorySavePipeline().execute(
+      MemorySavePipeline.createContext('faktenwissen', 'Retry Outbox', 'Retried later'), host
+    );
+    
+    // Minimal database exposing the outbox methods on top of the mock host
+    const db = {
+      ...host,
+      getPendingWrites: async (statuses = ['pending']) => host.pendingWrites.filter(write => statuses.includes(write.status)),
+      recordPendingWriteAttempt: async (id, status, errorMessage) => {
+        const write = host.pendingWrites.find(entry => entry.id === id);
+        Object.assign(write, { status, attempts: write.attempts + 1, last_error: errorMessage ?? null });
+      }
+    };
+    const processor = new PendingWriteProcessor(db, 60000, 2);
+    
+    // Still failing: the write stays pending, then fails permanently at the attempt limit
+    const firstRun = await processor.processPendingWrites();
+    const listed = await processor.listInconsistentMemories();
+    if (firstRun.completed !== 0 || listed.length !== 1 || !listed[0].in_sql) {
+      throw new Error('Failed retry should leave the memory listed as inconsistent');
+    }
+    
+    // ChromaDB recovers: the write completes and the deferred SQL removal runs
+    host.pendingWrites[0].attempts = 0;
+    db.chromaClient = { storeConcepts: async (memory, concepts) => ({ success: true, stored: concepts.length, errors: [] }) };
+    const secondRun = await processor.processPendingWrites();
+    if (secondRun.completed !== 1 || host.memories.size !== 0 || (await processor.listInconsistentMemories()).length !== 0) {
+      throw new Error('Successful retry should complete the write and remove the memory from SQL');
+    }
+    
+    // The short memory copy points at the stored memory, like a copy made by the routing phase
+    const shortCopy = host.shortMemories.find(entry => entry.topic === 'Retry Outbox');
+    if (!shortCopy || shortCopy.source_memory_id !== host.pendingWrites[0].memory_id) {
+      throw new Error('Deferred SQL removal should link the short memory copy to its memory');
+    }
+  }
+
+  async testConsistencyChecker() {
+    const memories = new Map([[1, { id: 1, topic: 'Indexed', category: 'erlebnisse' }], [2, { id: 2, topic: 'Not indexed', category: 'humor' }]]);
+    const chromaConcepts = [
+      { id: 'memory_1_concept_1', source_memory_id: 1, memory_type: 'erlebnisse' },
+      { id: 'memory_3_concept_1', source_memory_id: 3, memory_type: 'humor' },        // routed out of SQL
+      { id: 'memory_4_concept_1', source_memory_id: 4, memory_type: 'faktenwissen' }, // semantic type, never in SQL
+      { id: 'memory_9_concept_1', source_memory_id: 9, memory_type: 'erlebnisse' }    // orphan
+    ];
+    let neo4jNodes = [
+      { id: 1, category: 'erlebnisse' },
+      { id: 3, category: 'humor' },
+      { id: 4, category: 'prozedurales_wissen' }, // semantic type, never in SQL
+      { id: 8, category: 'erlebnisse' }            // orphan
+    ];
+    
+    const db = {
+      analyzer: {
+        extractAndAnalyzeConcepts: async () => ({ semantic_concepts: [{ concept_title: 'Reindexed', concept_description: 'Reindexed', memory_type: 'humor' }] })
+      },
+      chromaClient: {
+        getConceptSources: async () => ({ sources: [...chromaConcepts] }),
+        deleteConcepts: async (ids) => {
+          ids.forEach(id => chromaConcepts.splice(chromaConcepts.findIndex(concept => concept.id === id), 1));
+          return { success: true, deleted: ids.length };
+        },
+        storeConcepts: async (memory, concepts) => {
+          chromaConcepts.push({ id: `memory_${memory.id}_concept_1`, source_memory_id: memory.id, memory_type: concepts[0].memory_type });
+          return { success: true, stored: concepts.length, errors: [] };
+        }
+      },
+      neo4jClient: {
+        getMemoryNodeSources: async () => neo4jNodes.map(node => ({ ...node })),
+        deleteMemory: async (id) => { neo4jNodes = neo4jNodes.filter(node => node.id !== id); }
+      },
+      getAllMemoryIds: async () => Array.from(memories.keys()),
+      getRoutedMemoryIds: async () => [3],
+      getMemoryById: async (id) => memories.get(id) || null
+    };
+    
+    const checker = new ConsistencyChecker(db);
+    const report = await checker.verify();
+    if (report.orphaned_concepts.length !== 1 || report.orphaned_concepts[0].source_memory_id !== 9) {
+      throw new Error(`Expected one orphaned concept for memory 9, got ${JSON.stringify(report.orphaned_concepts)}`);
+    }
+    if (report.orphaned_nodes.length !== 1 || report.orphaned_nodes[0] !== 8) {
+      throw new Error(`Expected orphaned Neo4j node 8, got ${JSON.stringify(report.orphaned_nodes)}`);
+    }
+    if (report.missing_vectors.length !== 1 || report.missing_vectors[0].memory_id !== 2) {
+      throw new Error(`Expected memory 2 without vectors, got ${JSON.stringify(report.missing_vectors)}`);
+    }
+    
+    const repaired = await checker.verify({ reindexMissing: true, deleteOrphans: true });
+    if (repaired.repair.concepts_deleted !== 1 || repaired.repair.nodes_deleted !== 1 || repaired.repair.memories_reindexed !== 1) {
+      throw new Error(`Unexpected repair result: ${JSON.stringify(repaired.repair)}`);
+    }
+    
+    const afterRepair = await checker.verify();
+    if (afterRepair.orphaned_concepts.length + afterRepair.orphaned_nodes.length + afterRepair.missing_vectors.length !== 0) {
+      throw new Error('Stores should be consistent after repair');
+    }
+  }
+
+  async testCascadeDeleteAndUpdate() {
+    const host = this.createMockPipelineHost({
+      semantic_concepts: [{ concept_title: 'Updated', concept_description: 'Updated concept', memory_type: 'erlebnisse' }]
+    });
+    const concepts = [
+      { id: 'memory_1_concept_1', source_memory_id: 1 },
+      { id: 'memory_2_concept_1', source_memory_id: 2 },
+      { id: 'memory_3_concept_1', source_memory_id: 3 }
+    ];
+    const nodes = new Map([[1, { topic: 'First' }], [2, { topic: 'Second' }], [3, { topic: 'Routed' }]]);
+    const routed = new Set([3]);
+    
+    const db = this.createPipelineDatabase(host, {
+      addToShortMemory: host.addToShortMemory,
+      deleteRoutedMemory: async (id) => routed.delete(id),
+      cancelPendingWrites: async () => 0,
+      analyzer: host.analyzer,
+      chromaClient: {
+        storeConcepts: async (memory, newConcepts) => {
+          newConcepts.forEach((concept, index) => concepts.push({ id: `memory_${memory.id}_concept_new_${index}`, source_memory_id: memory.id }));
+          return { success: true, stored: newConcepts.length, errors: [] };
+        },
+        deleteConceptsByMemoryId: async (memoryId) => {
+          const before = concepts.length;
+          concepts.splice(0, concepts.length, ...concepts.filter(concept => concept.source_memory_id !== memoryId));
+          return { success: true, deleted: before - concepts.length };
+        },
+        updateConceptSource: async () => ({ success: true, updated: 0 })
+      },
+      neo4jClient: {
+        deleteMemory: async (id) => { nodes.delete(id); },
+        updateMemoryNode: async (id, updates) => {
+          if (!nodes.has(id)) return false;
+          Object.assign(nodes.get(id), Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)));
+          return true;
+        },
+        replaceMemoryConcepts: async (id, newConcepts) => {
+          nodes.get(id).concepts = newConcepts.map(concept => concept.concept_title);
+          return newConcepts.length;
+        }
+      }
+    });
+    
+    await host.saveNewMemory('erlebnisse', 'First', 'Original content');
+    await host.saveNewMemory('humor', 'Second', 'Second content');
+    
+    // Content updates replace the concepts and update the graph node
+    const updateResult = await db.updateMemoryCascade(1, { content: 'New content' });
+    const memoryOneConcepts = concepts.filter(concept => concept.source_memory_id === 1);
+    if (!updateResult.reindexed || updateResult.concepts_deleted !== 1 || memoryOneConcepts.length !== 1 || memoryOneConcepts[0].id === 'memory_1_concept_1') {
+      throw new Error(`Content update should replace the concepts: ${JSON.stringify(updateResult)}`);
+    }
+    if (nodes.get(1).content !== 'New content' || nodes.get(1).concepts?.[0] !== 'Updated') {
+      throw new Error('Content update should update the Neo4j node');
+    }
+    
+    // Deletes remove the SQL row, the concepts and the node
+    const deleteResult = await db.deleteMemoryCascade(2);
+    if (!deleteResult.found || !deleteResult.deleted_from_sql || deleteResult.concepts_deleted !== 1 || nodes.has(2) || host.memories.has(2)) {
+      throw new Error(`Delete should cascade to all stores: ${JSON.stringify(deleteResult)}`);
+    }
+    
+    // Memories routed out of SQL are still found and removed from the registry
+    const routedResult = await db.deleteMemoryCascade(3);
+    if (!routedResult.found || routedResult.deleted_from_sql || routed.has(3) || nodes.has(3)) {
+      throw new Error(`Routed memory should be deleted from ChromaDB/Neo4j: ${JSON.stringify(routedResult)}`);
+    }
+    
+    const missingResult = await db.deleteMemoryCascade(99);
+    if (missingResult.found) {
+      throw new Error('Unknown memory should not be reported as found');
+    }
+  }
+
+  async testRelationshipBuilder() {
+    const created = [];
+    let failFollows = false;
+    const chromaClient = {
+      findSimilarMemories: async () => ({
+        matches: [
+          { memory_id: 2, similarity: 0.91, concept_title: 'Neural Networks' },
+          { memory_id: 3, similarity: 0.5, concept_title: 'Cooking' }
+        ]
+      })
+    };
+    const neo4jClient = {
+      findMemoriesSharingConcepts: async () => [{ memory_id: 4, shared_concepts: ['machine learning', 'python'], score: 0.5 }],
+      findPreviousMemory: async () => ({ memory_id: 5, created_at: '2025-01-01T06:00:00.000Z' }),
+      createRelationships: async (memoryId, relationships) => {
+        // FOLLOWS edges fail while failFollows is set, the others are still created
+        const outcomes = relationships.map(relationship => ({ ...relationship, created: !(failFollows && relationship.relationshipType === 'FOLLOWS') }));
+        created.push(...outcomes.filter(outcome => outcome.created));
+        const errors = outcomes.filter(outcome => !outcome.created).map(outcome => `Failed to create ${outcome.relationshipType}`);
+        return { success: errors.length === 0, relationshipsCreated: created.length, outcomes, errors: errors.length > 0 ? errors : undefined };
+      }
+    };
+    
+    const builder = new RelationshipBuilder(chromaClient, neo4jClient, {
+      similarity: 0.75, maxSimilar: 5, minSharedConcepts: 1, followsWindowHours: 24
+    });
+    const result = await builder.build({ id: 1, created_at: '2025-01-01T12:00:00.000Z' });
+    
+    // Edges below the similarity threshold are dropped, every edge carries its real score
+    if (!result.success || result.relationshipsCreated !== 3 || created.some(edge => edge.targetId === 3)) {
+      throw new Error(`Unexpected build result: ${JSON.stringify(result)}`);
+    }
+    const byType = Object.fromEntries(created.map(edge => [edge.relationshipType, edge]));
+    if (byType.SIMILAR_TO?.targetId !== 2 || byType.SIMILAR_TO.properties.similarity_score !== 0.91) {
+      throw new Error('SIMILAR_TO should carry the embedding similarity');
+    }
+    if (byType.SHARES_CONCEPT?.targetId !== 4 || byType.SHARES_CONCEPT.properties.shared_count !== 2) {
+      throw new Error('SHARES_CONCEPT should carry the shared concepts');
+    }
+    if (byType.FOLLOWS?.targetId !== 5 || byType.FOLLOWS.properties.gap_hours !== 6 || byType.FOLLOWS.properties.score !== 0.75) {
+      throw new Error('FOLLOWS should carry the time gap');
+    }
+    
+    // Memories outside the time window get no FOLLOWS edge
+    created.length = 0;
+    const lateResult = await builder.build({ id: 1, created_at: '2025-01-03T12:00:00.000Z' });
+    if (lateResult.byType.FOLLOWS !== 0 || created.some(edge => edge.relationshipType === 'FOLLOWS')) {
+      throw new Error('FOLLOWS should respect the time window');
+    }
+    
+    // A partial failure still counts the edges that were created
+    created.length = 0;
+    failFollows = true;
+    const partialResult = await builder.build({ id: 1, created_at: '2025-01-01T12:00:00.000Z' });
+    if (partialResult.success || partialResult.byType.SIMILAR_TO !== 1 || partialResult.byType.SHARES_CONCEPT !== 1 || partialResult.byType.FOLLOWS !== 0) {
+      throw new Error(`Partial failure should count created edges per type: ${JSON.stringify(partialResult.byType)}`);
+    }
+  }
+
+  async testRelationInferencePhase() {
+    const host = this.createMockPipelineHost({});
+    const created = [];
+    let classifiedCandidates = [];
+    host.analyzer.classifyRelationships = async (memory, candidates) => {
+      classifiedCandidates = candidates;
+      return {
+        relationships: [
+          { id: 2, relationship_type: 'CAUSES', outgoing: true, confidence: 0.9, justification: 'The procedure fixed the incident' },
+          { id: 3, relationship_type: 'REFLECTS_ON', outgoing: false, confidence: 0.8, justification: 'Reflection about the new memory' },
+          { id: 4, relationship_type: 'REFINES', outgoing: true, confidence: 0.3, justification: 'Weak guess' }
+        ]
+      };
+    };
+    host.chromaClient.findSimilarMemories = async () => ({
+      matches: [2, 3, 4].map(id => ({ memory_id: id, similarity: 0.8, concept_title: 'Incident' }))
+    });
+    host.neo4jClient = {
+      getMemoriesByIds: async (ids) => ids.map(id => ({ id, topic: `Memory ${id}`, content: 'content', category: 'erlebnisse' })),
+      createRelationship: async (fromId, toId, type, properties) => { created.push({ fromId, toId, type, properties }); }
+    };
+    
+    const pipeline = new MemorySavePipeline();
+    pipeline.addPhase(new RelationInferencePhase({ topK: 3, minConfidence: 0.6 }), { after: 'store_graph' });
+    if (pipeline.getPhaseNames().indexOf('infer_relationships') !== pipeline.getPhaseNames().indexOf('store_graph') + 1) {
+      throw new Error('Inference phase should run after store_graph');
+    }
+    
+    const context = MemorySavePipeline.createContext('prozedurales_wissen', 'Fix', 'Restarted the service');
+    context.memoryId = 1;
+    context.stored_in_neo4j = true;
+    await new RelationInferencePhase({ topK: 3, minConfidence: 0.6 }).run(context, host);
+    
+    // Low-confidence relations are dropped, direction follows the classification
+    if (classifiedCandidates.length !== 3 || created.length !== 2 || context.relationships_created !== 2) {
+      throw new Error(`Unexpected inference result: ${JSON.stringify(created)}`);
+    }
+    const causes = created.find(edge => edge.type === 'CAUSES');
+    const reflects = created.find(edge => edge.type === 'REFLECTS_ON');
+    if (causes?.fromId !== 1 || causes.toId !== 2 || causes.properties.confidence !== 0.9 || causes.properties.inferred_by !== 'llm') {
+      throw new Error('CAUSES should point from the new memory with its confidence');
+    }
+    if (reflects?.fromId !== 3 || reflects.toId !== 1) {
+      throw new Error('Incoming relations should point to the new memory');
+    }
+    
+    // Without a graph node there is nothing to link
+    const unstored = MemorySavePipeline.createContext('erlebnisse', 'Other', 'Not in Neo4j');
+    await new RelationInferencePhase().run(unstored, host);
+    if (unstored.relationships_created !== 0) {
+      throw new Error('Inference should be skipped when the memory is not in Neo4j');
+    }
+  }
+
+  async testContradictionCheck() {
+    const host = this.createMockPipelineHost({});
+    const edges = [];
+    let checkedCandidates = [];
+    host.chromaClient.searchSimilar = async () => ({
+      results: [
+        { source_memory_id: 1, source_topic: 'New fact', content: 'Own concept' },
+        { source_memory_id: 2, source_topic: 'Boiling point', content: 'Water boils at 90 degrees' },
+        { source_memory_id: 2, source_topic: 'Boiling point', content: 'Measured at sea level' },
+        { source_memory_id: 3, source_topic: 'Freezing point', content: 'Water freezes at 0 degrees' }
+      ]
+    });
+    host.analyzer.detectContradictions = async (memory, candidates) => {
+      checkedCandidates = candidates;
+      return {
+        contradictions: [
+          { id: 2, confidence: 0.95, explanation: 'Different boiling points' },
+          { id: 3, confidence: 0.4, explanation: 'Unsure' }
+        ]
+      };
+    };
+    host.neo4jClient = {
+      createRelationship: async (fromId, toId, type, properties) => { edges.push({ fromId, toId, type, properties }); }
+    };
+    
+    const context = MemorySavePipeline.createContext('faktenwissen', 'New fact', 'Water boils at 100 degrees at sea level');
+    context.memoryId = 1;
+    context.memoryType = 'faktenwissen';
+    context.stored_in_neo4j = true;
+    await new ContradictionCheckPhase({ maxCandidates: 5, minConfidence: 0.7 }).run(context, host);
+    
+    // Own concepts are skipped, concept hits are grouped per memory
+    if (checkedCandidates.length !== 2 || !checkedCandidates[0].content.includes('sea level')) {
+      throw new Error(`Unexpected candidates: ${JSON.stringify(checkedCandidates)}`);
+    }
+    const flagged = context.extras.contradictions || [];
+    if (flagged.length !== 1 || flagged[0].memory_id !== 2 || !flagged[0].linked) {
+      throw new Error(`Only confident contradictions should be flagged: ${JSON.stringify(flagged)}`);
+    }
+    if (edges.length !== 1 || edges[0].type !== 'CONTRADICTS' || edges[0].toId !== 2 || edges[0].properties.status !== 'open') {
+      throw new Error('Contradictions should be linked with an open CONTRADICTS edge');
+    }
+    
+    // Other memory types are not checked
+    const experience = MemorySavePipeline.createContext('erlebnisse', 'Trip', 'A trip');
+    experience.memoryType = 'erlebnisse';
+    await new ContradictionCheckPhase().run(experience, host);
+    if (experience.extras.contradictions !== undefined) {
+      throw new Error('Only faktenwissen should be checked for contradictions');
+    }
+    
+    // Resolution: keep marks the edge, supersede deletes the conflicting memory
+    const resolved = [];
+    const deleted = [];
+    const db = this.createPipelineDatabase(host, {
+      neo4jClient: {
+        resolveContradiction: async (id, otherId, resolution) => { resolved.push({ id, otherId, resolution }); return 1; },
+        getMemoriesByIds: async (ids) => ids.filter(id => id <= 3).map(id => ({ id, topic: `Fact ${id}`, content: 'graph content', category: 'faktenwissen' })),
+        deleteMemory: async (id) => { deleted.push(id); }
+      }
+    });
+    
+    const keepResult = await db.resolveContradiction(1, 2, 'keep');
+    if (!keepResult.success || keepResult.edges_resolved !== 1 || resolved[0]?.resolution !== 'keep' || deleted.length !== 0) {
+      throw new Error(`keep should only resolve the edge: ${JSON.stringify(keepResult)}`);
+    }
+    
+    // Routed facts only exist in the graph, which is enough to find and delete them
+    db.deleteRoutedMemory = async (id) => id === 2;
+    const supersedeResult = await db.resolveContradiction(1, 2, 'supersede');
+    if (!supersedeResult.success || supersedeResult.removed_memory_id !== 2 || !deleted.includes(2)) {
+      throw new Error(`supersede should delete the conflicting memory: ${JSON.stringify(supersedeResult)}`);
+    }
+    
+    let mergeRejected = false;
+    try {
+      await db.resolveContradiction(1, 3, 'merge');
+    } catch (error) {
+      mergeRejected = true;
+    }
+    if (!mergeRejected) {
+      throw new Error('merge without merged content should be rejected');
+    }
+  }
+
+  async testDuplicateDetectionAndMerge() {
+    const host = this.createMockPipelineHost({
+      semantic_concepts: [{ concept_title: 'Merged', concept_description: 'Merged concept', memory_type: 'erlebnisse' }]
+    });
+    host.chromaClient.findSimilarMemories = async () => ({
+      matches: [
+        { memory_id: 1, similarity: 0.97, concept_title: 'Deploy', source_topic: 'Deploying the server with Docker' },
+        { memory_id: 2, similarity: 0.95, concept_title: 'Docker', source_topic: 'Docker networking basics' },
+        { memory_id: 3, similarity: 0.6, concept_title: 'Deploy', source_topic: 'Deploying the server' }
+      ]
+    });
+    
+    const context = MemorySavePipeline.createContext('erlebnisse', 'Deploying the server with Docker', 'Same insight again');
+    context.memoryId = 4;
+    context.stored_in_chroma = true;
+    await new DuplicateCheckPhase({ similarityThreshold: 0.9, topicOverlapThreshold: 0.5 }).run(context, host);
+    
+    // Only close embeddings with overlapping topics count as duplicates
+    const duplicates = context.extras.duplicates || [];
+    if (duplicates.length !== 1 || duplicates[0].memory_id !== 1 || duplicates[0].topic_overlap !== 1) {
+      throw new Error(`Unexpected duplicates: ${JSON.stringify(duplicates)}`);
+    }
+    
+    // Merging combines the content, moves graph edges and deletes the duplicate
+    const repointed = [];
+    const deletedNodes = [];
+    const db = this.createPipelineDatabase(host, {
+      analyzer: host.analyzer,
+      chromaClient: {
+        storeConcepts: async (memory, concepts) => ({ success: true, stored: concepts.length, errors: [] }),
+        deleteConceptsByMemoryId: async () => ({ success: true, deleted: 1 }),
+        updateConceptSource: async () => ({ success: true, updated: 0 })
+      },
+      neo4jClient: {
+        getMemoriesByIds: async () => [],
+        repointRelationships: async (fromId, toId) => { repointed.push({ fromId, toId }); return 2; },
+        updateMemoryNode: async () => true,
+        replaceMemoryConcepts: async (id, concepts) => concepts.length,
+        deleteMemory: async (id) => { deletedNodes.push(id); }
+      }
+    });
+    
+    await host.saveNewMemory('erlebnisse', 'Deploying the server with Docker', 'Use docker compose up.');
+    await host.saveNewMemory('erlebnisse', 'Deploying the server with Docker', 'Use docker compose up.\n\nCheck the logs afterwards.');
+    
+    const result = await db.mergeMemories(1, [2]);
+    if (!result.success || result.merged_ids[0] !== 2 || !result.reindexed || result.relationships_repointed !== 2) {
+      throw new Error(`Unexpected merge result: ${JSON.stringify(result)}`);
+    }
+    if (host.memories.has(2) || !deletedNodes.includes(2) || repointed[0]?.toId !== 1) {
+      throw new Error('Duplicate should be removed from all stores after its edges were moved');
+    }
+    if (host.memories.get(1).content !== 'Use docker compose up.\n\nCheck the logs afterwards.') {
+      throw new Error(`Target should gain only the new paragraphs of the duplicate: ${host.memories.get(1).content}`);
+    }
+  }
+
+  async testMemoryConsolidation() {
+    const daysAgo = (days) => new Date(Date.now() - days * 86400000).toISOString();
+    const memories = [
+      { id: 1, category: 'erlebnisse', topic: 'Stale', created_at: daysAgo(400), access_count: 0, last_accessed_at: null },
+      { id: 2, category: 'humor', topic: 'Recalled often', created_at: daysAgo(400), access_count: 12, last_accessed_at: daysAgo(1) },
+      { id: 3, category: 'programmieren', topic: 'Well connected', created_at: daysAgo(5), access_count: 0, last_accessed_at: null },
+      { id: 4, category: 'erlebnisse', topic: 'Fresh', created_at: daysAgo(2), access_count: 0, last_accessed_at: null },
+      { id: 5, category: 'kernerinnerungen', topic: 'Protected', created_at: daysAgo(900), access_count: 0, last_accessed_at: null },
+      { id: 6, category: 'erlebnisse', topic: 'Before tracking', created_at: daysAgo(400), access_count: 0, last_accessed_at: null, access_tracked_since: daysAgo(5) }
+    ];
+    const moves = [];
+    let excludedTypes = null;
+    
+    const db = {
+      neo4jClient: {
+        getConnectionCounts: async (ids, excludeTypes) => {
+          excludedTypes = excludeTypes;
+          return new Map([[3, 9], [4, 1]]);
+        }
+      },
+      getConsolidationCandidates: async () => memories.map(memory => ({ ...memory })),
+      updateMemoryCascade: async (id, updates) => {
+        moves.push({ id, category: updates.category });
+        return { success: true, errors: [] };
+      }
+    };
+    
+    // A recall resets the decay clock and every further recall stretches the half-life
+    const now = Date.now();
+    const neverRecalled = MemoryConsolidator.decayScore({ created_at: daysAgo(30), access_count: 0, last_accessed_at: null }, 30, now);
+    const recalled = MemoryConsolidator.decayScore({ created_at: daysAgo(30), access_count: 3, last_accessed_at: daysAgo(30) }, 30, now);
+    if (Math.abs(neverRecalled - 0.5) > 0.01 || recalled <= neverRecalled) {
+      throw new Error(`Unexpected decay scores: ${neverRecalled}, ${recalled}`);
+    }
+    const legacy = MemoryConsolidator.decayScore({ created_at: daysAgo(400), access_count: 0, last_accessed_at: null, access_tracked_since: daysAgo(30) }, 30, now);
+    if (Math.abs(legacy - 0.5) > 0.01) {
+      throw new Error(`Memories from before access tracking should decay from its start: ${legacy}`);
+    }
+    
+    const consolidator = new MemoryConsolidator(db, { halfLifeDays: 30, forgetThreshold: 0.1, promoteAccessCount: 10, promoteConnections: 8, intervalHours: 0 });
+    const preview = await consolidator.consolidate({ dryRun: true });
+    if (!preview.dry_run || moves.length !== 0) {
+      throw new Error('Dry run must not move memories');
+    }
+    if (preview.evaluated !== 5) {
+      throw new Error(`Protected categories should be skipped, evaluated ${preview.evaluated}`);
+    }
+    if (!['SIMILAR_TO', 'SHARES_CONCEPT', 'FOLLOWS'].every(type => excludedTypes?.includes(type))) {
+      throw new Error(`Automatic relationships should not count as connections: ${JSON.stringify(excludedTypes)}`);
+    }
+    const promotedIds = preview.promoted.map(action => action.memory_id).sort();
+    const demotedIds = preview.demoted.map(action => action.memory_id);
+    if (JSON.stringify(promotedIds) !== '[2,3]' || JSON.stringify(demotedIds) !== '[1]') {
+      throw new Error(`Unexpected plan: promoted ${promotedIds}, demoted ${demotedIds}`);
+    }
+    
+    const report = await consolidator.consolidate();
+    if (report.errors.length !== 0 || moves.length !== 3) {
+      throw new Error(`Expected three moves, got ${JSON.stringify(moves)} (${report.errors.join(', ')})`);
+    }
+    if (!moves.some(move => move.id === 1 && move.category === 'forgotten_memories') ||
+        !moves.some(move => move.id === 3 && move.category === 'kernerinnerungen')) {
+      throw new Error(`Unexpected moves: ${JSON.stringify(moves)}`);
+    }
+  }
+
+  async testShortMemoryPromotion() {
+    const host = this.createMockPipelineHost(
+      { semantic_concepts: [{ concept_title: 'Note', concept_description: 'Note', memory_type: 'erlebnisse' }] },
+      { significant: true, reason: 'mock' }
+    );
+    
+    const db = this.createPipelineDatabase(host, {
+      analyzer: host.analyzer,
+      chromaClient: host.chromaClient,
+      shortMemoryManager: ShortMemoryManager.forSQLite(new Database(':memory:'), { maxShortMemories: 2, ttlHours: 0 })
+    });
+    const processor = new PendingWriteProcessor(db, 60000, 2);
+    
+    await db.addToShortMemory({ topic: 'First note', content: 'Oldest note' });
+    await db.addToShortMemory({ topic: 'Routed copy', content: 'Already stored', source_memory_id: 42 });
+    if (host.memories.size !== 0 || host.pendingWrites.length !== 0) {
+      throw new Error('Nothing should be queued while the FIFO has room');
+    }
+    
+    // The evicted note is queued in the outbox, not saved during the add
+    await db.addToShortMemory({ topic: 'Second note', content: 'Newer note' });
+    const queued = host.pendingWrites.filter(write => write.target === 'short_memory');
+    if (host.memories.size !== 0 || queued.length !== 1 || queued[0].payload.memory.topic !== 'First note') {
+      throw new Error(`Evicted note should be queued without saving, got ${JSON.stringify(host.pendingWrites)}`);
+    }
+    
+    // The pending write processor saves it through the save pipeline
+    const run = await processor.processPendingWrites();
+    const saved = Array.from(host.memories.values());
+    if (run.completed !== 1 || saved.length !== 1 || saved[0].topic !== 'First note' || saved[0].category !== 'erlebnisse') {
+      throw new Error(`Evicted note should be saved as erlebnisse, got ${JSON.stringify(saved)}`);
+    }
+    if ((await processor.listInconsistentMemories()).length !== 0) {
+      throw new Error('Queued short memories should not be listed as inconsistent memories');
+    }
+    
+    // Copies of routed memories are already stored and just dropped
+    await db.addToShortMemory({ topic: 'Third note', content: 'Newest note' });
+    const entries = await db.getShortMemories();
+    if (host.pendingWrites.length !== 1 || entries.some(entry => entry.topic === 'Routed copy')) {
+      throw new Error('Evicted routed copy should be dropped without queueing');
+    }
+    
+    // Manual promotion saves the entry and removes it from short memory
+    const secondNote = entries.find(entry => entry.topic === 'Second note');
+    const promotion = await db.promoteShortMemory(secondNote.id);
+    if (!promotion.success || !host.memories.has(promotion.memory.memory_id) || await db.getShortMemoryById(secondNote.id)) {
+      throw new Error(`Manual promotion failed: ${JSON.stringify(promotion)}`);
+    }
+    
+    const missing = await db.promoteShortMemory(999);
+    if (missing.success) {
+      throw new Error('Unknown short memory should not be promoted');
+    }
+  }
+
+  async testShortMemorySessionsAndTtl() {
+    const store = ShortMemoryManager.forSQLite(new Database(':memory:'), { maxShortMemories: 2, ttlHours: 0 });
+    
+    // Every session has its own FIFO, entries without session share one
+    await store.add({ topic: 'A1', content: 'a', session_id: 'session-a' });
+    await store.add({ topic: 'A2', content: 'a', session_id: 'session-a' });
+    await store.add({ topic: 'Global', content: 'g' });
+    const evicted = await store.add({ topic: 'A3', content: 'a', session_id: 'session-a' });
+    if (evicted.length !== 1 || evicted[0].topic !== 'A1') {
+      throw new Error(`Only the oldest entry of session-a should be evicted, got ${JSON.stringify(evicted)}`);
+    }
+    
+    const sessionTopics = (await store.list(10, 'session-a')).map(entry => entry.topic);
+    const globalTopics = (await store.list(10)).map(entry => entry.topic);
+    if (JSON.stringify(sessionTopics) !== '["A3","A2"]' || JSON.stringify(globalTopics) !== '["Global"]') {
+      throw new Error(`Unexpected session scoping: ${sessionTopics} / ${globalTopics}`);
+    }
+    if (await store.count('session-a') !== 2 || await store.clear('session-a') !== 2 || await store.count() !== 1) {
+      throw new Error('Count and clear should be scoped to the session');
+    }
+    
+    // Expired entries are hidden and handed back on the next write
+    const shortLived = ShortMemoryManager.forSQLite(new Database(':memory:'), { maxShortMemories: 5, ttlHours: 0.000001 });
+    await shortLived.add({ topic: 'Expiring', content: 'x' });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    if ((await shortLived.list()).length !== 0) {
+      throw new Error('Expired entry should not be listed');
+    }
+    const expired = await shortLived.add({ topic: 'Fresh', content: 'y' });
+    if (expired.length !== 1 || expired[0].topic !== 'Expiring' || !expired[0].expires_at) {
+      throw new Error(`Expired entry should be evicted, got ${JSON.stringify(expired)}`);
+    }
+  }
+
+  async testConversationSessions() {
+    const host = this.createMockPipelineHost(
+      { semantic_concepts: [{ concept_title: 'Session', concept_description: 'Session', memory_type: 'erlebnisse' }] },
+      { significant: true, reason: 'mock' }
+    );
+    const sessions = new Map();
+    const sessionMemories = [];
+    const summaryInputs = [];
+    const edges = [];
+    const nodes = [];
+    
+    const db = this.createPipelineDatabase(host, {
+      createSession: async (id, title) => { sessions.set(id, { id, title: title || null, started_at: '2025-01-01T10:00:00.000Z', ended_at: null, summary_memory_id: null }); },
+      getSession: async (id) => sessions.get(id) || null,
+      completeSession: async (id, summaryMemoryId) => {
+        Object.assign(sessions.get(id), { ended_at: '2025-01-01T11:00:00.000Z', summary_memory_id: summaryMemoryId });
+        return true;
+      },
+      recordSessionMemories: async (sessionId, memoryIds, action) => {
+        memoryIds.forEach(memory_id => sessionMemories.push({ session_id: sessionId, memory_id, action }));
+      },
+      getSessionMemories: async (sessionId) => sessionMemories.filter(entry => entry.session_id === sessionId),
+      analyzer: {
+        ...host.analyzer,
+        summarizeSession: async (session, memories) => {
+          summaryInputs.push({ session, memories });
+          return { summary: { topic: 'Debugging session', content: 'Worked through the Docker setup together.' } };
+        }
+      },
+      chromaClient: host.chromaClient,
+      neo4jClient: {
+        getMemoriesByIds: async (ids) => ids.includes(7) ? [{ id: 7, category: 'programmieren', topic: 'Routed fact', content: 'Only in the graph' }] : [],
+        createMemoryNodeWithConcepts: async (memory) => { nodes.push(memory.id); return { success: true, nodeId: String(memory.id) }; },
+        createRelationships: async (memoryId, relationships) => {
+          relationships.forEach(relationship => edges.push({ from: memoryId, ...relationship }));
+          return { success: true, relationshipsCreated: relationships.length };
+        }
+      }
+    });
+    
+    // A session without touched memories ends without a summary
+    const empty = await db.beginSession();
+    const emptyResult = await db.endSession(empty.id);
+    if (!emptyResult.success || emptyResult.summary_memory_id || summaryInputs.length !== 0 || !sessions.get(empty.id).ended_at) {
+      throw new Error(`Empty session should end without summary: ${JSON.stringify(emptyResult)}`);
+    }
+    
+    await host.saveNewMemory('erlebnisse', 'Docker setup', 'Set up compose.');
+    await host.saveNewMemory('programmieren', 'Old note', 'Recalled during the session.');
+    const session = await db.beginSession('Docker evening');
+    await db.recordSessionMemories(session.id, [1], 'saved');
+    await db.recordSessionMemories(session.id, [1, 2, 7], 'recalled');
+    
+    const result = await db.endSession(session.id);
+    if (!result.success || result.memories_touched !== 3 || result.relationships_created !== 3) {
+      throw new Error(`Unexpected session result: ${JSON.stringify(result)}`);
+    }
+    
+    // The summary went through the save pipeline: an erlebnisse memory in every store, linked to each touched memory once
+    const summary = host.memories.get(result.summary_memory_id);
+    if (summary?.category !== 'erlebnisse' || summary.topic !== 'Debugging session' || !nodes.includes(summary.id)) {
+      throw new Error(`Summary memory not stored as erlebnisse: ${JSON.stringify(summary)}`);
+    }
+    const linked = edges.map(edge => `${edge.from}->${edge.targetId}:${edge.relationshipType}:${edge.properties.action}`).sort();
+    const expected = [`${summary.id}->1:SUMMARIZES:saved`, `${summary.id}->2:SUMMARIZES:recalled`, `${summary.id}->7:SUMMARIZES:recalled`];
+    if (JSON.stringify(linked) !== JSON.stringify(expected)) {
+      throw new Error(`Unexpected SUMMARIZES edges: ${linked}`);
+    }
+    if (summaryInputs[0].session.title !== 'Docker evening' || sessions.get(session.id).summary_memory_id !== summary.id) {
+      throw new Error('Session record should carry the title and the summary memory');
+    }
+    
+    let rejected = false;
+    try {
+      await db.endSession(session.id);
+    } catch {
+      rejected = true;
+    }
+    if (!rejected) {
+      throw new Error('Ending a session twice should fail');
+    }
+  }
+
+  async testSearchFusion() {
+    // SQLite bm25 ranks are lower-is-better, ChromaDB reports one hit per concept
+    const sql = [
+      { id: 1, topic: 'Docker compose', rank: -4.2 },
+      { id: 2, topic: 'Docker volumes', rank: -2.1 },
+      { id: 3, topic: 'Docker logs', rank: -0.5 }
+    ];
+    const chroma = [
+      { id: 3, topic: 'Docker logs', similarity: 0.91 },
+      { id: 3, topic: 'Docker logs', similarity: 0.85 },
+      { id: 4, topic: 'Container networking', similarity: 0.8 },
+      { id: 5, topic: 'Kubernetes', similarity: 0.6 },
+      { id: 1, topic: 'Docker compose', similarity: 0.4 }
+    ];
+    const fusion = new SearchFusion({ method: 'rrf', rrfK: 60, weights: { sql: 1, chroma: 1 } });
+    
+    // Found by both sources beats a single top rank; every source keeps its rank and raw score
+    const rrf = fusion.fuse({ sql, chroma });
+    const order = rrf.results.map(result => result.id);
+    if (JSON.stringify(order) !== '[3,1,2,4,5]') {
+      throw new Error(`Unexpected RRF order: ${order}`);
+    }
+    const top = rrf.results[0];
+    if (top.source !== 'both' || top.source_ranks.sql.rank !== 3 || top.source_ranks.chroma.rank !== 1 || top.source_ranks.chroma.score !== 0.91) {
+      throw new Error(`Source ranks not kept: ${JSON.stringify(top.source_ranks)}`);
+    }
+    if (Math.abs(top.fusion_score - (1 / 63 + 1 / 61)) > 1e-9 || rrf.results[3].source !== 'chroma') {
+      throw new Error(`Unexpected fusion scores: ${JSON.stringify(rrf.results)}`);
+    }
+    
+    // Per-call weights can silence a source
+    const vectorOnly = fusion.fuse({ sql, chroma }, { weights: { sql: 0 } });
+    if (vectorOnly.results[0].id !== 3 || vectorOnly.results[1].id !== 4 || vectorOnly.settings.weights.chroma !== 1) {
+      throw new Error(`Weights not applied: ${vectorOnly.results.map(result => result.id)}`);
+    }
+    
+    // Score fusion normalizes per source, the best ranked result of each list gets 1
+    const scored = fusion.fuse({ sql, chroma }, { method: 'score' });
+    const scores = Object.fromEntries(scored.results.map(result => [result.id, Math.round(result.fusion_score * 1000) / 1000]));
+    if (scored.settings.method !== 'score' || scores[1] !== 1 || scores[3] !== 1 || scores[4] !== 0.784 || scores[2] !== 0.432) {
+      throw new Error(`Unexpected normalized scores: ${JSON.stringify(scores)}`);
+    }
+  }
+
+  async testSearchCursors() {
+    const store = new SearchCursorStore({ ttlMinutes: 5, maxSnapshots: 2 });
+    const result = { results: [1, 2, 3, 4, 5].map(id => ({ id })), sources: { sql: { count: 5 } } };
+    
+    // Pages are cut from the stored ranking, a limit on a later page overrides the page size
+    const first = store.snapshot('search_memories_intelligent', result, 2);
+    const second = store.page(first.next_cursor, 'search_memories_intelligent');
+    const last = store.page(second.page.next_cursor, 'search_memories_intelligent', 5);
+    const ids = (page) => page.results.map(entry => entry.id).join();
+    if (ids(first) !== '1,2' || ids(second.page) !== '3,4' || ids(last.page) !== '5' || last.page.next_cursor !== null) {
+      throw new Error(`Unexpected pages: ${ids(first)} / ${ids(second.page)} / ${ids(last.page)}`);
+    }
+    if (second.page.offset !== 2 || second.page.total !== 5 || second.result.sources.sql.count !== 5) {
+      throw new Error('Pages should report their position and the stored search result');
+    }
+    
+    const rejects = (action) => {
+      try {
+        action();
+        return false;
+      } catch {
+        return true;
+      }
+    };
+    if (!rejects(() => store.page(first.next_cursor, 'search_memories_with_graph')) || !rejects(() => store.page('not-a-cursor', 'search_memories_intelligent'))) {
+      throw new Error('Cursors of other tools and malformed cursors should be rejected');
+    }
+    
+    // The least recently used snapshot is dropped beyond maxSnapshots
+    store.snapshot('search_memories_with_graph', result, 2);
+    store.snapshot('search_memories_with_graph', result, 2);
+    if (!rejects(() => store.page(first.next_cursor, 'search_memories_intelligent'))) {
+      throw new Error('Dropped snapshots should report an expired cursor');
+    }
+    
+    // Listing cursors carry the keyset position of the last row of a full page
+    const rows = [
+      { id: 9, created_at: '2025-03-03T10:00:00.000Z' },
+      { id: 7, created_at: '2025-03-02T10:00:00.000Z' },
+      { id: 4, created_at: '2025-03-01T10:00:00.000Z' }
+    ];
+    const cursor = SearchCursorStore.listingCursor('category', rows, 2, 'erlebnisse');
+    const position = SearchCursorStore.listingPosition(cursor, 'category', 'erlebnisse');
+    if (position.id !== 7 || position.created_at !== rows[1].created_at || SearchCursorStore.listingCursor('category', rows, 3, 'erlebnisse') !== null) {
+      throw new Error(`Unexpected listing cursor position: ${JSON.stringify(position)}`);
+    }
+    if (!rejects(() => SearchCursorStore.listingPosition(cursor, 'category', 'forgotten_memories')) || !rejects(() => SearchCursorStore.listingPosition(cursor, 'recent'))) {
+      throw new Error('Listing cursors should only be valid for their own listing');
+    }
+  }
+
   async cleanupTestData() {
     // This method is no longer needed as we use unique identifiers
     // but keeping it for backward compatibility
@@ -418,6 +1330,20 @@ class MemoryPipelineTests {
     await this.runTest('Memory Consistency', () => this.testMemoryConsistency());
     await this.runTest('Memory Backup & Restore', () => this.testMemoryBackupRestore());
     await this.runTest('Concurrent Memory Operations', () => this.testConcurrentMemoryOperations());
+    await this.runTest('Save Pipeline Phases', () => this.testSavePipelinePhases());
+    await this.runTest('Pending Write Retry', () => this.testPendingWriteRetry());
+    await this.runTest('Cross-Store Consistency Check', () => this.testConsistencyChecker());
+    await this.runTest('Cascade Delete and Update', () => this.testCascadeDeleteAndUpdate());
+    await this.runTest('Relationship Builder', () => this.testRelationshipBuilder());
+    await this.runTest('LLM Relation Inference Phase', () => this.testRelationInferencePhase());
+    await this.runTest('Contradiction Check and Resolution', () => this.testContradictionCheck());
+    await this.runTest('Duplicate Detection and Merge', () => this.testDuplicateDetectionAndMerge());
+    await this.runTest('Memory Consolidation', () => this.testMemoryConsolidation());
+    await this.runTest('Short Memory Eviction and Promotion', () => this.testShortMemoryPromotion());
+    await this.runTest('Short Memory Sessions and TTL', () => this.testShortMemorySessionsAndTtl());
+    await this.runTest('Conversation Sessions', () => this.testConversationSessions());
+    await this.runTest('Search Fusion', () => this.testSearchFusion());
+    await this.runTest('Search Cursors', () => this.testSearchCursors());
     
     // Cleanup containers
     if (this.containerManager) {
@@ -21,6 +21,8 @@ dotenv.config({ path: envPath });
 
 import { DatabaseFactory } from '../build/database/DatabaseFactory.js';
 import { MemoryPipelineBase } from '../build/database/MemoryPipelineBase.js';
+import { SearchFilterTranslator } from '../build/database/SearchFilters.js';
+import { TemporalQueryParser } from '../build/utils/TemporalQueryParser.js';
 
 const COLORS = {
   reset: '\x1b[0m',
@@ -265,6 +267,262 @@ class SearchPipelineTests {
     }
   }
 
+  async testLLMReranking() {
+    const db = new TestDatabase();
+    db.searchMemoriesBasic = async () => db.memories.map(memory => ({ ...memory }));
+    
+    // Scores memory 3 highest for the first batch call, then returns malformed output
+    let calls = 0;
+    db.analyzer.scoreRelevance = async (query, candidates) => {
+      calls++;
+      if (calls > 1) return { error: 'Failed to parse relevance scores: unexpected token' };
+      return {
+        scores: candidates.map(candidate => ({
+          id: candidate.id,
+          relevance: candidate.id === 3 ? 0.95 : 0.2,
+          justification: `Mock relevance for ${candidate.id}`
+        }))
+      };
+    };
+    
+    const results = await db.searchMemoriesIntelligent('deployment', undefined, true, 'llm');
+    
+    if (!results.reranked || results.rerank_strategy !== 'llm') {
+      throw new Error('LLM reranking was not applied');
+    }
+    
+    const top = results.results[0];
+    if (!top || top.id !== 3 || top.llm_relevance !== 0.95 || !top.relevance_justification) {
+      throw new Error('LLM relevance scores were not used for ordering');
+    }
+    
+    // Candidates the LLM left unscored rank after all scored ones, even the best text match
+    db.analyzer.scoreRelevance = async (query, candidates) => ({
+      scores: candidates
+        .filter(candidate => candidate.id !== 2)
+        .map(candidate => ({ id: candidate.id, relevance: 0.1, justification: `Mock relevance for ${candidate.id}` }))
+    });
+    const mixed = await db.searchMemoriesIntelligent('deployment', undefined, true, 'llm');
+    const unscored = mixed.results.find(result => result.id === 2);
+    const lastScored = mixed.results.map(result => !result.rerank_fallback).lastIndexOf(true);
+    
+    if (!unscored?.rerank_fallback || mixed.results.indexOf(unscored) < lastScored || unscored.rerank_score !== unscored.text_score) {
+      throw new Error('Unscored LLM candidates were mixed into the relevance order');
+    }
+    
+    // Malformed LLM output must fall back instead of failing the search
+    db.analyzer.scoreRelevance = async () => ({ error: 'Failed to parse relevance scores: no JSON' });
+    const fallback = await db.searchMemoriesIntelligent('deployment', undefined, true, 'llm');
+    
+    if (!fallback.reranked || fallback.results.length === 0 || !fallback.results.every(result => result.rerank_fallback)) {
+      throw new Error('LLM reranking did not fall back to text similarity');
+    }
+  }
+
+  async testSearchFilters() {
+    const filters = SearchFilterTranslator.parse({
+      categories: 'programmieren',
+      keywords: ['Docker'],
+      dateFrom: '2025-01-01',
+      minConfidence: 0.7,
+      sources: ['sql', 'chroma']
+    });
+    if (JSON.stringify(filters.categories) !== '["programmieren"]' || filters.keywords[0] !== 'docker' || filters.moods !== undefined) {
+      throw new Error(`Unexpected parsed filters: ${JSON.stringify(filters)}`);
+    }
+    for (const invalid of [{ dateFrom: '01.01.2025' }, { minConfidence: 2 }, { sources: ['redis'] }, { dateFrom: '2025-02-01', dateTo: '2025-01-01' }]) {
+      let rejected = false;
+      try {
+        SearchFilterTranslator.parse(invalid);
+      } catch {
+        rejected = true;
+      }
+      if (!rejected) throw new Error(`Invalid filters accepted: ${JSON.stringify(invalid)}`);
+    }
+    
+    // SQL cannot evaluate concept confidence, Neo4j is not among the sources
+    if (SearchFilterTranslator.appliesTo(filters, 'sql') || !SearchFilterTranslator.appliesTo(filters, 'chroma') || SearchFilterTranslator.appliesTo(filters, 'neo4j')) {
+      throw new Error('Unexpected store selection');
+    }
+    
+    let index = 1;
+    const sql = SearchFilterTranslator.toSql(filters, { dialect: 'postgresql', placeholder: () => `$${index++}` });
+    if (sql.clauses.join(' AND ') !== 'category IN ($1) AND (topic ILIKE $2 OR content ILIKE $3) AND date >= $4' || sql.params.length !== 4) {
+      throw new Error(`Unexpected SQL filter: ${sql.clauses.join(' AND ')}`);
+    }
+    
+    // ChromaDB filters on source_category; keywords and dates are checked on the hits
+    const where = SearchFilterTranslator.toChromaWhere(filters);
+    if (JSON.stringify(where) !== '{"$and":[{"source_category":{"$in":["programmieren"]}},{"confidence":{"$gte":0.7}}]}') {
+      throw new Error(`Unexpected ChromaDB filter: ${JSON.stringify(where)}`);
+    }
+    const hit = { source_topic: 'Container setup', source_date: '2025-03-01', keywords: '["docker","compose"]' };
+    if (!SearchFilterTranslator.matchesConcept(hit, filters) || SearchFilterTranslator.matchesConcept({ ...hit, source_date: '2024-12-31' }, filters)) {
+      throw new Error('Concept check should apply keywords and the date range');
+    }
+    
+    const cypher = SearchFilterTranslator.toCypher(filters);
+    if (cypher.predicates.length !== 4 || cypher.params.filterCategories[0] !== 'programmieren' || cypher.params.filterMinConfidence !== 0.7) {
+      throw new Error(`Unexpected Cypher filter: ${JSON.stringify(cypher)}`);
+    }
+    
+    // The intelligent search skips stores that cannot evaluate the filters
+    const sqlCalls = [];
+    const chromaCalls = [];
+    const db = new TestDatabase();
+    db.searchMemoriesBasic = async (query, categories, searchFilters) => {
+      sqlCalls.push(searchFilters);
+      return [{ id: 1, topic: 'Docker', category: 'programmieren', rank: -1 }];
+    };
+    db.chromaClient = {
+      searchSimilar: async (query, limit, categories, searchFilters) => {
+        chromaCalls.push(searchFilters);
+        return { results: [{ source_memory_id: 2, source_topic: 'Happy deploy', similarity_score: 0.9 }] };
+      }
+    };
+    
+    const moodSearch = await db.searchMemoriesIntelligent('deploy', ['programmieren'], false, 'hybrid', {}, { moods: ['happy'] });
+    if (sqlCalls.length !== 0 || chromaCalls[0]?.categories?.[0] !== 'programmieren' || moodSearch.results.length !== 1 || moodSearch.results[0].id !== 2) {
+      throw new Error(`Mood filter should only search ChromaDB: ${JSON.stringify(moodSearch.sources)}`);
+    }
+    if (!moodSearch.sources.sql.source.includes('skipped') || moodSearch.filters.moods[0] !== 'happy') {
+      throw new Error('Skipped store and filters should be reported');
+    }
+    
+    const sqlOnly = await db.searchMemoriesIntelligent('deploy', undefined, false, 'hybrid', {}, { sources: ['sql'], keywords: ['docker'] });
+    if (sqlCalls.length !== 1 || chromaCalls.length !== 1 || sqlOnly.results[0]?.id !== 1) {
+      throw new Error('Sources filter should limit the search to SQL');
+    }
+  }
+
+  async testTemporalQueryParsing() {
+    // Thursday, 2026-10-15
+    const now = new Date(2026, 9, 15, 14, 30);
+    const cases = [
+      ['what did we decide last Tuesday', 'what did we decide', '2026-10-13', '2026-10-13'],
+      ['erlebnisse from March', 'erlebnisse', '2026-03-01', '2026-03-31'],
+      ['Erlebnisse im November', 'Erlebnisse', '2025-11-01', '2025-11-30'],
+      ['letzte Woche', '', '2026-10-05', '2026-10-11'],
+      ['Docker seit März', 'Docker', '2026-03-01', '2026-10-15'],
+      ['Urlaub vor zwei Wochen', 'Urlaub', '2026-09-28', '2026-10-04'],
+      ['Notizen der letzten 7 Tage', 'Notizen der', '2026-10-08', '2026-10-15'],
+      ['diesen Monat', '', '2026-10-01', '2026-10-15'],
+      ['release on 2025-03-14', 'release', '2025-03-14', '2025-03-14']
+    ];
+    
+    for (const [query, remaining, from, to] of cases) {
+      const parsed = TemporalQueryParser.parse(query, now);
+      if (parsed.query !== remaining || parsed.range?.from !== from || parsed.range?.to !== to) {
+        throw new Error(`Unexpected parse of "${query}": ${JSON.stringify(parsed)}`);
+      }
+    }
+    
+    // Modal verbs, version numbers and impossible dates are no time expressions
+    for (const query of ['we may deploy', 'node 2024 release notes', 'am 31.02.2025']) {
+      const parsed = TemporalQueryParser.parse(query, now);
+      if (parsed.range !== null || parsed.query !== query) {
+        throw new Error(`"${query}" should not be read as a date: ${JSON.stringify(parsed)}`);
+      }
+    }
+    
+    const sqlCalls = [];
+    const db = new TestDatabase();
+    db.searchMemoriesBasic = async (query, categories, searchFilters) => {
+      sqlCalls.push({ query, searchFilters });
+      return [{ id: 1, topic: 'Docker', category: 'programmieren', rank: -1 }];
+    };
+    
+    // The time expression becomes the date filter, the rest is searched
+    const result = await db.searchMemoriesIntelligent('Docker yesterday', undefined, false);
+    if (sqlCalls[0].query !== 'Docker' || sqlCalls[0].searchFilters.dateFrom !== result.temporal?.from || result.temporal.expression !== 'yesterday') {
+      throw new Error(`Time expression not applied: ${JSON.stringify({ call: sqlCalls[0], temporal: result.temporal })}`);
+    }
+    
+    // Explicit dates win and leave the query alone
+    const explicit = await db.searchMemoriesIntelligent('Docker yesterday', undefined, false, 'hybrid', {}, { dateFrom: '2025-01-01' });
+    if (sqlCalls[1].query !== 'Docker yesterday' || sqlCalls[1].searchFilters.dateTo !== undefined || explicit.temporal !== undefined) {
+      throw new Error('Explicit date filters should take precedence');
+    }
+  }
+
+  async testSearchExplanations() {
+    const recent = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString();
+    const db = new TestDatabase();
+    db.searchMemoriesBasic = async () => [
+      { id: 1, topic: 'Docker compose setup', content: 'Services with compose', category: 'programmieren', rank: -2.5, created_at: recent },
+      { id: 2, topic: 'Kubernetes', content: 'Cluster notes', category: 'programmieren', rank: -0.5, created_at: '2020-01-01T00:00:00.000Z' }
+    ];
+    db.chromaClient = {
+      searchSimilar: async () => ({ results: [
+        { source_memory_id: 2, source_topic: 'Kubernetes', content: 'Cluster notes', similarity_score: 0.8, distance: 0.2 }
+      ] })
+    };
+    db.neo4jClient = {
+      searchMemoriesBySemanticConcepts: async () => ({ memories: [
+        { id: 3, topic: 'Compose networking', content: 'Docker networks', category: 'programmieren', metadata: { similarity_score: 0.7 } },
+        { id: 1, topic: 'Docker compose setup', content: 'Services with compose', category: 'programmieren', metadata: { similarity_score: 0.6 } }
+      ] })
+    };
+    
+    const plain = await db.searchMemoriesIntelligent('docker compose', undefined, true, 'hybrid');
+    if (plain.results.some(result => result.explanation)) {
+      throw new Error('Explanations should only be attached in explain mode');
+    }
+    
+    const explained = await db.searchMemoriesIntelligent('docker compose', undefined, true, 'hybrid', {}, {}, true);
+    const [first, second] = explained.results;
+    if (first.id !== 1 || first.explanation.position !== 1 || second.explanation.position !== 2) {
+      throw new Error(`Unexpected explained order: ${JSON.stringify(explained.results.map(result => result.id))}`);
+    }
+    if (first.explanation.source_ranks.sql?.rank !== 1 || first.explanation.source_ranks.chroma || first.explanation.matched_terms.join() !== 'docker,compose') {
+      throw new Error(`Unexpected explanation of the SQL hit: ${JSON.stringify(first.explanation)}`);
+    }
+    if (second.explanation.vector_distance !== 0.2 || second.explanation.source_ranks.chroma?.rank !== 1 || second.explanation.fusion_score <= 0) {
+      throw new Error(`Unexpected explanation of the vector hit: ${JSON.stringify(second.explanation)}`);
+    }
+    
+    // The reranking score is the sum of its components
+    for (const result of explained.results) {
+      const { rerank } = result.explanation;
+      const sum = rerank.components.reduce((total, component) => total + component.value, 0);
+      if (rerank.strategy !== 'hybrid' || Math.abs(sum - rerank.score) > 1e-9) {
+        throw new Error(`Components do not add up for memory ${result.id}: ${JSON.stringify(rerank)}`);
+      }
+    }
+    if (!first.explanation.rerank.components.some(component => component.signal === 'recency') || first.explanation.days_since_use !== 3) {
+      throw new Error('Recency bonus should be explained');
+    }
+    
+    const unranked = await db.searchMemoriesIntelligent('docker compose', undefined, false, 'hybrid', {}, {}, true);
+    if (unranked.results[0].explanation.rerank !== null) {
+      throw new Error('Without reranking the explanation should not report reranking');
+    }
+    
+    // Graph search explains graph hits with their Neo4j rank
+    const graph = await db.searchMemoriesWithGraph('docker compose', undefined, false, 2, {}, true);
+    const graphHit = graph.results.find(result => result.id === 3);
+    const graphSum = (graphHit?.explanation.rerank.components || []).reduce((total, component) => total + component.value, 0);
+    if (graphHit?.explanation.source_ranks.neo4j?.rank !== 1 || graphHit.explanation.rerank.strategy !== 'graph'
+      || Math.abs(graphSum - graphHit.explanation.rerank.score) > 1e-9) {
+      throw new Error(`Unexpected graph explanation: ${JSON.stringify(graphHit?.explanation)}`);
+    }
+    
+    // Graph-only hits are labelled neo4j, hits of SQL or ChromaDB keep their label
+    const signals = (result) => result.explanation.rerank.components.map(component => component.signal);
+    const sqlAndGraphHit = graph.results.find(result => result.id === 1);
+    const sqlAndVectorHit = graph.results.find(result => result.id === 2);
+    if (graphHit.source !== 'neo4j' || !signals(graphHit).includes('graph_native') || signals(graphHit).includes('source_diversity')) {
+      throw new Error(`Graph-only hit should get the graph-native bonus: ${JSON.stringify(graphHit)}`);
+    }
+    const diversity = sqlAndGraphHit?.explanation.rerank.components.find(component => component.signal === 'source_diversity');
+    if (sqlAndGraphHit?.source !== 'sql' || !sqlAndGraphHit.in_graph || diversity?.detail !== 'SQL + graph hit' || signals(sqlAndGraphHit).includes('graph_native')) {
+      throw new Error(`SQL hit found in the graph should keep its label: ${JSON.stringify(sqlAndGraphHit)}`);
+    }
+    if (sqlAndVectorHit?.source !== 'both' || sqlAndVectorHit.in_graph || !signals(sqlAndVectorHit).includes('source_diversity')) {
+      throw new Error(`SQL and vector hit should keep its label: ${JSON.stringify(sqlAndVectorHit)}`);
+    }
+  }
+
   async testSearchWithDifferentCategories() {
     const db = new TestDatabase();
     
@@ -394,6 +652,10 @@ class SearchPipelineTests {
     await this.runTest('Basic Search Functionality', () => this.testBasicSearch());
     await this.runTest('Unified Search (Vector + Graph)', () => this.testUnifiedSearch());
     await this.runTest('Intelligent Reranking', () => this.testIntelligentReranking());
+    await this.runTest('LLM Reranking', () => this.testLLMReranking());
+    await this.runTest('Search Filters', () => this.testSearchFilters());
+    await this.runTest('Temporal Query Parsing', () => this.testTemporalQueryParsing());
+    await this.runTest('Search Explanations', () => this.testSearchExplanations());
     await this.runTest('Category-based Search', () => this.testSearchWithDifferentCategories());
     await this.runTest('Enhanced Search Capabilities', () => this.testEnhancedSearchCapabilities());
     await this.runTest('Search Performance', () => this.testSearchPerformance());